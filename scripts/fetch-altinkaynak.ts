@@ -1,209 +1,76 @@
 /**
- * Fetch historical data from altinkaynak.com
+ * Fetch historical data from altinkaynak.com archive pages
  *
  * URLs:
  * - Gold/Metals: https://www.altinkaynak.com/Altin/Arsiv
  * - Forex: https://www.altinkaynak.com/Doviz/Arsiv
+ *
+ * Usage: tsx scripts/fetch-altinkaynak.ts [days=30] [metals|fx]
+ * Run `npm run db:rollups` afterwards so candles and history pick up the new rows.
  */
 
 import { db } from '../src/config/database';
 import { quotes } from '../src/db/schema';
+import { AltinkaynakService } from '../src/services/data-sources/altinkaynak.service';
+import type { RateCategory } from '../src/types/api.types';
 import { logger } from '../src/utils/logger';
 
-interface AltinkaynakDataPoint {
-  date: string; // YYYY-MM-DD
-  instrumentId: string;
-  price: number;
-  buy?: number;
-  sell?: number;
-}
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BATCH_SIZE = 100;
 
-/**
- * Fetch HTML page with date range
- * Note: This is a placeholder - actual implementation needs to handle:
- * 1. Form submission with date range
- * 2. Parsing the response HTML/JSON
- * 3. Extracting price data
- */
-async function fetchAltinkaynakPage(
-  url: string,
-  startDate: string,
-  endDate: string
-): Promise<string> {
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-      'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7)',
-    },
-    body: new URLSearchParams({
-      baslangic: startDate, // Format might be DD.MM.YYYY
-      bitis: endDate,
-    }),
-  });
-
-  if (!response.ok) {
-    throw new Error(`Failed to fetch: ${response.status}`);
-  }
-
-  return response.text();
-}
+const service = new AltinkaynakService();
 
 /**
- * Parse HTML/JSON response to extract price data
- * This needs to be implemented based on actual response structure
+ * Fetch one archive day per request and insert the parsed quotes
  */
-function parseAltinkaynakResponse(html: string, category: 'metals' | 'fx'): AltinkaynakDataPoint[] {
-  // TODO: Implement HTML parsing
-  // The page likely contains a table or JSON with:
-  // - Date
-  // - Instrument names (Gram Altın, Çeyrek Altın, etc.)
-  // - Buy/Sell prices
-
-  logger.warn('parseAltinkaynakResponse not fully implemented');
-  return [];
-}
+async function fetchCategory(category: RateCategory, days: number): Promise<number> {
+  let inserted = 0;
 
-/**
- * Map altinkaynak instrument names to our instrument IDs
- */
-const INSTRUMENT_MAPPING: Record<string, string> = {
-  'Gram Altın': 'gram',
-  'Çeyrek Altın': 'ceyrek',
-  'Yarım Altın': 'yarim',
-  'Tam Altın': 'tam',
-  'Ata Lira': 'ata',
-  'Has Altın': 'has',
-  '22 Ayar': '22ayar',
-  'Gremse': 'gremse',
-  'Gümüş (gr)': 'gumus_gram',
-  'Ons Altın': 'ons',
-  'Dolar': 'USDTRY',
-  'Euro': 'EURTRY',
-  'Sterlin': 'GBPTRY',
-};
+  for (let offset = days; offset >= 1; offset--) {
+    const date = new Date(Date.now() - offset * DAY_MS);
 
-/**
- * Insert fetched data into database
- */
-async function saveToDatabase(dataPoints: AltinkaynakDataPoint[]): Promise<void> {
-  let inserted = 0;
+    // Arşiv hafta sonu yayın yapmaz
+    if (date.getDay() === 0 || date.getDay() === 6) continue;
 
-  for (const point of dataPoints) {
-    try {
-      // Convert date string to Unix timestamp (noon on that day)
-      const date = new Date(point.date + 'T12:00:00Z');
-      const ts = Math.floor(date.getTime() / 1000);
-
-      await db.insert(quotes).values({
-        instrumentId: point.instrumentId,
-        ts,
-        price: point.price.toFixed(6),
-        buy: point.buy ? point.buy.toFixed(6) : null,
-        sell: point.sell ? point.sell.toFixed(6) : null,
-        source: 'altinkaynak',
-        rawData: JSON.stringify(point),
-        createdAt: new Date(),
-      });
-
-      inserted++;
-    } catch (error) {
-      // Likely duplicate, skip
-      if (error instanceof Error && !error.message.includes('duplicate')) {
-        logger.error({ error, point }, 'Failed to insert quote');
-      }
+    const dayQuotes = await service.fetchArchive(category, date);
+    if (dayQuotes.length === 0) {
+      logger.warn({ category, date: date.toISOString().split('T')[0] }, 'No archive data for day');
+      continue;
     }
-  }
 
-  logger.info({ inserted, total: dataPoints.length }, 'Saved altinkaynak data to database');
-}
+    const records = dayQuotes.map((quote) => ({
+      instrumentId: quote.instrumentId,
+      ts: quote.ts,
+      price: quote.price.toFixed(6),
+      buy: quote.buy !== null ? quote.buy.toFixed(6) : null,
+      sell: quote.sell !== null ? quote.sell.toFixed(6) : null,
+      source: quote.source,
+      rawData: JSON.stringify(quote.rawData),
+    }));
+
+    for (let i = 0; i < records.length; i += BATCH_SIZE) {
+      await db.insert(quotes).values(records.slice(i, i + BATCH_SIZE));
+    }
+    inserted += records.length;
 
-/**
- * Fetch and save historical gold data
- */
-export async function fetchHistoricalMetals(startDate: string, endDate: string): Promise<void> {
-  logger.info({ startDate, endDate }, 'Fetching historical metals from altinkaynak.com');
-
-  try {
-    const html = await fetchAltinkaynakPage(
-      'https://www.altinkaynak.com/Altin/Arsiv',
-      startDate,
-      endDate
-    );
-
-    const dataPoints = parseAltinkaynakResponse(html, 'metals');
-    await saveToDatabase(dataPoints);
-
-    logger.info('Historical metals fetch completed');
-  } catch (error) {
-    logger.error({ error }, 'Failed to fetch historical metals');
-    throw error;
+    // Wait 1 second between requests to be polite
+    await new Promise((resolve) => setTimeout(resolve, 1000));
   }
-}
 
-/**
- * Fetch and save historical forex data
- */
-export async function fetchHistoricalForex(startDate: string, endDate: string): Promise<void> {
-  logger.info({ startDate, endDate }, 'Fetching historical forex from altinkaynak.com');
-
-  try {
-    const html = await fetchAltinkaynakPage(
-      'https://www.altinkaynak.com/Doviz/Arsiv',
-      startDate,
-      endDate
-    );
-
-    const dataPoints = parseAltinkaynakResponse(html, 'fx');
-    await saveToDatabase(dataPoints);
-
-    logger.info('Historical forex fetch completed');
-  } catch (error) {
-    logger.error({ error }, 'Failed to fetch historical forex');
-    throw error;
-  }
+  return inserted;
 }
 
-/**
- * Main function - fetch last 10 years of data
- */
 async function main() {
-  const endDate = new Date();
-  const startDate = new Date();
-  startDate.setFullYear(startDate.getFullYear() - 10);
+  const days = parseInt(process.argv[2] || '30', 10);
+  const categories: RateCategory[] = process.argv[3] ? [process.argv[3] as RateCategory] : ['metals', 'fx'];
 
-  const formatDate = (date: Date) => {
-    return date.toISOString().split('T')[0]; // YYYY-MM-DD
-  };
+  logger.info({ days, categories }, 'Starting altinkaynak.com historical data fetch');
 
-  logger.info('Starting altinkaynak.com historical data fetch');
-
-  // Fetch in 1-year chunks to avoid timeouts
-  for (let year = 0; year < 10; year++) {
-    const chunkStart = new Date(startDate);
-    chunkStart.setFullYear(chunkStart.getFullYear() + year);
-
-    const chunkEnd = new Date(chunkStart);
-    chunkEnd.setFullYear(chunkEnd.getFullYear() + 1);
-
-    if (chunkEnd > endDate) {
-      chunkEnd.setTime(endDate.getTime());
-    }
-
-    logger.info({ year, start: formatDate(chunkStart), end: formatDate(chunkEnd) }, 'Fetching year chunk');
-
-    try {
-      await fetchHistoricalMetals(formatDate(chunkStart), formatDate(chunkEnd));
-      await fetchHistoricalForex(formatDate(chunkStart), formatDate(chunkEnd));
-
-      // Wait 1 second between requests to be polite
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-    } catch (error) {
-      logger.error({ error, year }, 'Failed to fetch year chunk, continuing...');
-    }
+  for (const category of categories) {
+    const inserted = await fetchCategory(category, days);
+    logger.info({ category, inserted }, 'Altinkaynak archive fetch completed');
   }
 
-  logger.info('Altinkaynak.com historical data fetch completed');
   process.exit(0);
 }
 
@@ -0,0 +1,46 @@
+import { readFile } from 'node:fs/promises';
+import { CpiService, parseCpiCsv, parseCpiJson } from '../src/services/cpi.service';
+import { EvdsService } from '../src/services/data-sources/evds.service';
+import { closeDatabaseConnection } from '../src/config/database';
+import { logger } from '../src/utils/logger';
+
+/**
+ * Load monthly TÜFE index values into cpi_index.
+ *
+ * Usage:
+ *   npm run db:cpi -- tufe.csv     # CSV: period;value (TÜİK/EVDS export, TR or EN headers)
+ *   npm run db:cpi -- tufe.json    # JSON: [{ "period": "2024-01", "value": 1984.02 }, ...]
+ *   npm run db:cpi -- --evds       # TCMB EVDS (EVDS_API_KEY or EVDS_FIXTURE_PATH)
+ */
+async function importCpi() {
+  const arg = process.argv[2];
+  const cpiService = new CpiService();
+
+  if (!arg) {
+    logger.error('Usage: npm run db:cpi -- <file.csv|file.json|--evds>');
+    process.exit(1);
+  }
+
+  try {
+    let count: number;
+
+    if (arg === '--evds') {
+      const points = await new EvdsService().fetchCpi();
+      count = await cpiService.upsert(points, 'evds');
+    } else {
+      const text = await readFile(arg, 'utf8');
+      const points = arg.toLowerCase().endsWith('.json') ? parseCpiJson(JSON.parse(text)) : parseCpiCsv(text);
+      count = await cpiService.upsert(points, 'import');
+    }
+
+    logger.info({ count }, 'CPI import completed');
+    await closeDatabaseConnection();
+    process.exit(0);
+  } catch (error) {
+    logger.error({ err: error }, 'CPI import failed');
+    await closeDatabaseConnection();
+    process.exit(1);
+  }
+}
+
+importCpi();
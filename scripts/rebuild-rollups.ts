@@ -0,0 +1,31 @@
+import { RollupService } from '../src/services/rollup.service';
+import { closeDatabaseConnection } from '../src/config/database';
+import { logger } from '../src/utils/logger';
+
+/**
+ * Rebuild quote_rollups_hourly / quote_rollups_daily from the quotes table.
+ * Run after historical backfills or manual data fixes.
+ *
+ * Usage:
+ *   npm run db:rollups                 # all instruments
+ *   npm run db:rollups -- gram ceyrek  # selected instruments
+ */
+async function rebuildRollups() {
+  const instrumentIds = process.argv.slice(2);
+  const rollupService = new RollupService();
+
+  logger.info({ instruments: instrumentIds.length ? instrumentIds : 'all' }, 'Rebuilding quote rollups...');
+
+  try {
+    const result = await rollupService.rebuild(instrumentIds);
+    logger.info(result, 'Rollup rebuild completed');
+    await closeDatabaseConnection();
+    process.exit(0);
+  } catch (error) {
+    logger.error({ err: error }, 'Rollup rebuild failed');
+    await closeDatabaseConnection();
+    process.exit(1);
+  }
+}
+
+rebuildRollups();
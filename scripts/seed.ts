@@ -1,5 +1,6 @@
 import { db } from '../src/config/database';
 import { instruments } from '../src/db/schema';
+import { INSTRUMENT_METADATA } from '../src/config/instruments';
 import { logger } from '../src/utils/logger';
 
 const metalInstruments = [
@@ -28,6 +29,20 @@ const fxInstruments = [
   { id: 'JPYTRY', name: 'Japon Yeni', code: 'JPY/TRY', category: 'fx' as const, sortOrder: 9, quoteCurrency: 'TRY' },
 ];
 
+// Purity/weight columns from config (same values as migration 0023)
+function withMetadata<T extends { id: string }>(instrument: T) {
+  const metadata = INSTRUMENT_METADATA[instrument.id];
+  if (!metadata) return instrument;
+
+  return {
+    ...instrument,
+    fineWeightGrams: metadata.fineWeightGrams?.toString() ?? null,
+    fineness: metadata.fineness,
+    troyOunces: metadata.troyOunces?.toString() ?? null,
+    displayPrecision: metadata.displayPrecision,
+  };
+}
+
 async function seed() {
   try {
     logger.info('Starting database seed...');
@@ -37,7 +52,7 @@ async function seed() {
     for (const instrument of metalInstruments) {
       await db
         .insert(instruments)
-        .values(instrument)
+        .values(withMetadata(instrument))
         .onConflictDoNothing();
     }
     logger.info({ count: metalInstruments.length }, 'Metal instruments seeded');
@@ -47,7 +62,7 @@ async function seed() {
     for (const instrument of fxInstruments) {
       await db
         .insert(instruments)
-        .values(instrument)
+        .values(withMetadata(instrument))
         .onConflictDoNothing();
     }
     logger.info({ count: fxInstruments.length }, 'Forex instruments seeded');
@@ -2,6 +2,7 @@ import Fastify from 'fastify';
 import cors from '@fastify/cors';
 import helmet from '@fastify/helmet';
 import rateLimit from '@fastify/rate-limit';
+import websocket from '@fastify/websocket';
 import { config } from './config';
 import { logger } from './utils/logger';
 
@@ -58,6 +59,9 @@ export async function buildApp() {
     },
   });
 
+  // WebSocket support (/v1/stream)
+  await app.register(websocket);
+
   // Request logging
   app.addHook('onRequest', async (request, reply) => {
     request.log.info({ req: request }, 'Incoming request');
@@ -30,6 +30,75 @@ export const config = {
     cooldownMs: parseInt(process.env.COOLDOWN_MS || '10000', 10),
   },
 
+  // Data source provider chains — first id is primary, later ones fill missing instruments
+  // e.g. METALS_PROVIDERS=truncgil,haremaltin,altinkaynak  FX_PROVIDERS=tcmb,exchangerate_host,altinkaynak
+  providers: {
+    metals: (process.env.METALS_PROVIDERS || 'truncgil,haremaltin,altinkaynak').split(',').map((id) => id.trim()).filter(Boolean),
+    fx: (process.env.FX_PROVIDERS || 'tcmb,exchangerate_host').split(',').map((id) => id.trim()).filter(Boolean),
+  },
+
+  // Multi-source consensus — cross-check providers that quote the same instrument
+  consensus: {
+    enabled: process.env.CONSENSUS_ENABLED !== 'false',
+    categories: (process.env.CONSENSUS_CATEGORIES || 'metals').split(',').map((c) => c.trim()).filter(Boolean),
+    bandPercent: parseFloat(process.env.CONSENSUS_BAND_PERCENT || '2'), // max deviation from median
+    // provider id → weight, e.g. CONSENSUS_WEIGHTS=truncgil:2,haremaltin:1 (unlisted = 1)
+    weights: Object.fromEntries(
+      (process.env.CONSENSUS_WEIGHTS || '')
+        .split(',')
+        .map((pair) => pair.split(':').map((part) => part.trim()))
+        .filter(([id, weight]) => id && weight && !isNaN(parseFloat(weight)))
+        .map(([id, weight]) => [id, parseFloat(weight)])
+    ) as Record<string, number>,
+  },
+
+  // Quote sanity guard — per-instrument rules live in config/instruments.ts (QUOTE_RULES)
+  validation: {
+    enabled: process.env.QUOTE_VALIDATION_ENABLED !== 'false',
+    maxFutureSkewSeconds: parseInt(process.env.QUOTE_MAX_FUTURE_SKEW_SECONDS || '300', 10),
+    // Long enough to survive weekends and bayram holidays when upstream dates don't move
+    maxAgeSeconds: parseInt(process.env.QUOTE_MAX_AGE_SECONDS || '864000', 10), // 10 days
+    // Tick-move check only against a recent previous price, so a real level shift recovers
+    tickWindowSeconds: parseInt(process.env.QUOTE_TICK_WINDOW_SECONDS || '21600', 10), // 6 hours
+  },
+
+  // Raw quote retention — older rows are compacted (OHLC is kept in the rollup tables)
+  retention: {
+    enabled: process.env.RETENTION_ENABLED !== 'false',
+    cron: process.env.RETENTION_CRON || '30 3 * * *', // nightly, Istanbul time
+    rawDays: parseInt(process.env.RETENTION_RAW_DAYS || '90', 10), // all ticks kept
+    hourlyDays: parseInt(process.env.RETENTION_HOURLY_DAYS || '730', 10), // one row per hour, then per day
+    rawDataDays: parseInt(process.env.RETENTION_RAW_DATA_DAYS || '7', 10), // raw_data JSON stripped after
+  },
+
+  // Nightly portfolio valuation snapshots (/v1/portfolios/:id/history)
+  portfolioSnapshots: {
+    enabled: process.env.PORTFOLIO_SNAPSHOTS_ENABLED !== 'false',
+    cron: process.env.PORTFOLIO_SNAPSHOTS_CRON || '15 0 * * *', // after midnight, Istanbul time
+  },
+
+  // Savings goal milestone pushes (25/50/75/100%)
+  goals: {
+    milestonesEnabled: process.env.GOAL_MILESTONES_ENABLED !== 'false',
+    milestonesCron: process.env.GOAL_MILESTONES_CRON || '5 * * * *', // hourly, after a metals refresh
+  },
+
+  // TÜFE (CPI) index for inflation-adjusted returns, from TCMB EVDS
+  cpi: {
+    evdsApiKey: process.env.EVDS_API_KEY || '',
+    evdsSeries: process.env.EVDS_CPI_SERIES || 'TP.FG.J0', // TÜFE, 2003=100
+    evdsFixturePath: process.env.EVDS_FIXTURE_PATH || '', // local EVDS JSON response used instead of the API
+    cron: process.env.CPI_CRON || '0 12 5 * *', // monthly, after TÜİK release
+  },
+
+  // Live quote stream (/v1/stream, WebSocket + SSE)
+  stream: {
+    heartbeatMs: parseInt(process.env.STREAM_HEARTBEAT_MS || '25000', 10),
+    maxSubscriptions: parseInt(process.env.STREAM_MAX_SUBSCRIPTIONS || '50', 10), // per connection
+    maxConnections: parseInt(process.env.STREAM_MAX_CONNECTIONS || '1000', 10),
+    bufferSize: parseInt(process.env.STREAM_BUFFER_SIZE || '1000', 10), // deltas kept for resume
+  },
+
   // Firebase Admin SDK
   firebase: {
     projectId: process.env.FIREBASE_PROJECT_ID || '',
@@ -39,6 +108,12 @@ export const config = {
       .replace(/\\n/g, '\n'),         // \n → gerçek satır sonu
   },
 
+  // Push notifications (FCM)
+  notifications: {
+    maxRetries: parseInt(process.env.PUSH_MAX_RETRIES || '3', 10),
+    retryBaseDelayMs: parseInt(process.env.PUSH_RETRY_BASE_DELAY_MS || '500', 10),
+  },
+
   // Monitoring
   sentry: {
     dsn: process.env.SENTRY_DSN,
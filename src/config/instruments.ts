@@ -42,18 +42,37 @@ export const HAREMALTIN_MAPPINGS: Record<string, string> = {
   XAUXAG: 'xauxag',
 };
 
-// Haremaltin instruments that are NOT covered by Truncgil (need Haremaltin for live data)
-export const HAREMALTIN_ONLY_INSTRUMENTS = [
-  'GUMUSUSD',
-  'XAGUSD',
-  'XPTUSD',
-  'XPDUSD',
-  'PLATIN',
-  'PALADYUM',
-  'USDKG',
-  'EURKG',
-  'XAUXAG',
-];
+// Altinkaynak archive row name → Our Instrument ID (matched ignoring case and Turkish characters)
+export const ALTINKAYNAK_METAL_MAPPINGS: Record<string, string> = {
+  'Gram Altın': 'gram',
+  'Has Altın': 'has',
+  'Ons Altın': 'ons',           // USD price, like Truncgil
+  '22 Ayar Bilezik': '22ayar',
+  '22 Ayar': '22ayar',
+  '14 Ayar': '14ayar',
+  'Çeyrek Altın': 'ceyrek',
+  'Yarım Altın': 'yarim',
+  'Tam Altın': 'tam',
+  'Ata Lira': 'ata',
+  'Ata Altın': 'ata',
+  'Beşli Ata': 'ata5',
+  'Gremse': 'gremse',
+  'Gremse Altın': 'gremse',
+  'Gümüş (gr)': 'gumus_gram',
+  'Gümüş': 'gumus_gram',
+};
+
+export const ALTINKAYNAK_FOREX_MAPPINGS: Record<string, string> = {
+  'Dolar': 'USDTRY',
+  'Amerikan Doları': 'USDTRY',
+  'Euro': 'EURTRY',
+  'Sterlin': 'GBPTRY',
+  'İngiliz Sterlini': 'GBPTRY',
+  'İsviçre Frangı': 'CHFTRY',
+  'Avustralya Doları': 'AUDTRY',
+  'Kanada Doları': 'CADTRY',
+  'Suudi Arabistan Riyali': 'SARTRY',
+};
 
 export const FOREX_MAPPINGS: Record<string, string> = {
   // TCMB Currency Code → Our Instrument ID
@@ -65,7 +84,7 @@ export const FOREX_MAPPINGS: Record<string, string> = {
   'CAD': 'CADTRY',
   'SAR': 'SARTRY',
   'JPY': 'JPYTRY',
-  // EURUSD will be calculated: EUR / USD
+  // EURUSD is derived: EURTRY / USDTRY (DERIVED_INSTRUMENTS)
 };
 
 // Instrument definitions for seeding
@@ -113,3 +132,115 @@ export const INSTRUMENTS = {
     { id: 'JPYTRY', name: 'JPY/TRY', code: 'JPY', sortOrder: 9 },
   ],
 };
+
+// Sanity rules applied to incoming quotes before they are stored
+export type QuoteRule = {
+  maxTickMovePercent: number; // max change vs previous latest_quotes price
+  minPrice?: number;
+  maxPrice?: number;
+};
+
+export const DEFAULT_QUOTE_RULES: Record<'metals' | 'fx', QuoteRule> = {
+  metals: { maxTickMovePercent: 15 },
+  fx: { maxTickMovePercent: 10 },
+};
+
+// Per-instrument overrides (USD-quoted ounce prices have a known plausible range)
+export const QUOTE_RULES: Record<string, Partial<QuoteRule>> = {
+  ons: { minPrice: 1000, maxPrice: 10000, maxTickMovePercent: 8 },
+  gumus_ons: { minPrice: 5, maxPrice: 500 },
+  platin_ons: { minPrice: 300, maxPrice: 10000 },
+  paladyum_ons: { minPrice: 300, maxPrice: 10000 },
+  EURUSD: { minPrice: 0.5, maxPrice: 2, maxTickMovePercent: 5 },
+};
+
+export const TROY_OUNCE_GRAMS = 31.1035;
+
+// Instrument metadata (instruments table): pure metal content per unit and display precision
+export type InstrumentMetadata = {
+  fineWeightGrams: number | null; // pure metal per unit
+  fineness: number | null; // millesimal: 916 = 22 ayar, 585 = 14 ayar
+  troyOunces: number | null; // fineWeightGrams in troy ounces
+  displayPrecision: number;
+};
+
+const metal = (grossWeightGrams: number, fineness: number, displayPrecision = 2): InstrumentMetadata => {
+  const fineWeightGrams = Number(((grossWeightGrams * fineness) / 1000).toFixed(6));
+  return { fineWeightGrams, fineness, troyOunces: Number((fineWeightGrams / TROY_OUNCE_GRAMS).toFixed(8)), displayPrecision };
+};
+
+const plain = (displayPrecision: number): InstrumentMetadata => ({
+  fineWeightGrams: null,
+  fineness: null,
+  troyOunces: null,
+  displayPrecision,
+});
+
+export const INSTRUMENT_METADATA: Record<string, InstrumentMetadata> = {
+  gram: metal(1, 995),
+  has: metal(1, 995),
+  ons: metal(TROY_OUNCE_GRAMS, 1000),
+  '22ayar': metal(1, 916),
+  '14ayar': metal(1, 585),
+  // Ziynet altınlar 22 ayar; eski basımlar aynı ağırlıkta
+  ceyrek: metal(1.75, 916),
+  ceyrek_eski: metal(1.75, 916),
+  yarim: metal(3.5, 916),
+  yarim_eski: metal(3.5, 916),
+  tam: metal(7, 916),
+  tam_eski: metal(7, 916),
+  ata: metal(7.216, 916),
+  ata_eski: metal(7.216, 916),
+  ata5: metal(36.08, 916),
+  ata5_eski: metal(36.08, 916),
+  gremse: metal(17.5, 916),
+  gremse_eski: metal(17.5, 916),
+  gumus_gram: metal(1, 999),
+  gumus_ons: metal(TROY_OUNCE_GRAMS, 1000),
+  gumus_usd: metal(1, 999, 3),
+  platin_gram: metal(1, 999),
+  platin_ons: metal(TROY_OUNCE_GRAMS, 1000),
+  platin: metal(1, 999),
+  paladyum_gram: metal(1, 999),
+  paladyum_ons: metal(TROY_OUNCE_GRAMS, 1000),
+  paladyum: metal(1, 999),
+  usdkg: metal(1000, 1000),
+  eurkg: metal(1000, 1000),
+  xauxag: plain(2),
+  ...Object.fromEntries(INSTRUMENTS.fx.map((i) => [i.id, plain(4)])),
+};
+
+// Derived instruments: price = factor × Π input^exponent
+// Buy side uses input buy for ×, input sell for ÷ (and vice versa for the sell side)
+export type DerivedInput = {
+  instrumentId: string;
+  exponent: 1 | -1;
+};
+
+export type DerivedInstrumentDefinition = {
+  instrumentId: string;
+  category: 'metals' | 'fx';
+  inputs: DerivedInput[];
+  factor: number;
+  // Scraped prices further than this from the derived value are flagged
+  tolerancePercent: number;
+  // Only compared against provider prices, never published when the instrument is missing
+  referenceOnly?: boolean;
+};
+
+const times = (instrumentId: string): DerivedInput => ({ instrumentId, exponent: 1 });
+const per = (instrumentId: string): DerivedInput => ({ instrumentId, exponent: -1 });
+
+// Order does not matter; definitions may use other derived instruments as inputs
+export const DERIVED_INSTRUMENTS: DerivedInstrumentDefinition[] = [
+  { instrumentId: 'EURUSD', category: 'fx', inputs: [times('EURTRY'), per('USDTRY')], factor: 1, tolerancePercent: 1 },
+  // Saf altın gram fiyatı: ons (USD) × USDTRY / 31.1035
+  { instrumentId: 'gram', category: 'metals', inputs: [times('ons'), times('USDTRY')], factor: 1 / TROY_OUNCE_GRAMS, tolerancePercent: 3 },
+  { instrumentId: 'has', category: 'metals', inputs: [times('ons'), times('USDTRY')], factor: 1 / TROY_OUNCE_GRAMS, tolerancePercent: 3 },
+  // Ziynet: 1,75 g × 22 ayar (0,916) sadece altın değeri; piyasa fiyatında işçilik primi var,
+  // bu yüzden eksik çeyrek fiyatı yerine yayınlanmaz
+  { instrumentId: 'ceyrek', category: 'metals', inputs: [times('gram')], factor: 1.75 * 0.916, tolerancePercent: 10, referenceOnly: true },
+  { instrumentId: 'xauxag', category: 'metals', inputs: [times('ons'), per('gumus_ons')], factor: 1, tolerancePercent: 3 },
+  { instrumentId: 'usdkg', category: 'metals', inputs: [times('ons')], factor: 1000 / TROY_OUNCE_GRAMS, tolerancePercent: 3 },
+  { instrumentId: 'eurkg', category: 'metals', inputs: [times('ons'), times('USDTRY'), per('EURTRY')], factor: 1000 / TROY_OUNCE_GRAMS, tolerancePercent: 3 },
+];
@@ -0,0 +1,27 @@
+-- Tetiklenen alarm geçmişi (bildirim kutusu)
+CREATE TABLE IF NOT EXISTS "alert_triggers" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"alert_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"instrument_id" varchar(50) NOT NULL,
+	"price" numeric(18, 6) NOT NULL,
+	"reference_price" numeric(18, 6),
+	"change_percent" numeric(10, 4),
+	"ts" bigint NOT NULL,
+	"delivery_status" varchar(20) NOT NULL DEFAULT 'pending',
+	"read_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "delivery_status_check" CHECK ("alert_triggers"."delivery_status" IN ('pending', 'sent', 'failed', 'skipped'))
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_alert_triggers_alert_ts" ON "alert_triggers" USING btree ("alert_id", "ts");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_alert_triggers_user_ts" ON "alert_triggers" USING btree ("user_id", "ts");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_alert_triggers_unread" ON "alert_triggers" USING btree ("user_id") WHERE "alert_triggers"."read_at" IS NULL;
+--> statement-breakpoint
+ALTER TABLE "alert_triggers" ADD CONSTRAINT "alert_triggers_alert_id_price_alerts_id_fk" FOREIGN KEY ("alert_id") REFERENCES "public"."price_alerts"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "alert_triggers" ADD CONSTRAINT "alert_triggers_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "alert_triggers" ADD CONSTRAINT "alert_triggers_instrument_id_instruments_id_fk" FOREIGN KEY ("instrument_id") REFERENCES "public"."instruments"("id") ON DELETE no action ON UPDATE no action;
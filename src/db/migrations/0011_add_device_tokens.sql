@@ -0,0 +1,17 @@
+-- FCM push bildirim token'ları (kullanıcı + platform başına)
+CREATE TABLE IF NOT EXISTS "device_tokens" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"token" varchar(512) NOT NULL,
+	"platform" varchar(10) NOT NULL,
+	"locale" varchar(5) NOT NULL DEFAULT 'tr',
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "device_tokens_token_unique" UNIQUE("token"),
+	CONSTRAINT "device_platform_check" CHECK ("device_tokens"."platform" IN ('ios', 'android', 'web')),
+	CONSTRAINT "device_locale_check" CHECK ("device_tokens"."locale" IN ('tr', 'en'))
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_device_tokens_user" ON "device_tokens" USING btree ("user_id");
+--> statement-breakpoint
+ALTER TABLE "device_tokens" ADD CONSTRAINT "device_tokens_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
@@ -0,0 +1,21 @@
+-- Fiyat doğrulama: reddedilen fiyatlar karantinası + fetch_state red sayaçları
+CREATE TABLE IF NOT EXISTS "rejected_quotes" (
+	"id" bigint PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "rejected_quotes_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 9223372036854775807 START WITH 1 CACHE 1),
+	"instrument_id" varchar(50) NOT NULL,
+	"ts" bigint NOT NULL,
+	"price" numeric(18, 6),
+	"buy" numeric(18, 6),
+	"sell" numeric(18, 6),
+	"source" varchar(50) NOT NULL,
+	"reason" varchar(30) NOT NULL,
+	"detail" text,
+	"previous_price" numeric(18, 6),
+	"raw_data" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_rejected_quotes_instrument_created" ON "rejected_quotes" USING btree ("instrument_id","created_at");
+--> statement-breakpoint
+ALTER TABLE "fetch_state" ADD COLUMN IF NOT EXISTS "rejected_count" integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "fetch_state" ADD COLUMN IF NOT EXISTS "rejected_total" integer DEFAULT 0 NOT NULL;
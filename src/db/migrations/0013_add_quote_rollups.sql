@@ -0,0 +1,34 @@
+-- Fiyat geçmişi özet tabloları (saatlik + günlük OHLC), doldurmak için: npm run db:rollups
+CREATE TABLE IF NOT EXISTS "quote_rollups_hourly" (
+	"instrument_id" varchar(50) NOT NULL,
+	"bucket_ts" bigint NOT NULL,
+	"open" numeric(18, 6) NOT NULL,
+	"high" numeric(18, 6) NOT NULL,
+	"low" numeric(18, 6) NOT NULL,
+	"close" numeric(18, 6) NOT NULL,
+	"buy_close" numeric(18, 6),
+	"sell_close" numeric(18, 6),
+	"sample_count" integer NOT NULL,
+	"full_price" boolean NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "quote_rollups_hourly_instrument_id_bucket_ts_pk" PRIMARY KEY("instrument_id","bucket_ts")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "quote_rollups_daily" (
+	"instrument_id" varchar(50) NOT NULL,
+	"bucket_ts" bigint NOT NULL,
+	"open" numeric(18, 6) NOT NULL,
+	"high" numeric(18, 6) NOT NULL,
+	"low" numeric(18, 6) NOT NULL,
+	"close" numeric(18, 6) NOT NULL,
+	"buy_close" numeric(18, 6),
+	"sell_close" numeric(18, 6),
+	"sample_count" integer NOT NULL,
+	"full_price" boolean NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "quote_rollups_daily_instrument_id_bucket_ts_pk" PRIMARY KEY("instrument_id","bucket_ts")
+);
+--> statement-breakpoint
+ALTER TABLE "quote_rollups_hourly" ADD CONSTRAINT "quote_rollups_hourly_instrument_id_instruments_id_fk" FOREIGN KEY ("instrument_id") REFERENCES "public"."instruments"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "quote_rollups_daily" ADD CONSTRAINT "quote_rollups_daily_instrument_id_instruments_id_fk" FOREIGN KEY ("instrument_id") REFERENCES "public"."instruments"("id") ON DELETE no action ON UPDATE no action;
@@ -0,0 +1,34 @@
+-- Portföy işlem defteri: alış/satış/transfer/masraf kayıtları, mevcut varlıklar açılış alışı olarak taşınır
+CREATE TABLE IF NOT EXISTS "portfolio_transactions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"portfolio_id" uuid NOT NULL,
+	"instrument_id" varchar(50) NOT NULL,
+	"type" varchar(20) NOT NULL,
+	"quantity" numeric(18, 6) DEFAULT '0' NOT NULL,
+	"price" numeric(18, 6) DEFAULT '0' NOT NULL,
+	"fee" numeric(18, 6) DEFAULT '0' NOT NULL,
+	"trade_date" date NOT NULL,
+	"description" varchar(30),
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "transaction_type_check" CHECK ("portfolio_transactions"."type" IN ('buy', 'sell', 'transfer_in', 'transfer_out', 'fee'))
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_transactions_portfolio_instrument" ON "portfolio_transactions" USING btree ("portfolio_id","instrument_id","trade_date");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_transactions_instrument" ON "portfolio_transactions" USING btree ("instrument_id");
+--> statement-breakpoint
+ALTER TABLE "portfolio_transactions" ADD CONSTRAINT "portfolio_transactions_portfolio_id_portfolios_id_fk" FOREIGN KEY ("portfolio_id") REFERENCES "public"."portfolios"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "portfolio_transactions" ADD CONSTRAINT "portfolio_transactions_instrument_id_instruments_id_fk" FOREIGN KEY ("instrument_id") REFERENCES "public"."instruments"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "portfolios" ADD COLUMN IF NOT EXISTS "cost_method" varchar(10) DEFAULT 'fifo' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "portfolios" ADD CONSTRAINT "portfolio_cost_method_check" CHECK ("portfolios"."cost_method" IN ('fifo', 'average'));
+--> statement-breakpoint
+-- Mevcut varlıkları aynı id ile açılış alış işlemine çevir (uygulamadaki düzenle/sil akışı bozulmasın)
+INSERT INTO "portfolio_transactions" ("id", "portfolio_id", "instrument_id", "type", "quantity", "price", "fee", "trade_date", "description", "created_at", "updated_at")
+SELECT "id", "portfolio_id", "instrument_id", 'buy', "quantity", "purchase_price", 0, "purchase_date", "description", "created_at", "updated_at"
+FROM "portfolio_holdings"
+ON CONFLICT ("id") DO NOTHING;
+-- portfolio_holdings kopya doğrulanana kadar korunur; 0024'te kaldırılır
@@ -0,0 +1,12 @@
+-- Gün sonu portföy değeri anlık görüntüleri (geçmiş grafiği), gece job'u doldurur
+CREATE TABLE IF NOT EXISTS "portfolio_snapshots" (
+	"portfolio_id" uuid NOT NULL,
+	"date" date NOT NULL,
+	"value" numeric(18, 6) NOT NULL,
+	"cost_basis" numeric(18, 6) NOT NULL,
+	"realized_profit_loss" numeric(18, 6) NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "portfolio_snapshots_portfolio_id_date_pk" PRIMARY KEY("portfolio_id","date")
+);
+--> statement-breakpoint
+ALTER TABLE "portfolio_snapshots" ADD CONSTRAINT "portfolio_snapshots_portfolio_id_portfolios_id_fk" FOREIGN KEY ("portfolio_id") REFERENCES "public"."portfolios"("id") ON DELETE cascade ON UPDATE no action;
@@ -0,0 +1,4 @@
+-- Kullanıcı bazında raporlama para birimi (portföy değerleri bu birimde gösterilir)
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "reporting_currency" varchar(10) DEFAULT 'TRY' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "users" ADD CONSTRAINT "users_reporting_currency_check" CHECK ("users"."reporting_currency" IN ('TRY', 'USD', 'EUR', 'GRAM'));
@@ -0,0 +1,7 @@
+-- Aylık TÜFE endeksi (reel getiri), doldurmak için: npm run db:cpi
+CREATE TABLE IF NOT EXISTS "cpi_index" (
+	"period" varchar(7) PRIMARY KEY NOT NULL,
+	"value" numeric(18, 6) NOT NULL,
+	"source" varchar(30) NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
@@ -0,0 +1,44 @@
+-- Borç portföyleri: borç kayıtları, taksit planı ve geri ödemeler
+CREATE TABLE IF NOT EXISTS "portfolio_debts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"portfolio_id" uuid NOT NULL,
+	"counterparty" varchar(100) NOT NULL,
+	"unit" varchar(50) NOT NULL,
+	"principal" numeric(18, 6) NOT NULL,
+	"start_date" date NOT NULL,
+	"due_date" date,
+	"description" varchar(100),
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "debt_installments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"debt_id" uuid NOT NULL,
+	"due_date" date NOT NULL,
+	"amount" numeric(18, 6) NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "debt_repayments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"debt_id" uuid NOT NULL,
+	"paid_at" date NOT NULL,
+	"amount" numeric(18, 6) NOT NULL,
+	"paid_amount" numeric(18, 6) NOT NULL,
+	"paid_unit" varchar(50) NOT NULL,
+	"note" varchar(100),
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_debts_portfolio" ON "portfolio_debts" USING btree ("portfolio_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_installments_debt_due" ON "debt_installments" USING btree ("debt_id","due_date");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_repayments_debt" ON "debt_repayments" USING btree ("debt_id");
+--> statement-breakpoint
+ALTER TABLE "portfolio_debts" ADD CONSTRAINT "portfolio_debts_portfolio_id_portfolios_id_fk" FOREIGN KEY ("portfolio_id") REFERENCES "public"."portfolios"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "debt_installments" ADD CONSTRAINT "debt_installments_debt_id_portfolio_debts_id_fk" FOREIGN KEY ("debt_id") REFERENCES "public"."portfolio_debts"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "debt_repayments" ADD CONSTRAINT "debt_repayments_debt_id_portfolio_debts_id_fk" FOREIGN KEY ("debt_id") REFERENCES "public"."portfolio_debts"("id") ON DELETE cascade ON UPDATE no action;
@@ -0,0 +1,42 @@
+-- Ortak portföyler: üyeler (owner, editor, viewer) ve e-posta davetleri
+CREATE TABLE IF NOT EXISTS "portfolio_members" (
+	"portfolio_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"role" varchar(10) NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "portfolio_members_portfolio_id_user_id_pk" PRIMARY KEY("portfolio_id","user_id"),
+	CONSTRAINT "portfolio_member_role_check" CHECK ("portfolio_members"."role" IN ('owner', 'editor', 'viewer'))
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "portfolio_invitations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"portfolio_id" uuid NOT NULL,
+	"email" varchar(255) NOT NULL,
+	"role" varchar(10) NOT NULL,
+	"invited_by" uuid NOT NULL,
+	"status" varchar(10) DEFAULT 'pending' NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"responded_at" timestamp with time zone,
+	CONSTRAINT "portfolio_invitation_role_check" CHECK ("portfolio_invitations"."role" IN ('editor', 'viewer')),
+	CONSTRAINT "portfolio_invitation_status_check" CHECK ("portfolio_invitations"."status" IN ('pending', 'accepted', 'declined', 'revoked'))
+);
+--> statement-breakpoint
+ALTER TABLE "portfolio_members" ADD CONSTRAINT "portfolio_members_portfolio_id_portfolios_id_fk" FOREIGN KEY ("portfolio_id") REFERENCES "public"."portfolios"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "portfolio_members" ADD CONSTRAINT "portfolio_members_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "portfolio_invitations" ADD CONSTRAINT "portfolio_invitations_portfolio_id_portfolios_id_fk" FOREIGN KEY ("portfolio_id") REFERENCES "public"."portfolios"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "portfolio_invitations" ADD CONSTRAINT "portfolio_invitations_invited_by_users_id_fk" FOREIGN KEY ("invited_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_portfolio_members_user" ON "portfolio_members" USING btree ("user_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_invitations_email" ON "portfolio_invitations" USING btree ("email") WHERE "portfolio_invitations"."status" = 'pending';
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_invitations_pending_unique" ON "portfolio_invitations" USING btree ("portfolio_id","email") WHERE "portfolio_invitations"."status" = 'pending';
+--> statement-breakpoint
+-- Mevcut portföy sahipleri owner üye olur
+INSERT INTO "portfolio_members" ("portfolio_id", "user_id", "role", "created_at")
+SELECT "id", "user_id", 'owner', "created_at" FROM "portfolios"
+ON CONFLICT DO NOTHING;
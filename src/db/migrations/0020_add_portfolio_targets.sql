@@ -0,0 +1,13 @@
+-- Portföy hedef dağılımı (yeniden dengeleme önerileri için)
+CREATE TABLE IF NOT EXISTS "portfolio_targets" (
+	"portfolio_id" uuid NOT NULL,
+	"instrument_id" varchar(50) NOT NULL,
+	"target_percent" numeric(5, 2) NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "portfolio_targets_portfolio_id_instrument_id_pk" PRIMARY KEY("portfolio_id","instrument_id"),
+	CONSTRAINT "portfolio_target_percent_check" CHECK ("portfolio_targets"."target_percent" >= 0 AND "portfolio_targets"."target_percent" <= 100)
+);
+--> statement-breakpoint
+ALTER TABLE "portfolio_targets" ADD CONSTRAINT "portfolio_targets_portfolio_id_portfolios_id_fk" FOREIGN KEY ("portfolio_id") REFERENCES "public"."portfolios"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "portfolio_targets" ADD CONSTRAINT "portfolio_targets_instrument_id_instruments_id_fk" FOREIGN KEY ("instrument_id") REFERENCES "public"."instruments"("id") ON DELETE no action ON UPDATE no action;
@@ -0,0 +1,19 @@
+-- Birikim hedefleri: hedef tutar/birim, hedef tarih ve kilometre taşı bildirimleri
+CREATE TABLE IF NOT EXISTS "portfolio_goals" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"portfolio_id" uuid NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"unit" varchar(50) NOT NULL,
+	"target_amount" numeric(18, 6) NOT NULL,
+	"target_date" date,
+	"notify_milestones" boolean DEFAULT true NOT NULL,
+	"last_milestone" integer DEFAULT 0 NOT NULL,
+	"achieved_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "goal_milestone_check" CHECK ("portfolio_goals"."last_milestone" IN (0, 25, 50, 75, 100))
+);
+--> statement-breakpoint
+ALTER TABLE "portfolio_goals" ADD CONSTRAINT "portfolio_goals_portfolio_id_portfolios_id_fk" FOREIGN KEY ("portfolio_id") REFERENCES "public"."portfolios"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_goals_portfolio" ON "portfolio_goals" USING btree ("portfolio_id");
@@ -0,0 +1,2 @@
+-- Metal yedek zinciri: son başarılı çalışmada her enstrümanı hangi kaynağın verdiği
+ALTER TABLE "fetch_state" ADD COLUMN IF NOT EXISTS "served_by" text;
@@ -0,0 +1,42 @@
+-- Enstrüman meta verisi: birim başına saf metal (gram/ons), milyem ayar ve gösterim hassasiyeti
+ALTER TABLE "instruments" ADD COLUMN IF NOT EXISTS "fine_weight_grams" numeric(12, 6);
+--> statement-breakpoint
+ALTER TABLE "instruments" ADD COLUMN IF NOT EXISTS "fineness" integer;
+--> statement-breakpoint
+ALTER TABLE "instruments" ADD COLUMN IF NOT EXISTS "troy_ounces" numeric(14, 8);
+--> statement-breakpoint
+ALTER TABLE "instruments" ADD COLUMN IF NOT EXISTS "display_precision" integer DEFAULT 2 NOT NULL;
+--> statement-breakpoint
+
+-- Değerler src/config/instruments.ts INSTRUMENT_METADATA ile aynı
+UPDATE instruments SET fine_weight_grams = 0.995, fineness = 995, troy_ounces = 0.03198997, display_precision = 2 WHERE id = 'gram';
+UPDATE instruments SET fine_weight_grams = 0.995, fineness = 995, troy_ounces = 0.03198997, display_precision = 2 WHERE id = 'has';
+UPDATE instruments SET fine_weight_grams = 31.1035, fineness = 1000, troy_ounces = 1, display_precision = 2 WHERE id = 'ons';
+UPDATE instruments SET fine_weight_grams = 0.916, fineness = 916, troy_ounces = 0.02945006, display_precision = 2 WHERE id = '22ayar';
+UPDATE instruments SET fine_weight_grams = 0.585, fineness = 585, troy_ounces = 0.01880817, display_precision = 2 WHERE id = '14ayar';
+UPDATE instruments SET fine_weight_grams = 1.603, fineness = 916, troy_ounces = 0.05153761, display_precision = 2 WHERE id = 'ceyrek';
+UPDATE instruments SET fine_weight_grams = 1.603, fineness = 916, troy_ounces = 0.05153761, display_precision = 2 WHERE id = 'ceyrek_eski';
+UPDATE instruments SET fine_weight_grams = 3.206, fineness = 916, troy_ounces = 0.10307522, display_precision = 2 WHERE id = 'yarim';
+UPDATE instruments SET fine_weight_grams = 3.206, fineness = 916, troy_ounces = 0.10307522, display_precision = 2 WHERE id = 'yarim_eski';
+UPDATE instruments SET fine_weight_grams = 6.412, fineness = 916, troy_ounces = 0.20615043, display_precision = 2 WHERE id = 'tam';
+UPDATE instruments SET fine_weight_grams = 6.412, fineness = 916, troy_ounces = 0.20615043, display_precision = 2 WHERE id = 'tam_eski';
+UPDATE instruments SET fine_weight_grams = 6.609856, fineness = 916, troy_ounces = 0.21251165, display_precision = 2 WHERE id = 'ata';
+UPDATE instruments SET fine_weight_grams = 6.609856, fineness = 916, troy_ounces = 0.21251165, display_precision = 2 WHERE id = 'ata_eski';
+UPDATE instruments SET fine_weight_grams = 33.04928, fineness = 916, troy_ounces = 1.06255823, display_precision = 2 WHERE id = 'ata5';
+UPDATE instruments SET fine_weight_grams = 33.04928, fineness = 916, troy_ounces = 1.06255823, display_precision = 2 WHERE id = 'ata5_eski';
+UPDATE instruments SET fine_weight_grams = 16.03, fineness = 916, troy_ounces = 0.51537608, display_precision = 2 WHERE id = 'gremse';
+UPDATE instruments SET fine_weight_grams = 16.03, fineness = 916, troy_ounces = 0.51537608, display_precision = 2 WHERE id = 'gremse_eski';
+UPDATE instruments SET fine_weight_grams = 0.999, fineness = 999, troy_ounces = 0.03211857, display_precision = 2 WHERE id = 'gumus_gram';
+UPDATE instruments SET fine_weight_grams = 31.1035, fineness = 1000, troy_ounces = 1, display_precision = 2 WHERE id = 'gumus_ons';
+UPDATE instruments SET fine_weight_grams = 0.999, fineness = 999, troy_ounces = 0.03211857, display_precision = 3 WHERE id = 'gumus_usd';
+UPDATE instruments SET fine_weight_grams = 0.999, fineness = 999, troy_ounces = 0.03211857, display_precision = 2 WHERE id = 'platin_gram';
+UPDATE instruments SET fine_weight_grams = 31.1035, fineness = 1000, troy_ounces = 1, display_precision = 2 WHERE id = 'platin_ons';
+UPDATE instruments SET fine_weight_grams = 0.999, fineness = 999, troy_ounces = 0.03211857, display_precision = 2 WHERE id = 'platin';
+UPDATE instruments SET fine_weight_grams = 0.999, fineness = 999, troy_ounces = 0.03211857, display_precision = 2 WHERE id = 'paladyum_gram';
+UPDATE instruments SET fine_weight_grams = 31.1035, fineness = 1000, troy_ounces = 1, display_precision = 2 WHERE id = 'paladyum_ons';
+UPDATE instruments SET fine_weight_grams = 0.999, fineness = 999, troy_ounces = 0.03211857, display_precision = 2 WHERE id = 'paladyum';
+UPDATE instruments SET fine_weight_grams = 1000, fineness = 1000, troy_ounces = 32.15072259, display_precision = 2 WHERE id = 'usdkg';
+UPDATE instruments SET fine_weight_grams = 1000, fineness = 1000, troy_ounces = 32.15072259, display_precision = 2 WHERE id = 'eurkg';
+--> statement-breakpoint
+
+UPDATE instruments SET display_precision = 4 WHERE category = 'fx';
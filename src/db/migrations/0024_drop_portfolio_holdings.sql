@@ -0,0 +1,2 @@
+-- Eski varlık tablosu: 0014 kayıtları portfolio_transactions'a taşıdı, tablo artık okunmuyor
+DROP TABLE IF EXISTS "portfolio_holdings";
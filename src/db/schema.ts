@@ -1,4 +1,4 @@
-import { pgTable, varchar, integer, boolean, timestamp, bigint, decimal, text, uuid, index, check, date, uniqueIndex } from 'drizzle-orm/pg-core';
+import { pgTable, varchar, integer, boolean, timestamp, bigint, decimal, text, uuid, index, check, date, uniqueIndex, primaryKey } from 'drizzle-orm/pg-core';
 import { sql } from 'drizzle-orm';
 
 // Instruments table - Enstrüman tanımları (metals/forex)
@@ -11,6 +11,10 @@ export const instruments = pgTable(
     code: varchar('code', { length: 20 }).notNull(),
     quoteCurrency: varchar('quote_currency', { length: 10 }).notNull().default('TRY'),
     unit: varchar('unit', { length: 20 }),
+    fineWeightGrams: decimal('fine_weight_grams', { precision: 12, scale: 6 }), // pure metal per unit
+    fineness: integer('fineness'), // millesimal (916 = 22 ayar)
+    troyOunces: decimal('troy_ounces', { precision: 14, scale: 8 }),
+    displayPrecision: integer('display_precision').notNull().default(2),
     sortOrder: integer('sort_order').notNull().default(0),
     isActive: boolean('is_active').notNull().default(true),
     createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
@@ -62,6 +66,48 @@ export const quotes = pgTable(
   })
 );
 
+// Hourly rollups - Saatlik OHLC özetleri (quotes'tan türetilir, 7-90 günlük grafikler)
+export const quoteRollupsHourly = pgTable(
+  'quote_rollups_hourly',
+  {
+    instrumentId: varchar('instrument_id', { length: 50 }).notNull().references(() => instruments.id),
+    bucketTs: bigint('bucket_ts', { mode: 'number' }).notNull(), // bucket start (Unix seconds)
+    open: decimal('open', { precision: 18, scale: 6 }).notNull(),
+    high: decimal('high', { precision: 18, scale: 6 }).notNull(),
+    low: decimal('low', { precision: 18, scale: 6 }).notNull(),
+    close: decimal('close', { precision: 18, scale: 6 }).notNull(),
+    buyClose: decimal('buy_close', { precision: 18, scale: 6 }),
+    sellClose: decimal('sell_close', { precision: 18, scale: 6 }),
+    sampleCount: integer('sample_count').notNull(),
+    fullPrice: boolean('full_price').notNull(), // false = only sell-only (altin.in) rows in bucket
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.instrumentId, table.bucketTs] }),
+  })
+);
+
+// Daily rollups - Günlük OHLC özetleri (İstanbul günü, 90+ günlük grafikler)
+export const quoteRollupsDaily = pgTable(
+  'quote_rollups_daily',
+  {
+    instrumentId: varchar('instrument_id', { length: 50 }).notNull().references(() => instruments.id),
+    bucketTs: bigint('bucket_ts', { mode: 'number' }).notNull(), // Istanbul midnight (Unix seconds)
+    open: decimal('open', { precision: 18, scale: 6 }).notNull(),
+    high: decimal('high', { precision: 18, scale: 6 }).notNull(),
+    low: decimal('low', { precision: 18, scale: 6 }).notNull(),
+    close: decimal('close', { precision: 18, scale: 6 }).notNull(),
+    buyClose: decimal('buy_close', { precision: 18, scale: 6 }),
+    sellClose: decimal('sell_close', { precision: 18, scale: 6 }),
+    sampleCount: integer('sample_count').notNull(),
+    fullPrice: boolean('full_price').notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.instrumentId, table.bucketTs] }),
+  })
+);
+
 // Fetch state table - Refresh tracking
 export const fetchState = pgTable('fetch_state', {
   key: varchar('key', { length: 50 }).primaryKey(),
@@ -70,6 +116,39 @@ export const fetchState = pgTable('fetch_state', {
   lastStatus: varchar('last_status', { length: 20 }),
   lastError: text('last_error'),
   consecutiveFailures: integer('consecutive_failures').notNull().default(0),
+  rejectedCount: integer('rejected_count').notNull().default(0), // quotes rejected in the last run
+  rejectedTotal: integer('rejected_total').notNull().default(0),
+  servedBy: text('served_by'), // JSON: instrumentId → provider id of the last successful run
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+});
+
+// Rejected quotes table - Doğrulamadan geçemeyen fiyatlar (karantina)
+export const rejectedQuotes = pgTable(
+  'rejected_quotes',
+  {
+    id: bigint('id', { mode: 'number' }).primaryKey().generatedAlwaysAsIdentity(),
+    instrumentId: varchar('instrument_id', { length: 50 }).notNull(),
+    ts: bigint('ts', { mode: 'number' }).notNull(),
+    price: decimal('price', { precision: 18, scale: 6 }),
+    buy: decimal('buy', { precision: 18, scale: 6 }),
+    sell: decimal('sell', { precision: 18, scale: 6 }),
+    source: varchar('source', { length: 50 }).notNull(),
+    reason: varchar('reason', { length: 30 }).notNull(), // QuoteRejectReason
+    detail: text('detail'),
+    previousPrice: decimal('previous_price', { precision: 18, scale: 6 }),
+    rawData: text('raw_data'), // JSON as text
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    instrumentCreatedIdx: index('idx_rejected_quotes_instrument_created').on(table.instrumentId, table.createdAt),
+  })
+);
+
+// CPI index table - Aylık TÜFE endeksi (reel getiri hesabı için)
+export const cpiIndex = pgTable('cpi_index', {
+  period: varchar('period', { length: 7 }).primaryKey(), // 'YYYY-MM'
+  value: decimal('value', { precision: 18, scale: 6 }).notNull(), // 2003=100
+  source: varchar('source', { length: 30 }).notNull(), // 'evds' | 'import'
   updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
 });
 
@@ -85,12 +164,14 @@ export const users = pgTable(
     providerId: varchar('provider_id', { length: 255 }),
     displayName: varchar('display_name', { length: 100 }),
     isActive: boolean('is_active').notNull().default(true),
+    reportingCurrency: varchar('reporting_currency', { length: 10 }).notNull().default('TRY'), // 'TRY' | 'USD' | 'EUR' | 'GRAM'
     createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
     lastLoginAt: timestamp('last_login_at', { withTimezone: true }),
   },
   (table) => ({
     emailIdx: index('idx_users_email').on(table.email).where(sql`${table.isActive} = true`),
     providerIdx: index('idx_users_provider_provider_id').on(table.provider, table.providerId),
+    reportingCurrencyCheck: check('users_reporting_currency_check', sql`${table.reportingCurrency} IN ('TRY', 'USD', 'EUR', 'GRAM')`),
   })
 );
 
@@ -105,32 +186,181 @@ export const portfolios = pgTable(
     icon: varchar('icon', { length: 50 }).notNull().default('💰'),
     color: varchar('color', { length: 20 }).notNull().default('#C6A15B'),
     sortOrder: integer('sort_order').notNull().default(0),
+    costMethod: varchar('cost_method', { length: 10 }).notNull().default('fifo'), // 'fifo' | 'average'
     createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
     updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
   },
   (table) => ({
     userIdx: index('idx_portfolios_user').on(table.userId),
     typeCheck: check('portfolio_type_check', sql`${table.type} IN ('birikim', 'borc')`),
+    costMethodCheck: check('portfolio_cost_method_check', sql`${table.costMethod} IN ('fifo', 'average')`),
+  })
+);
+
+// Portfolio members table - Ortak portföyler (owner, editor, viewer); portfolios.user_id = owner
+export const portfolioMembers = pgTable(
+  'portfolio_members',
+  {
+    portfolioId: uuid('portfolio_id').notNull().references(() => portfolios.id, { onDelete: 'cascade' }),
+    userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    role: varchar('role', { length: 10 }).notNull(), // 'owner' | 'editor' | 'viewer'
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.portfolioId, table.userId] }),
+    userIdx: index('idx_portfolio_members_user').on(table.userId),
+    roleCheck: check('portfolio_member_role_check', sql`${table.role} IN ('owner', 'editor', 'viewer')`),
+  })
+);
+
+// Portfolio invitations table - E-posta ile davet (kabul/ret)
+export const portfolioInvitations = pgTable(
+  'portfolio_invitations',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    portfolioId: uuid('portfolio_id').notNull().references(() => portfolios.id, { onDelete: 'cascade' }),
+    email: varchar('email', { length: 255 }).notNull(), // lowercase
+    role: varchar('role', { length: 10 }).notNull(), // 'editor' | 'viewer'
+    invitedBy: uuid('invited_by').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    status: varchar('status', { length: 10 }).notNull().default('pending'), // 'pending' | 'accepted' | 'declined' | 'revoked'
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    respondedAt: timestamp('responded_at', { withTimezone: true }),
+  },
+  (table) => ({
+    emailIdx: index('idx_invitations_email').on(table.email).where(sql`${table.status} = 'pending'`),
+    pendingUnique: uniqueIndex('idx_invitations_pending_unique').on(table.portfolioId, table.email).where(sql`${table.status} = 'pending'`),
+    roleCheck: check('portfolio_invitation_role_check', sql`${table.role} IN ('editor', 'viewer')`),
+    statusCheck: check('portfolio_invitation_status_check', sql`${table.status} IN ('pending', 'accepted', 'declined', 'revoked')`),
+  })
+);
+
+// Portfolio targets table - Hedef dağılım (enstrüman başına yüzde, toplam %100)
+export const portfolioTargets = pgTable(
+  'portfolio_targets',
+  {
+    portfolioId: uuid('portfolio_id').notNull().references(() => portfolios.id, { onDelete: 'cascade' }),
+    instrumentId: varchar('instrument_id', { length: 50 }).notNull().references(() => instruments.id),
+    targetPercent: decimal('target_percent', { precision: 5, scale: 2 }).notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.portfolioId, table.instrumentId] }),
+    percentCheck: check('portfolio_target_percent_check', sql`${table.targetPercent} >= 0 AND ${table.targetPercent} <= 100`),
+  })
+);
+
+// Portfolio goals table - Birikim hedefleri (tutar/birim, hedef tarih, kilometre taşı bildirimleri)
+export const portfolioGoals = pgTable(
+  'portfolio_goals',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    portfolioId: uuid('portfolio_id').notNull().references(() => portfolios.id, { onDelete: 'cascade' }),
+    name: varchar('name', { length: 100 }).notNull(),
+    unit: varchar('unit', { length: 50 }).notNull(), // 'TRY' | 'USD' | 'EUR' | instrument id (gram, ceyrek...)
+    targetAmount: decimal('target_amount', { precision: 18, scale: 6 }).notNull(), // hedef birimi cinsinden
+    targetDate: date('target_date'),
+    notifyMilestones: boolean('notify_milestones').notNull().default(true),
+    lastMilestone: integer('last_milestone').notNull().default(0), // bildirilen en yüksek eşik (0/25/50/75/100)
+    achievedAt: timestamp('achieved_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    portfolioIdx: index('idx_goals_portfolio').on(table.portfolioId),
+    milestoneCheck: check('goal_milestone_check', sql`${table.lastMilestone} IN (0, 25, 50, 75, 100)`),
   })
 );
 
-// Portfolio holdings table - Individual holdings within a portfolio
-export const portfolioHoldings = pgTable(
-  'portfolio_holdings',
+// Portfolio transactions table - İşlem defteri (alış/satış/transfer/masraf), pozisyonlar buradan hesaplanır
+export const portfolioTransactions = pgTable(
+  'portfolio_transactions',
   {
     id: uuid('id').primaryKey().defaultRandom(),
     portfolioId: uuid('portfolio_id').notNull().references(() => portfolios.id, { onDelete: 'cascade' }),
     instrumentId: varchar('instrument_id', { length: 50 }).notNull().references(() => instruments.id),
-    quantity: decimal('quantity', { precision: 18, scale: 6 }).notNull(),
-    purchasePrice: decimal('purchase_price', { precision: 18, scale: 6 }).notNull(),
-    purchaseDate: date('purchase_date').notNull(),
+    type: varchar('type', { length: 20 }).notNull(), // 'buy' | 'sell' | 'transfer_in' | 'transfer_out' | 'fee'
+    quantity: decimal('quantity', { precision: 18, scale: 6 }).notNull().default('0'),
+    price: decimal('price', { precision: 18, scale: 6 }).notNull().default('0'), // birim fiyat
+    fee: decimal('fee', { precision: 18, scale: 6 }).notNull().default('0'),
+    tradeDate: date('trade_date').notNull(),
     description: varchar('description', { length: 30 }),
     createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
     updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
   },
   (table) => ({
-    portfolioIdx: index('idx_holdings_portfolio').on(table.portfolioId),
-    instrumentIdx: index('idx_holdings_instrument').on(table.instrumentId),
+    portfolioInstrumentIdx: index('idx_transactions_portfolio_instrument').on(table.portfolioId, table.instrumentId, table.tradeDate),
+    instrumentIdx: index('idx_transactions_instrument').on(table.instrumentId),
+    typeCheck: check('transaction_type_check', sql`${table.type} IN ('buy', 'sell', 'transfer_in', 'transfer_out', 'fee')`),
+  })
+);
+
+// Portfolio snapshots table - Gün sonu portföy değeri (geçmiş grafiği için, gece job'u yazar)
+export const portfolioSnapshots = pgTable(
+  'portfolio_snapshots',
+  {
+    portfolioId: uuid('portfolio_id').notNull().references(() => portfolios.id, { onDelete: 'cascade' }),
+    date: date('date').notNull(), // İstanbul takvim günü
+    value: decimal('value', { precision: 18, scale: 6 }).notNull(),
+    costBasis: decimal('cost_basis', { precision: 18, scale: 6 }).notNull(),
+    realizedProfitLoss: decimal('realized_profit_loss', { precision: 18, scale: 6 }).notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.portfolioId, table.date] }),
+  })
+);
+
+// Portfolio debts table - Borç kayıtları (kime, ne kadar, hangi birimde, vade)
+export const portfolioDebts = pgTable(
+  'portfolio_debts',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    portfolioId: uuid('portfolio_id').notNull().references(() => portfolios.id, { onDelete: 'cascade' }),
+    counterparty: varchar('counterparty', { length: 100 }).notNull(),
+    unit: varchar('unit', { length: 50 }).notNull(), // 'TRY' | 'USD' | 'EUR' | instrument id (gram, ceyrek...)
+    principal: decimal('principal', { precision: 18, scale: 6 }).notNull(), // borç birimi cinsinden
+    startDate: date('start_date').notNull(),
+    dueDate: date('due_date'), // taksitsiz borçlar için son ödeme tarihi
+    description: varchar('description', { length: 100 }),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    portfolioIdx: index('idx_debts_portfolio').on(table.portfolioId),
+  })
+);
+
+// Debt installments table - Taksit planı
+export const debtInstallments = pgTable(
+  'debt_installments',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    debtId: uuid('debt_id').notNull().references(() => portfolioDebts.id, { onDelete: 'cascade' }),
+    dueDate: date('due_date').notNull(),
+    amount: decimal('amount', { precision: 18, scale: 6 }).notNull(), // borç birimi cinsinden
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    debtDueIdx: index('idx_installments_debt_due').on(table.debtId, table.dueDate),
+  })
+);
+
+// Debt repayments table - Geri ödemeler (farklı birimde ödenirse ödeme günü kuruyla çevrilir)
+export const debtRepayments = pgTable(
+  'debt_repayments',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    debtId: uuid('debt_id').notNull().references(() => portfolioDebts.id, { onDelete: 'cascade' }),
+    paidAt: date('paid_at').notNull(),
+    amount: decimal('amount', { precision: 18, scale: 6 }).notNull(), // borç birimi cinsinden
+    paidAmount: decimal('paid_amount', { precision: 18, scale: 6 }).notNull(), // ödenen birim cinsinden
+    paidUnit: varchar('paid_unit', { length: 50 }).notNull(),
+    note: varchar('note', { length: 100 }),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    debtIdx: index('idx_repayments_debt').on(table.debtId),
   })
 );
 
@@ -191,6 +421,49 @@ export const priceAlerts = pgTable(
   })
 );
 
+// Alert triggers table - Tetiklenen alarm geçmişi (uygulama içi bildirim kutusu)
+export const alertTriggers = pgTable(
+  'alert_triggers',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    alertId: uuid('alert_id').notNull().references(() => priceAlerts.id, { onDelete: 'cascade' }),
+    userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    instrumentId: varchar('instrument_id', { length: 50 }).notNull().references(() => instruments.id),
+    price: decimal('price', { precision: 18, scale: 6 }).notNull(),
+    referencePrice: decimal('reference_price', { precision: 18, scale: 6 }),
+    changePercent: decimal('change_percent', { precision: 10, scale: 4 }),
+    ts: bigint('ts', { mode: 'number' }).notNull(),
+    deliveryStatus: varchar('delivery_status', { length: 20 }).notNull().default('pending'), // 'pending' | 'sent' | 'failed' | 'skipped'
+    readAt: timestamp('read_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    alertTsIdx: index('idx_alert_triggers_alert_ts').on(table.alertId, table.ts),
+    userTsIdx: index('idx_alert_triggers_user_ts').on(table.userId, table.ts),
+    unreadIdx: index('idx_alert_triggers_unread').on(table.userId).where(sql`${table.readAt} IS NULL`),
+    deliveryStatusCheck: check('delivery_status_check', sql`${table.deliveryStatus} IN ('pending', 'sent', 'failed', 'skipped')`),
+  })
+);
+
+// Device tokens table - FCM push bildirim token'ları
+export const deviceTokens = pgTable(
+  'device_tokens',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    token: varchar('token', { length: 512 }).notNull().unique(),
+    platform: varchar('platform', { length: 10 }).notNull(), // 'ios' | 'android' | 'web'
+    locale: varchar('locale', { length: 5 }).notNull().default('tr'), // 'tr' | 'en'
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    userIdx: index('idx_device_tokens_user').on(table.userId),
+    platformCheck: check('device_platform_check', sql`${table.platform} IN ('ios', 'android', 'web')`),
+    localeCheck: check('device_locale_check', sql`${table.locale} IN ('tr', 'en')`),
+  })
+);
+
 // Type exports for TypeScript
 export type Instrument = typeof instruments.$inferSelect;
 export type NewInstrument = typeof instruments.$inferInsert;
@@ -198,17 +471,43 @@ export type LatestQuote = typeof latestQuotes.$inferSelect;
 export type NewLatestQuote = typeof latestQuotes.$inferInsert;
 export type Quote = typeof quotes.$inferSelect;
 export type NewQuote = typeof quotes.$inferInsert;
+export type QuoteRollupHourly = typeof quoteRollupsHourly.$inferSelect;
+export type QuoteRollupDaily = typeof quoteRollupsDaily.$inferSelect;
 export type FetchState = typeof fetchState.$inferSelect;
 export type NewFetchState = typeof fetchState.$inferInsert;
+export type RejectedQuote = typeof rejectedQuotes.$inferSelect;
+export type NewRejectedQuote = typeof rejectedQuotes.$inferInsert;
+export type CpiIndexRow = typeof cpiIndex.$inferSelect;
+export type NewCpiIndexRow = typeof cpiIndex.$inferInsert;
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
 export type Portfolio = typeof portfolios.$inferSelect;
 export type NewPortfolio = typeof portfolios.$inferInsert;
-export type PortfolioHolding = typeof portfolioHoldings.$inferSelect;
-export type NewPortfolioHolding = typeof portfolioHoldings.$inferInsert;
+export type PortfolioMember = typeof portfolioMembers.$inferSelect;
+export type NewPortfolioMember = typeof portfolioMembers.$inferInsert;
+export type PortfolioInvitation = typeof portfolioInvitations.$inferSelect;
+export type NewPortfolioInvitation = typeof portfolioInvitations.$inferInsert;
+export type PortfolioTarget = typeof portfolioTargets.$inferSelect;
+export type NewPortfolioTarget = typeof portfolioTargets.$inferInsert;
+export type PortfolioGoal = typeof portfolioGoals.$inferSelect;
+export type NewPortfolioGoal = typeof portfolioGoals.$inferInsert;
+export type PortfolioTransaction = typeof portfolioTransactions.$inferSelect;
+export type NewPortfolioTransaction = typeof portfolioTransactions.$inferInsert;
+export type PortfolioSnapshot = typeof portfolioSnapshots.$inferSelect;
+export type NewPortfolioSnapshot = typeof portfolioSnapshots.$inferInsert;
+export type PortfolioDebt = typeof portfolioDebts.$inferSelect;
+export type NewPortfolioDebt = typeof portfolioDebts.$inferInsert;
+export type DebtInstallment = typeof debtInstallments.$inferSelect;
+export type NewDebtInstallment = typeof debtInstallments.$inferInsert;
+export type DebtRepayment = typeof debtRepayments.$inferSelect;
+export type NewDebtRepayment = typeof debtRepayments.$inferInsert;
 export type UserFavorite = typeof userFavorites.$inferSelect;
 export type NewUserFavorite = typeof userFavorites.$inferInsert;
 export type UserPin = typeof userPins.$inferSelect;
 export type NewUserPin = typeof userPins.$inferInsert;
 export type PriceAlert = typeof priceAlerts.$inferSelect;
 export type NewPriceAlert = typeof priceAlerts.$inferInsert;
+export type AlertTrigger = typeof alertTriggers.$inferSelect;
+export type NewAlertTrigger = typeof alertTriggers.$inferInsert;
+export type DeviceToken = typeof deviceTokens.$inferSelect;
+export type NewDeviceToken = typeof deviceTokens.$inferInsert;
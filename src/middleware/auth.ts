@@ -8,6 +8,7 @@ import { logger } from '../utils/logger';
 export interface AuthUser {
   id: string;
   email: string;
+  emailVerified: boolean; // Firebase email_verified claim of this request's token
 }
 
 declare module 'fastify' {
@@ -89,7 +90,7 @@ export async function authenticate(request: FastifyRequest, reply: FastifyReply)
 
     await db.update(users).set({ lastLoginAt: new Date() }).where(eq(users.id, user.id));
 
-    request.authUser = { id: user.id, email: user.email };
+    request.authUser = { id: user.id, email: user.email, emailVerified: decoded.email_verified === true };
   } catch (err) {
     const errMsg = err instanceof Error ? err.message : String(err);
     logger.error({ err, firebaseUid: decoded.uid, errMsg }, 'DB error in auth middleware');
@@ -4,10 +4,14 @@ import metalsRoute from './v1/metals';
 import fxRoute from './v1/fx';
 import instrumentsRoute from './v1/instruments';
 import historyRoute from './v1/history';
+import streamRoute from './v1/stream';
+import analyticsRoute from './v1/analytics';
+import convertRoute from './v1/convert';
 import authRoute from './v1/auth';
 import portfoliosRoute from './v1/portfolios';
 import preferencesRoute from './v1/preferences';
 import alertsRoute from './v1/alerts';
+import devicesRoute from './v1/devices';
 
 const routes: FastifyPluginAsync = async (fastify) => {
   // Health check (no auth required)
@@ -18,6 +22,9 @@ const routes: FastifyPluginAsync = async (fastify) => {
   await fastify.register(fxRoute);
   await fastify.register(instrumentsRoute);
   await fastify.register(historyRoute);
+  await fastify.register(streamRoute);
+  await fastify.register(analyticsRoute);
+  await fastify.register(convertRoute);
 
   // Auth & portfolio routes
   await fastify.register(authRoute);
@@ -26,6 +33,7 @@ const routes: FastifyPluginAsync = async (fastify) => {
   // Preferences & alerts routes
   await fastify.register(preferencesRoute);
   await fastify.register(alertsRoute);
+  await fastify.register(devicesRoute);
 };
 
 export default routes;
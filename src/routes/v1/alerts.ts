@@ -19,6 +19,58 @@ const alertsRoute: FastifyPluginAsync = async (fastify) => {
     }
   });
 
+  // GET /v1/alerts/inbox - Bildirim kutusu (tüm alarm tetiklemeleri, okundu/okunmadı)
+  fastify.get<{ Querystring: { limit?: number; offset?: number; unread?: string } }>(
+    '/v1/alerts/inbox',
+    async (request, reply) => {
+      try {
+        const { limit, offset, unread } = request.query;
+        return await alertsService.getInbox(request.authUser!.id, {
+          limit,
+          offset,
+          unreadOnly: unread === 'true',
+        });
+      } catch (error) {
+        logger.error({ err: error }, 'Failed to fetch alert inbox');
+        return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to fetch alert inbox' });
+      }
+    }
+  );
+
+  // POST /v1/alerts/inbox/read - Bildirimleri okundu işaretle (ids yoksa tümü)
+  fastify.post<{ Body: { ids?: string[] } | undefined }>('/v1/alerts/inbox/read', async (request, reply) => {
+    const ids = request.body?.ids;
+
+    if (ids !== undefined && !Array.isArray(ids)) {
+      return reply.code(400).send({ error: 'VALIDATION_ERROR', message: 'ids must be an array' });
+    }
+
+    try {
+      const updated = await alertsService.markTriggersRead(request.authUser!.id, ids);
+      return { success: true, updated };
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to mark alert triggers as read');
+      return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to mark notifications as read' });
+    }
+  });
+
+  // GET /v1/alerts/:id/triggers - Alarmın tetiklenme geçmişi
+  fastify.get<{ Params: { id: string }; Querystring: { limit?: number; offset?: number } }>(
+    '/v1/alerts/:id/triggers',
+    async (request, reply) => {
+      try {
+        const result = await alertsService.getAlertTriggers(request.params.id, request.authUser!.id, request.query);
+        if (!result) {
+          return reply.code(404).send({ error: 'NOT_FOUND', message: 'Alert not found' });
+        }
+        return result;
+      } catch (error) {
+        logger.error({ err: error }, 'Failed to fetch alert triggers');
+        return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to fetch alert triggers' });
+      }
+    }
+  );
+
   // POST /v1/alerts - Yeni alarm oluştur
   fastify.post<{
     Body: {
@@ -0,0 +1,63 @@
+import type { FastifyPluginAsync } from 'fastify';
+import { cacheService } from '../../services/cache.service';
+import { CoinPremiumService } from '../../services/coin-premium.service';
+import { HISTORY_RANGES, isHistoryRange } from '../../services/portfolio-history.service';
+import { logger } from '../../utils/logger';
+
+type CoinPremiumsResponse = Awaited<ReturnType<CoinPremiumService['getCoinPremiums']>>;
+
+const coinPremiumService = new CoinPremiumService();
+
+const analyticsRoute: FastifyPluginAsync = async (fastify) => {
+  /**
+   * GET /v1/analytics/coin-premiums
+   * Premium of physical gold coins over their pure gold content, buy/sell spread
+   * and daily premium history
+   * Query params: ?range=1M|3M|1Y|ALL (default 1Y)
+   */
+  fastify.get<{ Querystring: { range?: string }; Reply: CoinPremiumsResponse }>(
+    '/v1/analytics/coin-premiums',
+    async (request, reply) => {
+      const range = request.query.range ?? '1Y';
+      if (!isHistoryRange(range)) {
+        return reply.code(400).send({
+          error: 'VALIDATION_ERROR',
+          message: `range must be one of: ${Object.keys(HISTORY_RANGES).join(', ')}`,
+        } as any);
+      }
+
+      const cacheKey = `api:analytics:coin-premiums:${range}`;
+
+      try {
+        const cached = cacheService.get<CoinPremiumsResponse>(cacheKey);
+        if (cached) {
+          logger.debug({ range }, 'Serving coin premiums from cache');
+          return cached;
+        }
+
+        const response = await coinPremiumService.getCoinPremiums(range);
+
+        if (!response.reference) {
+          return reply.code(503).send({
+            error: 'NO_DATA',
+            message: 'No gold reference price available. Data fetch may be in progress.',
+          } as any);
+        }
+
+        // Cache for 60 seconds
+        cacheService.set(cacheKey, response, 60 * 1000);
+
+        logger.info({ range, reference: response.reference }, 'Served coin premiums');
+        return response;
+      } catch (error) {
+        logger.error({ err: error }, 'Failed to compute coin premiums');
+        return reply.code(500).send({
+          error: 'INTERNAL_ERROR',
+          message: 'Failed to compute coin premiums',
+        } as any);
+      }
+    }
+  );
+};
+
+export default analyticsRoute;
@@ -0,0 +1,66 @@
+import type { FastifyPluginAsync } from 'fastify';
+import { ConversionService, type ConversionResult } from '../../services/conversion.service';
+import { logger } from '../../utils/logger';
+
+type ConvertQuery = {
+  from?: string; // instrument id or TRY
+  to?: string; // instrument id or TRY (USDTRY = 1 USD)
+  amount?: string; // default 1
+};
+
+const conversionService = new ConversionService();
+
+const convertRoute: FastifyPluginAsync = async (fastify) => {
+  /**
+   * GET /v1/convert
+   * Converts an amount between two metal/fx instruments at latest prices, with the
+   * pure metal equivalent for same-metal pairs and the total value in TRY/USD/EUR
+   * Query params: ?from=ceyrek&to=has&amount=3
+   */
+  fastify.get<{ Querystring: ConvertQuery; Reply: ConversionResult }>('/v1/convert', async (request, reply) => {
+    const { from, to } = request.query;
+    const amount = request.query.amount !== undefined ? Number(request.query.amount) : 1;
+
+    if (!from || !to) {
+      return reply.code(400).send({
+        error: 'MISSING_PARAMETER',
+        message: 'from and to are required',
+      } as any);
+    }
+
+    if (!Number.isFinite(amount) || amount <= 0) {
+      return reply.code(400).send({
+        error: 'VALIDATION_ERROR',
+        message: 'amount must be a positive number',
+      } as any);
+    }
+
+    try {
+      const result = await conversionService.convert(from, to, amount);
+
+      if (!result) {
+        return reply.code(404).send({
+          error: 'INSTRUMENT_NOT_FOUND',
+          message: `Instrument ${from} or ${to} not found`,
+        } as any);
+      }
+
+      return result;
+    } catch (error: any) {
+      if (error?.message?.startsWith('VALIDATION_ERROR:')) {
+        return reply.code(400).send({
+          error: 'VALIDATION_ERROR',
+          message: error.message.replace('VALIDATION_ERROR: ', ''),
+        } as any);
+      }
+
+      logger.error({ err: error, from, to }, 'Failed to convert amount');
+      return reply.code(500).send({
+        error: 'INTERNAL_ERROR',
+        message: 'Failed to convert amount',
+      } as any);
+    }
+  });
+};
+
+export default convertRoute;
@@ -0,0 +1,59 @@
+import type { FastifyPluginAsync } from 'fastify';
+import { authenticate } from '../../middleware/auth';
+import { DeviceService } from '../../services/device.service';
+import { logger } from '../../utils/logger';
+
+const deviceService = new DeviceService();
+
+const devicesRoute: FastifyPluginAsync = async (fastify) => {
+  fastify.addHook('preHandler', authenticate);
+
+  // POST /v1/devices - FCM token kaydet
+  fastify.post<{
+    Body: { token: string; platform: 'ios' | 'android' | 'web'; locale?: 'tr' | 'en' };
+  }>('/v1/devices', async (request, reply) => {
+    const { token, platform, locale } = request.body ?? {};
+
+    if (!token || typeof token !== 'string' || token.length > 512) {
+      return reply.code(400).send({ error: 'VALIDATION_ERROR', message: 'token is required' });
+    }
+
+    if (!['ios', 'android', 'web'].includes(platform)) {
+      return reply.code(400).send({ error: 'VALIDATION_ERROR', message: 'platform must be ios, android, or web' });
+    }
+
+    if (locale !== undefined && !['tr', 'en'].includes(locale)) {
+      return reply.code(400).send({ error: 'VALIDATION_ERROR', message: 'locale must be tr or en' });
+    }
+
+    try {
+      const device = await deviceService.registerDevice(request.authUser!.id, { token, platform, locale });
+      return reply.code(201).send(device);
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to register device');
+      return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to register device' });
+    }
+  });
+
+  // DELETE /v1/devices - FCM token sil (çıkış yaparken)
+  fastify.delete<{ Body: { token: string } }>('/v1/devices', async (request, reply) => {
+    const token = request.body?.token;
+
+    if (!token) {
+      return reply.code(400).send({ error: 'VALIDATION_ERROR', message: 'token is required' });
+    }
+
+    try {
+      const deleted = await deviceService.unregisterDevice(request.authUser!.id, token);
+      if (!deleted) {
+        return reply.code(404).send({ error: 'NOT_FOUND', message: 'Device not found' });
+      }
+      return { success: true };
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to remove device');
+      return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to remove device' });
+    }
+  });
+};
+
+export default devicesRoute;
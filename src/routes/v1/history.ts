@@ -3,6 +3,17 @@ import { db } from '../../config/database';
 import { quotes } from '../../db/schema';
 import { and, eq, gte, lte, desc } from 'drizzle-orm';
 import { cacheService } from '../../services/cache.service';
+import { DEFAULT_SERIES_LOOKBACK_SECONDS, RollupService, istanbulDate, selectHistoryTier, type HistoryTier } from '../../services/rollup.service';
+import { CpiService, buildRealSeries, normalizePeriod, type RealPricePoint } from '../../services/cpi.service';
+import { CurrencyService, convertAmount } from '../../services/currency.service';
+import {
+  CandleService,
+  CANDLE_INTERVALS,
+  isCandleInterval,
+  resolveCandleRange,
+  type Candle,
+  type CandleInterval,
+} from '../../services/candle.service';
 import { logger } from '../../utils/logger';
 
 type HistoryQuery = {
@@ -15,6 +26,7 @@ type HistoryQuery = {
 type HistoryResponse = {
   instrumentId: string;
   category: string;
+  resolution: HistoryTier;
   points: Array<{
     ts: number;
     price: number;
@@ -23,6 +35,53 @@ type HistoryResponse = {
   }>;
 };
 
+type CandlesQuery = {
+  instrumentId: string;
+  interval?: string; // 5m, 15m, 1h, 4h, 1d, 1w, 1M
+  from?: string; // Unix timestamp (seconds)
+  to?: string; // Unix timestamp (seconds)
+};
+
+type CandlesResponse = {
+  instrumentId: string;
+  category: string;
+  interval: CandleInterval;
+  from: number;
+  to: number;
+  candles: Candle[];
+};
+
+type RealHistoryQuery = {
+  instrumentId: string;
+  from?: string; // Unix timestamp (seconds)
+  to?: string; // Unix timestamp (seconds)
+  base?: string; // CPI base period YYYY-MM (default: month of `to`)
+};
+
+type RealHistoryResponse = {
+  instrumentId: string;
+  category: string;
+  quoteCurrency: string;
+  basePeriod: string;
+  latestCpiPeriod: string;
+  summary: {
+    nominalChangePercent: number | null; // TRY
+    realChangePercent: number | null;
+    inflationPercent: number | null;
+  };
+  points: RealPricePoint[];
+};
+
+// Default /v1/history/real window
+const REAL_HISTORY_DEFAULT_SECONDS = 365 * 24 * 60 * 60;
+
+const candleService = new CandleService();
+const rollupService = new RollupService();
+const cpiService = new CpiService();
+const currencyService = new CurrencyService();
+
+const percentChange = (from: number, to: number) => Math.round(((to - from) / from) * 10000) / 100;
+
 const historyRoute: FastifyPluginAsync = async (fastify) => {
   /**
    * GET /v1/history
@@ -67,13 +126,43 @@ const historyRoute: FastifyPluginAsync = async (fastify) => {
         } as any);
       }
 
-      // Build query conditions
-      const conditions = [eq(quotes.instrumentId, instrumentId)];
+      // Without `from`, rollups and raw quotes alike start DEFAULT_SERIES_LOOKBACK_SECONDS before `to`
+      const rangeEnd = to || Math.floor(Date.now() / 1000);
+      const rangeStart = from || rangeEnd - DEFAULT_SERIES_LOOKBACK_SECONDS;
+
+      // Long ranges are served from pre-aggregated rollups: ≤ 7d raw, ≤ 90d hourly, longer daily.
+      // Rollups are complete and evenly spaced, so the raw-point limit does not apply.
+      const requestedRange = rangeEnd - rangeStart;
+      const tier = selectHistoryTier(requestedRange);
+
+      if (tier !== 'raw') {
+        const series = await rollupService.getSeries(tier, instrumentId, rangeStart, to);
+
+        // Fall through to raw quotes if rollups have not been built yet
+        if (series.length > 0) {
+          // Same single-methodology rule as raw points (see below), applied per bucket
+          const hasFullPriceBuckets = series.some((p) => p.fullPrice);
+          const points = hasFullPriceBuckets ? series.filter((p) => p.fullPrice) : series;
+
+          const response: HistoryResponse = {
+            instrumentId,
+            category: instrument.category,
+            resolution: tier,
+            points: points.map((p) => ({ ts: p.ts, price: p.price, buy: p.buy, sell: p.sell })),
+          };
 
-      if (from) {
-        conditions.push(gte(quotes.ts, from));
+          cacheService.set(cacheKey, response, 5 * 60 * 1000);
+
+          logger.info({ instrumentId, from, to, tier, count: response.points.length }, 'Served historical data from rollups');
+          return response;
+        }
+
+        logger.warn({ instrumentId, tier }, 'No rollups for range, falling back to raw quotes');
       }
 
+      // Build query conditions
+      const conditions = [eq(quotes.instrumentId, instrumentId), gte(quotes.ts, rangeStart)];
+
       if (to) {
         conditions.push(lte(quotes.ts, to));
       }
@@ -98,7 +187,7 @@ const historyRoute: FastifyPluginAsync = async (fastify) => {
       //   ≤ 2592000s (1W/1M)  → 6-hour buckets  (21600s)  → max ~28/120 points
       //   longer    (3M+)     → hourly buckets   (3600s)   → mobile aggregates to daily
       // Records are ordered desc(ts), so the first seen per bucket is the latest timestamp.
-      const requestedRange = (to ?? Math.floor(Date.now() / 1000)) - (from ?? 0);
+      // (Ranges beyond 7D only reach this point when rollups are missing.)
       // 1D: 10-minute buckets → ~144 raw points, mobile shows as-is
       // 1W/1M/3M+: hourly buckets → mobile aggregates into 6h or daily OHLC buckets,
       //   which requires multiple raw points per bucket to compute real open/close values.
@@ -126,6 +215,7 @@ const historyRoute: FastifyPluginAsync = async (fastify) => {
       const response: HistoryResponse = {
         instrumentId,
         category: instrument.category,
+        resolution: 'raw',
         points: deduped.map((q) => ({
           ts: q.ts,
           price: parseFloat(q.price),
@@ -150,6 +240,200 @@ const historyRoute: FastifyPluginAsync = async (fastify) => {
       } as any);
     }
   });
+
+  /**
+   * GET /v1/history/candles
+   * Returns OHLC candles aggregated server-side
+   * Query params: ?instrumentId=gram&interval=1d&from=1234567890&to=1234567890
+   */
+  fastify.get<{
+    Querystring: CandlesQuery;
+    Reply: CandlesResponse;
+  }>('/v1/history/candles', async (request, reply) => {
+    const { instrumentId, interval = '1d' } = request.query;
+
+    if (!instrumentId) {
+      return reply.code(400).send({
+        error: 'MISSING_PARAMETER',
+        message: 'instrumentId is required',
+      } as any);
+    }
+
+    if (!isCandleInterval(interval)) {
+      return reply.code(400).send({
+        error: 'VALIDATION_ERROR',
+        message: `interval must be one of: ${Object.keys(CANDLE_INTERVALS).join(', ')}`,
+      } as any);
+    }
+
+    const from = request.query.from ? parseInt(request.query.from, 10) : undefined;
+    const to = request.query.to ? parseInt(request.query.to, 10) : undefined;
+
+    if ((from !== undefined && isNaN(from)) || (to !== undefined && isNaN(to))) {
+      return reply.code(400).send({
+        error: 'VALIDATION_ERROR',
+        message: 'from and to must be Unix timestamps (seconds)',
+      } as any);
+    }
+
+    try {
+      const range = resolveCandleRange(interval, from, to);
+
+      const cacheKey = `api:candles:${instrumentId}:${interval}:${from}:${to}`;
+      const cached = cacheService.get<CandlesResponse>(cacheKey);
+      if (cached) {
+        logger.debug({ instrumentId, interval }, 'Serving candles from cache');
+        return cached;
+      }
+
+      const instrument = await db.query.instruments.findFirst({
+        where: (instruments, { eq }) => eq(instruments.id, instrumentId),
+      });
+
+      if (!instrument) {
+        return reply.code(404).send({
+          error: 'INSTRUMENT_NOT_FOUND',
+          message: `Instrument ${instrumentId} not found`,
+        } as any);
+      }
+
+      const candles = await candleService.getCandles(instrumentId, interval, range.from, range.to);
+
+      const response: CandlesResponse = {
+        instrumentId,
+        category: instrument.category,
+        interval,
+        from: range.from,
+        to: range.to,
+        candles,
+      };
+
+      // Open-ended ranges move with "now", so keep the cache short
+      cacheService.set(cacheKey, response, 60 * 1000);
+
+      logger.info({ instrumentId, interval, count: candles.length }, 'Served candles');
+      return response;
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('VALIDATION_ERROR')) {
+        return reply.code(400).send({
+          error: 'VALIDATION_ERROR',
+          message: error.message.replace('VALIDATION_ERROR: ', ''),
+        } as any);
+      }
+
+      logger.error({ err: error, instrumentId, interval }, 'Failed to fetch candles');
+      return reply.code(500).send({
+        error: 'INTERNAL_ERROR',
+        message: 'Failed to fetch candles',
+      } as any);
+    }
+  });
+
+  /**
+   * GET /v1/history/real
+   * Daily closes restated in base-period TRY using the monthly TÜFE index (oldest first).
+   * Non-TRY instruments are converted to TRY at each day's rate first.
+   * Query params: ?instrumentId=gram&from=1234567890&to=1234567890&base=2025-01
+   */
+  fastify.get<{
+    Querystring: RealHistoryQuery;
+    Reply: RealHistoryResponse;
+  }>('/v1/history/real', async (request, reply) => {
+    const { instrumentId } = request.query;
+
+    if (!instrumentId) {
+      return reply.code(400).send({
+        error: 'MISSING_PARAMETER',
+        message: 'instrumentId is required',
+      } as any);
+    }
+
+    const to = request.query.to ? parseInt(request.query.to, 10) : Math.floor(Date.now() / 1000);
+    const from = request.query.from ? parseInt(request.query.from, 10) : to - REAL_HISTORY_DEFAULT_SECONDS;
+
+    if (isNaN(from) || isNaN(to) || from >= to) {
+      return reply.code(400).send({
+        error: 'VALIDATION_ERROR',
+        message: 'from and to must be Unix timestamps (seconds) with from < to',
+      } as any);
+    }
+
+    const requestedBase = request.query.base ? normalizePeriod(request.query.base) : undefined;
+    if (requestedBase === null) {
+      return reply.code(400).send({
+        error: 'VALIDATION_ERROR',
+        message: 'base must be a period (YYYY-MM)',
+      } as any);
+    }
+
+    try {
+      const cacheKey = `api:history:real:${instrumentId}:${request.query.from}:${request.query.to}:${requestedBase}`;
+      const cached = cacheService.get<RealHistoryResponse>(cacheKey);
+      if (cached) return cached;
+
+      const instrument = await db.query.instruments.findFirst({
+        where: (instruments, { eq }) => eq(instruments.id, instrumentId),
+      });
+
+      if (!instrument) {
+        return reply.code(404).send({
+          error: 'INSTRUMENT_NOT_FOUND',
+          message: `Instrument ${instrumentId} not found`,
+        } as any);
+      }
+
+      const cpi = await cpiService.loadIndex();
+      if (cpi.isEmpty) {
+        return reply.code(503).send({
+          error: 'CPI_NOT_AVAILABLE',
+          message: 'CPI index has not been loaded yet',
+        } as any);
+      }
+
+      const fromDate = istanbulDate(from);
+      const toDate = istanbulDate(to);
+      const latestCpiPeriod = cpi.latestPeriod!;
+      const basePeriod = requestedBase ?? (toDate.slice(0, 7) < latestCpiPeriod ? toDate.slice(0, 7) : latestCpiPeriod);
+
+      const closes = (await rollupService.getDailyCloses([instrumentId], fromDate, toDate)).get(instrumentId) ?? [];
+
+      let toTry: ((price: number, date: string) => number | null) | undefined;
+      if (instrument.quoteCurrency !== 'TRY') {
+        const rates = await currencyService.getHistoricalRates(fromDate, toDate, await currencyService.getLatestRates());
+        toTry = (price, date) => convertAmount(price, instrument.quoteCurrency, 'TRY', rates.on(date));
+      }
+
+      const points = buildRealSeries(closes, cpi, basePeriod, toTry);
+      const first = points[0];
+      const last = points[points.length - 1];
+      const inflationFactor = first && last ? cpi.factor(first.date, last.date) : null;
+
+      const response: RealHistoryResponse = {
+        instrumentId,
+        category: instrument.category,
+        quoteCurrency: instrument.quoteCurrency,
+        basePeriod,
+        latestCpiPeriod,
+        summary: {
+          nominalChangePercent: first && last ? percentChange(first.priceTry, last.priceTry) : null,
+          realChangePercent: first && last ? percentChange(first.realPrice, last.realPrice) : null,
+          inflationPercent: inflationFactor !== null ? percentChange(1, inflationFactor) : null,
+        },
+        points,
+      };
+
+      cacheService.set(cacheKey, response, 5 * 60 * 1000);
+
+      logger.info({ instrumentId, basePeriod, count: points.length }, 'Served real history');
+      return response;
+    } catch (error) {
+      logger.error({ err: error, instrumentId }, 'Failed to fetch real history');
+      return reply.code(500).send({
+        error: 'INTERNAL_ERROR',
+        message: 'Failed to fetch real history',
+      } as any);
+    }
+  });
 };
 
 export default historyRoute;
@@ -1,8 +1,9 @@
 import type { FastifyPluginAsync } from 'fastify';
 import { db } from '../../config/database';
-import { instruments } from '../../db/schema';
+import { instruments, latestQuotes } from '../../db/schema';
 import { eq } from 'drizzle-orm';
 import { cacheService } from '../../services/cache.service';
+import { parseConsensusBreakdown, type SourceBreakdown } from '../../services/consensus.service';
 import { logger } from '../../utils/logger';
 
 type InstrumentsQuery = {
@@ -18,10 +19,29 @@ type InstrumentsResponse = {
     category: string;
     quoteCurrency: string;
     unit?: string | null;
+    fineWeightGrams: number | null;
+    fineness: number | null;
+    troyOunces: number | null;
+    displayPrecision: number;
     sortOrder: number;
   }>;
 };
 
+type InstrumentSourcesResponse = {
+  instrumentId: string;
+  price: number;
+  buy: number | null;
+  sell: number | null;
+  source: string;
+  ts: number;
+  consensus: {
+    median: number;
+    bandPercent: number;
+    agreed: boolean;
+  } | null;
+  sources: SourceBreakdown[];
+};
+
 const instrumentsRoute: FastifyPluginAsync = async (fastify) => {
   /**
    * GET /v1/instruments
@@ -73,6 +93,10 @@ const instrumentsRoute: FastifyPluginAsync = async (fastify) => {
           category: i.category,
           quoteCurrency: i.quoteCurrency,
           unit: i.unit,
+          fineWeightGrams: i.fineWeightGrams ? parseFloat(i.fineWeightGrams) : null,
+          fineness: i.fineness,
+          troyOunces: i.troyOunces ? parseFloat(i.troyOunces) : null,
+          displayPrecision: i.displayPrecision,
           sortOrder: i.sortOrder,
         })),
       };
@@ -90,6 +114,67 @@ const instrumentsRoute: FastifyPluginAsync = async (fastify) => {
       } as any);
     }
   });
+
+  /**
+   * GET /v1/instruments/:id/sources
+   * Per-source breakdown behind the latest price (which providers agreed, which were rejected)
+   */
+  fastify.get<{
+    Params: { id: string };
+    Reply: InstrumentSourcesResponse;
+  }>('/v1/instruments/:id/sources', async (request, reply) => {
+    const { id } = request.params;
+
+    try {
+      const latest = await db.query.latestQuotes.findFirst({
+        where: eq(latestQuotes.instrumentId, id),
+      });
+
+      if (!latest) {
+        return reply.code(404).send({
+          error: 'NOT_FOUND',
+          message: `No quote found for instrument: ${id}`,
+        } as any);
+      }
+
+      const price = parseFloat(latest.price);
+      const buy = latest.buy ? parseFloat(latest.buy) : null;
+      const sell = latest.sell ? parseFloat(latest.sell) : null;
+      const breakdown = parseConsensusBreakdown(latest.rawData);
+
+      return {
+        instrumentId: latest.instrumentId,
+        price,
+        buy,
+        sell,
+        source: latest.source,
+        ts: latest.ts,
+        consensus: breakdown
+          ? { median: breakdown.median, bandPercent: breakdown.bandPercent, agreed: breakdown.agreed }
+          : null,
+        // Single-source instruments: the stored quote is the only source
+        sources: breakdown?.sources ?? [
+          {
+            provider: latest.source,
+            source: latest.source,
+            price,
+            buy,
+            sell,
+            ts: latest.ts,
+            weight: 1,
+            deviationPercent: 0,
+            accepted: true,
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error({ err: error, instrumentId: id }, 'Failed to fetch instrument sources');
+      return reply.code(500).send({
+        error: 'INTERNAL_ERROR',
+        message: 'Failed to fetch instrument sources',
+      } as any);
+    }
+  });
 };
 
 export default instrumentsRoute;
@@ -1,18 +1,213 @@
-import type { FastifyPluginAsync } from 'fastify';
+import type { FastifyPluginAsync, FastifyReply } from 'fastify';
 import { authenticate } from '../../middleware/auth';
 import { PortfolioService } from '../../services/portfolio.service';
+import { PortfolioHistoryService, isHistoryRange, HISTORY_RANGES } from '../../services/portfolio-history.service';
+import { REPORTING_CURRENCIES, isReportingCurrency } from '../../services/currency.service';
+import { COST_METHODS, TRANSACTION_TYPES, type CostMethod, type TransactionType } from '../../services/ledger.service';
+import { DebtService, buildInstallmentSchedule, type InstallmentInput } from '../../services/debt.service';
+import { AllocationService } from '../../services/allocation.service';
+import { PerformanceService } from '../../services/performance.service';
+import { GoalService } from '../../services/goal.service';
+import { PortfolioMemberService, INVITABLE_ROLES, type InvitableRole } from '../../services/portfolio-member.service';
+import { PortfolioImportService, parseCsv, toCsv, type ColumnMapping } from '../../services/portfolio-import.service';
 import { logger } from '../../utils/logger';
 
 const portfolioService = new PortfolioService();
+const portfolioHistoryService = new PortfolioHistoryService();
+const debtService = new DebtService();
+const portfolioImportService = new PortfolioImportService();
+const portfolioMemberService = new PortfolioMemberService();
+const allocationService = new AllocationService();
+const performanceService = new PerformanceService();
+const goalService = new GoalService();
+
+type TransactionBody = {
+  instrumentId?: string;
+  type?: TransactionType;
+  quantity?: string;
+  price?: string;
+  fee?: string;
+  tradeDate?: string;
+  description?: string;
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function isNonNegativeNumber(value: unknown): boolean {
+  const num = Number(value);
+  return value !== '' && value !== null && Number.isFinite(num) && num >= 0;
+}
+
+// İşlem gövdesini doğrula; hata mesajı ya da null döner
+function validateTransactionBody(body: TransactionBody, partial: boolean): string | null {
+  if (!partial) {
+    if (!body.instrumentId || !body.type || !body.tradeDate) {
+      return 'instrumentId, type, and tradeDate are required';
+    }
+    if (body.type !== 'fee' && body.quantity === undefined) return 'quantity is required';
+    if (['buy', 'sell', 'transfer_in'].includes(body.type) && body.price === undefined) return 'price is required';
+    if (body.type === 'fee' && body.fee === undefined) return 'fee is required';
+  }
+
+  if (body.type !== undefined && !TRANSACTION_TYPES.includes(body.type)) {
+    return `type must be one of: ${TRANSACTION_TYPES.join(', ')}`;
+  }
+  if (body.quantity !== undefined && !isNonNegativeNumber(body.quantity)) return 'quantity must be a non-negative number';
+  if (body.quantity !== undefined && body.type !== undefined && body.type !== 'fee' && Number(body.quantity) === 0) {
+    return 'quantity must be greater than zero';
+  }
+  if (body.price !== undefined && !isNonNegativeNumber(body.price)) return 'price must be a non-negative number';
+  if (body.fee !== undefined && !isNonNegativeNumber(body.fee)) return 'fee must be a non-negative number';
+  if (body.tradeDate !== undefined && !DATE_PATTERN.test(body.tradeDate)) return 'tradeDate must be YYYY-MM-DD';
+
+  return null;
+}
+
+type DebtBody = {
+  counterparty?: string;
+  unit?: string;
+  principal?: string | number;
+  startDate?: string;
+  dueDate?: string | null;
+  description?: string;
+  installments?: Array<{ dueDate: string; amount: string | number }>;
+  installmentCount?: number;
+  firstInstallmentDate?: string;
+};
+
+type RepaymentBody = {
+  amount?: string | number;
+  paidUnit?: string;
+  paidAt?: string;
+  debtAmount?: string | number;
+  note?: string;
+};
+
+function isPositiveNumber(value: unknown): boolean {
+  return isNonNegativeNumber(value) && Number(value) > 0;
+}
+
+// Borç gövdesini doğrula; hata mesajı ya da null döner
+function validateDebtBody(body: DebtBody, partial: boolean): string | null {
+  if (!partial) {
+    if (!body.counterparty || !body.unit || body.principal === undefined || !body.startDate) {
+      return 'counterparty, unit, principal, and startDate are required';
+    }
+    if (!DATE_PATTERN.test(body.startDate)) return 'startDate must be YYYY-MM-DD';
+  }
+
+  if (body.principal !== undefined && !isPositiveNumber(body.principal)) return 'principal must be a positive number';
+  if (body.dueDate && !DATE_PATTERN.test(body.dueDate)) return 'dueDate must be YYYY-MM-DD';
+
+  if (body.installments !== undefined && body.installmentCount !== undefined) {
+    return 'Send either installments or installmentCount, not both';
+  }
+  if (body.installments !== undefined) {
+    if (!Array.isArray(body.installments)) return 'installments must be an array';
+    for (const inst of body.installments) {
+      if (!inst || !DATE_PATTERN.test(inst.dueDate)) return 'installment dueDate must be YYYY-MM-DD';
+      if (!isPositiveNumber(inst.amount)) return 'installment amount must be a positive number';
+    }
+  }
+  if (body.installmentCount !== undefined) {
+    if (!Number.isInteger(body.installmentCount) || body.installmentCount < 1 || body.installmentCount > 360) {
+      return 'installmentCount must be an integer between 1 and 360';
+    }
+    if (!body.firstInstallmentDate || !DATE_PATTERN.test(body.firstInstallmentDate)) {
+      return 'firstInstallmentDate (YYYY-MM-DD) is required with installmentCount';
+    }
+    if (partial && body.principal === undefined) return 'principal is required with installmentCount';
+  }
+
+  return null;
+}
+
+// Açık taksitler ya da eşit aylık taksit planı
+function toInstallments(body: DebtBody): InstallmentInput[] | undefined {
+  if (body.installmentCount !== undefined) {
+    return buildInstallmentSchedule(Number(body.principal), body.installmentCount, body.firstInstallmentDate!);
+  }
+  return body.installments?.map((inst) => ({ dueDate: inst.dueDate, amount: Number(inst.amount) }));
+}
+
+function validateRepaymentBody(body: RepaymentBody): string | null {
+  if (body.amount === undefined || !body.paidAt) return 'amount and paidAt are required';
+  if (!isPositiveNumber(body.amount)) return 'amount must be a positive number';
+  if (!DATE_PATTERN.test(body.paidAt)) return 'paidAt must be YYYY-MM-DD';
+  if (body.debtAmount !== undefined && !isPositiveNumber(body.debtAmount)) return 'debtAmount must be a positive number';
+  return null;
+}
+
+type GoalBody = {
+  name?: string;
+  unit?: string;
+  targetAmount?: string | number;
+  targetDate?: string | null;
+  notifyMilestones?: boolean;
+};
+
+// Hedef gövdesini doğrula; hata mesajı ya da null döner
+function validateGoalBody(body: GoalBody, partial: boolean): string | null {
+  if (!partial && (!body.name || !body.unit || body.targetAmount === undefined)) {
+    return 'name, unit, and targetAmount are required';
+  }
+  if (body.name !== undefined && !body.name.trim()) return 'name must not be empty';
+  if (body.targetAmount !== undefined && !isPositiveNumber(body.targetAmount)) return 'targetAmount must be a positive number';
+  if (body.targetDate && !DATE_PATTERN.test(body.targetDate)) return 'targetDate must be YYYY-MM-DD';
+  if (body.notifyMilestones !== undefined && typeof body.notifyMilestones !== 'boolean') return 'notifyMilestones must be a boolean';
+  return null;
+}
+
+type ImportBody = {
+  csv?: string;
+  rows?: Array<Record<string, unknown>>;
+  transactions?: Array<Record<string, unknown>>; // export JSON
+  mapping?: ColumnMapping;
+  portfolio?: string; // source portfolio of a full export
+  dryRun?: boolean;
+};
+
+const EXPORT_COLUMNS = ['portfolio', 'portfolioType', 'instrumentId', 'instrumentName', 'type', 'quantity', 'price', 'fee', 'tradeDate', 'description'];
+const DEBT_EXPORT_COLUMNS = ['portfolio', 'debtId', 'counterparty', 'unit', 'principal', 'repaid', 'remaining', 'startDate', 'dueDate', 'description'];
+
+// JSON satırlarını CSV tablosuna çevir (anahtarlar başlık olur)
+function rowsToTable(rows: Array<Record<string, unknown>>): string[][] {
+  const header = [...new Set(rows.flatMap((row) => Object.keys(row ?? {})))];
+  return [
+    header,
+    ...rows.map((row) => header.map((key) => (row?.[key] === null || row?.[key] === undefined ? '' : String(row[key])))),
+  ];
+}
+
+// Servis hatalarını HTTP yanıtına çevir: VALIDATION_ERROR → 400, FORBIDDEN → 403
+function sendServiceError(reply: FastifyReply, error: any) {
+  const message: string | undefined = error?.message;
+  if (message?.startsWith('VALIDATION_ERROR:')) {
+    return reply.code(400).send({ error: 'VALIDATION_ERROR', message: message.replace('VALIDATION_ERROR: ', '') });
+  }
+  if (message?.startsWith('FORBIDDEN:')) {
+    return reply.code(403).send({ error: 'FORBIDDEN', message: message.replace('FORBIDDEN: ', '') });
+  }
+  return null;
+}
 
 const portfoliosRoute: FastifyPluginAsync = async (fastify) => {
   // All routes require authentication
   fastify.addHook('preHandler', authenticate);
 
-  // GET /v1/portfolios - List all portfolios with summary
-  fastify.get('/v1/portfolios', async (request, reply) => {
+  // Raw CSV bodies for the import endpoint
+  fastify.addContentTypeParser('text/csv', { parseAs: 'string' }, (_request, body, done) => done(null, body));
+
+  // GET /v1/portfolios?currency=TRY|USD|EUR|GRAM - List all portfolios with summary
+  fastify.get<{ Querystring: { currency?: string } }>('/v1/portfolios', async (request, reply) => {
+    const { currency } = request.query;
+    if (currency !== undefined && !isReportingCurrency(currency)) {
+      return reply.code(400).send({ error: 'VALIDATION_ERROR', message: `currency must be one of: ${REPORTING_CURRENCIES.join(', ')}` });
+    }
+
     try {
-      const result = await portfolioService.getPortfolios(request.authUser!.id);
+      const result = await portfolioService.getPortfolios(request.authUser!.id, currency);
       return result;
     } catch (error) {
       logger.error({ err: error }, 'Failed to fetch portfolios');
@@ -20,6 +215,69 @@ const portfoliosRoute: FastifyPluginAsync = async (fastify) => {
     }
   });
 
+  // GET /v1/portfolios/export?format=json|csv&records=transactions|debts - Tüm portföyler, işlemler,
+  // açık pozisyonlar ve borç kayıtları; CSV tek tablo olduğundan borçlar records=debts ile ayrı indirilir
+  fastify.get<{ Querystring: { format?: string; records?: string } }>('/v1/portfolios/export', async (request, reply) => {
+    const format = request.query.format ?? 'json';
+    if (format !== 'json' && format !== 'csv') {
+      return reply.code(400).send({ error: 'VALIDATION_ERROR', message: 'format must be json or csv' });
+    }
+    const records = request.query.records ?? 'transactions';
+    if (records !== 'transactions' && records !== 'debts') {
+      return reply.code(400).send({ error: 'VALIDATION_ERROR', message: 'records must be transactions or debts' });
+    }
+
+    try {
+      const exported = await portfolioService.exportPortfolios(request.authUser!.id);
+      const date = new Date().toISOString().slice(0, 10);
+
+      if (format === 'json') {
+        return { exportedAt: new Date().toISOString(), portfolios: exported };
+      }
+
+      if (records === 'debts') {
+        const csv = toCsv(DEBT_EXPORT_COLUMNS, exported.flatMap((portfolio) => portfolio.debts.map((d) => [
+          portfolio.name,
+          d.id,
+          d.counterparty,
+          d.unit,
+          d.principal,
+          d.repaid,
+          d.remaining,
+          d.startDate,
+          d.dueDate,
+          d.description,
+        ])));
+
+        return reply
+          .header('Content-Type', 'text/csv; charset=utf-8')
+          .header('Content-Disposition', `attachment; filename="debts-${date}.csv"`)
+          .send(csv);
+      }
+
+      const csv = toCsv(EXPORT_COLUMNS, exported.flatMap((portfolio) => portfolio.transactions.map((t) => [
+        portfolio.name,
+        portfolio.type,
+        t.instrumentId,
+        t.instrumentName,
+        t.type,
+        t.quantity,
+        t.price,
+        t.fee,
+        t.tradeDate,
+        t.description,
+      ])));
+
+      return reply
+        .header('Content-Type', 'text/csv; charset=utf-8')
+        .header('Content-Disposition', `attachment; filename="portfolios-${date}.csv"`)
+        .send(csv);
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to export portfolios');
+      return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to export portfolios' });
+    }
+  });
+
   // POST /v1/portfolios - Create a portfolio
   fastify.post<{ Body: { name: string; type: 'birikim' | 'borc'; icon?: string; color?: string } }>(
     '/v1/portfolios',
@@ -44,31 +302,283 @@ const portfoliosRoute: FastifyPluginAsync = async (fastify) => {
     }
   );
 
-  // GET /v1/portfolios/:id - Get portfolio detail with holdings
-  fastify.get<{ Params: { id: string } }>('/v1/portfolios/:id', async (request, reply) => {
+  // GET /v1/portfolios/:id?currency=TRY|USD|EUR|GRAM - Get portfolio detail with holdings
+  fastify.get<{ Params: { id: string }; Querystring: { currency?: string } }>('/v1/portfolios/:id', async (request, reply) => {
+    const { currency } = request.query;
+    if (currency !== undefined && !isReportingCurrency(currency)) {
+      return reply.code(400).send({ error: 'VALIDATION_ERROR', message: `currency must be one of: ${REPORTING_CURRENCIES.join(', ')}` });
+    }
+
     try {
-      const result = await portfolioService.getPortfolioDetail(request.params.id, request.authUser!.id);
+      const result = await portfolioService.getPortfolioDetail(request.params.id, request.authUser!.id, currency);
       if (!result) {
         return reply.code(404).send({ error: 'NOT_FOUND', message: 'Portfolio not found' });
       }
       return result;
-    } catch (error) {
+    } catch (error: any) {
+      const handled = sendServiceError(reply, error);
+      if (handled) return handled;
       logger.error({ err: error }, 'Failed to fetch portfolio detail');
       return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to fetch portfolio' });
     }
   });
 
+  // GET /v1/portfolios/:id/history?range=1M|3M|1Y|ALL&currency= - Günlük değer, maliyet ve K/Z serisi (eskiden yeniye)
+  fastify.get<{ Params: { id: string }; Querystring: { range?: string; currency?: string } }>(
+    '/v1/portfolios/:id/history',
+    async (request, reply) => {
+      const range = request.query.range ?? '1M';
+      if (!isHistoryRange(range)) {
+        return reply.code(400).send({
+          error: 'VALIDATION_ERROR',
+          message: `range must be one of: ${Object.keys(HISTORY_RANGES).join(', ')}`,
+        });
+      }
+      const { currency } = request.query;
+      if (currency !== undefined && !isReportingCurrency(currency)) {
+        return reply.code(400).send({ error: 'VALIDATION_ERROR', message: `currency must be one of: ${REPORTING_CURRENCIES.join(', ')}` });
+      }
+
+      try {
+        const result = await portfolioHistoryService.getHistory(request.params.id, request.authUser!.id, range, currency);
+        if (!result) {
+          return reply.code(404).send({ error: 'NOT_FOUND', message: 'Portfolio not found' });
+        }
+        return result;
+      } catch (error: any) {
+        const handled = sendServiceError(reply, error);
+        if (handled) return handled;
+        logger.error({ err: error }, 'Failed to fetch portfolio history');
+        return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to fetch portfolio history' });
+      }
+    }
+  );
+
+  // GET /v1/portfolios/:id/performance?range=1M|3M|1Y|ALL&currency= - Zaman ve para ağırlıklı getiri, dolar/euro/gram altın karşılaştırması
+  fastify.get<{ Params: { id: string }; Querystring: { range?: string; currency?: string } }>(
+    '/v1/portfolios/:id/performance',
+    async (request, reply) => {
+      const range = request.query.range ?? 'ALL';
+      const { currency } = request.query;
+      if (!isHistoryRange(range)) {
+        return reply.code(400).send({
+          error: 'VALIDATION_ERROR',
+          message: `range must be one of: ${Object.keys(HISTORY_RANGES).join(', ')}`,
+        });
+      }
+      if (currency !== undefined && !isReportingCurrency(currency)) {
+        return reply.code(400).send({ error: 'VALIDATION_ERROR', message: `currency must be one of: ${REPORTING_CURRENCIES.join(', ')}` });
+      }
+
+      try {
+        const result = await performanceService.getPerformance(request.params.id, request.authUser!.id, range, currency);
+        if (!result) {
+          return reply.code(404).send({ error: 'NOT_FOUND', message: 'Portfolio not found' });
+        }
+        return result;
+      } catch (error: any) {
+        const handled = sendServiceError(reply, error);
+        if (handled) return handled;
+        logger.error({ err: error }, 'Failed to fetch portfolio performance');
+        return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to fetch portfolio performance' });
+      }
+    }
+  );
+
+  // GET /v1/portfolios/:id/goals - Birikim hedefleri (ilerleme, tahmini tamamlanma, gereken aylık katkı)
+  fastify.get<{ Params: { id: string } }>('/v1/portfolios/:id/goals', async (request, reply) => {
+    try {
+      const goals = await goalService.getGoals(request.params.id, request.authUser!.id);
+      if (!goals) {
+        return reply.code(404).send({ error: 'NOT_FOUND', message: 'Portfolio not found' });
+      }
+      return { goals };
+    } catch (error: any) {
+      const handled = sendServiceError(reply, error);
+      if (handled) return handled;
+      logger.error({ err: error }, 'Failed to fetch goals');
+      return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to fetch goals' });
+    }
+  });
+
+  // POST /v1/portfolios/:id/goals - Hedef ekle (unit: TRY, USD, EUR ya da enstrüman, ör. 100 gram)
+  fastify.post<{ Params: { id: string }; Body: GoalBody }>('/v1/portfolios/:id/goals', async (request, reply) => {
+    const body = request.body ?? {};
+    const validationError = validateGoalBody(body, false);
+    if (validationError) {
+      return reply.code(400).send({ error: 'VALIDATION_ERROR', message: validationError });
+    }
+
+    try {
+      const goal = await goalService.createGoal(request.params.id, request.authUser!.id, {
+        name: body.name!.trim(),
+        unit: body.unit!,
+        targetAmount: Number(body.targetAmount),
+        targetDate: body.targetDate,
+        notifyMilestones: body.notifyMilestones,
+      });
+
+      if (!goal) {
+        return reply.code(404).send({ error: 'NOT_FOUND', message: 'Portfolio not found' });
+      }
+
+      return reply.code(201).send(goal);
+    } catch (error: any) {
+      const handled = sendServiceError(reply, error);
+      if (handled) return handled;
+      logger.error({ err: error }, 'Failed to create goal');
+      return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to create goal' });
+    }
+  });
+
+  // PATCH /v1/portfolios/:id/goals/:goalId - Hedef güncelle (tutar/birim değişirse kilometre taşları yeniden sayılır)
+  fastify.patch<{ Params: { id: string; goalId: string }; Body: GoalBody }>(
+    '/v1/portfolios/:id/goals/:goalId',
+    async (request, reply) => {
+      const body = request.body ?? {};
+      const validationError = validateGoalBody(body, true);
+      if (validationError) {
+        return reply.code(400).send({ error: 'VALIDATION_ERROR', message: validationError });
+      }
+
+      try {
+        const goal = await goalService.updateGoal(request.params.id, request.params.goalId, request.authUser!.id, {
+          name: body.name?.trim(),
+          unit: body.unit,
+          targetAmount: body.targetAmount !== undefined ? Number(body.targetAmount) : undefined,
+          targetDate: body.targetDate,
+          notifyMilestones: body.notifyMilestones,
+        });
+
+        if (!goal) {
+          return reply.code(404).send({ error: 'NOT_FOUND', message: 'Portfolio or goal not found' });
+        }
+
+        return goal;
+      } catch (error: any) {
+        const handled = sendServiceError(reply, error);
+        if (handled) return handled;
+        logger.error({ err: error }, 'Failed to update goal');
+        return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to update goal' });
+      }
+    }
+  );
+
+  // DELETE /v1/portfolios/:id/goals/:goalId - Hedef sil
+  fastify.delete<{ Params: { id: string; goalId: string } }>(
+    '/v1/portfolios/:id/goals/:goalId',
+    async (request, reply) => {
+      try {
+        const deleted = await goalService.deleteGoal(request.params.id, request.params.goalId, request.authUser!.id);
+        if (!deleted) {
+          return reply.code(404).send({ error: 'NOT_FOUND', message: 'Portfolio or goal not found' });
+        }
+        return { success: true };
+      } catch (error: any) {
+        const handled = sendServiceError(reply, error);
+        if (handled) return handled;
+        logger.error({ err: error }, 'Failed to delete goal');
+        return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to delete goal' });
+      }
+    }
+  );
+
+  // GET /v1/portfolios/:id/allocation?currency= - Metal, para birimi ve enstrüman dağılımı; hedef varsa sapma ve öneriler
+  fastify.get<{ Params: { id: string }; Querystring: { currency?: string } }>(
+    '/v1/portfolios/:id/allocation',
+    async (request, reply) => {
+      const { currency } = request.query;
+      if (currency !== undefined && !isReportingCurrency(currency)) {
+        return reply.code(400).send({ error: 'VALIDATION_ERROR', message: `currency must be one of: ${REPORTING_CURRENCIES.join(', ')}` });
+      }
+
+      try {
+        const result = await allocationService.getAllocation(request.params.id, request.authUser!.id, currency);
+        if (!result) {
+          return reply.code(404).send({ error: 'NOT_FOUND', message: 'Portfolio not found' });
+        }
+        return result;
+      } catch (error: any) {
+        const handled = sendServiceError(reply, error);
+        if (handled) return handled;
+        logger.error({ err: error }, 'Failed to fetch allocation');
+        return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to fetch allocation' });
+      }
+    }
+  );
+
+  // GET /v1/portfolios/:id/targets - Hedef dağılım (instrumentId → yüzde)
+  fastify.get<{ Params: { id: string } }>('/v1/portfolios/:id/targets', async (request, reply) => {
+    try {
+      const targets = await allocationService.getTargets(request.params.id, request.authUser!.id);
+      if (!targets) {
+        return reply.code(404).send({ error: 'NOT_FOUND', message: 'Portfolio not found' });
+      }
+      return { targets };
+    } catch (error: any) {
+      const handled = sendServiceError(reply, error);
+      if (handled) return handled;
+      logger.error({ err: error }, 'Failed to fetch targets');
+      return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to fetch targets' });
+    }
+  });
+
+  // PUT /v1/portfolios/:id/targets - Hedefleri değiştir (toplam %100; boş liste hedefleri siler)
+  fastify.put<{ Params: { id: string }; Body: { targets?: Array<{ instrumentId: string; percent: number | string }> } }>(
+    '/v1/portfolios/:id/targets',
+    async (request, reply) => {
+      const targets = request.body?.targets;
+      if (!Array.isArray(targets)) {
+        return reply.code(400).send({ error: 'VALIDATION_ERROR', message: 'targets must be an array of { instrumentId, percent }' });
+      }
+      for (const target of targets) {
+        if (!target?.instrumentId || !isNonNegativeNumber(target.percent) || Number(target.percent) > 100) {
+          return reply.code(400).send({ error: 'VALIDATION_ERROR', message: 'Each target needs an instrumentId and a percent between 0 and 100' });
+        }
+      }
+
+      try {
+        const result = await allocationService.setTargets(
+          request.params.id,
+          request.authUser!.id,
+          targets.map((t) => ({ instrumentId: t.instrumentId, percent: Number(t.percent) }))
+        );
+
+        if (!result) {
+          return reply.code(404).send({ error: 'NOT_FOUND', message: 'Portfolio not found' });
+        }
+
+        return { targets: result };
+      } catch (error: any) {
+        const handled = sendServiceError(reply, error);
+        if (handled) return handled;
+        logger.error({ err: error }, 'Failed to update targets');
+        return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to update targets' });
+      }
+    }
+  );
+
   // PATCH /v1/portfolios/:id - Update portfolio
-  fastify.patch<{ Params: { id: string }; Body: { name?: string; icon?: string; color?: string; sortOrder?: number } }>(
+  fastify.patch<{
+    Params: { id: string };
+    Body: { name?: string; icon?: string; color?: string; sortOrder?: number; costMethod?: CostMethod };
+  }>(
     '/v1/portfolios/:id',
     async (request, reply) => {
+      const { costMethod } = request.body;
+      if (costMethod !== undefined && !COST_METHODS.includes(costMethod)) {
+        return reply.code(400).send({ error: 'VALIDATION_ERROR', message: 'costMethod must be fifo or average' });
+      }
+
       try {
         const updated = await portfolioService.updatePortfolio(request.params.id, request.authUser!.id, request.body);
         if (!updated) {
           return reply.code(404).send({ error: 'NOT_FOUND', message: 'Portfolio not found' });
         }
         return updated;
-      } catch (error) {
+      } catch (error: any) {
+        const handled = sendServiceError(reply, error);
+        if (handled) return handled;
         logger.error({ err: error }, 'Failed to update portfolio');
         return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to update portfolio' });
       }
@@ -83,7 +593,9 @@ const portfoliosRoute: FastifyPluginAsync = async (fastify) => {
         return reply.code(404).send({ error: 'NOT_FOUND', message: 'Portfolio not found' });
       }
       return { success: true };
-    } catch (error) {
+    } catch (error: any) {
+      const handled = sendServiceError(reply, error);
+      if (handled) return handled;
       logger.error({ err: error }, 'Failed to delete portfolio');
       return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to delete portfolio' });
     }
@@ -114,7 +626,9 @@ const portfoliosRoute: FastifyPluginAsync = async (fastify) => {
       }
 
       return reply.code(201).send(holding);
-    } catch (error) {
+    } catch (error: any) {
+      const handled = sendServiceError(reply, error);
+      if (handled) return handled;
       logger.error({ err: error }, 'Failed to add holding');
       return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to add holding' });
     }
@@ -138,7 +652,9 @@ const portfoliosRoute: FastifyPluginAsync = async (fastify) => {
       }
 
       return updated;
-    } catch (error) {
+    } catch (error: any) {
+      const handled = sendServiceError(reply, error);
+      if (handled) return handled;
       logger.error({ err: error }, 'Failed to update holding');
       return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to update holding' });
     }
@@ -160,12 +676,556 @@ const portfoliosRoute: FastifyPluginAsync = async (fastify) => {
         }
 
         return { success: true };
-      } catch (error) {
+      } catch (error: any) {
+        const handled = sendServiceError(reply, error);
+        if (handled) return handled;
         logger.error({ err: error }, 'Failed to delete holding');
         return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to delete holding' });
       }
     }
   );
+
+  // GET /v1/portfolios/:id/transactions - İşlem defteri (opsiyonel instrumentId filtresi)
+  fastify.get<{ Params: { id: string }; Querystring: { instrumentId?: string } }>(
+    '/v1/portfolios/:id/transactions',
+    async (request, reply) => {
+      try {
+        const transactions = await portfolioService.getTransactions(
+          request.params.id,
+          request.authUser!.id,
+          request.query.instrumentId
+        );
+
+        if (!transactions) {
+          return reply.code(404).send({ error: 'NOT_FOUND', message: 'Portfolio not found' });
+        }
+
+        return { transactions };
+      } catch (error: any) {
+        const handled = sendServiceError(reply, error);
+        if (handled) return handled;
+        logger.error({ err: error }, 'Failed to fetch transactions');
+        return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to fetch transactions' });
+      }
+    }
+  );
+
+  // POST /v1/portfolios/:id/transactions - İşlem ekle (buy, sell, transfer_in, transfer_out, fee)
+  fastify.post<{ Params: { id: string }; Body: TransactionBody }>(
+    '/v1/portfolios/:id/transactions',
+    async (request, reply) => {
+      const validationError = validateTransactionBody(request.body ?? {}, false);
+      if (validationError) {
+        return reply.code(400).send({ error: 'VALIDATION_ERROR', message: validationError });
+      }
+
+      const { instrumentId, type, quantity, price, fee, tradeDate, description } = request.body;
+
+      try {
+        const transaction = await portfolioService.addTransaction(request.params.id, request.authUser!.id, {
+          instrumentId: instrumentId!,
+          type: type!,
+          quantity: quantity ?? '0',
+          price: price ?? '0',
+          fee,
+          tradeDate: tradeDate!,
+          description,
+        });
+
+        if (!transaction) {
+          return reply.code(404).send({ error: 'NOT_FOUND', message: 'Portfolio not found' });
+        }
+
+        return reply.code(201).send(transaction);
+      } catch (error: any) {
+        const handled = sendServiceError(reply, error);
+        if (handled) return handled;
+        logger.error({ err: error }, 'Failed to add transaction');
+        return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to add transaction' });
+      }
+    }
+  );
+
+  // PATCH /v1/portfolios/:id/transactions/:transactionId - İşlem güncelle
+  fastify.patch<{ Params: { id: string; transactionId: string }; Body: TransactionBody }>(
+    '/v1/portfolios/:id/transactions/:transactionId',
+    async (request, reply) => {
+      const validationError = validateTransactionBody(request.body ?? {}, true);
+      if (validationError) {
+        return reply.code(400).send({ error: 'VALIDATION_ERROR', message: validationError });
+      }
+
+      try {
+        const updated = await portfolioService.updateTransaction(
+          request.params.id,
+          request.params.transactionId,
+          request.authUser!.id,
+          request.body
+        );
+
+        if (!updated) {
+          return reply.code(404).send({ error: 'NOT_FOUND', message: 'Portfolio or transaction not found' });
+        }
+
+        return updated;
+      } catch (error: any) {
+        const handled = sendServiceError(reply, error);
+        if (handled) return handled;
+        logger.error({ err: error }, 'Failed to update transaction');
+        return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to update transaction' });
+      }
+    }
+  );
+
+  // DELETE /v1/portfolios/:id/transactions/:transactionId - İşlem sil
+  fastify.delete<{ Params: { id: string; transactionId: string } }>(
+    '/v1/portfolios/:id/transactions/:transactionId',
+    async (request, reply) => {
+      try {
+        const deleted = await portfolioService.deleteTransaction(
+          request.params.id,
+          request.params.transactionId,
+          request.authUser!.id
+        );
+
+        if (!deleted) {
+          return reply.code(404).send({ error: 'NOT_FOUND', message: 'Portfolio or transaction not found' });
+        }
+
+        return { success: true };
+      } catch (error: any) {
+        const handled = sendServiceError(reply, error);
+        if (handled) return handled;
+        logger.error({ err: error }, 'Failed to delete transaction');
+        return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to delete transaction' });
+      }
+    }
+  );
+
+  // POST /v1/portfolios/:id/import?dryRun=false - CSV (text/csv ya da { csv }) veya JSON satırları içe aktar.
+  // Varsayılan olarak yalnızca önizleme; dryRun=false ile tüm satırlar geçerliyse tek seferde yazılır.
+  // Birden çok portföy içeren dışa aktarımlarda ?portfolio=<ad> ile kaynak portföy seçilir.
+  fastify.post<{ Params: { id: string }; Querystring: { dryRun?: string; portfolio?: string }; Body: ImportBody | string }>(
+    '/v1/portfolios/:id/import',
+    async (request, reply) => {
+      const body: ImportBody = typeof request.body === 'string' ? { csv: request.body } : request.body ?? {};
+      const jsonRows = body.rows ?? body.transactions;
+
+      let table: string[][];
+      if (typeof body.csv === 'string') {
+        table = parseCsv(body.csv);
+      } else if (Array.isArray(jsonRows)) {
+        table = rowsToTable(jsonRows);
+      } else {
+        return reply.code(400).send({ error: 'VALIDATION_ERROR', message: 'Send a CSV body, { csv } or { rows }' });
+      }
+
+      const dryRun = request.query.dryRun !== undefined ? request.query.dryRun !== 'false' : body.dryRun !== false;
+      const sourcePortfolio = request.query.portfolio ?? body.portfolio;
+
+      try {
+        if (dryRun) {
+          const preview = await portfolioImportService.preview(request.params.id, request.authUser!.id, table, body.mapping, sourcePortfolio);
+          if (!preview) {
+            return reply.code(404).send({ error: 'NOT_FOUND', message: 'Portfolio not found' });
+          }
+          return { dryRun: true, ...preview };
+        }
+
+        const result = await portfolioImportService.import(request.params.id, request.authUser!.id, table, body.mapping, sourcePortfolio);
+        if (!result) {
+          return reply.code(404).send({ error: 'NOT_FOUND', message: 'Portfolio not found' });
+        }
+
+        if (!result.committed) {
+          return reply.code(400).send({
+            error: 'VALIDATION_ERROR',
+            message: 'Import has invalid rows; nothing was imported',
+            ...result.preview,
+          });
+        }
+
+        return reply.code(201).send({ dryRun: false, imported: result.imported, ...result.preview });
+      } catch (error: any) {
+        const handled = sendServiceError(reply, error);
+        if (handled) return handled;
+        logger.error({ err: error }, 'Failed to import transactions');
+        return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to import transactions' });
+      }
+    }
+  );
+
+  // GET /v1/portfolios/:id/debts - Borç kayıtları (kalan, gecikmiş, sonraki taksit)
+  fastify.get<{ Params: { id: string } }>('/v1/portfolios/:id/debts', async (request, reply) => {
+    try {
+      const debts = await debtService.getDebts(request.params.id, request.authUser!.id);
+      if (!debts) {
+        return reply.code(404).send({ error: 'NOT_FOUND', message: 'Portfolio not found' });
+      }
+      return { debts };
+    } catch (error: any) {
+      const handled = sendServiceError(reply, error);
+      if (handled) return handled;
+      logger.error({ err: error }, 'Failed to fetch debts');
+      return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to fetch debts' });
+    }
+  });
+
+  // POST /v1/portfolios/:id/debts - Borç ekle (unit: TRY, USD, EUR ya da enstrüman; taksit planı opsiyonel)
+  fastify.post<{ Params: { id: string }; Body: DebtBody }>('/v1/portfolios/:id/debts', async (request, reply) => {
+    const body = request.body ?? {};
+    const validationError = validateDebtBody(body, false);
+    if (validationError) {
+      return reply.code(400).send({ error: 'VALIDATION_ERROR', message: validationError });
+    }
+
+    try {
+      const debt = await debtService.createDebt(request.params.id, request.authUser!.id, {
+        counterparty: body.counterparty!,
+        unit: body.unit!,
+        principal: Number(body.principal),
+        startDate: body.startDate!,
+        dueDate: body.dueDate,
+        description: body.description,
+        installments: toInstallments(body),
+      });
+
+      if (!debt) {
+        return reply.code(404).send({ error: 'NOT_FOUND', message: 'Portfolio not found' });
+      }
+
+      return reply.code(201).send(debt);
+    } catch (error: any) {
+      const handled = sendServiceError(reply, error);
+      if (handled) return handled;
+      logger.error({ err: error }, 'Failed to create debt');
+      return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to create debt' });
+    }
+  });
+
+  // PATCH /v1/portfolios/:id/debts/:debtId - Borç güncelle (taksitler gönderilirse plan yenilenir)
+  fastify.patch<{ Params: { id: string; debtId: string }; Body: DebtBody }>(
+    '/v1/portfolios/:id/debts/:debtId',
+    async (request, reply) => {
+      const body = request.body ?? {};
+      const validationError = validateDebtBody(body, true);
+      if (validationError) {
+        return reply.code(400).send({ error: 'VALIDATION_ERROR', message: validationError });
+      }
+
+      try {
+        const debt = await debtService.updateDebt(request.params.id, request.params.debtId, request.authUser!.id, {
+          counterparty: body.counterparty,
+          principal: body.principal !== undefined ? Number(body.principal) : undefined,
+          dueDate: body.dueDate,
+          description: body.description,
+          installments: toInstallments(body),
+        });
+
+        if (!debt) {
+          return reply.code(404).send({ error: 'NOT_FOUND', message: 'Portfolio or debt not found' });
+        }
+
+        return debt;
+      } catch (error: any) {
+        const handled = sendServiceError(reply, error);
+        if (handled) return handled;
+        logger.error({ err: error }, 'Failed to update debt');
+        return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to update debt' });
+      }
+    }
+  );
+
+  // DELETE /v1/portfolios/:id/debts/:debtId - Borç sil (taksit ve ödemelerle birlikte)
+  fastify.delete<{ Params: { id: string; debtId: string } }>(
+    '/v1/portfolios/:id/debts/:debtId',
+    async (request, reply) => {
+      try {
+        const deleted = await debtService.deleteDebt(request.params.id, request.params.debtId, request.authUser!.id);
+        if (!deleted) {
+          return reply.code(404).send({ error: 'NOT_FOUND', message: 'Portfolio or debt not found' });
+        }
+        return { success: true };
+      } catch (error: any) {
+        const handled = sendServiceError(reply, error);
+        if (handled) return handled;
+        logger.error({ err: error }, 'Failed to delete debt');
+        return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to delete debt' });
+      }
+    }
+  );
+
+  // POST /v1/portfolios/:id/debts/:debtId/repayments - Geri ödeme (gram ya da para birimi; farklı birim günün kuruyla çevrilir)
+  fastify.post<{ Params: { id: string; debtId: string }; Body: RepaymentBody }>(
+    '/v1/portfolios/:id/debts/:debtId/repayments',
+    async (request, reply) => {
+      const body = request.body ?? {};
+      const validationError = validateRepaymentBody(body);
+      if (validationError) {
+        return reply.code(400).send({ error: 'VALIDATION_ERROR', message: validationError });
+      }
+
+      try {
+        const debt = await debtService.addRepayment(request.params.id, request.params.debtId, request.authUser!.id, {
+          amount: Number(body.amount),
+          paidUnit: body.paidUnit,
+          paidAt: body.paidAt!,
+          debtAmount: body.debtAmount !== undefined ? Number(body.debtAmount) : undefined,
+          note: body.note,
+        });
+
+        if (!debt) {
+          return reply.code(404).send({ error: 'NOT_FOUND', message: 'Portfolio or debt not found' });
+        }
+
+        return reply.code(201).send(debt);
+      } catch (error: any) {
+        const handled = sendServiceError(reply, error);
+        if (handled) return handled;
+        logger.error({ err: error }, 'Failed to record repayment');
+        return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to record repayment' });
+      }
+    }
+  );
+
+  // DELETE /v1/portfolios/:id/debts/:debtId/repayments/:repaymentId - Geri ödeme sil
+  fastify.delete<{ Params: { id: string; debtId: string; repaymentId: string } }>(
+    '/v1/portfolios/:id/debts/:debtId/repayments/:repaymentId',
+    async (request, reply) => {
+      try {
+        const deleted = await debtService.deleteRepayment(
+          request.params.id,
+          request.params.debtId,
+          request.params.repaymentId,
+          request.authUser!.id
+        );
+
+        if (!deleted) {
+          return reply.code(404).send({ error: 'NOT_FOUND', message: 'Debt or repayment not found' });
+        }
+
+        return { success: true };
+      } catch (error: any) {
+        const handled = sendServiceError(reply, error);
+        if (handled) return handled;
+        logger.error({ err: error }, 'Failed to delete repayment');
+        return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to delete repayment' });
+      }
+    }
+  );
+
+  // GET /v1/portfolios/:id/members - Portföy üyeleri ve rolleri
+  fastify.get<{ Params: { id: string } }>('/v1/portfolios/:id/members', async (request, reply) => {
+    try {
+      const members = await portfolioMemberService.getMembers(request.params.id, request.authUser!.id);
+      if (!members) {
+        return reply.code(404).send({ error: 'NOT_FOUND', message: 'Portfolio not found' });
+      }
+      return { members };
+    } catch (error: any) {
+      const handled = sendServiceError(reply, error);
+      if (handled) return handled;
+      logger.error({ err: error }, 'Failed to fetch members');
+      return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to fetch members' });
+    }
+  });
+
+  // PATCH /v1/portfolios/:id/members/:userId - Üye rolünü değiştir (owner)
+  fastify.patch<{ Params: { id: string; userId: string }; Body: { role?: InvitableRole } }>(
+    '/v1/portfolios/:id/members/:userId',
+    async (request, reply) => {
+      const role = request.body?.role;
+      if (!role || !INVITABLE_ROLES.includes(role)) {
+        return reply.code(400).send({ error: 'VALIDATION_ERROR', message: `role must be one of: ${INVITABLE_ROLES.join(', ')}` });
+      }
+
+      try {
+        const member = await portfolioMemberService.updateMemberRole(
+          request.params.id,
+          request.params.userId,
+          request.authUser!.id,
+          role
+        );
+
+        if (!member) {
+          return reply.code(404).send({ error: 'NOT_FOUND', message: 'Portfolio or member not found' });
+        }
+
+        return member;
+      } catch (error: any) {
+        const handled = sendServiceError(reply, error);
+        if (handled) return handled;
+        logger.error({ err: error }, 'Failed to update member');
+        return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to update member' });
+      }
+    }
+  );
+
+  // DELETE /v1/portfolios/:id/members/:userId - Üyeyi çıkar (owner) ya da portföyden ayrıl (kendi id'n)
+  fastify.delete<{ Params: { id: string; userId: string } }>(
+    '/v1/portfolios/:id/members/:userId',
+    async (request, reply) => {
+      try {
+        const removed = await portfolioMemberService.removeMember(
+          request.params.id,
+          request.params.userId,
+          request.authUser!.id
+        );
+
+        if (!removed) {
+          return reply.code(404).send({ error: 'NOT_FOUND', message: 'Portfolio or member not found' });
+        }
+
+        return { success: true };
+      } catch (error: any) {
+        const handled = sendServiceError(reply, error);
+        if (handled) return handled;
+        logger.error({ err: error }, 'Failed to remove member');
+        return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to remove member' });
+      }
+    }
+  );
+
+  // POST /v1/portfolios/:id/transfer - Sahipliği başka bir üyeye devret (eski sahip editor olur)
+  fastify.post<{ Params: { id: string }; Body: { userId?: string } }>(
+    '/v1/portfolios/:id/transfer',
+    async (request, reply) => {
+      const newOwnerId = request.body?.userId;
+      if (!newOwnerId) {
+        return reply.code(400).send({ error: 'VALIDATION_ERROR', message: 'userId is required' });
+      }
+
+      try {
+        const result = await portfolioMemberService.transferOwnership(request.params.id, newOwnerId, request.authUser!.id);
+        if (!result) {
+          return reply.code(404).send({ error: 'NOT_FOUND', message: 'Portfolio not found' });
+        }
+        return result;
+      } catch (error: any) {
+        const handled = sendServiceError(reply, error);
+        if (handled) return handled;
+        logger.error({ err: error }, 'Failed to transfer ownership');
+        return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to transfer ownership' });
+      }
+    }
+  );
+
+  // GET /v1/portfolios/:id/invitations - Bekleyen davetler (owner)
+  fastify.get<{ Params: { id: string } }>('/v1/portfolios/:id/invitations', async (request, reply) => {
+    try {
+      const invitations = await portfolioMemberService.getInvitations(request.params.id, request.authUser!.id);
+      if (!invitations) {
+        return reply.code(404).send({ error: 'NOT_FOUND', message: 'Portfolio not found' });
+      }
+      return { invitations };
+    } catch (error: any) {
+      const handled = sendServiceError(reply, error);
+      if (handled) return handled;
+      logger.error({ err: error }, 'Failed to fetch invitations');
+      return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to fetch invitations' });
+    }
+  });
+
+  // POST /v1/portfolios/:id/invitations - E-posta ile davet et (owner; role: editor | viewer)
+  fastify.post<{ Params: { id: string }; Body: { email?: string; role?: InvitableRole } }>(
+    '/v1/portfolios/:id/invitations',
+    async (request, reply) => {
+      const { email, role = 'viewer' } = request.body ?? {};
+      if (!email || !EMAIL_PATTERN.test(email.trim())) {
+        return reply.code(400).send({ error: 'VALIDATION_ERROR', message: 'A valid email is required' });
+      }
+      if (!INVITABLE_ROLES.includes(role)) {
+        return reply.code(400).send({ error: 'VALIDATION_ERROR', message: `role must be one of: ${INVITABLE_ROLES.join(', ')}` });
+      }
+
+      try {
+        const invitation = await portfolioMemberService.invite(request.params.id, request.authUser!.id, email, role);
+        if (!invitation) {
+          return reply.code(404).send({ error: 'NOT_FOUND', message: 'Portfolio not found' });
+        }
+        return reply.code(201).send(invitation);
+      } catch (error: any) {
+        const handled = sendServiceError(reply, error);
+        if (handled) return handled;
+        logger.error({ err: error }, 'Failed to create invitation');
+        return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to create invitation' });
+      }
+    }
+  );
+
+  // DELETE /v1/portfolios/:id/invitations/:invitationId - Daveti geri çek (owner)
+  fastify.delete<{ Params: { id: string; invitationId: string } }>(
+    '/v1/portfolios/:id/invitations/:invitationId',
+    async (request, reply) => {
+      try {
+        const revoked = await portfolioMemberService.revokeInvitation(
+          request.params.id,
+          request.params.invitationId,
+          request.authUser!.id
+        );
+
+        if (!revoked) {
+          return reply.code(404).send({ error: 'NOT_FOUND', message: 'Portfolio or invitation not found' });
+        }
+
+        return { success: true };
+      } catch (error: any) {
+        const handled = sendServiceError(reply, error);
+        if (handled) return handled;
+        logger.error({ err: error }, 'Failed to revoke invitation');
+        return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to revoke invitation' });
+      }
+    }
+  );
+
+  // GET /v1/invitations - Bana gelen bekleyen portföy davetleri
+  fastify.get('/v1/invitations', async (request, reply) => {
+    try {
+      const invitations = await portfolioMemberService.getMyInvitations(request.authUser!);
+      return { invitations };
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to fetch invitations');
+      return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to fetch invitations' });
+    }
+  });
+
+  // POST /v1/invitations/:invitationId/accept - Daveti kabul et (viewer/editor olarak üye olunur)
+  fastify.post<{ Params: { invitationId: string } }>(
+    '/v1/invitations/:invitationId/accept',
+    async (request, reply) => {
+      try {
+        const result = await portfolioMemberService.respond(request.params.invitationId, request.authUser!, true);
+        if (!result) {
+          return reply.code(404).send({ error: 'NOT_FOUND', message: 'Invitation not found' });
+        }
+        return result;
+      } catch (error) {
+        const handled = sendServiceError(reply, error);
+        if (handled) return handled;
+        logger.error({ err: error }, 'Failed to accept invitation');
+        return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to accept invitation' });
+      }
+    }
+  );
+
+  // POST /v1/invitations/:invitationId/decline - Daveti reddet
+  fastify.post<{ Params: { invitationId: string } }>(
+    '/v1/invitations/:invitationId/decline',
+    async (request, reply) => {
+      try {
+        const result = await portfolioMemberService.respond(request.params.invitationId, request.authUser!, false);
+        if (!result) {
+          return reply.code(404).send({ error: 'NOT_FOUND', message: 'Invitation not found' });
+        }
+        return result;
+      } catch (error) {
+        const handled = sendServiceError(reply, error);
+        if (handled) return handled;
+        logger.error({ err: error }, 'Failed to decline invitation');
+        return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to decline invitation' });
+      }
+    }
+  );
 };
 
 export default portfoliosRoute;
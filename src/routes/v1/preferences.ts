@@ -1,6 +1,7 @@
 import type { FastifyPluginAsync } from 'fastify';
 import { authenticate } from '../../middleware/auth';
 import { PreferencesService } from '../../services/preferences.service';
+import { REPORTING_CURRENCIES, isReportingCurrency } from '../../services/currency.service';
 import { logger } from '../../utils/logger';
 
 const preferencesService = new PreferencesService();
@@ -19,6 +20,25 @@ const preferencesRoute: FastifyPluginAsync = async (fastify) => {
     }
   });
 
+  // PATCH /v1/preferences - Raporlama para birimi (TRY, USD, EUR, GRAM)
+  fastify.patch<{ Body: { reportingCurrency?: string } }>('/v1/preferences', async (request, reply) => {
+    const { reportingCurrency } = request.body ?? {};
+    if (!reportingCurrency || !isReportingCurrency(reportingCurrency)) {
+      return reply.code(400).send({
+        error: 'VALIDATION_ERROR',
+        message: `reportingCurrency must be one of: ${REPORTING_CURRENCIES.join(', ')}`,
+      });
+    }
+
+    try {
+      await preferencesService.setReportingCurrency(request.authUser!.id, reportingCurrency);
+      return await preferencesService.getPreferences(request.authUser!.id);
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to update preferences');
+      return reply.code(500).send({ error: 'INTERNAL_ERROR', message: 'Failed to update preferences' });
+    }
+  });
+
   // POST /v1/favorites/:instrumentId - Toggle favori
   fastify.post<{ Params: { instrumentId: string } }>(
     '/v1/favorites/:instrumentId',
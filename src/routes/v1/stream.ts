@@ -0,0 +1,102 @@
+import type { FastifyPluginAsync } from 'fastify';
+import { quoteStream, type StreamClient } from '../../services/quote-stream.service';
+import { logger } from '../../utils/logger';
+
+type StreamQuery = {
+  instruments?: string; // comma-separated instrument ids
+  categories?: string; // metals,fx
+  since?: string; // Unix timestamp (seconds) to resume from
+};
+
+function parseList(value?: string): string[] {
+  return value ? value.split(',').map((item) => item.trim()).filter(Boolean) : [];
+}
+
+const streamRoute: FastifyPluginAsync = async (fastify) => {
+  /**
+   * GET /v1/stream
+   * Live price deltas whenever latest_quotes changes.
+   *   WebSocket: send {"action":"subscribe","instruments":["gram"],"categories":["fx"],"since":1234567890}
+   *   SSE:       ?instruments=gram,ceyrek&categories=fx&since=1234567890 (Last-Event-ID resumes too)
+   */
+  fastify.route<{ Querystring: StreamQuery }>({
+    method: 'GET',
+    url: '/v1/stream',
+
+    // Server-Sent Events fallback
+    handler: async (request, reply) => {
+      reply.hijack();
+      const raw = reply.raw;
+
+      raw.writeHead(200, {
+        ...(reply.getHeaders() as Record<string, string>),
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no', // disable proxy buffering
+      });
+
+      const client: StreamClient = {
+        send: (message) => {
+          const id = 'id' in message ? `id: ${quoteStream.eventId(message.id)}\n` : '';
+          raw.write(`${id}event: ${message.type}\ndata: ${JSON.stringify(message)}\n\n`);
+        },
+        close: () => raw.end(),
+      };
+
+      const connection = quoteStream.connect(client);
+      if (!connection) return;
+
+      request.raw.on('close', () => connection.close());
+
+      connection.subscribe({
+        instruments: parseList(request.query.instruments),
+        categories: parseList(request.query.categories),
+      });
+
+      const lastEventId = request.headers['last-event-id'];
+      if (typeof lastEventId === 'string' && lastEventId) {
+        await quoteStream.resumeFromEventId(connection, lastEventId);
+      } else if (request.query.since) {
+        await quoteStream.resume(connection, Number(request.query.since));
+      }
+
+      logger.debug({ connections: quoteStream.connectionCount }, 'SSE stream opened');
+    },
+
+    wsHandler: (socket, request) => {
+      const client: StreamClient = {
+        send: (message) => {
+          if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+        },
+        close: () => socket.close(1013, 'Try again later'),
+      };
+
+      const connection = quoteStream.connect(client);
+      if (!connection) return;
+
+      socket.on('message', (data) => {
+        connection.handleMessage(data.toString()).catch((error) => {
+          logger.error({ err: error }, 'Failed to handle stream message');
+        });
+      });
+      socket.on('close', () => connection.close());
+
+      // Optional initial subscriptions via query, same as SSE
+      const instruments = parseList(request.query.instruments);
+      const categories = parseList(request.query.categories);
+      if (instruments.length > 0 || categories.length > 0) {
+        connection.subscribe({ instruments, categories });
+        if (request.query.since) {
+          quoteStream.resume(connection, Number(request.query.since)).catch((error) => {
+            logger.error({ err: error }, 'Failed to resume stream');
+          });
+        }
+      }
+
+      logger.debug({ connections: quoteStream.connectionCount }, 'WebSocket stream opened');
+    },
+  });
+};
+
+export default streamRoute;
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { checkThreshold, formatAlertTime, getAlertPrice, isScheduledDue } from './alert-evaluation.service';
+
+describe('AlertEvaluationService', () => {
+  describe('checkThreshold', () => {
+    const baseAlert = {
+      alertType: 'percentage',
+      direction: 'any',
+      thresholdValue: '2.000000',
+      referencePrice: '3000.000000',
+    };
+
+    it('should trigger percentage alerts when the move reaches the threshold', () => {
+      expect(checkThreshold(baseAlert, 3060)?.triggered).toBe(true);
+      expect(checkThreshold(baseAlert, 2940)?.triggered).toBe(true);
+      expect(checkThreshold(baseAlert, 3059)?.triggered).toBe(false);
+    });
+
+    it('should honor direction', () => {
+      const up = { ...baseAlert, direction: 'up' };
+      const down = { ...baseAlert, direction: 'down' };
+
+      expect(checkThreshold(up, 3100)?.triggered).toBe(true);
+      expect(checkThreshold(up, 2900)?.triggered).toBe(false);
+      expect(checkThreshold(down, 2900)?.triggered).toBe(true);
+      expect(checkThreshold(down, 3100)?.triggered).toBe(false);
+    });
+
+    it('should compare absolute change for amount alerts', () => {
+      const amount = { ...baseAlert, alertType: 'amount', thresholdValue: '50.000000' };
+
+      const result = checkThreshold(amount, 3050);
+      expect(result?.triggered).toBe(true);
+      expect(result?.change).toBe(50);
+      expect(result?.changePercent).toBeCloseTo(1.6667, 3);
+      expect(checkThreshold(amount, 3049)?.triggered).toBe(false);
+    });
+
+    it('should return null when reference or threshold is missing', () => {
+      expect(checkThreshold({ ...baseAlert, referencePrice: null }, 3100)).toBeNull();
+      expect(checkThreshold({ ...baseAlert, thresholdValue: null }, 3100)).toBeNull();
+    });
+  });
+
+  describe('getAlertPrice', () => {
+    it('should prefer sell over mid price', () => {
+      expect(getAlertPrice({ sell: '3010.5', price: '3000' })).toBe(3010.5);
+      expect(getAlertPrice({ sell: null, price: 3000 })).toBe(3000);
+    });
+  });
+
+  describe('scheduled alerts', () => {
+    // 2026-02-10 11:05 UTC = 14:05 Istanbul (UTC+3)
+    const now = new Date('2026-02-10T11:05:20Z');
+
+    it('should format time in Istanbul local time', () => {
+      expect(formatAlertTime(now)).toBe('14:05');
+      expect(formatAlertTime(new Date('2026-02-10T21:30:00Z'))).toBe('00:30');
+    });
+
+    it('should be due when a scheduled time matches the current minute', () => {
+      expect(isScheduledDue({ scheduledTimes: '["09:00","14:05"]', lastTriggeredAt: null }, now)).toBe(true);
+      expect(isScheduledDue({ scheduledTimes: '["09:00"]', lastTriggeredAt: null }, now)).toBe(false);
+    });
+
+    it('should not fire twice within the same minute', () => {
+      const lastTriggeredAt = new Date('2026-02-10T11:05:01Z');
+      expect(isScheduledDue({ scheduledTimes: '["14:05"]', lastTriggeredAt }, now)).toBe(false);
+    });
+
+    it('should ignore malformed scheduledTimes', () => {
+      expect(isScheduledDue({ scheduledTimes: 'not-json', lastTriggeredAt: null }, now)).toBe(false);
+      expect(isScheduledDue({ scheduledTimes: null, lastTriggeredAt: null }, now)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,250 @@
+import { db } from '../config/database';
+import { priceAlerts, alertTriggers, latestQuotes } from '../db/schema';
+import type { PriceAlert } from '../db/schema';
+import type { NormalizedQuote } from './data-sources/truncgil.service';
+import { eq, and, inArray } from 'drizzle-orm';
+import { logger } from '../utils/logger';
+import { NotificationDispatcher } from './notifications/notification.service';
+
+// Scheduled alert times ("HH:mm") are entered by users in Turkey local time
+export const ALERT_TIMEZONE = 'Europe/Istanbul';
+
+export type AlertTriggerEvent = {
+  triggerId: string;
+  alertId: string;
+  userId: string;
+  instrumentId: string;
+  alertType: string;
+  direction: string | null;
+  price: number;
+  referencePrice: number | null;
+  changePercent: number | null;
+  ts: number; // Unix timestamp (seconds)
+};
+
+type ThresholdResult = {
+  triggered: boolean;
+  change: number;
+  changePercent: number;
+};
+
+/**
+ * Price used for alert comparisons — same rule as AlertsService.createAlert (sell, then mid)
+ */
+export function getAlertPrice(quote: { sell: number | string | null; price: number | string }): number {
+  const value = quote.sell ?? quote.price;
+  return typeof value === 'string' ? parseFloat(value) : value;
+}
+
+/**
+ * Check a percentage/amount alert against the current price.
+ * Returns null when the alert cannot be evaluated (missing reference or threshold).
+ */
+export function checkThreshold(
+  alert: Pick<PriceAlert, 'alertType' | 'direction' | 'thresholdValue' | 'referencePrice'>,
+  currentPrice: number
+): ThresholdResult | null {
+  if (!alert.referencePrice || !alert.thresholdValue) return null;
+
+  const reference = parseFloat(alert.referencePrice);
+  const threshold = parseFloat(alert.thresholdValue);
+  if (!(reference > 0) || !(threshold > 0) || !Number.isFinite(currentPrice)) return null;
+
+  const change = currentPrice - reference;
+  const changePercent = (change / reference) * 100;
+
+  if (alert.direction === 'up' && change <= 0) return { triggered: false, change, changePercent };
+  if (alert.direction === 'down' && change >= 0) return { triggered: false, change, changePercent };
+
+  const magnitude = alert.alertType === 'percentage' ? Math.abs(changePercent) : Math.abs(change);
+  return { triggered: magnitude >= threshold, change, changePercent };
+}
+
+/**
+ * Format a date as "HH:mm" in Istanbul local time
+ */
+export function formatAlertTime(date: Date): string {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: ALERT_TIMEZONE,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const hour = parts.find((p) => p.type === 'hour')?.value ?? '00';
+  const minute = parts.find((p) => p.type === 'minute')?.value ?? '00';
+  return `${hour}:${minute}`;
+}
+
+/**
+ * Whether a scheduled alert should fire at the given moment.
+ * Guards against double firing when the minute job overlaps or restarts.
+ */
+export function isScheduledDue(
+  alert: Pick<PriceAlert, 'scheduledTimes' | 'lastTriggeredAt'>,
+  now: Date
+): boolean {
+  if (!alert.scheduledTimes) return false;
+
+  let times: unknown;
+  try {
+    times = JSON.parse(alert.scheduledTimes);
+  } catch {
+    return false;
+  }
+  if (!Array.isArray(times) || !times.includes(formatAlertTime(now))) return false;
+
+  if (alert.lastTriggeredAt && now.getTime() - alert.lastTriggeredAt.getTime() < 60 * 1000) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Evaluates price_alerts against fresh quotes and scheduled times
+ */
+export class AlertEvaluationService {
+  constructor(private notificationDispatcher: NotificationDispatcher = new NotificationDispatcher()) {}
+
+  /**
+   * Evaluate percentage/amount alerts for instruments that were just refreshed
+   */
+  async evaluateQuotes(quotesData: NormalizedQuote[]): Promise<AlertTriggerEvent[]> {
+    if (quotesData.length === 0) return [];
+
+    const quoteMap = new Map(quotesData.map((q) => [q.instrumentId, q]));
+    const alerts = await db.query.priceAlerts.findMany({
+      where: and(
+        eq(priceAlerts.isActive, true),
+        inArray(priceAlerts.alertType, ['percentage', 'amount']),
+        inArray(priceAlerts.instrumentId, [...quoteMap.keys()])
+      ),
+    });
+
+    const events: AlertTriggerEvent[] = [];
+
+    for (const alert of alerts) {
+      const quote = quoteMap.get(alert.instrumentId)!;
+      const currentPrice = getAlertPrice(quote);
+
+      // Alarm fiyat verisi yokken oluşturulduysa ilk fiyatı referans al
+      if (!alert.referencePrice) {
+        await db.update(priceAlerts)
+          .set({ referencePrice: currentPrice.toFixed(6), updatedAt: new Date() })
+          .where(eq(priceAlerts.id, alert.id));
+        continue;
+      }
+
+      const result = checkThreshold(alert, currentPrice);
+      if (!result?.triggered) continue;
+
+      events.push(await this.recordTrigger(alert, currentPrice, result.changePercent, quote.ts));
+    }
+
+    if (events.length > 0) {
+      logger.info({ count: events.length }, 'Price alerts triggered');
+      this.notify(events);
+    }
+
+    return events;
+  }
+
+  /**
+   * Fire scheduled alerts whose "HH:mm" matches the current Istanbul time
+   */
+  async evaluateScheduled(now: Date = new Date()): Promise<AlertTriggerEvent[]> {
+    const alerts = await db.query.priceAlerts.findMany({
+      where: and(eq(priceAlerts.isActive, true), eq(priceAlerts.alertType, 'scheduled')),
+    });
+
+    const due = alerts.filter((alert) => isScheduledDue(alert, now));
+    if (due.length === 0) return [];
+
+    const instrumentIds = [...new Set(due.map((a) => a.instrumentId))];
+    const quotes = await db.query.latestQuotes.findMany({
+      where: inArray(latestQuotes.instrumentId, instrumentIds),
+    });
+    const quoteMap = new Map(quotes.map((q) => [q.instrumentId, q]));
+
+    const events: AlertTriggerEvent[] = [];
+
+    for (const alert of due) {
+      const quote = quoteMap.get(alert.instrumentId);
+      if (!quote) {
+        logger.warn({ alertId: alert.id, instrumentId: alert.instrumentId }, 'No quote for scheduled alert, skipping');
+        continue;
+      }
+
+      const currentPrice = getAlertPrice(quote);
+      const reference = alert.referencePrice ? parseFloat(alert.referencePrice) : null;
+      const changePercent = reference && reference > 0 ? ((currentPrice - reference) / reference) * 100 : null;
+
+      events.push(await this.recordTrigger(alert, currentPrice, changePercent, quote.ts));
+    }
+
+    logger.info({ count: events.length, time: formatAlertTime(now) }, 'Scheduled alerts fired');
+    this.notify(events);
+    return events;
+  }
+
+  /**
+   * Push notifications for triggers in the background: FCM retries must not hold up the
+   * refresh, and delivery problems never undo a recorded trigger
+   */
+  private notify(events: AlertTriggerEvent[]): void {
+    this.notificationDispatcher.dispatchAlertTriggers(events).catch((error) => {
+      logger.error({ err: error, count: events.length }, 'Failed to dispatch alert notifications');
+    });
+  }
+
+  /**
+   * Mark alert as triggered, reset its reference to the trigger price
+   * and append a row to alert_triggers
+   */
+  private async recordTrigger(
+    alert: PriceAlert,
+    price: number,
+    changePercent: number | null,
+    ts: number
+  ): Promise<AlertTriggerEvent> {
+    const now = new Date();
+
+    const trigger = await db.transaction(async (tx) => {
+      await tx.update(priceAlerts)
+        .set({
+          lastTriggeredAt: now,
+          referencePrice: price.toFixed(6),
+          updatedAt: now,
+        })
+        .where(eq(priceAlerts.id, alert.id));
+
+      const [inserted] = await tx.insert(alertTriggers).values({
+        alertId: alert.id,
+        userId: alert.userId,
+        instrumentId: alert.instrumentId,
+        price: price.toFixed(6),
+        referencePrice: alert.referencePrice,
+        changePercent: changePercent != null ? changePercent.toFixed(4) : null,
+        ts,
+      }).returning({ id: alertTriggers.id });
+
+      return inserted;
+    });
+
+    logger.debug({ alertId: alert.id, instrumentId: alert.instrumentId, price, changePercent }, 'Alert triggered');
+
+    return {
+      triggerId: trigger.id,
+      alertId: alert.id,
+      userId: alert.userId,
+      instrumentId: alert.instrumentId,
+      alertType: alert.alertType,
+      direction: alert.direction,
+      price,
+      referencePrice: alert.referencePrice ? parseFloat(alert.referencePrice) : null,
+      changePercent,
+      ts,
+    };
+  }
+}
@@ -1,6 +1,7 @@
 import { db } from '../config/database';
-import { priceAlerts, instruments, latestQuotes } from '../db/schema';
-import { eq, and } from 'drizzle-orm';
+import { priceAlerts, alertTriggers, instruments, latestQuotes } from '../db/schema';
+import type { AlertTrigger } from '../db/schema';
+import { eq, and, desc, inArray, isNull, sql } from 'drizzle-orm';
 import { logger } from '../utils/logger';
 
 type CreateAlertInput = {
@@ -18,6 +19,18 @@ type UpdateAlertInput = {
   scheduledTimes?: string[];
 };
 
+type PaginationInput = {
+  limit?: number;
+  offset?: number;
+};
+
+type InboxInput = PaginationInput & {
+  unreadOnly?: boolean;
+};
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
 export class AlertsService {
   async getAlerts(userId: string) {
     const alerts = await db.query.priceAlerts.findMany({
@@ -139,6 +152,97 @@ export class AlertsService {
     };
   }
 
+  async getAlertTriggers(alertId: string, userId: string, input: PaginationInput = {}) {
+    const alert = await db.query.priceAlerts.findFirst({
+      where: and(eq(priceAlerts.id, alertId), eq(priceAlerts.userId, userId)),
+    });
+
+    if (!alert) return null;
+
+    const { limit, offset } = this.normalizePagination(input);
+    const where = eq(alertTriggers.alertId, alertId);
+
+    const [triggers, [{ total }]] = await Promise.all([
+      db.query.alertTriggers.findMany({
+        where,
+        orderBy: [desc(alertTriggers.ts), desc(alertTriggers.createdAt)],
+        limit,
+        offset,
+      }),
+      db.select({ total: sql<number>`count(*)::int` }).from(alertTriggers).where(where),
+    ]);
+
+    const instrument = await db.query.instruments.findFirst({
+      where: eq(instruments.id, alert.instrumentId),
+    });
+
+    return {
+      triggers: triggers.map((t) => this.mapTrigger(t, alert, instrument?.name)),
+      total,
+      limit,
+      offset,
+    };
+  }
+
+  // Bildirim kutusu: kullanıcının tüm alarm tetiklemeleri (en yeni önce)
+  async getInbox(userId: string, input: InboxInput = {}) {
+    const { limit, offset } = this.normalizePagination(input);
+    const where = input.unreadOnly
+      ? and(eq(alertTriggers.userId, userId), isNull(alertTriggers.readAt))
+      : eq(alertTriggers.userId, userId);
+
+    const [triggers, [{ total }], [{ unreadCount }]] = await Promise.all([
+      db.query.alertTriggers.findMany({
+        where,
+        orderBy: [desc(alertTriggers.ts), desc(alertTriggers.createdAt)],
+        limit,
+        offset,
+      }),
+      db.select({ total: sql<number>`count(*)::int` }).from(alertTriggers).where(where),
+      db.select({ unreadCount: sql<number>`count(*)::int` })
+        .from(alertTriggers)
+        .where(and(eq(alertTriggers.userId, userId), isNull(alertTriggers.readAt))),
+    ]);
+
+    const alertIds = [...new Set(triggers.map((t) => t.alertId))];
+    const instrumentIds = [...new Set(triggers.map((t) => t.instrumentId))];
+
+    const [alertData, instrumentData] = await Promise.all([
+      alertIds.length > 0
+        ? db.query.priceAlerts.findMany({ where: inArray(priceAlerts.id, alertIds) })
+        : Promise.resolve([]),
+      instrumentIds.length > 0
+        ? db.query.instruments.findMany({ where: inArray(instruments.id, instrumentIds) })
+        : Promise.resolve([]),
+    ]);
+
+    const alertMap = new Map(alertData.map((a) => [a.id, a]));
+    const instrumentMap = new Map(instrumentData.map((i) => [i.id, i]));
+
+    return {
+      items: triggers.map((t) => this.mapTrigger(t, alertMap.get(t.alertId), instrumentMap.get(t.instrumentId)?.name)),
+      unreadCount,
+      total,
+      limit,
+      offset,
+    };
+  }
+
+  // ids verilmezse tüm okunmamış bildirimler okundu işaretlenir
+  async markTriggersRead(userId: string, triggerIds?: string[]): Promise<number> {
+    if (triggerIds && triggerIds.length === 0) return 0;
+
+    const conditions = [eq(alertTriggers.userId, userId), isNull(alertTriggers.readAt)];
+    if (triggerIds) conditions.push(inArray(alertTriggers.id, triggerIds));
+
+    const updated = await db.update(alertTriggers)
+      .set({ readAt: new Date() })
+      .where(and(...conditions))
+      .returning({ id: alertTriggers.id });
+
+    return updated.length;
+  }
+
   async deleteAlert(alertId: string, userId: string): Promise<boolean> {
     const [deleted] = await db.delete(priceAlerts)
       .where(and(eq(priceAlerts.id, alertId), eq(priceAlerts.userId, userId)))
@@ -146,4 +250,36 @@ export class AlertsService {
 
     return !!deleted;
   }
+
+  private mapTrigger(
+    trigger: AlertTrigger,
+    alert: { alertType: string; direction: string | null } | undefined,
+    instrumentName: string | undefined
+  ) {
+    return {
+      id: trigger.id,
+      alertId: trigger.alertId,
+      instrumentId: trigger.instrumentId,
+      instrumentName: instrumentName ?? trigger.instrumentId,
+      alertType: alert?.alertType ?? null,
+      direction: alert?.direction ?? null,
+      price: parseFloat(trigger.price),
+      referencePrice: trigger.referencePrice ? parseFloat(trigger.referencePrice) : null,
+      changePercent: trigger.changePercent ? parseFloat(trigger.changePercent) : null,
+      ts: trigger.ts,
+      deliveryStatus: trigger.deliveryStatus,
+      isRead: trigger.readAt !== null,
+      readAt: trigger.readAt ? trigger.readAt.toISOString() : null,
+    };
+  }
+
+  private normalizePagination(input: PaginationInput): { limit: number; offset: number } {
+    const limit = Number(input.limit ?? DEFAULT_PAGE_SIZE);
+    const offset = Number(input.offset ?? 0);
+
+    return {
+      limit: Number.isFinite(limit) ? Math.min(Math.max(1, Math.floor(limit)), MAX_PAGE_SIZE) : DEFAULT_PAGE_SIZE,
+      offset: Number.isFinite(offset) ? Math.max(0, Math.floor(offset)) : 0,
+    };
+  }
 }
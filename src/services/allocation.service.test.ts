@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { computeRebalance, exposureCurrencyOf, groupAllocation, metalOf, quantityStep, type AllocationItem } from './allocation.service';
+
+function item(overrides: Partial<AllocationItem>): AllocationItem {
+  return {
+    instrumentId: 'gram',
+    name: 'Gram Altın',
+    code: 'XAU/TRY',
+    category: 'metals',
+    unit: 'gram',
+    quoteCurrency: 'TRY',
+    quantity: 0,
+    bid: 0,
+    ask: 0,
+    ...overrides,
+  };
+}
+
+describe('allocation grouping', () => {
+  it('should classify metals and currency exposure', () => {
+    expect(metalOf('XAG/TRY', 'metals')).toBe('XAG');
+    expect(metalOf('CEYREK', 'metals')).toBe('XAU');
+    expect(metalOf('USD/TRY', 'fx')).toBeNull();
+    expect(exposureCurrencyOf('USD/TRY', 'fx', 'TRY')).toBe('USD');
+    expect(exposureCurrencyOf('XAU/USD', 'metals', 'USD')).toBe('USD');
+  });
+
+  it('should use ounce steps for both unit spellings', () => {
+    expect(quantityStep('oz')).toBe(0.001);
+    expect(quantityStep('ounce')).toBe(0.001);
+    expect(quantityStep('piece')).toBe(1);
+    expect(quantityStep('gram')).toBe(0.01);
+  });
+
+  it('should merge slices and sort by value', () => {
+    expect(groupAllocation([
+      { key: 'XAU', value: 600 },
+      { key: 'XAG', value: 100 },
+      { key: 'XAU', value: 300 },
+    ], 1000)).toEqual([
+      { key: 'XAU', value: 900, percent: 90 },
+      { key: 'XAG', value: 100, percent: 10 },
+    ]);
+  });
+});
+
+describe('computeRebalance', () => {
+  const items = [
+    item({ instrumentId: 'gram', quantity: 10, bid: 3000, ask: 3050 }),
+    item({ instrumentId: 'ceyrek', code: 'CEYREK', unit: 'piece', quantity: 0, bid: 4900, ask: 5000 }),
+    item({ instrumentId: 'USDTRY', code: 'USD/TRY', category: 'fx', unit: null, quantity: 1000, bid: 30, ask: 31 }),
+  ];
+
+  it('should suggest whole coins at the ask and grams at the bid', () => {
+    // total 60,000: gram 50% (30,000), ceyrek 25%, USD 25% (30,000)
+    const result = computeRebalance(items, new Map([['gram', 25], ['ceyrek', 25], ['USDTRY', 50]]));
+    const byId = Object.fromEntries(result.map((r) => [r.instrumentId, r]));
+
+    expect(byId.gram).toMatchObject({ action: 'sell', quantity: 5, drift: 25, price: 3000 });
+    expect(byId.ceyrek).toMatchObject({ action: 'buy', quantity: 3, price: 5000, amount: 15000 });
+    expect(byId.USDTRY).toMatchObject({ action: 'hold', quantity: 0, drift: 0 });
+  });
+
+  it('should sell held instruments that have no target', () => {
+    const result = computeRebalance(items, new Map([['gram', 100]]));
+    expect(result.find((r) => r.instrumentId === 'USDTRY')).toMatchObject({ action: 'sell', quantity: 1000, targetPercent: 0 });
+  });
+});
@@ -0,0 +1,259 @@
+import { db } from '../config/database';
+import { portfolioTargets, portfolioTransactions, latestQuotes, instruments } from '../db/schema';
+import { eq, inArray } from 'drizzle-orm';
+import { computePositions, toLedgerTransaction, type CostMethod } from './ledger.service';
+import { CurrencyService, convertAmount, type ReportingCurrency } from './currency.service';
+import { PortfolioAccessService } from './portfolio-access.service';
+
+export type Metal = 'XAU' | 'XAG' | 'XPT' | 'XPD';
+
+export const METALS: Metal[] = ['XAU', 'XAG', 'XPT', 'XPD'];
+
+export type AllocationItem = {
+  instrumentId: string;
+  name: string;
+  code: string;
+  category: string;
+  unit: string | null;
+  quoteCurrency: string;
+  quantity: number;
+  bid: number; // reporting currency, what a dealer pays (quote.buy)
+  ask: number; // reporting currency, what a dealer charges (quote.sell)
+};
+
+export type AllocationSlice = {
+  key: string;
+  value: number;
+  percent: number;
+};
+
+export type RebalanceSuggestion = {
+  instrumentId: string;
+  currentValue: number;
+  currentPercent: number;
+  targetPercent: number;
+  drift: number; // percentage points, current - target
+  action: 'buy' | 'sell' | 'hold';
+  quantity: number; // instrument units (pieces, grams, ounces, currency units)
+  unit: string | null;
+  price: number; // ask for buys, bid for sells
+  amount: number; // quantity × price
+};
+
+// Kuyumcu ürünleri (çeyrek, bilezik, has...) kodlarında metal yok; hepsi altın
+export function metalOf(code: string, category: string): Metal | null {
+  if (category !== 'metals') return null;
+  const prefix = code.split('/')[0] as Metal;
+  return METALS.includes(prefix) ? prefix : 'XAU';
+}
+
+/**
+ * Currency exposure: FX positions count in their base currency (USD/TRY → USD),
+ * everything else in the currency it is quoted in
+ */
+export function exposureCurrencyOf(code: string, category: string, quoteCurrency: string): string {
+  return category === 'fx' ? code.split('/')[0] : quoteCurrency;
+}
+
+/**
+ * Smallest tradable step: whole coins, 0.01 g, 0.001 oz, 0.01 currency units
+ */
+export function quantityStep(unit: string | null): number {
+  switch (unit) {
+    case 'piece':
+      return 1;
+    case 'oz':
+    case 'ounce': // platin_ons / paladyum_ons (0004)
+      return 0.001;
+    default:
+      return 0.01;
+  }
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function groupAllocation(entries: Array<{ key: string; value: number }>, total: number): AllocationSlice[] {
+  const groups = new Map<string, number>();
+  for (const { key, value } of entries) groups.set(key, (groups.get(key) ?? 0) + value);
+
+  return [...groups.entries()]
+    .map(([key, value]) => ({ key, value: round2(value), percent: total > 0 ? round2((value / total) * 100) : 0 }))
+    .sort((a, b) => b.value - a.value);
+}
+
+/**
+ * Trades that move each instrument toward its target share of the portfolio's current
+ * (bid) value. Buys are priced at the ask and sells at the bid, so the spread shows up
+ * in `amount`; quantities are rounded down to the instrument's step and sells never
+ * exceed the held quantity. Held instruments without a target are treated as 0%.
+ */
+export function computeRebalance(items: AllocationItem[], targets: Map<string, number>): RebalanceSuggestion[] {
+  const total = items.reduce((sum, item) => sum + item.quantity * item.bid, 0);
+  const ids = [...new Set([...items.filter((i) => i.quantity > 0).map((i) => i.instrumentId), ...targets.keys()])];
+
+  return ids.flatMap((instrumentId) => {
+    const item = items.find((i) => i.instrumentId === instrumentId);
+    if (!item) return [];
+
+    const currentValue = item.quantity * item.bid;
+    const targetPercent = targets.get(instrumentId) ?? 0;
+    const currentPercent = total > 0 ? (currentValue / total) * 100 : 0;
+    const difference = (total * targetPercent) / 100 - currentValue;
+    const step = quantityStep(item.unit);
+
+    let action: RebalanceSuggestion['action'] = 'hold';
+    let quantity = 0;
+    let price = item.bid;
+
+    if (difference > 0 && item.ask > 0) {
+      price = item.ask;
+      quantity = Math.floor(difference / item.ask / step + 1e-9) * step;
+      if (quantity > 0) action = 'buy';
+    } else if (difference < 0 && item.bid > 0) {
+      quantity = Math.min(Math.floor(-difference / item.bid / step + 1e-9) * step, item.quantity);
+      if (quantity > 0) action = 'sell';
+    }
+
+    if (action === 'hold') quantity = 0;
+    const decimals = step >= 1 ? 0 : Math.round(-Math.log10(step));
+
+    return [{
+      instrumentId,
+      currentValue: round2(currentValue),
+      currentPercent: round2(currentPercent),
+      targetPercent,
+      drift: round2(currentPercent - targetPercent),
+      action,
+      quantity: Number(quantity.toFixed(decimals)),
+      unit: item.unit,
+      price: round2(price),
+      amount: round2(quantity * price),
+    }];
+  });
+}
+
+/**
+ * Allocation breakdown (metal, currency, instrument) and rebalancing targets
+ */
+export class AllocationService {
+  private currencyService = new CurrencyService();
+  private accessService = new PortfolioAccessService();
+
+  async getAllocation(portfolioId: string, userId: string, currencyOverride?: ReportingCurrency) {
+    const portfolio = await this.accessService.authorize(portfolioId, userId, 'viewer');
+    if (!portfolio) return null;
+
+    const currency = currencyOverride ?? await this.currencyService.getUserCurrency(userId);
+    const targets = await this.loadTargets(portfolioId);
+
+    const rows = await db.query.portfolioTransactions.findMany({
+      where: eq(portfolioTransactions.portfolioId, portfolioId),
+    });
+    const positions = computePositions(rows.map(toLedgerTransaction), portfolio.costMethod as CostMethod, false);
+    const quantities = new Map(positions.map((p) => [p.instrumentId, p.quantity]));
+
+    const instrumentIds = [...new Set([...quantities.keys(), ...targets.keys()])];
+    const [instrumentData, quotes, rates] = await Promise.all([
+      instrumentIds.length > 0 ? db.query.instruments.findMany({ where: inArray(instruments.id, instrumentIds) }) : [],
+      instrumentIds.length > 0 ? db.query.latestQuotes.findMany({ where: inArray(latestQuotes.instrumentId, instrumentIds) }) : [],
+      this.currencyService.getLatestRates(),
+    ]);
+    const quoteMap = new Map(quotes.map((q) => [q.instrumentId, q]));
+
+    const items: AllocationItem[] = [];
+    const unconverted: string[] = [];
+
+    for (const instrument of instrumentData) {
+      const quote = quoteMap.get(instrument.id);
+      const last = quote ? parseFloat(quote.price) : 0;
+      const bid = convertAmount(quote?.buy ? parseFloat(quote.buy) : last, instrument.quoteCurrency, currency, rates);
+      const ask = convertAmount(quote?.sell ? parseFloat(quote.sell) : last, instrument.quoteCurrency, currency, rates);
+
+      if (!quote || bid === null || ask === null) {
+        unconverted.push(instrument.id);
+        continue;
+      }
+
+      items.push({
+        instrumentId: instrument.id,
+        name: instrument.name,
+        code: instrument.code,
+        category: instrument.category,
+        unit: instrument.unit,
+        quoteCurrency: instrument.quoteCurrency,
+        quantity: quantities.get(instrument.id) ?? 0,
+        bid,
+        ask,
+      });
+    }
+
+    const held = items.filter((i) => i.quantity > 0);
+    const totalValue = held.reduce((sum, i) => sum + i.quantity * i.bid, 0);
+    const valueOf = (item: AllocationItem) => item.quantity * item.bid;
+
+    return {
+      currency,
+      totalValue: round2(totalValue),
+      byMetal: groupAllocation(held.map((i) => ({ key: metalOf(i.code, i.category) ?? 'OTHER', value: valueOf(i) })), totalValue),
+      byCurrency: groupAllocation(held.map((i) => ({ key: exposureCurrencyOf(i.code, i.category, i.quoteCurrency), value: valueOf(i) })), totalValue),
+      byInstrument: groupAllocation(held.map((i) => ({ key: i.instrumentId, value: valueOf(i) })), totalValue)
+        .map((slice) => ({ ...slice, name: items.find((i) => i.instrumentId === slice.key)?.name ?? slice.key })),
+      targets: Object.fromEntries(targets),
+      rebalance: targets.size > 0 ? computeRebalance(items, targets) : null,
+      unconvertedInstruments: unconverted,
+    };
+  }
+
+  async getTargets(portfolioId: string, userId: string) {
+    const portfolio = await this.accessService.authorize(portfolioId, userId, 'viewer');
+    if (!portfolio) return null;
+
+    return Object.fromEntries(await this.loadTargets(portfolioId));
+  }
+
+  /**
+   * Replace the portfolio's targets; percents must add up to 100 (an empty list clears them)
+   */
+  async setTargets(portfolioId: string, userId: string, targets: Array<{ instrumentId: string; percent: number }>) {
+    const portfolio = await this.accessService.authorize(portfolioId, userId, 'editor');
+    if (!portfolio) return null;
+
+    const ids = targets.map((t) => t.instrumentId);
+    if (new Set(ids).size !== ids.length) {
+      throw new Error('VALIDATION_ERROR: Each instrument can only have one target');
+    }
+
+    if (targets.length > 0) {
+      const total = targets.reduce((sum, t) => sum + t.percent, 0);
+      if (Math.abs(total - 100) > 0.01) {
+        throw new Error(`VALIDATION_ERROR: Target percents must add up to 100 (got ${round2(total)})`);
+      }
+
+      const known = await db.query.instruments.findMany({ where: inArray(instruments.id, ids), columns: { id: true } });
+      const missing = ids.filter((id) => !known.some((k) => k.id === id));
+      if (missing.length > 0) {
+        throw new Error(`VALIDATION_ERROR: Unknown instrument(s): ${missing.join(', ')}`);
+      }
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.delete(portfolioTargets).where(eq(portfolioTargets.portfolioId, portfolioId));
+      if (targets.length > 0) {
+        await tx.insert(portfolioTargets).values(targets.map((t) => ({
+          portfolioId,
+          instrumentId: t.instrumentId,
+          targetPercent: t.percent.toFixed(2),
+        })));
+      }
+    });
+
+    return Object.fromEntries(targets.map((t) => [t.instrumentId, round2(t.percent)]));
+  }
+
+  private async loadTargets(portfolioId: string): Promise<Map<string, number>> {
+    const rows = await db.query.portfolioTargets.findMany({
+      where: eq(portfolioTargets.portfolioId, portfolioId),
+    });
+    return new Map(rows.map((row) => [row.instrumentId, parseFloat(row.targetPercent)]));
+  }
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { candleSourceRanges, isCandleInterval, resolveCandleRange, DEFAULT_CANDLE_COUNT } from './candle.service';
+
+describe('CandleService', () => {
+  describe('isCandleInterval', () => {
+    it('should accept supported intervals only', () => {
+      for (const interval of ['5m', '15m', '1h', '4h', '1d', '1w', '1M']) {
+        expect(isCandleInterval(interval)).toBe(true);
+      }
+      expect(isCandleInterval('1m')).toBe(false);
+      expect(isCandleInterval('toString')).toBe(false);
+      expect(isCandleInterval(undefined)).toBe(false);
+    });
+  });
+
+  describe('resolveCandleRange', () => {
+    const now = 1770000000;
+
+    it('should default to the last DEFAULT_CANDLE_COUNT intervals', () => {
+      expect(resolveCandleRange('1h', undefined, undefined, now)).toEqual({
+        from: now - 3600 * DEFAULT_CANDLE_COUNT,
+        to: now,
+      });
+    });
+
+    it('should keep explicit bounds', () => {
+      expect(resolveCandleRange('1d', now - 86400 * 30, now - 86400, now)).toEqual({
+        from: now - 86400 * 30,
+        to: now - 86400,
+      });
+    });
+
+    it('should reject inverted or oversized ranges', () => {
+      expect(() => resolveCandleRange('1d', now, now - 1, now)).toThrow('VALIDATION_ERROR');
+      // 10 years of 5-minute candles
+      expect(() => resolveCandleRange('5m', now - 86400 * 3650, now, now)).toThrow('VALIDATION_ERROR');
+    });
+  });
+
+  describe('candleSourceRanges', () => {
+    const cutoffs = { hourlyBefore: 1000, rawBefore: 2000 };
+
+    it('should read compacted ranges from the rollup tiers', () => {
+      expect(candleSourceRanges(500, 3000, cutoffs)).toEqual({
+        daily: { from: 500, to: 999 },
+        hourly: { from: 1000, to: 1999 },
+        raw: { from: 2000, to: 3000 },
+      });
+    });
+
+    it('should leave tiers outside the range empty', () => {
+      const ranges = candleSourceRanges(2500, 3000, cutoffs);
+      expect(ranges.raw).toEqual({ from: 2500, to: 3000 });
+      expect(ranges.hourly.from).toBeGreaterThan(ranges.hourly.to);
+      expect(ranges.daily.from).toBeGreaterThan(ranges.daily.to);
+    });
+
+    it('should use raw quotes only when retention is disabled', () => {
+      const ranges = candleSourceRanges(500, 3000, null);
+      expect(ranges.raw).toEqual({ from: 500, to: 3000 });
+      expect(ranges.hourly.from).toBeGreaterThan(ranges.hourly.to);
+      expect(ranges.daily.from).toBeGreaterThan(ranges.daily.to);
+    });
+  });
+});
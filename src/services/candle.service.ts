@@ -0,0 +1,181 @@
+import { db } from '../config/database';
+import { config } from '../config';
+import { getRetentionCutoffs, type RetentionPolicy } from './retention.service';
+import { sql } from 'drizzle-orm';
+
+// Day and longer buckets follow the Turkish market day, not UTC
+const CANDLE_TIMEZONE = 'Europe/Istanbul';
+const ISTANBUL_OFFSET_SECONDS = 3 * 60 * 60; // fixed UTC+3 since 2016
+
+export const CANDLE_INTERVALS = {
+  '5m': { seconds: 5 * 60 },
+  '15m': { seconds: 15 * 60 },
+  '1h': { seconds: 60 * 60 },
+  '4h': { seconds: 4 * 60 * 60 },
+  '1d': { seconds: 24 * 60 * 60, trunc: 'day' },
+  '1w': { seconds: 7 * 24 * 60 * 60, trunc: 'week' },
+  '1M': { seconds: 30 * 24 * 60 * 60, trunc: 'month' },
+} as const satisfies Record<string, { seconds: number; trunc?: 'day' | 'week' | 'month' }>;
+
+export type CandleInterval = keyof typeof CANDLE_INTERVALS;
+
+export const DEFAULT_CANDLE_COUNT = 200;
+export const MAX_CANDLE_COUNT = 5000;
+
+export type Candle = {
+  ts: number; // bucket start (Unix seconds)
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  buyClose: number | null;
+  sellClose: number | null;
+  count: number;
+};
+
+type CandleRow = {
+  bucket: string | number;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  buy_close: string | null;
+  sell_close: string | null;
+  count: string | number;
+};
+
+export function isCandleInterval(value: unknown): value is CandleInterval {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(CANDLE_INTERVALS, value);
+}
+
+/**
+ * Resolve and validate the requested range.
+ * Defaults: to = now, from = DEFAULT_CANDLE_COUNT intervals before `to`.
+ */
+export function resolveCandleRange(
+  interval: CandleInterval,
+  from: number | undefined,
+  to: number | undefined,
+  now: number = Math.floor(Date.now() / 1000)
+): { from: number; to: number } {
+  const { seconds } = CANDLE_INTERVALS[interval];
+  const rangeTo = to ?? now;
+  const rangeFrom = from ?? rangeTo - seconds * DEFAULT_CANDLE_COUNT;
+
+  if (rangeFrom >= rangeTo) {
+    throw new Error('VALIDATION_ERROR: from must be before to');
+  }
+  if ((rangeTo - rangeFrom) / seconds > MAX_CANDLE_COUNT) {
+    throw new Error(`VALIDATION_ERROR: Range too large for ${interval} candles (max ${MAX_CANDLE_COUNT})`);
+  }
+
+  return { from: rangeFrom, to: rangeTo };
+}
+
+/**
+ * SQL expression mapping quotes.ts to its bucket start (also used by rollups)
+ */
+export function bucketExpression(interval: CandleInterval) {
+  const definition = CANDLE_INTERVALS[interval];
+
+  if ('trunc' in definition) {
+    return sql`EXTRACT(EPOCH FROM date_trunc(${sql.raw(`'${definition.trunc}'`)}, to_timestamp(ts) AT TIME ZONE ${CANDLE_TIMEZONE}) AT TIME ZONE ${CANDLE_TIMEZONE})::bigint`;
+  }
+
+  // Align intraday buckets to Istanbul local time (4h candles start at 00:00, 04:00, ...)
+  const size = definition.seconds;
+  return sql`(((ts + ${ISTANBUL_OFFSET_SECONDS}) / ${size}) * ${size} - ${ISTANBUL_OFFSET_SECONDS})::bigint`;
+}
+
+export type CandleSourceRanges = Record<'raw' | 'hourly' | 'daily', { from: number; to: number }>;
+
+/**
+ * Split [from, to] (inclusive) by storage tier: ticks after retention's raw cutoff come from
+ * quotes, compacted ranges from the hourly and daily rollups. Empty ranges have from > to.
+ * Without cutoffs (retention disabled) everything is raw.
+ */
+export function candleSourceRanges(
+  from: number,
+  to: number,
+  cutoffs: { rawBefore: number; hourlyBefore: number } | null
+): CandleSourceRanges {
+  const rawBefore = cutoffs?.rawBefore ?? 0;
+  const hourlyBefore = cutoffs?.hourlyBefore ?? 0;
+
+  return {
+    daily: { from, to: Math.min(to, hourlyBefore - 1) },
+    hourly: { from: Math.max(from, hourlyBefore), to: Math.min(to, rawBefore - 1) },
+    raw: { from: Math.max(from, rawBefore), to },
+  };
+}
+
+/**
+ * OHLC candles aggregated in Postgres from the quotes table, and from the rollup tables
+ * for ranges the retention job has compacted (there, candles finer than the rollup
+ * tier come back one per hour or per day)
+ */
+export class CandleService {
+  constructor(private retention: RetentionPolicy & { enabled: boolean } = config.retention) {}
+
+  async getCandles(instrumentId: string, interval: CandleInterval, from: number, to: number): Promise<Candle[]> {
+    const now = Math.floor(Date.now() / 1000);
+    const ranges = candleSourceRanges(from, to, this.retention.enabled ? getRetentionCutoffs(this.retention, now) : null);
+
+    // Same source filtering as /v1/history: altin.in rows are sell-only (buy IS NULL, price = sell)
+    // while other sources store the mid price. If any full-price rows exist in a source range,
+    // sell-only rows are excluded so candles use one consistent methodology.
+    const rows = await db.execute<CandleRow>(sql`
+      WITH base AS (
+        SELECT ts, price, buy, sell
+        FROM quotes
+        WHERE instrument_id = ${instrumentId} AND ts >= ${ranges.raw.from} AND ts <= ${ranges.raw.to}
+      ),
+      hourly AS (
+        SELECT bucket_ts AS ts, open, high, low, close, buy_close AS buy, sell_close AS sell, sample_count, full_price
+        FROM quote_rollups_hourly
+        WHERE instrument_id = ${instrumentId} AND bucket_ts >= ${ranges.hourly.from} AND bucket_ts <= ${ranges.hourly.to}
+      ),
+      daily AS (
+        SELECT bucket_ts AS ts, open, high, low, close, buy_close AS buy, sell_close AS sell, sample_count, full_price
+        FROM quote_rollups_daily
+        WHERE instrument_id = ${instrumentId} AND bucket_ts >= ${ranges.daily.from} AND bucket_ts <= ${ranges.daily.to}
+      ),
+      filtered AS (
+        SELECT ts, price AS open, price AS high, price AS low, price AS close, buy, sell, 1 AS sample_count
+        FROM base
+        WHERE buy IS NOT NULL OR NOT EXISTS (SELECT 1 FROM base b WHERE b.buy IS NOT NULL)
+        UNION ALL
+        SELECT ts, open, high, low, close, buy, sell, sample_count
+        FROM hourly
+        WHERE full_price OR NOT EXISTS (SELECT 1 FROM hourly h WHERE h.full_price)
+        UNION ALL
+        SELECT ts, open, high, low, close, buy, sell, sample_count
+        FROM daily
+        WHERE full_price OR NOT EXISTS (SELECT 1 FROM daily d WHERE d.full_price)
+      )
+      SELECT
+        ${bucketExpression(interval)} AS bucket,
+        (array_agg(open ORDER BY ts ASC))[1] AS open,
+        MAX(high) AS high,
+        MIN(low) AS low,
+        (array_agg(close ORDER BY ts DESC))[1] AS close,
+        (array_agg(buy ORDER BY ts DESC) FILTER (WHERE buy IS NOT NULL))[1] AS buy_close,
+        (array_agg(sell ORDER BY ts DESC) FILTER (WHERE sell IS NOT NULL))[1] AS sell_close,
+        SUM(sample_count) AS count
+      FROM filtered
+      GROUP BY bucket
+      ORDER BY bucket ASC
+    `);
+
+    return Array.from(rows, (row) => ({
+      ts: Number(row.bucket),
+      open: parseFloat(row.open),
+      high: parseFloat(row.high),
+      low: parseFloat(row.low),
+      close: parseFloat(row.close),
+      buyClose: row.buy_close != null ? parseFloat(row.buy_close) : null,
+      sellClose: row.sell_close != null ? parseFloat(row.sell_close) : null,
+      count: Number(row.count),
+    }));
+  }
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { buildPremiumSeries, premiumPercent, premiumStats, spreadPercent } from './coin-premium.service';
+import { INSTRUMENT_METADATA } from '../config/instruments';
+
+describe('premiumPercent', () => {
+  it('should compare the price with the pure gold content', () => {
+    // 1,75 g × 0,916 = 1,603 g saf altın
+    expect(INSTRUMENT_METADATA.ceyrek.fineWeightGrams).toBe(1.603);
+    expect(premiumPercent(5290, 1.603 * 3000)).toBeCloseTo(10, 1);
+    expect(premiumPercent(4500, 0)).toBeNull();
+  });
+});
+
+describe('spreadPercent', () => {
+  it('should measure the spread against the mid price', () => {
+    expect(spreadPercent(4900, 5100)).toBeCloseTo(4, 10);
+    expect(spreadPercent(null, 5100)).toBeNull();
+    expect(spreadPercent(0, 5100)).toBeNull();
+  });
+});
+
+describe('buildPremiumSeries', () => {
+  it('should only use days where both the coin and the reference closed', () => {
+    // has: 0,995 saf; çeyrek: 1,603 g saf
+    const series = buildPremiumSeries(
+      [
+        { date: '2025-01-01', price: 5290 },
+        { date: '2025-01-02', price: 5400 },
+        { date: '2025-01-03', price: 5500 },
+      ],
+      [
+        { date: '2025-01-01', price: 3000 },
+        { date: '2025-01-03', price: 3100 },
+      ],
+      1.603,
+      0.995
+    );
+
+    expect(series.map((p) => p.date)).toEqual(['2025-01-01', '2025-01-03']);
+    expect(series[1].intrinsicValue).toBeCloseTo((3100 / 0.995) * 1.603, 6);
+    expect(series[1].premiumPercent).toBeCloseTo((5500 / ((3100 / 0.995) * 1.603) - 1) * 100, 6);
+  });
+});
+
+describe('premiumStats', () => {
+  it('should summarize the premium range', () => {
+    const point = (premium: number) => ({ date: '2025-01-01', price: 1, intrinsicValue: 1, premiumPercent: premium });
+    expect(premiumStats([point(4), point(8), point(6)])).toEqual({ averagePercent: 6, minPercent: 4, maxPercent: 8 });
+    expect(premiumStats([])).toBeNull();
+  });
+});
@@ -0,0 +1,171 @@
+import { db } from '../config/database';
+import { instruments, latestQuotes } from '../db/schema';
+import { HISTORY_RANGES, addDays, type HistoryRange } from './portfolio-history.service';
+import { RollupService, istanbulDate, type DailyPrice } from './rollup.service';
+import { metalOf } from './allocation.service';
+import { and, asc, eq, inArray, isNotNull } from 'drizzle-orm';
+
+// Saf altın gram referansı: has altın, yoksa gram altın
+export const PREMIUM_REFERENCES = ['has', 'gram'] as const;
+export type PremiumReference = (typeof PREMIUM_REFERENCES)[number];
+
+// Earliest date for the ALL range (rollups do not go further back)
+const ALL_RANGE_START = '2000-01-01';
+
+export type PremiumPoint = {
+  date: string;
+  price: number;
+  intrinsicValue: number;
+  premiumPercent: number;
+};
+
+export type PremiumStats = {
+  averagePercent: number;
+  minPercent: number;
+  maxPercent: number;
+};
+
+export type CoinPremium = {
+  instrumentId: string;
+  name: string;
+  fineness: number | null;
+  fineWeightGrams: number;
+  price: number | null;
+  buy: number | null;
+  sell: number | null;
+  ts: number | null;
+  intrinsicValue: number | null;
+  premiumPercent: number | null;
+  spreadPercent: number | null; // (sell - buy) / mid
+  stats: PremiumStats | null; // over the history range
+  history: PremiumPoint[];
+};
+
+/**
+ * Premium of a coin over the value of its pure gold content, in percent
+ */
+export function premiumPercent(price: number, intrinsicValue: number): number | null {
+  return intrinsicValue > 0 ? ((price - intrinsicValue) / intrinsicValue) * 100 : null;
+}
+
+export function spreadPercent(buy: number | null, sell: number | null): number | null {
+  if (buy === null || sell === null || !(buy > 0) || !(sell > 0)) return null;
+  return ((sell - buy) / ((buy + sell) / 2)) * 100;
+}
+
+/**
+ * Daily premium series: days where both the coin and the gold reference have a close.
+ * The reference close is scaled from its own fine weight to the coin's.
+ */
+export function buildPremiumSeries(
+  coinCloses: DailyPrice[],
+  referenceCloses: DailyPrice[],
+  coinFineWeight: number,
+  referenceFineWeight: number
+): PremiumPoint[] {
+  const referenceByDate = new Map(referenceCloses.map((p) => [p.date, p.price]));
+  const points: PremiumPoint[] = [];
+
+  for (const { date, price } of coinCloses) {
+    const reference = referenceByDate.get(date);
+    if (reference === undefined) continue;
+
+    const intrinsicValue = (reference / referenceFineWeight) * coinFineWeight;
+    const premium = premiumPercent(price, intrinsicValue);
+    if (premium === null) continue;
+
+    points.push({ date, price, intrinsicValue, premiumPercent: premium });
+  }
+
+  return points;
+}
+
+export function premiumStats(points: PremiumPoint[]): PremiumStats | null {
+  if (points.length === 0) return null;
+
+  const premiums = points.map((p) => p.premiumPercent);
+  return {
+    averagePercent: premiums.reduce((sum, p) => sum + p, 0) / premiums.length,
+    minPercent: Math.min(...premiums),
+    maxPercent: Math.max(...premiums),
+  };
+}
+
+/**
+ * Jeweler premium and spread of physical gold coins: gold instruments sold per piece
+ * with a fine weight in the instruments table (matched by unit, not by code)
+ */
+export class CoinPremiumService {
+  private rollupService = new RollupService();
+
+  async getCoinPremiums(
+    range: HistoryRange = '1Y',
+    now = new Date()
+  ): Promise<{ reference: PremiumReference | null; requestedFrom: string; from: string | null; to: string; coins: CoinPremium[] }> {
+    const to = istanbulDate(Math.floor(now.getTime() / 1000));
+    const days = HISTORY_RANGES[range];
+    const requestedFrom = days === null ? ALL_RANGE_START : addDays(to, -days);
+
+    // Kuyumcu kodları (CEYREK, TAM, HAS...) metal içermez; sikkeler birimden, referanslar id'den bulunur
+    const [pieceRows, referenceRows] = await Promise.all([
+      db.query.instruments.findMany({
+        where: and(eq(instruments.unit, 'piece'), eq(instruments.isActive, true), isNotNull(instruments.fineWeightGrams)),
+        orderBy: asc(instruments.sortOrder),
+      }),
+      db.query.instruments.findMany({
+        where: and(inArray(instruments.id, [...PREMIUM_REFERENCES]), isNotNull(instruments.fineWeightGrams)),
+      }),
+    ]);
+    const coinRows = pieceRows.filter((row) => metalOf(row.code, row.category) === 'XAU');
+    const ids = [...coinRows.map((row) => row.id), ...PREMIUM_REFERENCES];
+
+    const [rows, closes] = await Promise.all([
+      db.query.latestQuotes.findMany({ where: inArray(latestQuotes.instrumentId, ids) }),
+      this.rollupService.getDailyCloses(ids, requestedFrom, to, 'mid'),
+    ]);
+    const latest = new Map(rows.map((row) => [row.instrumentId, row]));
+
+    // Tek referans: geçmiş seri ile anlık prim aynı fiyata göre hesaplanır
+    const reference = PREMIUM_REFERENCES.find((id) => latest.has(id) && referenceRows.some((row) => row.id === id)) ?? null;
+    const referenceRow = referenceRows.find((row) => row.id === reference);
+    const referenceFineWeight = referenceRow ? parseFloat(referenceRow.fineWeightGrams!) : null;
+    const referencePrice = reference ? parseFloat(latest.get(reference)!.price) : null;
+    const referenceCloses = reference ? closes.get(reference) ?? [] : [];
+
+    const coins = coinRows.map((coin): CoinPremium => {
+      const fineWeightGrams = parseFloat(coin.fineWeightGrams!);
+      const row = latest.get(coin.id);
+      const price = row ? parseFloat(row.price) : null;
+      const buy = row?.buy ? parseFloat(row.buy) : null;
+      const sell = row?.sell ? parseFloat(row.sell) : null;
+      const intrinsicValue = referencePrice !== null && referenceFineWeight
+        ? (referencePrice / referenceFineWeight) * fineWeightGrams
+        : null;
+      const history = referenceFineWeight
+        ? buildPremiumSeries(closes.get(coin.id) ?? [], referenceCloses, fineWeightGrams, referenceFineWeight)
+        : [];
+
+      return {
+        instrumentId: coin.id,
+        name: coin.name,
+        fineness: coin.fineness,
+        fineWeightGrams,
+        price,
+        buy,
+        sell,
+        ts: row?.ts ?? null,
+        intrinsicValue,
+        premiumPercent: price !== null && intrinsicValue !== null ? premiumPercent(price, intrinsicValue) : null,
+        spreadPercent: spreadPercent(buy, sell),
+        stats: premiumStats(history),
+        history,
+      };
+    });
+
+    // Seri günlük rollup'lardan gelir; kapsamı istenen aralıktan kısaysa `from` ilk mevcut günü gösterir
+    const firstDates = coins.filter((coin) => coin.history.length > 0).map((coin) => coin.history[0].date);
+    const from = firstDates.length > 0 ? firstDates.reduce((min, date) => (date < min ? date : min)) : null;
+
+    return { reference, requestedFrom, from, to, coins };
+  }
+}
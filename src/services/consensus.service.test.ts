@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { buildConsensusQuote, parseConsensusBreakdown, ConsensusService, type ConsensusBreakdown } from './consensus.service';
+import type { NormalizedQuote } from './data-sources/truncgil.service';
+
+function quote(price: number, source: string, overrides: Partial<NormalizedQuote> = {}): NormalizedQuote {
+  return { instrumentId: 'gram', ts: 1770000000, price, buy: price - 5, sell: price + 5, source, ...overrides };
+}
+
+const options = { bandPercent: 2, weights: {} };
+
+describe('ConsensusService', () => {
+  describe('buildConsensusQuote', () => {
+    it('should pass a single source through unchanged', () => {
+      const only = quote(3000, 'truncgil', { rawData: { foo: 1 } });
+      expect(buildConsensusQuote([{ provider: 'truncgil', quote: only }], options)).toBe(only);
+    });
+
+    it('should average agreeing sources and mark them as consensus', () => {
+      const result = buildConsensusQuote(
+        [
+          { provider: 'truncgil', quote: quote(3000, 'truncgil') },
+          { provider: 'haremaltin', quote: quote(3020, 'haremaltin', { ts: 1770000060 }) },
+        ],
+        options
+      );
+
+      expect(result.source).toBe('consensus');
+      expect(result.price).toBe(3010);
+      expect(result.buy).toBe(3005);
+      expect(result.sell).toBe(3015);
+      expect(result.ts).toBe(1770000060);
+
+      const breakdown = (result.rawData as { consensus: ConsensusBreakdown }).consensus;
+      expect(breakdown.agreed).toBe(true);
+      expect(breakdown.sources.every((s) => s.accepted)).toBe(true);
+    });
+
+    it('should reject an outlier beyond the band', () => {
+      const result = buildConsensusQuote(
+        [
+          { provider: 'a', quote: quote(3000, 'a') },
+          { provider: 'b', quote: quote(3010, 'b') },
+          { provider: 'c', quote: quote(3600, 'c') },
+        ],
+        options
+      );
+
+      expect(result.price).toBe(3005);
+      const breakdown = (result.rawData as { consensus: ConsensusBreakdown }).consensus;
+      expect(breakdown.median).toBe(3010);
+      expect(breakdown.sources.map((s) => s.accepted)).toEqual([true, true, false]);
+    });
+
+    it('should apply provider weights', () => {
+      const result = buildConsensusQuote(
+        [
+          { provider: 'a', quote: quote(3000, 'a') },
+          { provider: 'b', quote: quote(3030, 'b') },
+        ],
+        { bandPercent: 2, weights: { a: 2 } }
+      );
+
+      expect(result.price).toBe(3010);
+    });
+
+    it('should keep the primary source when sources disagree', () => {
+      const result = buildConsensusQuote(
+        [
+          { provider: 'truncgil', quote: quote(3000, 'truncgil') },
+          { provider: 'haremaltin', quote: quote(3300, 'haremaltin') },
+        ],
+        options
+      );
+
+      expect(result.price).toBe(3000);
+      expect(result.source).toBe('truncgil');
+      const breakdown = (result.rawData as { consensus: ConsensusBreakdown }).consensus;
+      expect(breakdown.agreed).toBe(false);
+      expect(breakdown.sources.map((s) => s.accepted)).toEqual([true, false]);
+    });
+  });
+
+  describe('merge', () => {
+    it('should merge overlapping instruments and keep provider-only ones', () => {
+      const service = new ConsensusService(options);
+      const { quotes, servedBy } = service.merge([
+        { providerId: 'truncgil', quotes: [quote(3000, 'truncgil')] },
+        {
+          providerId: 'haremaltin',
+          quotes: [quote(3010, 'haremaltin'), quote(45, 'haremaltin', { instrumentId: 'platin' })],
+        },
+      ]);
+
+      expect(quotes).toHaveLength(2);
+      expect(servedBy).toEqual({ gram: 'consensus', platin: 'haremaltin' });
+    });
+  });
+
+  describe('parseConsensusBreakdown', () => {
+    it('should read the breakdown from stored rawData', () => {
+      const stored = JSON.stringify({ consensus: { median: 1, bandPercent: 2, agreed: true, sources: [] } });
+      expect(parseConsensusBreakdown(stored)?.median).toBe(1);
+      expect(parseConsensusBreakdown(JSON.stringify({ satis: '1' }))).toBeNull();
+      expect(parseConsensusBreakdown('not-json')).toBeNull();
+      expect(parseConsensusBreakdown(null)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { config } from '../config';
+import type { NormalizedQuote } from './data-sources/truncgil.service';
+import type { ProviderQuotes } from './data-sources/provider-registry';
+import { logger } from '../utils/logger';
+
+export type ConsensusOptions = {
+  bandPercent: number;
+  weights: Readonly<Record<string, number>>;
+};
+
+export type SourceBreakdown = {
+  provider: string;
+  source: string;
+  price: number;
+  buy: number | null;
+  sell: number | null;
+  ts: number;
+  weight: number;
+  deviationPercent: number;
+  accepted: boolean;
+};
+
+export type ConsensusBreakdown = {
+  median: number;
+  bandPercent: number;
+  agreed: boolean; // false when no two sources were within the band
+  sources: SourceBreakdown[];
+};
+
+export type ConsensusCandidate = {
+  provider: string;
+  quote: NormalizedQuote;
+};
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function weightedMean(values: Array<{ value: number; weight: number }>): number {
+  const totalWeight = values.reduce((sum, v) => sum + v.weight, 0);
+  return values.reduce((sum, v) => sum + v.value * v.weight, 0) / totalWeight;
+}
+
+/**
+ * Merge quotes for the same instrument from several providers.
+ *
+ * Values further than bandPercent from the median are rejected; the rest are
+ * combined as a weighted mean. Candidates must be in chain priority order —
+ * when sources disagree completely the first (primary) one is kept.
+ */
+export function buildConsensusQuote(candidates: ConsensusCandidate[], options: ConsensusOptions): NormalizedQuote {
+  if (candidates.length === 1) return candidates[0].quote;
+
+  const mid = median(candidates.map((c) => c.quote.price));
+
+  const sources: SourceBreakdown[] = candidates.map(({ provider, quote }) => {
+    const deviationPercent = mid > 0 ? ((quote.price - mid) / mid) * 100 : 0;
+    return {
+      provider,
+      source: quote.source,
+      price: quote.price,
+      buy: quote.buy,
+      sell: quote.sell,
+      ts: quote.ts,
+      weight: options.weights[provider] ?? 1,
+      deviationPercent: Math.round(deviationPercent * 10000) / 10000,
+      accepted: Math.abs(deviationPercent) <= options.bandPercent,
+    };
+  });
+
+  let accepted = sources.filter((s) => s.accepted && s.weight > 0);
+  const agreed = accepted.length >= 2;
+
+  // No agreement: trust the primary source rather than an average of conflicting values
+  if (!agreed) {
+    const primary = sources[0];
+    sources.forEach((s) => (s.accepted = s === primary));
+    accepted = [primary];
+  }
+
+  const breakdown: ConsensusBreakdown = { median: mid, bandPercent: options.bandPercent, agreed, sources };
+
+  const buys = accepted.filter((s) => s.buy != null).map((s) => ({ value: s.buy!, weight: s.weight }));
+  const sells = accepted.filter((s) => s.sell != null).map((s) => ({ value: s.sell!, weight: s.weight }));
+
+  return {
+    instrumentId: candidates[0].quote.instrumentId,
+    ts: Math.max(...accepted.map((s) => s.ts)),
+    price: agreed ? weightedMean(accepted.map((s) => ({ value: s.price, weight: s.weight }))) : accepted[0].price,
+    buy: buys.length > 0 ? weightedMean(buys) : null,
+    sell: sells.length > 0 ? weightedMean(sells) : null,
+    source: agreed ? 'consensus' : accepted[0].source,
+    rawData: { consensus: breakdown },
+  };
+}
+
+/**
+ * Read the per-source breakdown stored in a quote's rawData (JSON text)
+ */
+export function parseConsensusBreakdown(rawData: string | null): ConsensusBreakdown | null {
+  if (!rawData) return null;
+
+  try {
+    const parsed = JSON.parse(rawData);
+    return parsed && typeof parsed === 'object' && parsed.consensus ? (parsed.consensus as ConsensusBreakdown) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Combines full provider results (registry.fetchAll) into one quote per instrument
+ */
+export class ConsensusService {
+  constructor(private options: ConsensusOptions = config.consensus) {}
+
+  merge(results: ProviderQuotes[]): { quotes: NormalizedQuote[]; servedBy: Record<string, string> } {
+    const byInstrument = new Map<string, ConsensusCandidate[]>();
+
+    for (const { providerId, quotes } of results) {
+      for (const quote of quotes) {
+        const candidates = byInstrument.get(quote.instrumentId) ?? [];
+        // A provider should quote an instrument once; keep its first value
+        if (candidates.some((c) => c.provider === providerId)) continue;
+        candidates.push({ provider: providerId, quote });
+        byInstrument.set(quote.instrumentId, candidates);
+      }
+    }
+
+    const quotes: NormalizedQuote[] = [];
+    const servedBy: Record<string, string> = {};
+    let rejected = 0;
+
+    for (const [instrumentId, candidates] of byInstrument) {
+      const quote = buildConsensusQuote(candidates, this.options);
+      quotes.push(quote);
+      servedBy[instrumentId] = candidates.length === 1 ? candidates[0].provider : quote.source;
+
+      const breakdown = candidates.length > 1 ? (quote.rawData as { consensus: ConsensusBreakdown }).consensus : null;
+      if (breakdown && breakdown.sources.some((s) => !s.accepted)) {
+        rejected++;
+        logger.warn(
+          {
+            instrumentId,
+            agreed: breakdown.agreed,
+            median: breakdown.median,
+            rejected: breakdown.sources.filter((s) => !s.accepted).map((s) => ({ provider: s.provider, price: s.price })),
+          },
+          'Outlier quotes rejected by consensus'
+        );
+      }
+    }
+
+    logger.debug({ instruments: quotes.length, withOutliers: rejected }, 'Consensus merge completed');
+    return { quotes, servedBy };
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { TRY_INSTRUMENT, metalEquivalent, roundTo, tryValuePerUnit, type ConversionInstrument } from './conversion.service';
+import { INSTRUMENT_METADATA } from '../config/instruments';
+
+// Kodlar, birimler ve kur cinsleri scripts/seed.ts ve 0004/0005 migration'larındaki satırlarla aynı
+const ROWS: Record<string, { code: string; category: string; quoteCurrency: string; unit: string | null }> = {
+  gram: { code: 'XAU/TRY', category: 'metals', quoteCurrency: 'TRY', unit: 'gram' },
+  has: { code: 'HAS', category: 'metals', quoteCurrency: 'TRY', unit: 'gram' },
+  ceyrek: { code: 'CEYREK', category: 'metals', quoteCurrency: 'TRY', unit: 'piece' },
+  ons: { code: 'XAU/USD', category: 'metals', quoteCurrency: 'USD', unit: 'oz' },
+  usdkg: { code: 'XAU', category: 'metals', quoteCurrency: 'USD', unit: 'kg' },
+  eurkg: { code: 'XAU', category: 'metals', quoteCurrency: 'EUR', unit: 'kg' },
+  gumus_gram: { code: 'XAG/TRY', category: 'metals', quoteCurrency: 'TRY', unit: 'gram' },
+  platin_ons: { code: 'XPT', category: 'metals', quoteCurrency: 'USD', unit: 'ounce' },
+  xauxag: { code: 'XAUXAG', category: 'metals', quoteCurrency: 'RATIO', unit: 'ratio' },
+  USDTRY: { code: 'USD/TRY', category: 'fx', quoteCurrency: 'TRY', unit: null },
+};
+
+function instrument(id: string): ConversionInstrument {
+  const metadata = INSTRUMENT_METADATA[id];
+  return {
+    id,
+    ...ROWS[id],
+    fineWeightGrams: metadata?.fineWeightGrams ?? null,
+    displayPrecision: metadata?.displayPrecision ?? 2,
+  };
+}
+
+const rates = { USDTRY: 35, EURTRY: 38.5 };
+
+describe('tryValuePerUnit', () => {
+  it('should convert the quote currency to TRY', () => {
+    expect(tryValuePerUnit(instrument('ceyrek'), 5290, rates)).toBe(5290);
+    expect(tryValuePerUnit(instrument('ons'), 2700, rates)).toBe(2700 * 35);
+    expect(tryValuePerUnit(instrument('eurkg'), 80000, rates)).toBe(80000 * 38.5);
+    expect(tryValuePerUnit(TRY_INSTRUMENT, 1, rates)).toBe(1);
+  });
+
+  it('should not convert ratios or instruments without a rate', () => {
+    // Oran birimden tanınır; 0004 satırındaki 'TRY' kur cinsi de lira sayılmaz
+    expect(tryValuePerUnit(instrument('xauxag'), 90, rates)).toBeNull();
+    expect(tryValuePerUnit({ ...instrument('xauxag'), quoteCurrency: 'TRY' }, 90, rates)).toBeNull();
+    expect(tryValuePerUnit(instrument('ons'), 2700, {})).toBeNull();
+  });
+});
+
+describe('metalEquivalent', () => {
+  it('should convert by pure metal content', () => {
+    // 3 çeyrek = 3 × 1,603 g saf altın = 4,833 g has (0,995)
+    expect(metalEquivalent(3, instrument('ceyrek'), instrument('has'))).toBeCloseTo((3 * 1.603) / 0.995, 10);
+    expect(metalEquivalent(1, instrument('usdkg'), instrument('ons'))).toBeCloseTo(1000 / 31.1035, 10);
+    expect(metalEquivalent(2, instrument('gram'), instrument('has'))).toBeCloseTo(2, 10);
+  });
+
+  it('should only compare the same metal', () => {
+    expect(metalEquivalent(1, instrument('gram'), instrument('gumus_gram'))).toBeNull();
+    expect(metalEquivalent(1, instrument('gram'), instrument('platin_ons'))).toBeNull();
+    expect(metalEquivalent(1, instrument('gram'), instrument('USDTRY'))).toBeNull();
+    expect(metalEquivalent(1, instrument('gram'), instrument('xauxag'))).toBeNull();
+  });
+});
+
+describe('INSTRUMENT_METADATA', () => {
+  it('should derive fine weight and troy ounces from gross weight and fineness', () => {
+    expect(INSTRUMENT_METADATA['14ayar']).toEqual({ fineWeightGrams: 0.585, fineness: 585, troyOunces: 0.01880817, displayPrecision: 2 });
+    expect(INSTRUMENT_METADATA.ata.fineWeightGrams).toBe(6.609856);
+    expect(INSTRUMENT_METADATA.ons.troyOunces).toBe(1);
+    expect(INSTRUMENT_METADATA.USDTRY).toEqual({ fineWeightGrams: null, fineness: null, troyOunces: null, displayPrecision: 4 });
+  });
+});
+
+describe('roundTo', () => {
+  it('should round to the display precision', () => {
+    expect(roundTo(4.83316, 2)).toBe(4.83);
+    expect(roundTo(1.096685, 4)).toBe(1.0967);
+  });
+});
@@ -0,0 +1,155 @@
+import { db } from '../config/database';
+import { instruments, latestQuotes } from '../db/schema';
+import { RATE_INSTRUMENTS, convertAmount, tryPerUnit, type FxRates } from './currency.service';
+import { metalOf } from './allocation.service';
+import { inArray } from 'drizzle-orm';
+
+export type ConversionInstrument = {
+  id: string;
+  code: string;
+  category: string;
+  quoteCurrency: string;
+  unit: string | null;
+  fineWeightGrams: number | null;
+  displayPrecision: number;
+};
+
+export type ConversionSide = {
+  instrumentId: string;
+  unit: string | null;
+  price: number;
+  quoteCurrency: string;
+  ts: number | null;
+};
+
+export type ConversionResult = {
+  amount: number;
+  from: ConversionSide;
+  to: ConversionSide;
+  result: number;
+  rate: number; // units of `to` per unit of `from`, at market prices
+  metalEquivalent: number | null; // units of `to` with the same pure metal content
+  value: { TRY: number; USD: number | null; EUR: number | null };
+};
+
+// Türk lirası sahte enstrüman olarak: fiyatı her zaman 1
+export const TRY_INSTRUMENT: ConversionInstrument = {
+  id: 'TRY',
+  code: 'TRY',
+  category: 'fx',
+  quoteCurrency: 'TRY',
+  unit: null,
+  fineWeightGrams: null,
+  displayPrecision: 2,
+};
+
+export function roundTo(value: number, precision: number): number {
+  const factor = Math.pow(10, precision);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * TRY value of one unit of an instrument; null for ratios or a missing quote-currency rate
+ */
+export function tryValuePerUnit(instrument: ConversionInstrument, price: number, rates: FxRates): number | null {
+  // xauxag gibi oranlar unit = 'ratio', quote_currency = 'RATIO' (0005) ile kayıtlı; para birimi değiller
+  if (instrument.unit === 'ratio') return null;
+  const rate = tryPerUnit(instrument.quoteCurrency, rates);
+  return rate === null ? null : price * rate;
+}
+
+/**
+ * Convert by pure metal content (e.g. çeyrek → grams of has); only between instruments
+ * of the same metal that both carry a fine weight
+ */
+export function metalEquivalent(amount: number, from: ConversionInstrument, to: ConversionInstrument): number | null {
+  const metal = metalOf(from.code, from.category);
+  if (metal === null || metal !== metalOf(to.code, to.category)) return null;
+  if (!from.fineWeightGrams || !to.fineWeightGrams) return null;
+  return (amount * from.fineWeightGrams) / to.fineWeightGrams;
+}
+
+/**
+ * Converts amounts between any two metal/fx instruments (or TRY) at latest prices
+ */
+export class ConversionService {
+  /**
+   * Returns null when an instrument does not exist
+   */
+  async convert(fromId: string, toId: string, amount: number): Promise<ConversionResult | null> {
+    const ids = [fromId, toId].filter((id) => id !== TRY_INSTRUMENT.id);
+
+    const [rows, quotes] = await Promise.all([
+      ids.length > 0 ? db.query.instruments.findMany({ where: inArray(instruments.id, ids) }) : Promise.resolve([]),
+      db.query.latestQuotes.findMany({
+        where: inArray(latestQuotes.instrumentId, [...new Set([...ids, ...RATE_INSTRUMENTS])]),
+      }),
+    ]);
+
+    const byId = new Map<string, ConversionInstrument>(
+      rows.map((row) => [
+        row.id,
+        {
+          id: row.id,
+          code: row.code,
+          category: row.category,
+          quoteCurrency: row.quoteCurrency,
+          unit: row.unit,
+          fineWeightGrams: row.fineWeightGrams ? parseFloat(row.fineWeightGrams) : null,
+          displayPrecision: row.displayPrecision,
+        },
+      ])
+    );
+    byId.set(TRY_INSTRUMENT.id, TRY_INSTRUMENT);
+
+    const from = byId.get(fromId);
+    const to = byId.get(toId);
+    if (!from || !to) return null;
+
+    const latest = new Map(quotes.map((q) => [q.instrumentId, q]));
+    const rates: FxRates = {};
+    for (const instrument of RATE_INSTRUMENTS) {
+      const quote = latest.get(instrument);
+      if (quote) rates[instrument] = parseFloat(quote.price);
+    }
+
+    const side = (instrument: ConversionInstrument): ConversionSide & { tryValue: number } => {
+      const quote = latest.get(instrument.id);
+      const price = instrument === TRY_INSTRUMENT ? 1 : quote ? parseFloat(quote.price) : null;
+      if (price === null) {
+        throw new Error(`VALIDATION_ERROR: No price available for ${instrument.id}`);
+      }
+
+      const tryValue = tryValuePerUnit(instrument, price, rates);
+      if (tryValue === null || !(tryValue > 0)) {
+        throw new Error(`VALIDATION_ERROR: ${instrument.id} cannot be converted (quoted in ${instrument.quoteCurrency})`);
+      }
+
+      return { instrumentId: instrument.id, unit: instrument.unit, price, quoteCurrency: instrument.quoteCurrency, ts: quote?.ts ?? null, tryValue };
+    };
+
+    const { tryValue: fromTry, ...fromSide } = side(from);
+    const { tryValue: toTry, ...toSide } = side(to);
+    const rate = fromTry / toTry;
+    const totalTry = amount * fromTry;
+    const equivalent = metalEquivalent(amount, from, to);
+
+    return {
+      amount,
+      from: fromSide,
+      to: toSide,
+      result: roundTo(amount * rate, to.displayPrecision),
+      rate,
+      metalEquivalent: equivalent !== null ? roundTo(equivalent, to.displayPrecision) : null,
+      value: {
+        TRY: roundTo(totalTry, 2),
+        USD: this.roundOrNull(convertAmount(totalTry, 'TRY', 'USD', rates)),
+        EUR: this.roundOrNull(convertAmount(totalTry, 'TRY', 'EUR', rates)),
+      },
+    };
+  }
+
+  private roundOrNull(value: number | null): number | null {
+    return value !== null ? roundTo(value, 2) : null;
+  }
+}
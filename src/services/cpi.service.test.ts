@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { CpiIndex, buildRealSeries, normalizePeriod, parseCpiCsv, parseCpiJson, parseIndexValue } from './cpi.service';
+
+describe('CPI parsing', () => {
+  it('should normalize TÜİK/EVDS period formats', () => {
+    expect(normalizePeriod('2024-1')).toBe('2024-01');
+    expect(normalizePeriod('2024-01-31')).toBe('2024-01');
+    expect(normalizePeriod('03.2024')).toBe('2024-03');
+    expect(normalizePeriod('2024-13')).toBeNull();
+    expect(normalizePeriod('Tarih')).toBeNull();
+  });
+
+  it('should parse Turkish and English number formats', () => {
+    expect(parseIndexValue('2.345,67')).toBe(2345.67);
+    expect(parseIndexValue('2345.67')).toBe(2345.67);
+    expect(parseIndexValue('1,984.02')).toBe(1984.02);
+    expect(parseIndexValue('2345,67')).toBe(2345.67);
+    expect(parseIndexValue('')).toBeNull();
+  });
+
+  it('should parse a semicolon CSV with Turkish headers', () => {
+    const csv = 'Ay;Tarih;TÜFE (2003=100)\n1;01.2024;1.984,02\n2;02.2024;2.073,86\n';
+    expect(parseCpiCsv(csv)).toEqual([
+      { period: '2024-01', value: 1984.02 },
+      { period: '2024-02', value: 2073.86 },
+    ]);
+  });
+
+  it('should parse a headerless CSV and JSON arrays', () => {
+    expect(parseCpiCsv('2024-02,2073.86\n2024-01,1984.02')).toEqual([
+      { period: '2024-01', value: 1984.02 },
+      { period: '2024-02', value: 2073.86 },
+    ]);
+    expect(parseCpiJson([{ date: '2024-01', index: 1984.02 }])).toEqual([{ period: '2024-01', value: 1984.02 }]);
+    expect(() => parseCpiJson({})).toThrow(/^VALIDATION_ERROR:/);
+  });
+});
+
+describe('CpiIndex', () => {
+  const cpi = new CpiIndex([
+    { period: '2024-01', value: 100 },
+    { period: '2024-02', value: 105 },
+    { period: '2024-03', value: 110 },
+  ]);
+
+  it('should look up by month and carry the latest value forward', () => {
+    expect(cpi.valueAt('2024-02-15')).toBe(105);
+    expect(cpi.valueAt('2024-06-01')).toBe(110);
+    expect(cpi.valueAt('2023-12-31')).toBeNull();
+    expect(cpi.factor('2024-01-10', '2024-03-10')).toBeCloseTo(1.1);
+  });
+
+  it('should restate prices in base-period purchasing power', () => {
+    const points = buildRealSeries(
+      [
+        { date: '2023-12-29', price: 2000 },
+        { date: '2024-01-15', price: 2000 },
+        { date: '2024-03-15', price: 2300 },
+      ],
+      cpi,
+      '2024-03'
+    );
+
+    expect(points.map((p) => p.date)).toEqual(['2024-01-15', '2024-03-15']);
+    expect(points[0].realPrice).toBeCloseTo(2200);
+    expect(points[1].realPrice).toBe(2300);
+  });
+
+  it('should convert non-TRY prices before deflating', () => {
+    const points = buildRealSeries([{ date: '2024-02-01', price: 10 }], cpi, '2024-02', (price) => price * 30);
+    expect(points[0].priceTry).toBe(300);
+    expect(points[0].realPrice).toBe(300);
+  });
+});
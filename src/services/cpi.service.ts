@@ -0,0 +1,213 @@
+import { db } from '../config/database';
+import { cpiIndex } from '../db/schema';
+import { asc, sql } from 'drizzle-orm';
+import type { DailyPrice } from './rollup.service';
+import { logger } from '../utils/logger';
+
+export type CpiPoint = {
+  period: string; // 'YYYY-MM'
+  value: number;
+};
+
+export type RealPricePoint = {
+  date: string;
+  price: number; // instrument quote currency
+  priceTry: number;
+  realPrice: number; // TRY at base-period purchasing power
+};
+
+/**
+ * Normalize the period formats seen in TÜİK/EVDS exports to 'YYYY-MM':
+ * 2024-01, 2024-1, 2024-01-31, 01.2024, 01-2024, 1/2024
+ */
+export function normalizePeriod(raw: string): string | null {
+  const value = raw.trim();
+
+  let match = value.match(/^(\d{4})-(\d{1,2})(?:-\d{1,2})?$/);
+  if (match) return formatPeriod(match[1], match[2]);
+
+  match = value.match(/^(\d{1,2})[./-](\d{4})$/);
+  if (match) return formatPeriod(match[2], match[1]);
+
+  return null;
+}
+
+function formatPeriod(year: string, month: string): string | null {
+  const m = parseInt(month, 10);
+  if (m < 1 || m > 12) return null;
+  return `${year}-${String(m).padStart(2, '0')}`;
+}
+
+/**
+ * Parse "2345.67", "2345,67", Turkish "2.345,67" and English "2,345.67": with both
+ * separators the last one is the decimal point
+ */
+export function parseIndexValue(raw: unknown): number | null {
+  if (typeof raw === 'number') return Number.isFinite(raw) && raw > 0 ? raw : null;
+  if (typeof raw !== 'string') return null;
+
+  let value = raw.trim();
+  const lastComma = value.lastIndexOf(',');
+  const lastDot = value.lastIndexOf('.');
+  if (lastComma >= 0 && lastDot > lastComma) {
+    value = value.replace(/,/g, '');
+  } else if (lastComma >= 0) {
+    value = value.replace(/\./g, '').replace(',', '.');
+  }
+
+  const num = Number(value);
+  return value !== '' && Number.isFinite(num) && num > 0 ? num : null;
+}
+
+/**
+ * CSV with a period column and an index column (header names in Turkish or English).
+ * Semicolon-separated files (Excel TR exports) are detected automatically.
+ */
+export function parseCpiCsv(text: string): CpiPoint[] {
+  const lines = text.split(/\r?\n/).map((l) => l.trim()).filter((l) => l.length > 0);
+  if (lines.length === 0) return [];
+
+  const delimiter = lines[0].includes(';') ? ';' : ',';
+  const split = (line: string) => line.split(delimiter).map((cell) => cell.trim().replace(/^"|"$/g, ''));
+
+  const header = split(lines[0]).map((h) => h.toLowerCase());
+  const hasHeader = normalizePeriod(header[0]) === null;
+
+  let periodCol = 0;
+  let valueCol = 1;
+  if (hasHeader) {
+    const p = header.findIndex((h) => /period|date|tarih|dönem|donem/.test(h));
+    const v = header.findIndex((h) => /value|index|cpi|tüfe|tufe|endeks|değer|deger/.test(h));
+    if (p >= 0) periodCol = p;
+    if (v >= 0) valueCol = v;
+  }
+
+  return toPoints((hasHeader ? lines.slice(1) : lines).map((line) => {
+    const cells = split(line);
+    return [cells[periodCol], cells[valueCol]];
+  }));
+}
+
+/**
+ * JSON array of { period | date, value | index } objects
+ */
+export function parseCpiJson(data: unknown): CpiPoint[] {
+  if (!Array.isArray(data)) throw new Error('VALIDATION_ERROR: CPI JSON must be an array of { period, value }');
+
+  return toPoints(data.map((row) => {
+    const item = row as Record<string, unknown>;
+    return [String(item.period ?? item.date ?? ''), item.value ?? item.index];
+  }));
+}
+
+function toPoints(rows: Array<[string | undefined, unknown]>): CpiPoint[] {
+  const byPeriod = new Map<string, number>();
+
+  for (const [rawPeriod, rawValue] of rows) {
+    const period = rawPeriod ? normalizePeriod(rawPeriod) : null;
+    const value = parseIndexValue(rawValue);
+    if (period && value !== null) byPeriod.set(period, value);
+  }
+
+  return [...byPeriod.entries()]
+    .map(([period, value]) => ({ period, value }))
+    .sort((a, b) => a.period.localeCompare(b.period));
+}
+
+/**
+ * Monthly index lookup. Days use their month's value; days after the latest published
+ * month use the latest value (TÜFE is released with a ~1 month lag).
+ */
+export class CpiIndex {
+  private values: Map<string, number>;
+  private first: CpiPoint | undefined;
+  private last: CpiPoint | undefined;
+
+  constructor(points: CpiPoint[]) {
+    const sorted = [...points].sort((a, b) => a.period.localeCompare(b.period));
+    this.values = new Map(sorted.map((p) => [p.period, p.value]));
+    this.first = sorted[0];
+    this.last = sorted[sorted.length - 1];
+  }
+
+  get isEmpty(): boolean {
+    return this.values.size === 0;
+  }
+
+  get latestPeriod(): string | null {
+    return this.last?.period ?? null;
+  }
+
+  /**
+   * Index value for a date ('YYYY-MM-DD') or period ('YYYY-MM'); null before the series starts
+   * or for a gap inside it
+   */
+  valueAt(date: string): number | null {
+    if (!this.first || !this.last) return null;
+
+    const period = date.slice(0, 7);
+    if (period < this.first.period) return null;
+    if (period > this.last.period) return this.last.value;
+    return this.values.get(period) ?? null;
+  }
+
+  /**
+   * Multiplier that restates an amount from `from` into `to` purchasing power
+   */
+  factor(from: string, to: string): number | null {
+    const fromValue = this.valueAt(from);
+    const toValue = this.valueAt(to);
+    return fromValue && toValue ? toValue / fromValue : null;
+  }
+}
+
+/**
+ * Restate a daily price series in base-period TRY. `toTry` converts non-TRY prices
+ * at the day's rate; points without CPI or FX data are skipped.
+ */
+export function buildRealSeries(
+  closes: DailyPrice[],
+  cpi: CpiIndex,
+  basePeriod: string,
+  toTry: (price: number, date: string) => number | null = (price) => price
+): RealPricePoint[] {
+  const points: RealPricePoint[] = [];
+
+  for (const { date, price } of closes) {
+    const priceTry = toTry(price, date);
+    const factor = cpi.factor(date, basePeriod);
+    if (priceTry === null || factor === null) continue;
+
+    points.push({ date, price, priceTry, realPrice: priceTry * factor });
+  }
+
+  return points;
+}
+
+/**
+ * Stores and loads the monthly TÜFE series (cpi_index)
+ */
+export class CpiService {
+  async upsert(points: CpiPoint[], source: string): Promise<number> {
+    if (points.length === 0) return 0;
+
+    await db.insert(cpiIndex)
+      .values(points.map((p) => ({ period: p.period, value: p.value.toFixed(6), source })))
+      .onConflictDoUpdate({
+        target: cpiIndex.period,
+        set: { value: sql`EXCLUDED.value`, source: sql`EXCLUDED.source`, updatedAt: new Date() },
+      });
+
+    logger.info({ count: points.length, source, latest: points[points.length - 1].period }, 'CPI index updated');
+    return points.length;
+  }
+
+  async getPoints(): Promise<CpiPoint[]> {
+    const rows = await db.select().from(cpiIndex).orderBy(asc(cpiIndex.period));
+    return rows.map((row) => ({ period: row.period, value: parseFloat(row.value) }));
+  }
+
+  async loadIndex(): Promise<CpiIndex> {
+    return new CpiIndex(await this.getPoints());
+  }
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { HistoricalRates, convertAmount, tryPerUnit } from './currency.service';
+import type { DailyPrice } from './rollup.service';
+
+describe('convertAmount', () => {
+  const rates = { USDTRY: 40, EURTRY: 44, EURUSD: 1.1, gram: 4000 };
+
+  it('should convert through TRY', () => {
+    expect(convertAmount(100, 'USD', 'TRY', rates)).toBe(4000);
+    expect(convertAmount(4400, 'TRY', 'EUR', rates)).toBe(100);
+    expect(convertAmount(8000, 'TRY', 'GRAM', rates)).toBe(2);
+    expect(convertAmount(10, 'USD', 'USD', {})).toBe(10);
+  });
+
+  it('should fall back to cross rates when a direct rate is missing', () => {
+    expect(tryPerUnit('USD', { EURTRY: 44, EURUSD: 1.1 })).toBeCloseTo(40);
+    expect(tryPerUnit('EUR', { USDTRY: 40, EURUSD: 1.1 })).toBeCloseTo(44);
+  });
+
+  it('should return null when no rate is available', () => {
+    expect(convertAmount(1, 'USD', 'TRY', { EURTRY: 44 })).toBeNull();
+    expect(convertAmount(1, 'TRY', 'GRAM', { USDTRY: 40 })).toBeNull();
+    expect(convertAmount(1, 'GBP', 'TRY', rates)).toBeNull();
+  });
+});
+
+describe('HistoricalRates', () => {
+  const series = new Map<string, DailyPrice[]>([
+    ['USDTRY', [
+      { date: '2025-01-02', price: 35 },
+      { date: '2025-01-03', price: 35.2 },
+      { date: '2025-01-06', price: 35.4 },
+    ]],
+  ]);
+  const rates = new HistoricalRates(series, { USDTRY: 41, gram: 4200 });
+
+  it('should carry the last close forward over weekends', () => {
+    expect(rates.on('2025-01-05').USDTRY).toBe(35.2);
+    expect(rates.on('2025-01-06').USDTRY).toBe(35.4);
+  });
+
+  it('should use the oldest close before the history starts', () => {
+    expect(rates.on('2024-12-01').USDTRY).toBe(35);
+  });
+
+  it('should use the fallback for instruments without history', () => {
+    expect(rates.on('2025-01-03').gram).toBe(4200);
+    expect(rates.on('2025-01-03').EURTRY).toBeUndefined();
+  });
+});
@@ -0,0 +1,130 @@
+import { db } from '../config/database';
+import { latestQuotes, users } from '../db/schema';
+import { eq, inArray } from 'drizzle-orm';
+import { RollupService, type DailyPrice } from './rollup.service';
+
+// GRAM = gram altın (reporting "in gold")
+export type ReportingCurrency = 'TRY' | 'USD' | 'EUR' | 'GRAM';
+
+export const REPORTING_CURRENCIES: ReportingCurrency[] = ['TRY', 'USD', 'EUR', 'GRAM'];
+
+// Instruments the converter needs; all TRY-quoted except EURUSD
+export const RATE_INSTRUMENTS = ['USDTRY', 'EURTRY', 'EURUSD', 'gram'] as const;
+export type RateInstrument = (typeof RATE_INSTRUMENTS)[number];
+
+export type FxRates = Partial<Record<RateInstrument, number>>;
+
+// Look back before a date for a carry-forward rate (weekends, holidays)
+export const RATE_LOOKBACK_DAYS = 14;
+
+export function isReportingCurrency(value: string): value is ReportingCurrency {
+  return REPORTING_CURRENCIES.includes(value as ReportingCurrency);
+}
+
+/**
+ * TRY value of one unit of `currency`; cross rates fill a missing direct rate
+ */
+export function tryPerUnit(currency: string, rates: FxRates): number | null {
+  const { USDTRY, EURTRY, EURUSD, gram } = rates;
+
+  switch (currency) {
+    case 'TRY':
+      return 1;
+    case 'USD':
+      return USDTRY ?? (EURTRY && EURUSD ? EURTRY / EURUSD : null);
+    case 'EUR':
+      return EURTRY ?? (USDTRY && EURUSD ? USDTRY * EURUSD : null);
+    case 'GRAM':
+      return gram ?? null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Convert an amount between currencies through TRY; null when a rate is unavailable
+ */
+export function convertAmount(amount: number, from: string, to: string, rates: FxRates): number | null {
+  if (from === to) return amount;
+
+  const fromRate = tryPerUnit(from, rates);
+  const toRate = tryPerUnit(to, rates);
+  if (fromRate === null || toRate === null || toRate === 0) return null;
+
+  return (amount * fromRate) / toRate;
+}
+
+/**
+ * Daily rate lookup with carry-forward over weekends/holidays. Dates before the
+ * available history use the oldest known rate, then `fallback` (latest rates).
+ */
+export class HistoricalRates {
+  constructor(
+    private series: Map<string, DailyPrice[]>,
+    private fallback: FxRates
+  ) {}
+
+  on(date: string): FxRates {
+    const rates: FxRates = {};
+
+    for (const instrument of RATE_INSTRUMENTS) {
+      const points = this.series.get(instrument);
+      const rate = points?.length ? this.lookup(points, date) : this.fallback[instrument];
+      if (rate !== undefined) rates[instrument] = rate;
+    }
+
+    return rates;
+  }
+
+  private lookup(points: DailyPrice[], date: string): number {
+    let low = 0;
+    let high = points.length - 1;
+    let found = -1;
+
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (points[mid].date <= date) {
+        found = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return points[Math.max(found, 0)].price;
+  }
+}
+
+/**
+ * Loads FX rates (latest and daily history) and user reporting currency
+ */
+export class CurrencyService {
+  private rollupService = new RollupService();
+
+  async getLatestRates(): Promise<FxRates> {
+    const rows = await db.query.latestQuotes.findMany({
+      where: inArray(latestQuotes.instrumentId, [...RATE_INSTRUMENTS]),
+    });
+
+    const rates: FxRates = {};
+    for (const row of rows) {
+      rates[row.instrumentId as RateInstrument] = parseFloat(row.buy ?? row.price);
+    }
+    return rates;
+  }
+
+  async getHistoricalRates(from: string, to: string, fallback: FxRates): Promise<HistoricalRates> {
+    const series = await this.rollupService.getDailyCloses([...RATE_INSTRUMENTS], from, to);
+    return new HistoricalRates(series, fallback);
+  }
+
+  async getUserCurrency(userId: string): Promise<ReportingCurrency> {
+    const user = await db.query.users.findFirst({
+      where: eq(users.id, userId),
+      columns: { reportingCurrency: true },
+    });
+
+    const currency = user?.reportingCurrency ?? 'TRY';
+    return isReportingCurrency(currency) ? currency : 'TRY';
+  }
+}
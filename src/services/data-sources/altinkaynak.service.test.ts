@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AltinkaynakService, normalizeName } from './altinkaynak.service';
+
+describe('AltinkaynakService', () => {
+  let service: AltinkaynakService;
+
+  beforeEach(() => {
+    service = new AltinkaynakService();
+  });
+
+  describe('parsePrice', () => {
+    it('should parse Turkish decimal format correctly', () => {
+      expect(service.parsePrice('6.942,61')).toBe(6942.61);
+      expect(service.parsePrice('123,45')).toBe(123.45);
+      expect(service.parsePrice('12.345,67')).toBe(12345.67);
+    });
+
+    it('should ignore currency symbols and whitespace', () => {
+      expect(service.parsePrice(' ₺2.550,40 ')).toBe(2550.4);
+      expect(service.parsePrice('$2.650,40')).toBe(2650.4);
+    });
+
+    it('should return NaN for empty cells', () => {
+      expect(service.parsePrice('')).toBeNaN();
+      expect(service.parsePrice('-')).toBeNaN();
+    });
+  });
+
+  describe('parseTimestamp', () => {
+    it('should parse Istanbul date and time', () => {
+      // 10.02.2024 15:30 Istanbul = 12:30 UTC
+      expect(service.parseTimestamp('10.02.2024 15:30')).toBe(Date.UTC(2024, 1, 10, 12, 30) / 1000);
+      expect(service.parseTimestamp('10.02.2024 15:30:45')).toBe(Date.UTC(2024, 1, 10, 12, 30, 45) / 1000);
+    });
+
+    it('should default to noon for bare dates', () => {
+      expect(service.parseTimestamp('10.02.2024')).toBe(Date.UTC(2024, 1, 10, 9, 0) / 1000);
+    });
+
+    it('should return null for invalid input', () => {
+      expect(service.parseTimestamp('2024-02-10')).toBeNull();
+      expect(service.parseTimestamp('')).toBeNull();
+    });
+  });
+
+  describe('normalizeName', () => {
+    it('should fold Turkish characters and casing', () => {
+      expect(normalizeName('GRAM ALTIN')).toBe(normalizeName('Gram Altın'));
+      expect(normalizeName('  Gümüş (gr) ')).toBe('gumus (gr)');
+      expect(normalizeName('İsviçre Frangı')).toBe('isvicre frangi');
+    });
+  });
+
+  describe('parseArchive', () => {
+    const fallbackTs = 1700000000;
+
+    it('should parse the metals archive table', () => {
+      const html = `
+        <div class="update">Son güncelleme: 10.02.2024 15:30</div>
+        <table>
+          <thead><tr><th>Birim</th><th>Alış</th><th>Satış</th></tr></thead>
+          <tbody>
+            <tr><td>Gram Altın</td><td>2.550,00</td><td>2.555,00</td></tr>
+            <tr><td>ÇEYREK ALTIN</td><td>4.200,00</td><td>4.210,00</td></tr>
+            <tr><td><span>Gümüş (gr)</span></td><td>28,50</td><td>29,00</td></tr>
+          </tbody>
+        </table>`;
+
+      const quotes = service.parseArchive(html, 'metals', fallbackTs);
+
+      expect(quotes).toHaveLength(3);
+
+      const gram = quotes.find((q) => q.instrumentId === 'gram');
+      expect(gram).toBeDefined();
+      expect(gram!.buy).toBe(2550);
+      expect(gram!.sell).toBe(2555);
+      expect(gram!.price).toBe(2552.5);
+      expect(gram!.source).toBe('altinkaynak');
+      expect(gram!.ts).toBe(Date.UTC(2024, 1, 10, 12, 30) / 1000);
+
+      expect(quotes.find((q) => q.instrumentId === 'ceyrek')!.sell).toBe(4210);
+      expect(quotes.find((q) => q.instrumentId === 'gumus_gram')!.price).toBe(28.75);
+    });
+
+    it('should parse the forex archive table by name or code', () => {
+      const html = `
+        <table>
+          <tr><th>Döviz</th><th>Alış</th><th>Satış</th></tr>
+          <tr><td>Amerikan Doları</td><td>30,5000</td><td>30,6000</td></tr>
+          <tr><td>EUR</td><td>33,1000</td><td>33,2000</td></tr>
+        </table>`;
+
+      const quotes = service.parseArchive(html, 'fx', fallbackTs);
+
+      expect(quotes.map((q) => q.instrumentId)).toEqual(['USDTRY', 'EURTRY']);
+      expect(quotes[0].price).toBeCloseTo(30.55, 10);
+      expect(quotes[0].ts).toBe(fallbackTs);
+    });
+
+    it('should locate buy and sell columns from the header', () => {
+      const html = `
+        <table>
+          <tr><th>Birim</th><th>Saat</th><th>Satış</th><th>Alış</th></tr>
+          <tr><td>Has Altın</td><td>15:30</td><td>2.600,00</td><td>2.590,00</td></tr>
+        </table>`;
+
+      const [has] = service.parseArchive(html, 'metals', fallbackTs);
+
+      expect(has.instrumentId).toBe('has');
+      expect(has.buy).toBe(2590);
+      expect(has.sell).toBe(2600);
+    });
+
+    it('should skip unknown rows, rows without sell price and duplicates', () => {
+      const html = `
+        <table>
+          <tr><td>Bilinmeyen Ürün</td><td>1,00</td><td>2,00</td></tr>
+          <tr><td>Tam Altın</td><td>16.800,00</td><td>-</td></tr>
+          <tr><td>Gram Altın</td><td>2.550,00</td><td>2.555,00</td></tr>
+          <tr><td>Gram Altın</td><td>9.999,00</td><td>9.999,00</td></tr>
+        </table>`;
+
+      const quotes = service.parseArchive(html, 'metals', fallbackTs);
+
+      expect(quotes).toHaveLength(1);
+      expect(quotes[0].instrumentId).toBe('gram');
+      expect(quotes[0].sell).toBe(2555);
+    });
+
+    it('should use sell as price when buy is missing', () => {
+      const html = '<table><tr><td>Ons Altın</td><td></td><td>$2.030,50</td></tr></table>';
+
+      const [ons] = service.parseArchive(html, 'metals', fallbackTs);
+
+      expect(ons.buy).toBeNull();
+      expect(ons.price).toBe(2030.5);
+    });
+
+    it('should return empty array for pages without a table', () => {
+      expect(service.parseArchive('<html><body>Bakımdayız</body></html>', 'metals', fallbackTs)).toEqual([]);
+    });
+  });
+});
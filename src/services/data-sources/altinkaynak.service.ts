@@ -0,0 +1,200 @@
+import { logger } from '../../utils/logger';
+import { ALTINKAYNAK_METAL_MAPPINGS, ALTINKAYNAK_FOREX_MAPPINGS, FOREX_MAPPINGS } from '../../config/instruments';
+import type { RateCategory } from '../../types/api.types';
+import type { NormalizedQuote } from './truncgil.service';
+
+// Arşiv sayfaları: tarih seçilmezse günün son kurları listelenir
+const ARCHIVE_PATHS: Record<RateCategory, string> = {
+  metals: '/Altin/Arsiv',
+  fx: '/Doviz/Arsiv',
+};
+
+const ISTANBUL_OFFSET_SECONDS = 3 * 60 * 60;
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&nbsp;': ' ',
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+};
+
+/**
+ * Lowercase and fold Turkish characters so "GRAM ALTIN" matches "Gram Altın"
+ */
+export function normalizeName(name: string): string {
+  return name
+    .toLocaleLowerCase('tr-TR')
+    .replace(/ı/g, 'i')
+    .replace(/ğ/g, 'g')
+    .replace(/ü/g, 'u')
+    .replace(/ş/g, 's')
+    .replace(/ö/g, 'o')
+    .replace(/ç/g, 'c')
+    .replace(/[^a-z0-9()]+/g, ' ')
+    .trim();
+}
+
+function buildLookup(mappings: Record<string, string>): Map<string, string> {
+  return new Map(Object.entries(mappings).map(([name, instrumentId]) => [normalizeName(name), instrumentId]));
+}
+
+const METAL_LOOKUP = buildLookup(ALTINKAYNAK_METAL_MAPPINGS);
+// Döviz satırlarında ad yerine kod da yazabiliyor (USD, EUR)
+const FOREX_LOOKUP = buildLookup({ ...FOREX_MAPPINGS, ...ALTINKAYNAK_FOREX_MAPPINGS });
+
+function cellText(html: string): string {
+  return html
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&[a-z#0-9]+;/gi, (entity) => HTML_ENTITIES[entity.toLowerCase()] ?? ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export class AltinkaynakService {
+  private baseUrl = 'https://www.altinkaynak.com';
+
+  /**
+   * Fetch today's rates from the archive page of a category
+   */
+  async fetchLatest(category: RateCategory): Promise<NormalizedQuote[]> {
+    try {
+      logger.debug({ category }, 'Fetching latest rates from Altinkaynak...');
+
+      const html = await this.fetchPage(ARCHIVE_PATHS[category]);
+      const quotes = this.parseArchive(html, category, Math.floor(Date.now() / 1000));
+
+      logger.info({ category, count: quotes.length }, 'Altinkaynak rates fetched successfully');
+      return quotes;
+    } catch (error) {
+      logger.error({ err: error, category }, 'Failed to fetch rates from Altinkaynak');
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch the archive page of a past day. Quotes are stamped at noon Istanbul time
+   * unless the page carries its own update time.
+   */
+  async fetchArchive(category: RateCategory, date: Date): Promise<NormalizedQuote[]> {
+    const day = this.formatDate(date);
+
+    try {
+      const html = await this.fetchPage(ARCHIVE_PATHS[category], new URLSearchParams({ baslangic: day, bitis: day }));
+      return this.parseArchive(html, category, this.parseTimestamp(`${day} 12:00:00`)!);
+    } catch (error) {
+      logger.warn({ err: error, category, date: day }, 'Failed to fetch Altinkaynak archive');
+      return [];
+    }
+  }
+
+  /**
+   * Parse an archive page's rate table. Rows are matched by name; the Alış/Satış columns
+   * are located from the header row (2nd and 3rd cells when there is none). Rows without
+   * a usable sell price are skipped.
+   */
+  parseArchive(html: string, category: RateCategory, fallbackTs: number): NormalizedQuote[] {
+    const lookup = category === 'metals' ? METAL_LOOKUP : FOREX_LOOKUP;
+    const ts = this.findTimestamp(html) ?? fallbackTs;
+    const quotes: NormalizedQuote[] = [];
+    const seen = new Set<string>();
+
+    let buyIndex = 1;
+    let sellIndex = 2;
+
+    for (const [, rowHtml] of html.matchAll(/<tr[^>]*>([\s\S]*?)<\/tr>/gi)) {
+      const cells = [...rowHtml.matchAll(/<t[dh][^>]*>([\s\S]*?)<\/t[dh]>/gi)].map(([, cell]) => cellText(cell));
+      if (cells.length < 2) continue;
+
+      const normalized = cells.map(normalizeName);
+      const headerBuy = normalized.findIndex((cell) => cell.startsWith('alis'));
+      const headerSell = normalized.findIndex((cell) => cell.startsWith('satis'));
+      if (headerBuy >= 0 && headerSell >= 0) {
+        buyIndex = headerBuy;
+        sellIndex = headerSell;
+        continue;
+      }
+
+      const instrumentId = lookup.get(normalized[0]);
+      if (!instrumentId || seen.has(instrumentId)) continue;
+
+      const buy = cells[buyIndex] !== undefined ? this.parsePrice(cells[buyIndex]) : NaN;
+      const sell = cells[sellIndex] !== undefined ? this.parsePrice(cells[sellIndex]) : NaN;
+      if (!(sell > 0)) {
+        logger.warn({ name: cells[0], instrumentId }, 'Altinkaynak row without sell price, skipping');
+        continue;
+      }
+
+      const hasBuy = buy > 0;
+      seen.add(instrumentId);
+      quotes.push({
+        instrumentId,
+        ts,
+        price: hasBuy ? (buy + sell) / 2 : sell,
+        buy: hasBuy ? buy : null,
+        sell,
+        source: 'altinkaynak',
+        rawData: { name: cells[0], cells },
+      });
+    }
+
+    return quotes;
+  }
+
+  /**
+   * Parse Turkish decimal format to number
+   * Examples: "6.942,61" → 6942.61, "$2.650,40" → 2650.4
+   */
+  parsePrice(priceStr: string): number {
+    if (!priceStr) return NaN;
+    const stripped = priceStr.replace(/[^0-9.,]/g, '');
+    const normalized = stripped.replace(/\./g, '').replace(',', '.');
+    return parseFloat(normalized);
+  }
+
+  /**
+   * Parse "dd.MM.yyyy[ HH:mm[:ss]]" in Istanbul time to a Unix timestamp (seconds)
+   */
+  parseTimestamp(value: string): number | null {
+    const match = value.match(/(\d{2})\.(\d{2})\.(\d{4})(?:\s+(\d{2}):(\d{2})(?::(\d{2}))?)?/);
+    if (!match) return null;
+
+    const [, day, month, year, hour = '12', minute = '00', second = '00'] = match;
+    const utc = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second));
+    if (isNaN(utc)) return null;
+
+    return Math.floor(utc / 1000) - ISTANBUL_OFFSET_SECONDS;
+  }
+
+  // Sayfadaki "Son güncelleme: 10.02.2024 15:30" benzeri saatli ilk tarih
+  private findTimestamp(html: string): number | null {
+    const match = cellText(html).match(/\d{2}\.\d{2}\.\d{4}\s+\d{2}:\d{2}(?::\d{2})?/);
+    return match ? this.parseTimestamp(match[0]) : null;
+  }
+
+  private async fetchPage(path: string, form?: URLSearchParams): Promise<string> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: form ? 'POST' : 'GET',
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7)',
+        'Accept': 'text/html',
+        ...(form && { 'Content-Type': 'application/x-www-form-urlencoded' }),
+      },
+      body: form?.toString(),
+      signal: AbortSignal.timeout(10000),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Altinkaynak error: ${response.status} ${response.statusText}`);
+    }
+
+    return response.text();
+  }
+
+  private formatDate(date: Date): string {
+    const day = String(date.getDate()).padStart(2, '0');
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    return `${day}.${month}.${date.getFullYear()}`;
+  }
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { EvdsService } from './evds.service';
+
+const response = {
+  totalCount: 3,
+  items: [
+    { Tarih: '2024-2', TP_FG_J0: '2073.86', UNIXTIME: { $numberLong: '1706734800' } },
+    { Tarih: '2024-1', TP_FG_J0: '1984.02', UNIXTIME: { $numberLong: '1704056400' } },
+    { Tarih: '2024-3', TP_FG_J0: null, UNIXTIME: { $numberLong: '1709240400' } },
+  ],
+};
+
+describe('EvdsService', () => {
+  const options = { evdsApiKey: '', evdsSeries: 'TP.FG.J0', evdsFixturePath: '' };
+
+  it('should parse the series response, skipping unpublished months', () => {
+    const service = new EvdsService(options);
+    expect(service.parseResponse(response)).toEqual([
+      { period: '2024-01', value: 1984.02 },
+      { period: '2024-02', value: 2073.86 },
+    ]);
+  });
+
+  it('should read a local fixture instead of calling the API', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'evds-'));
+    const fixturePath = join(dir, 'tufe.json');
+    await writeFile(fixturePath, JSON.stringify(response));
+
+    const service = new EvdsService({ ...options, evdsFixturePath: fixturePath });
+    expect(service.isConfigured).toBe(true);
+    expect(await service.fetchCpi()).toHaveLength(2);
+  });
+
+  it('should refuse to call the API without a key', async () => {
+    const service = new EvdsService(options);
+    expect(service.isConfigured).toBe(false);
+    await expect(service.fetchCpi()).rejects.toThrow('EVDS_API_KEY');
+  });
+});
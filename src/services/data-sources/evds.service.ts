@@ -0,0 +1,86 @@
+import { readFile } from 'node:fs/promises';
+import { config } from '../../config';
+import { logger } from '../../utils/logger';
+import { normalizePeriod, parseIndexValue, type CpiPoint } from '../cpi.service';
+
+// EVDS JSON response: one item per period, value keyed by series code with '.' → '_'
+type EvdsResponse = {
+  totalCount?: number;
+  items?: Array<Record<string, unknown> & { Tarih?: string }>;
+};
+
+type EvdsOptions = {
+  evdsApiKey: string;
+  evdsSeries: string;
+  evdsFixturePath: string;
+};
+
+/**
+ * TCMB EVDS client for the monthly TÜFE series.
+ * When EVDS_FIXTURE_PATH is set, a saved EVDS JSON response is read instead of calling the API.
+ */
+export class EvdsService {
+  private baseUrl = 'https://evds2.tcmb.gov.tr/service/evds';
+
+  constructor(private options: EvdsOptions = config.cpi) {}
+
+  get isConfigured(): boolean {
+    return Boolean(this.options.evdsApiKey || this.options.evdsFixturePath);
+  }
+
+  /**
+   * Fetch monthly index values from `startYear` to today
+   */
+  async fetchCpi(startYear = 2003): Promise<CpiPoint[]> {
+    if (this.options.evdsFixturePath) {
+      logger.debug({ path: this.options.evdsFixturePath }, 'Reading CPI from EVDS fixture');
+      const raw = await readFile(this.options.evdsFixturePath, 'utf8');
+      return this.parseResponse(JSON.parse(raw));
+    }
+
+    if (!this.options.evdsApiKey) {
+      throw new Error('EVDS_API_KEY is not configured');
+    }
+
+    const now = new Date();
+    const endDate = `${String(now.getDate()).padStart(2, '0')}-${String(now.getMonth() + 1).padStart(2, '0')}-${now.getFullYear()}`;
+    const url = `${this.baseUrl}/series=${this.options.evdsSeries}&startDate=01-01-${startYear}&endDate=${endDate}&type=json`;
+
+    try {
+      const response = await fetch(url, {
+        headers: {
+          key: this.options.evdsApiKey,
+          'User-Agent': 'Valora/1.0',
+        },
+        signal: AbortSignal.timeout(15000),
+      });
+
+      if (!response.ok) {
+        throw new Error(`EVDS API error: ${response.status} ${response.statusText}`);
+      }
+
+      const points = this.parseResponse((await response.json()) as EvdsResponse);
+      logger.info({ count: points.length }, 'EVDS CPI fetched successfully');
+      return points;
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to fetch CPI from EVDS');
+      throw error;
+    }
+  }
+
+  /**
+   * Parse an EVDS series response (Tarih: "2024-1", TP_FG_J0: "1984.02")
+   */
+  parseResponse(data: EvdsResponse): CpiPoint[] {
+    const valueKey = this.options.evdsSeries.replace(/\./g, '_');
+    const points: CpiPoint[] = [];
+
+    for (const item of data.items ?? []) {
+      const period = item.Tarih ? normalizePeriod(item.Tarih) : null;
+      const value = parseIndexValue(item[valueKey]);
+      if (period && value !== null) points.push({ period, value });
+    }
+
+    return points.sort((a, b) => a.period.localeCompare(b.period));
+  }
+}
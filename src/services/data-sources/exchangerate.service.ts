@@ -103,23 +103,6 @@ export class ExchangeRateService {
         });
       }
 
-      // Calculate EURUSD (EUR / USD)
-      const eurQuote = quotes.find((q) => q.instrumentId === 'EURTRY');
-      const usdQuote = quotes.find((q) => q.instrumentId === 'USDTRY');
-
-      if (eurQuote && usdQuote && usdQuote.price > 0) {
-        const eurUsdPrice = eurQuote.price / usdQuote.price;
-
-        quotes.push({
-          instrumentId: 'EURUSD',
-          ts: now,
-          price: eurUsdPrice,
-          buy: null,
-          sell: null,
-          source: 'exchangerate_host_calculated',
-        });
-      }
-
       logger.info({ count: quotes.length }, 'ExchangeRate.host forex fetched successfully');
       return quotes;
     } catch (error) {
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { ProviderRegistry } from './provider-registry';
+import type { QuoteProvider } from './quote-provider';
+import type { NormalizedQuote } from './truncgil.service';
+
+function quote(instrumentId: string, price: number, source: string): NormalizedQuote {
+  return { instrumentId, ts: 1770000000, price, buy: price, sell: price, source };
+}
+
+function fakeProvider(
+  id: string,
+  supportedInstruments: string[],
+  fetch: () => Promise<NormalizedQuote[]>,
+  enabled = true
+): QuoteProvider & { calls: number; requested?: string[] } {
+  const provider: QuoteProvider & { calls: number; requested?: string[] } = {
+    id,
+    categories: ['metals' as const],
+    supportedInstruments,
+    calls: 0,
+    isEnabled: () => enabled,
+    fetchLatest: async (_category, instrumentIds) => {
+      provider.calls++;
+      provider.requested = instrumentIds;
+      return fetch();
+    },
+  };
+  return provider;
+}
+
+describe('ProviderRegistry', () => {
+  it('should let later providers fill only missing instruments', async () => {
+    const primary = fakeProvider('a', ['gram', 'ceyrek'], async () => [quote('gram', 3000, 'a'), quote('ceyrek', 5000, 'a')]);
+    const secondary = fakeProvider('b', ['gram', 'ata'], async () => [quote('gram', 3100, 'b'), quote('ata', 20000, 'b')]);
+
+    const registry = new ProviderRegistry({ metals: ['a', 'b'], fx: [] }).register(primary).register(secondary);
+    const result = await registry.fetchLatest('metals');
+
+    expect(result.quotes.map((q) => q.instrumentId)).toEqual(['gram', 'ceyrek', 'ata']);
+    expect(result.quotes.find((q) => q.instrumentId === 'gram')?.price).toBe(3000);
+    expect(result.servedBy).toEqual({ gram: 'a', ceyrek: 'a', ata: 'b' });
+    expect(result.failedProviders).toEqual([]);
+    expect(result.missingInstruments).toEqual([]);
+  });
+
+  it('should fall back when a provider throws or returns nothing', async () => {
+    const failing = fakeProvider('a', ['gram'], async () => {
+      throw new Error('timeout');
+    });
+    const empty = fakeProvider('b', ['gram'], async () => []);
+    const fallback = fakeProvider('c', ['gram'], async () => [quote('gram', 3000, 'c')]);
+
+    const registry = new ProviderRegistry({ metals: ['a', 'b', 'c'], fx: [] })
+      .register(failing)
+      .register(empty)
+      .register(fallback);
+    const result = await registry.fetchLatest('metals');
+
+    expect(result.servedBy).toEqual({ gram: 'c' });
+    expect(result.failedProviders).toEqual(['a', 'b']);
+  });
+
+  it('should report instruments of a failed primary that the fallback did not cover', async () => {
+    const primary = fakeProvider('a', ['gram', 'ceyrek', 'ata'], async () => {
+      throw new Error('timeout');
+    });
+    const fallback = fakeProvider('b', ['gram', 'ceyrek'], async () => [quote('gram', 3000, 'b')]);
+
+    const registry = new ProviderRegistry({ metals: ['a', 'b'], fx: [] }).register(primary).register(fallback);
+    const result = await registry.fetchLatest('metals');
+
+    expect(result.failedProviders).toEqual(['a']);
+    expect(result.missingInstruments).toEqual(['ceyrek', 'ata']);
+  });
+
+  it('should skip providers whose instruments are already covered', async () => {
+    const primary = fakeProvider('a', ['gram'], async () => [quote('gram', 3000, 'a')]);
+    const fallback = fakeProvider('b', ['gram'], async () => [quote('gram', 3100, 'b')]);
+
+    const registry = new ProviderRegistry({ metals: ['a', 'b'], fx: [] }).register(primary).register(fallback);
+    await registry.fetchLatest('metals');
+
+    expect(fallback.calls).toBe(0);
+  });
+
+  it('should tell fallback providers which instruments are still missing', async () => {
+    const primary = fakeProvider('a', ['gram'], async () => [quote('gram', 3000, 'a')]);
+    const fallback = fakeProvider('b', ['gram', 'ons', 'platin'], async () => [quote('platin', 1500, 'b')]);
+
+    const registry = new ProviderRegistry({ metals: ['a', 'b'], fx: [] }).register(primary).register(fallback);
+    await registry.fetchLatest('metals');
+
+    expect(fallback.requested).toEqual(['ons', 'platin']);
+  });
+
+  it('should follow chain order and ignore disabled or unknown providers', () => {
+    const a = fakeProvider('a', ['gram'], async () => []);
+    const b = fakeProvider('b', ['gram'], async () => [], false);
+    const c = fakeProvider('c', ['gram'], async () => []);
+
+    const registry = new ProviderRegistry({ metals: ['c', 'missing', 'b', 'a'], fx: ['a'] })
+      .register(a)
+      .register(b)
+      .register(c);
+
+    expect(registry.getChain('metals').map((p) => p.id)).toEqual(['c', 'a']);
+    // 'a' only serves metals
+    expect(registry.getChain('fx')).toEqual([]);
+  });
+});
@@ -0,0 +1,141 @@
+import type { RateCategory } from '../../types/api.types';
+import type { NormalizedQuote } from './truncgil.service';
+import type { QuoteProvider } from './quote-provider';
+import { logger } from '../../utils/logger';
+
+export type ProviderChainResult = {
+  quotes: NormalizedQuote[];
+  servedBy: Record<string, string>; // instrumentId → provider id
+  failedProviders: string[];
+  missingInstruments: string[]; // supported by a failed provider, served by none
+};
+
+export type ProviderQuotes = {
+  providerId: string;
+  quotes: NormalizedQuote[];
+};
+
+/**
+ * Holds all known quote providers and the per-category priority chains.
+ * Providers are consulted in chain order; later providers only fill
+ * instruments that earlier ones did not return.
+ */
+export class ProviderRegistry {
+  private providers = new Map<string, QuoteProvider>();
+
+  constructor(private chains: Record<RateCategory, readonly string[]>) {}
+
+  register(provider: QuoteProvider): this {
+    this.providers.set(provider.id, provider);
+    return this;
+  }
+
+  get(id: string): QuoteProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  /**
+   * Enabled providers for a category, in priority order
+   */
+  getChain(category: RateCategory): QuoteProvider[] {
+    const chain: QuoteProvider[] = [];
+
+    for (const id of this.chains[category] ?? []) {
+      const provider = this.providers.get(id);
+
+      if (!provider) {
+        logger.warn({ category, providerId: id }, 'Unknown provider in chain config, ignoring');
+        continue;
+      }
+      if (!provider.categories.includes(category)) {
+        logger.warn({ category, providerId: id }, 'Provider does not serve this category, ignoring');
+        continue;
+      }
+      if (provider.isEnabled && !provider.isEnabled()) {
+        logger.debug({ category, providerId: id }, 'Provider disabled, skipping');
+        continue;
+      }
+
+      chain.push(provider);
+    }
+
+    return chain;
+  }
+
+  /**
+   * Walk the chain and merge results: first provider to return an instrument wins
+   */
+  async fetchLatest(category: RateCategory): Promise<ProviderChainResult> {
+    const result: ProviderChainResult = { quotes: [], servedBy: {}, failedProviders: [], missingInstruments: [] };
+
+    for (const provider of this.getChain(category)) {
+      const missing = provider.supportedInstruments.filter((id) => !(id in result.servedBy));
+      if (missing.length === 0) continue;
+
+      try {
+        const quotes = await provider.fetchLatest(category, missing);
+
+        if (quotes.length === 0) {
+          throw new Error(`No ${category} data received from ${provider.id}`);
+        }
+
+        let added = 0;
+        for (const quote of quotes) {
+          if (quote.instrumentId in result.servedBy) continue;
+          result.servedBy[quote.instrumentId] = provider.id;
+          result.quotes.push(quote);
+          added++;
+        }
+
+        logger.info({ category, providerId: provider.id, count: added }, 'Quotes fetched from provider');
+      } catch (error) {
+        result.failedProviders.push(provider.id);
+        logger.warn({ err: error, category, providerId: provider.id }, 'Provider failed, trying next in chain');
+      }
+    }
+
+    result.missingInstruments = this.unservedInstruments(result.failedProviders, result.servedBy);
+    return result;
+  }
+
+  /**
+   * Instruments of failed providers that no other provider returned: a fallback that
+   * covers only part of the primary's list leaves the refresh degraded, not successful
+   */
+  unservedInstruments(failedProviders: string[], servedBy: Record<string, string>): string[] {
+    const missing = new Set<string>();
+    for (const id of failedProviders) {
+      for (const instrumentId of this.providers.get(id)?.supportedInstruments ?? []) {
+        if (!(instrumentId in servedBy)) missing.add(instrumentId);
+      }
+    }
+    return [...missing];
+  }
+
+  /**
+   * Query every enabled provider in the chain (no gap filling), for cross-checking sources.
+   * Results keep chain order.
+   */
+  async fetchAll(category: RateCategory): Promise<{ results: ProviderQuotes[]; failedProviders: string[] }> {
+    const results: ProviderQuotes[] = [];
+    const failedProviders: string[] = [];
+
+    for (const provider of this.getChain(category)) {
+      try {
+        const quotes = await provider.fetchLatest(category);
+
+        if (quotes.length === 0) {
+          throw new Error(`No ${category} data received from ${provider.id}`);
+        }
+
+        results.push({ providerId: provider.id, quotes });
+        logger.info({ category, providerId: provider.id, count: quotes.length }, 'Quotes fetched from provider');
+      } catch (error) {
+        failedProviders.push(provider.id);
+        logger.warn({ err: error, category, providerId: provider.id }, 'Provider failed, continuing with remaining sources');
+      }
+    }
+
+    return { results, failedProviders };
+  }
+}
@@ -0,0 +1,115 @@
+import { config } from '../../config';
+import {
+  METAL_MAPPINGS,
+  FOREX_MAPPINGS,
+  HAREMALTIN_MAPPINGS,
+  ALTINKAYNAK_METAL_MAPPINGS,
+  ALTINKAYNAK_FOREX_MAPPINGS,
+} from '../../config/instruments';
+import type { RateCategory } from '../../types/api.types';
+import type { QuoteProvider } from './quote-provider';
+import { ProviderRegistry } from './provider-registry';
+import { TruncgilService, type NormalizedQuote } from './truncgil.service';
+import { TcmbService } from './tcmb.service';
+import { ExchangeRateService } from './exchangerate.service';
+import { HaremalAltinService } from './haremaltin.service';
+import { AltinkaynakService } from './altinkaynak.service';
+
+// QuoteProvider adapters around the existing data-source services
+
+export class TruncgilProvider implements QuoteProvider {
+  readonly id = 'truncgil';
+  readonly categories: RateCategory[] = ['metals'];
+  readonly supportedInstruments = [...new Set(Object.values(METAL_MAPPINGS))];
+
+  constructor(private service = new TruncgilService()) {}
+
+  fetchLatest(): Promise<NormalizedQuote[]> {
+    return this.service.fetchMetals();
+  }
+}
+
+export class HaremaltinProvider implements QuoteProvider {
+  readonly id = 'haremaltin';
+  readonly categories: RateCategory[] = ['metals'];
+  readonly supportedInstruments: string[];
+
+  /**
+   * @param kodList Haremaltin codes to fetch live (defaults to the full list)
+   */
+  constructor(
+    private kodList: string[] = Object.keys(HAREMALTIN_MAPPINGS),
+    private service = new HaremalAltinService()
+  ) {
+    this.supportedInstruments = kodList.map((kod) => HAREMALTIN_MAPPINGS[kod] ?? kod.toLowerCase());
+  }
+
+  // Cloudflare cookie is required for every request
+  isEnabled(): boolean {
+    return !!config.haremaltin.cfClearance;
+  }
+
+  // Her kod ayrı istek: zincirde eksik kalan enstrümanlarla sınırla (Truncgil çökünce tam liste)
+  fetchLatest(_category: RateCategory, instrumentIds?: string[]): Promise<NormalizedQuote[]> {
+    const kodList = instrumentIds
+      ? this.kodList.filter((kod) => instrumentIds.includes(HAREMALTIN_MAPPINGS[kod] ?? kod.toLowerCase()))
+      : this.kodList;
+    return this.service.fetchLatest(kodList, config.haremaltin.cfClearance);
+  }
+
+  async fetchHistory(instrumentId: string, from: Date, to: Date): Promise<NormalizedQuote[]> {
+    const kod = Object.keys(HAREMALTIN_MAPPINGS).find((k) => HAREMALTIN_MAPPINGS[k] === instrumentId);
+    if (!kod) return [];
+    return this.service.fetchHistory(kod, from, to, config.haremaltin.cfClearance);
+  }
+}
+
+export class AltinkaynakProvider implements QuoteProvider {
+  readonly id = 'altinkaynak';
+  readonly categories: RateCategory[] = ['metals', 'fx'];
+  readonly supportedInstruments = [
+    ...new Set([...Object.values(ALTINKAYNAK_METAL_MAPPINGS), ...Object.values(ALTINKAYNAK_FOREX_MAPPINGS)]),
+  ];
+
+  constructor(private service = new AltinkaynakService()) {}
+
+  fetchLatest(category: RateCategory): Promise<NormalizedQuote[]> {
+    return this.service.fetchLatest(category);
+  }
+}
+
+export class TcmbProvider implements QuoteProvider {
+  readonly id = 'tcmb';
+  readonly categories: RateCategory[] = ['fx'];
+  readonly supportedInstruments = Object.values(FOREX_MAPPINGS);
+
+  constructor(private service = new TcmbService()) {}
+
+  fetchLatest(): Promise<NormalizedQuote[]> {
+    return this.service.fetchFx();
+  }
+}
+
+export class ExchangeRateProvider implements QuoteProvider {
+  readonly id = 'exchangerate_host';
+  readonly categories: RateCategory[] = ['fx'];
+  readonly supportedInstruments = Object.values(FOREX_MAPPINGS);
+
+  constructor(private service = new ExchangeRateService()) {}
+
+  fetchLatest(): Promise<NormalizedQuote[]> {
+    return this.service.fetchFx();
+  }
+}
+
+/**
+ * Registry with all built-in providers and chains from config.providers
+ */
+export function createDefaultRegistry(): ProviderRegistry {
+  return new ProviderRegistry(config.providers)
+    .register(new TruncgilProvider())
+    .register(new HaremaltinProvider())
+    .register(new AltinkaynakProvider())
+    .register(new TcmbProvider())
+    .register(new ExchangeRateProvider());
+}
@@ -0,0 +1,20 @@
+import type { RateCategory } from '../../types/api.types';
+import type { NormalizedQuote } from './truncgil.service';
+
+/**
+ * A live/historical price source that can take part in a category's provider chain
+ */
+export interface QuoteProvider {
+  /** Stable id used in config chains (METALS_PROVIDERS / FX_PROVIDERS) */
+  readonly id: string;
+  readonly categories: RateCategory[];
+  /** Our instrument ids this provider can return */
+  readonly supportedInstruments: string[];
+
+  /** Optional runtime switch, e.g. missing credentials */
+  isEnabled?(): boolean;
+
+  /** `instrumentIds` lists what the chain still misses; providers may limit requests to those */
+  fetchLatest(category: RateCategory, instrumentIds?: string[]): Promise<NormalizedQuote[]>;
+  fetchHistory?(instrumentId: string, from: Date, to: Date): Promise<NormalizedQuote[]>;
+}
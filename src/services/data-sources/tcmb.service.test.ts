@@ -62,7 +62,7 @@ describe('TcmbService', () => {
       expect(gbpQuote).toBeDefined();
     });
 
-    it('should calculate EURUSD from EUR and USD rates', () => {
+    it('should leave EURUSD to the derived instrument engine', () => {
       const mockXml = `<?xml version="1.0" encoding="UTF-8"?>
 <Tarih_Date Tarih="08.02.2026" Date="02/08/2026" Bulten_No="2026/026">
   <Currency CurrencyCode="USD" Kod="USD">
@@ -83,16 +83,9 @@ describe('TcmbService', () => {
 
       const quotes = (service as any).parseXml(mockXml);
 
-      const eurUsdQuote = quotes.find((q) => q.instrumentId === 'EURUSD');
-      expect(eurUsdQuote).toBeDefined();
-
-      // EURUSD = EUR / USD
-      const eurPrice = 38.5;
-      const usdPrice = (35.0 + 35.2) / 2;
-      const expectedEurUsd = eurPrice / usdPrice;
-
-      expect(eurUsdQuote?.price).toBeCloseTo(expectedEurUsd, 4);
-      expect(eurUsdQuote?.source).toBe('tcmb_calculated');
+      expect(quotes.map((q) => q.instrumentId)).toEqual(['USDTRY', 'EURTRY']);
+      // EURUSD = EURTRY / USDTRY is computed by DerivedInstrumentService
+      expect(quotes.find((q) => q.instrumentId === 'EURUSD')).toBeUndefined();
     });
 
     it('should handle missing currencies gracefully', () => {
@@ -226,7 +219,6 @@ describe('TcmbService', () => {
         'CADTRY',
         'SARTRY',
         'JPYTRY',
-        'EURUSD', // calculated
       ];
 
       expectedInstruments.forEach((instrumentId) => {
@@ -153,25 +153,6 @@ export class TcmbService {
         }
       }
 
-      // Calculate EURUSD (EUR / USD)
-      const eurTry = quotes.find((q) => q.instrumentId === 'EURTRY');
-      const usdTry = quotes.find((q) => q.instrumentId === 'USDTRY');
-
-      if (eurTry && usdTry && usdTry.price > 0) {
-        const eurUsdPrice = eurTry.price / usdTry.price;
-        const eurUsdBuy = eurTry.buy && usdTry.sell ? eurTry.buy / usdTry.sell : null;
-        const eurUsdSell = eurTry.sell && usdTry.buy ? eurTry.sell / usdTry.buy : null;
-
-        quotes.push({
-          instrumentId: 'EURUSD',
-          ts: now,
-          price: eurUsdPrice,
-          buy: eurUsdBuy,
-          sell: eurUsdSell,
-          source: 'tcmb_calculated',
-        });
-      }
-
       return quotes;
     } catch (error) {
       logger.error({ err: error }, 'Failed to parse TCMB XML');
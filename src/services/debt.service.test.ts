@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { addMonths, buildInstallmentSchedule, summarizeDebt } from './debt.service';
+
+describe('installment schedule', () => {
+  it('should clamp month ends', () => {
+    expect(addMonths('2024-01-31', 1)).toBe('2024-02-29');
+    expect(addMonths('2024-11-15', 2)).toBe('2025-01-15');
+  });
+
+  it('should split the principal into equal monthly installments', () => {
+    const schedule = buildInstallmentSchedule(10, 3, '2025-01-31');
+
+    expect(schedule.map((i) => i.dueDate)).toEqual(['2025-01-31', '2025-02-28', '2025-03-31']);
+    expect(schedule[0].amount).toBe(3.333333);
+    expect(schedule.reduce((sum, i) => sum + i.amount, 0)).toBeCloseTo(10, 9);
+  });
+});
+
+describe('summarizeDebt', () => {
+  const installments = [
+    { id: 'i2', dueDate: '2025-02-01', amount: 5 },
+    { id: 'i1', dueDate: '2025-01-01', amount: 5 },
+    { id: 'i3', dueDate: '2025-03-01', amount: 5 },
+  ];
+
+  it('should apply repayments to installments in due-date order', () => {
+    const status = summarizeDebt(15, null, installments, 7, '2025-02-15');
+
+    expect(status.remaining).toBe(8);
+    expect(status.installments.map((i) => [i.id, i.paid, i.overdue])).toEqual([
+      ['i1', 5, false],
+      ['i2', 2, true],
+      ['i3', 0, false],
+    ]);
+    expect(status.overdue).toBe(true);
+    expect(status.overdueAmount).toBe(3);
+    expect(status.nextDueDate).toBe('2025-02-01');
+    expect(status.nextDueAmount).toBe(3);
+  });
+
+  it('should flag a debt without installments once its due date passes', () => {
+    expect(summarizeDebt(10, '2025-01-01', [], 4, '2024-12-31').overdue).toBe(false);
+
+    const late = summarizeDebt(10, '2025-01-01', [], 4, '2025-01-02');
+    expect(late.overdue).toBe(true);
+    expect(late.overdueAmount).toBe(6);
+  });
+
+  it('should treat a fully repaid debt as settled', () => {
+    const status = summarizeDebt(15, '2025-01-01', installments, 15, '2026-01-01');
+
+    expect(status.settled).toBe(true);
+    expect(status.overdue).toBe(false);
+    expect(status.nextDueDate).toBeNull();
+  });
+});
@@ -0,0 +1,528 @@
+import { db } from '../config/database';
+import { portfolioDebts, debtInstallments, debtRepayments, instruments, latestQuotes } from '../db/schema';
+import type { PortfolioDebt, DebtInstallment, DebtRepayment } from '../db/schema';
+import { eq, and, inArray, asc } from 'drizzle-orm';
+import { CurrencyService, RATE_LOOKBACK_DAYS, convertAmount, tryPerUnit, type FxRates } from './currency.service';
+import { RollupService, istanbulDate } from './rollup.service';
+import { addDays } from './portfolio-history.service';
+import { PortfolioAccessService } from './portfolio-access.service';
+import { logger } from '../utils/logger';
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Borç birimi: nakit para birimi ya da enstrüman (gram, ceyrek, ...)
+export const CURRENCY_UNITS = ['TRY', 'USD', 'EUR'];
+
+export type InstallmentInput = {
+  dueDate: string;
+  amount: number; // debt unit
+};
+
+export type InstallmentStatus = {
+  id: string;
+  dueDate: string;
+  amount: number;
+  paid: number;
+  remaining: number;
+  overdue: boolean;
+};
+
+export type DebtStatus = {
+  repaid: number;
+  remaining: number;
+  settled: boolean;
+  overdue: boolean;
+  overdueAmount: number;
+  nextDueDate: string | null;
+  nextDueAmount: number | null;
+  installments: InstallmentStatus[];
+};
+
+export type DebtView = DebtStatus & {
+  id: string;
+  portfolioId: string;
+  counterparty: string;
+  unit: string;
+  unitName: string;
+  description: string | null;
+  principal: number;
+  startDate: string;
+  dueDate: string | null;
+  quoteCurrency: string;
+  remainingNative: number | null; // quoteCurrency, current sell price
+  remainingTry: number | null;
+  overdueTry: number | null;
+  repayments: Array<{
+    id: string;
+    paidAt: string;
+    amount: number;
+    paidAmount: number;
+    paidUnit: string;
+    note: string | null;
+  }>;
+};
+
+type CreateDebtInput = {
+  counterparty: string;
+  unit: string;
+  principal: number;
+  startDate: string;
+  dueDate?: string | null;
+  description?: string;
+  installments?: InstallmentInput[];
+};
+
+type UpdateDebtInput = Partial<Omit<CreateDebtInput, 'unit' | 'startDate'>>;
+
+type CreateRepaymentInput = {
+  paidAt: string;
+  amount: number; // paidUnit
+  paidUnit?: string; // default: debt unit
+  debtAmount?: number; // agreed amount in debt unit, skips rate conversion
+  note?: string;
+};
+
+// Ondalık artıklar borcu açık bırakmasın
+const EPSILON = 1e-6;
+
+const round6 = (value: number) => Math.round(value * 1e6) / 1e6;
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function isCurrencyUnit(unit: string): boolean {
+  return CURRENCY_UNITS.includes(unit);
+}
+
+/**
+ * Add calendar months, clamping to the month's last day (Jan 31 + 1 month = Feb 28/29)
+ */
+export function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().slice(0, 10);
+}
+
+/**
+ * Equal monthly installments; the last one absorbs the rounding remainder
+ */
+export function buildInstallmentSchedule(principal: number, count: number, firstDueDate: string): InstallmentInput[] {
+  const amount = Math.floor((principal / count) * 1e6) / 1e6;
+
+  return Array.from({ length: count }, (_, i) => ({
+    dueDate: addMonths(firstDueDate, i),
+    amount: i === count - 1 ? round6(principal - amount * (count - 1)) : amount,
+  }));
+}
+
+/**
+ * Remaining and overdue amounts in the debt's unit. Repayments are applied to installments
+ * in due-date order; a debt without installments is overdue once its due date has passed.
+ */
+export function summarizeDebt(
+  principal: number,
+  dueDate: string | null,
+  installments: Array<InstallmentInput & { id: string }>,
+  repaid: number,
+  today: string
+): DebtStatus {
+  const remaining = Math.max(principal - repaid, 0);
+  let pool = repaid;
+
+  const statuses = [...installments]
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate))
+    .map((inst) => {
+      const paid = Math.min(pool, inst.amount);
+      pool -= paid;
+      const left = inst.amount - paid;
+      return {
+        id: inst.id,
+        dueDate: inst.dueDate,
+        amount: inst.amount,
+        paid: round6(paid),
+        remaining: round6(left),
+        overdue: left > EPSILON && inst.dueDate < today,
+      };
+    });
+
+  let overdueAmount: number;
+  let next: { dueDate: string | null; amount: number } | undefined;
+
+  if (statuses.length > 0) {
+    overdueAmount = statuses.filter((s) => s.overdue).reduce((sum, s) => sum + s.remaining, 0);
+    const upcoming = statuses.find((s) => s.remaining > EPSILON);
+    next = upcoming ? { dueDate: upcoming.dueDate, amount: upcoming.remaining } : undefined;
+  } else {
+    overdueAmount = dueDate && dueDate < today && remaining > EPSILON ? remaining : 0;
+    next = remaining > EPSILON ? { dueDate, amount: remaining } : undefined;
+  }
+
+  return {
+    repaid: round6(repaid),
+    remaining: round6(remaining),
+    settled: remaining <= EPSILON,
+    overdue: overdueAmount > EPSILON,
+    overdueAmount: round6(overdueAmount),
+    nextDueDate: next?.dueDate ?? null,
+    nextDueAmount: next ? round6(next.amount) : null,
+    installments: statuses,
+  };
+}
+
+function assertInstallmentsMatch(principal: number, installments: InstallmentInput[]) {
+  if (installments.length === 0) return;
+
+  const total = installments.reduce((sum, inst) => sum + inst.amount, 0);
+  if (Math.abs(total - principal) > EPSILON) {
+    throw new Error(`VALIDATION_ERROR: Installments add up to ${round6(total)}, principal is ${principal}`);
+  }
+}
+
+/**
+ * Debts recorded in borc portfolios: counterparty, principal in grams/coins/currency,
+ * installment schedule and repayments. Repayments made in another unit are converted
+ * at the payment day's rate.
+ */
+export class DebtService {
+  private currencyService = new CurrencyService();
+  private rollupService = new RollupService();
+  private accessService = new PortfolioAccessService();
+
+  async getDebts(portfolioId: string, userId: string) {
+    const portfolio = await this.accessService.authorize(portfolioId, userId, 'viewer');
+    if (!portfolio) return null;
+
+    return (await this.getDebtViews([portfolioId])).get(portfolioId) ?? [];
+  }
+
+  async getDebt(portfolioId: string, debtId: string, userId: string) {
+    const debts = await this.getDebts(portfolioId, userId);
+    return debts?.find((d) => d.id === debtId) ?? null;
+  }
+
+  async createDebt(portfolioId: string, userId: string, input: CreateDebtInput) {
+    const portfolio = await this.findDebtPortfolio(portfolioId, userId);
+    if (!portfolio) return null;
+
+    await this.assertUnit(input.unit);
+    const installments = input.installments ?? [];
+    assertInstallmentsMatch(input.principal, installments);
+
+    const debt = await db.transaction(async (tx) => {
+      const [inserted] = await tx.insert(portfolioDebts).values({
+        portfolioId,
+        counterparty: input.counterparty.slice(0, 100),
+        unit: input.unit,
+        principal: input.principal.toFixed(6),
+        startDate: input.startDate,
+        dueDate: input.dueDate ?? null,
+        description: input.description?.slice(0, 100) || null,
+      }).returning();
+
+      if (installments.length > 0) {
+        await tx.insert(debtInstallments).values(installments.map((inst) => ({
+          debtId: inserted.id,
+          dueDate: inst.dueDate,
+          amount: inst.amount.toFixed(6),
+        })));
+      }
+
+      return inserted;
+    });
+
+    logger.info({ debtId: debt.id, portfolioId, unit: debt.unit }, 'Debt created');
+    return this.getDebt(portfolioId, debt.id, userId);
+  }
+
+  /**
+   * Update terms; `installments` replaces the whole schedule ([] removes it)
+   */
+  async updateDebt(portfolioId: string, debtId: string, userId: string, input: UpdateDebtInput) {
+    const portfolio = await this.findDebtPortfolio(portfolioId, userId);
+    if (!portfolio) return null;
+
+    const existing = await this.findDebt(portfolioId, debtId);
+    if (!existing) return null;
+
+    const principal = input.principal ?? parseFloat(existing.principal);
+    const installments = input.installments
+      ?? (await this.loadInstallments([debtId])).map((row) => ({ dueDate: row.dueDate, amount: parseFloat(row.amount) }));
+    assertInstallmentsMatch(principal, installments);
+
+    const updateData: Record<string, unknown> = { updatedAt: new Date() };
+    if (input.counterparty !== undefined) updateData.counterparty = input.counterparty.slice(0, 100);
+    if (input.principal !== undefined) updateData.principal = input.principal.toFixed(6);
+    if (input.dueDate !== undefined) updateData.dueDate = input.dueDate;
+    if (input.description !== undefined) updateData.description = input.description?.slice(0, 100) || null;
+
+    const updated = await db.transaction(async (tx) => {
+      const locked = await this.lockDebt(tx, debtId);
+      if (!locked) return false;
+
+      const { repaid } = locked;
+      if (principal + EPSILON < repaid) {
+        throw new Error(`VALIDATION_ERROR: Principal cannot be less than the repaid amount (${round6(repaid)})`);
+      }
+
+      await tx.update(portfolioDebts).set(updateData).where(eq(portfolioDebts.id, debtId));
+
+      if (input.installments !== undefined) {
+        await tx.delete(debtInstallments).where(eq(debtInstallments.debtId, debtId));
+        if (input.installments.length > 0) {
+          await tx.insert(debtInstallments).values(input.installments.map((inst) => ({
+            debtId,
+            dueDate: inst.dueDate,
+            amount: inst.amount.toFixed(6),
+          })));
+        }
+      }
+      return true;
+    });
+    if (!updated) return null;
+
+    return this.getDebt(portfolioId, debtId, userId);
+  }
+
+  async deleteDebt(portfolioId: string, debtId: string, userId: string) {
+    const portfolio = await this.accessService.authorize(portfolioId, userId, 'editor');
+    if (!portfolio) return false;
+
+    const [deleted] = await db.delete(portfolioDebts)
+      .where(and(eq(portfolioDebts.id, debtId), eq(portfolioDebts.portfolioId, portfolioId)))
+      .returning({ id: portfolioDebts.id });
+
+    return !!deleted;
+  }
+
+  /**
+   * Record a repayment. Payments in another unit (TRY for a gram debt, gram for a USD debt)
+   * are converted at the payment day's close unless `debtAmount` fixes the agreed amount.
+   */
+  async addRepayment(portfolioId: string, debtId: string, userId: string, input: CreateRepaymentInput) {
+    const portfolio = await this.findDebtPortfolio(portfolioId, userId);
+    if (!portfolio) return null;
+
+    const debt = await this.findDebt(portfolioId, debtId);
+    if (!debt) return null;
+
+    const paidUnit = input.paidUnit ?? debt.unit;
+    await this.assertUnit(paidUnit);
+
+    const amount = input.debtAmount
+      ?? (paidUnit === debt.unit ? input.amount : await this.convertUnits(input.amount, paidUnit, debt.unit, input.paidAt));
+
+    // Borç satırı kilitlenir: eş zamanlı ödemeler kalan tutarı birlikte aşamaz
+    const repayment = await db.transaction(async (tx) => {
+      const locked = await this.lockDebt(tx, debtId);
+      if (!locked) return null;
+
+      const remaining = locked.principal - locked.repaid;
+      if (amount > remaining + EPSILON) {
+        throw new Error(`VALIDATION_ERROR: Repayment of ${round6(amount)} ${debt.unit} exceeds the remaining ${round6(remaining)} ${debt.unit}`);
+      }
+
+      const [inserted] = await tx.insert(debtRepayments).values({
+        debtId,
+        paidAt: input.paidAt,
+        amount: amount.toFixed(6),
+        paidAmount: input.amount.toFixed(6),
+        paidUnit,
+        note: input.note?.slice(0, 100) || null,
+      }).returning();
+      return inserted;
+    });
+    if (!repayment) return null;
+
+    logger.info({ debtId, repaymentId: repayment.id, amount, unit: debt.unit }, 'Debt repayment recorded');
+    return this.getDebt(portfolioId, debtId, userId);
+  }
+
+  async deleteRepayment(portfolioId: string, debtId: string, repaymentId: string, userId: string) {
+    const portfolio = await this.accessService.authorize(portfolioId, userId, 'editor');
+    if (!portfolio) return false;
+
+    const debt = await this.findDebt(portfolioId, debtId);
+    if (!debt) return false;
+
+    const [deleted] = await db.delete(debtRepayments)
+      .where(and(eq(debtRepayments.id, repaymentId), eq(debtRepayments.debtId, debtId)))
+      .returning({ id: debtRepayments.id });
+
+    return !!deleted;
+  }
+
+  /**
+   * Debts of the given portfolios with remaining/overdue amounts in the debt unit,
+   * in the unit's quote currency and in TRY. Instrument debts are valued at the
+   * dealer's sell price: that is what buying the grams back costs.
+   */
+  async getDebtViews(portfolioIds: string[], latestRates?: FxRates): Promise<Map<string, DebtView[]>> {
+    const views = new Map<string, DebtView[]>();
+    if (portfolioIds.length === 0) return views;
+
+    const debts = await db.query.portfolioDebts.findMany({
+      where: inArray(portfolioDebts.portfolioId, portfolioIds),
+      orderBy: [asc(portfolioDebts.startDate), asc(portfolioDebts.createdAt)],
+    });
+    if (debts.length === 0) return views;
+
+    const debtIds = debts.map((d) => d.id);
+    const [installmentRows, repaymentRows] = await Promise.all([
+      this.loadInstallments(debtIds),
+      this.loadRepayments(debtIds),
+    ]);
+
+    const instrumentIds = [...new Set(debts.map((d) => d.unit).filter((unit) => !isCurrencyUnit(unit)))];
+    const [instrumentData, quoteData, rates] = await Promise.all([
+      instrumentIds.length > 0 ? db.query.instruments.findMany({ where: inArray(instruments.id, instrumentIds) }) : [],
+      instrumentIds.length > 0 ? db.query.latestQuotes.findMany({ where: inArray(latestQuotes.instrumentId, instrumentIds) }) : [],
+      latestRates ?? this.currencyService.getLatestRates(),
+    ]);
+
+    const instrumentMap = new Map(instrumentData.map((i) => [i.id, i]));
+    const quoteMap = new Map(quoteData.map((q) => [q.instrumentId, q]));
+    const today = istanbulDate(Math.floor(Date.now() / 1000));
+
+    for (const debt of debts) {
+      const installments = installmentRows.filter((row) => row.debtId === debt.id);
+      const repayments = repaymentRows.filter((row) => row.debtId === debt.id);
+      const repaid = repayments.reduce((sum, row) => sum + parseFloat(row.amount), 0);
+
+      const status = summarizeDebt(
+        parseFloat(debt.principal),
+        debt.dueDate,
+        installments.map((row) => ({ id: row.id, dueDate: row.dueDate, amount: parseFloat(row.amount) })),
+        repaid,
+        today
+      );
+
+      const instrument = instrumentMap.get(debt.unit);
+      const quote = quoteMap.get(debt.unit);
+      const quoteCurrency = instrument?.quoteCurrency ?? debt.unit;
+      const unitPrice = isCurrencyUnit(debt.unit) ? 1 : quote ? parseFloat(quote.sell ?? quote.price) : null;
+
+      const remainingNative = unitPrice !== null ? status.remaining * unitPrice : null;
+      const overdueNative = unitPrice !== null ? status.overdueAmount * unitPrice : null;
+      const remainingTry = remainingNative !== null ? convertAmount(remainingNative, quoteCurrency, 'TRY', rates) : null;
+      const overdueTry = overdueNative !== null ? convertAmount(overdueNative, quoteCurrency, 'TRY', rates) : null;
+
+      const list = views.get(debt.portfolioId) ?? [];
+      list.push({
+        id: debt.id,
+        portfolioId: debt.portfolioId,
+        counterparty: debt.counterparty,
+        unit: debt.unit,
+        unitName: instrument?.name ?? debt.unit,
+        description: debt.description,
+        principal: parseFloat(debt.principal),
+        startDate: debt.startDate,
+        dueDate: debt.dueDate,
+        ...status,
+        quoteCurrency,
+        remainingNative: remainingNative !== null ? round2(remainingNative) : null,
+        remainingTry: remainingTry !== null ? round2(remainingTry) : null,
+        overdueTry: overdueTry !== null ? round2(overdueTry) : null,
+        repayments: repayments.map((row) => ({
+          id: row.id,
+          paidAt: row.paidAt,
+          amount: parseFloat(row.amount),
+          paidAmount: parseFloat(row.paidAmount),
+          paidUnit: row.paidUnit,
+          note: row.note,
+        })),
+      });
+      views.set(debt.portfolioId, list);
+    }
+
+    return views;
+  }
+
+  // Borç yazma işlemleri editor yetkisi ve borc türünde portföy ister
+  private async findDebtPortfolio(portfolioId: string, userId: string) {
+    const portfolio = await this.accessService.authorize(portfolioId, userId, 'editor');
+    if (portfolio && portfolio.type !== 'borc') {
+      throw new Error('VALIDATION_ERROR: Debts can only be recorded in borc portfolios');
+    }
+    return portfolio;
+  }
+
+  private async findDebt(portfolioId: string, debtId: string): Promise<PortfolioDebt | undefined> {
+    return db.query.portfolioDebts.findFirst({
+      where: and(eq(portfolioDebts.id, debtId), eq(portfolioDebts.portfolioId, portfolioId)),
+    });
+  }
+
+  /**
+   * Lock the debt row (SELECT ... FOR UPDATE) and read its principal and repaid total,
+   * so checks against the remaining amount hold until the transaction commits.
+   * Null when the debt was deleted concurrently.
+   */
+  private async lockDebt(tx: DbTransaction, debtId: string): Promise<{ principal: number; repaid: number } | null> {
+    const [debt] = await tx.select({ principal: portfolioDebts.principal }).from(portfolioDebts)
+      .where(eq(portfolioDebts.id, debtId))
+      .for('update');
+    if (!debt) return null;
+
+    const rows = await tx.query.debtRepayments.findMany({ where: eq(debtRepayments.debtId, debtId) });
+
+    return {
+      principal: parseFloat(debt.principal),
+      repaid: rows.reduce((sum, row) => sum + parseFloat(row.amount), 0),
+    };
+  }
+
+  private async loadInstallments(debtIds: string[]): Promise<DebtInstallment[]> {
+    return db.query.debtInstallments.findMany({
+      where: inArray(debtInstallments.debtId, debtIds),
+      orderBy: asc(debtInstallments.dueDate),
+    });
+  }
+
+  private async loadRepayments(debtIds: string[]): Promise<DebtRepayment[]> {
+    return db.query.debtRepayments.findMany({
+      where: inArray(debtRepayments.debtId, debtIds),
+      orderBy: asc(debtRepayments.paidAt),
+    });
+  }
+
+  private async assertUnit(unit: string) {
+    if (isCurrencyUnit(unit)) return;
+
+    const instrument = await db.query.instruments.findFirst({ where: eq(instruments.id, unit) });
+    if (!instrument) {
+      throw new Error(`VALIDATION_ERROR: Unknown unit: ${unit} (use ${CURRENCY_UNITS.join(', ')} or an instrument id)`);
+    }
+  }
+
+  private async convertUnits(amount: number, from: string, to: string, date: string): Promise<number> {
+    const latest = await this.currencyService.getLatestRates();
+    const rates = (await this.currencyService.getHistoricalRates(addDays(date, -RATE_LOOKBACK_DAYS), date, latest)).on(date);
+
+    const fromRate = await this.tryRateOn(from, date, rates);
+    const toRate = await this.tryRateOn(to, date, rates);
+    if (fromRate === null || toRate === null || toRate === 0) {
+      throw new Error(`VALIDATION_ERROR: No ${from}/${to} rate for ${date}; send debtAmount instead`);
+    }
+
+    return (amount * fromRate) / toRate;
+  }
+
+  // Birimin o günkü TL karşılığı (son kapanış, yoksa güncel fiyat)
+  private async tryRateOn(unit: string, date: string, rates: FxRates): Promise<number | null> {
+    if (isCurrencyUnit(unit)) return tryPerUnit(unit, rates);
+
+    const instrument = await db.query.instruments.findFirst({ where: eq(instruments.id, unit) });
+    if (!instrument) return null;
+
+    const series = (await this.rollupService.getDailyCloses([unit], addDays(date, -RATE_LOOKBACK_DAYS), date)).get(unit);
+    let price = series?.length ? series[series.length - 1].price : null;
+
+    if (price === null) {
+      const quote = await db.query.latestQuotes.findFirst({ where: eq(latestQuotes.instrumentId, unit) });
+      price = quote ? parseFloat(quote.sell ?? quote.price) : null;
+    }
+
+    const fx = tryPerUnit(instrument.quoteCurrency, rates);
+    return price !== null && fx !== null ? price * fx : null;
+  }
+}
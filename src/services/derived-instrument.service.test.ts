@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DERIVED_SOURCE,
+  DerivedInstrumentService,
+  applyDerivedInstruments,
+  describeFormula,
+  evaluateDefinition,
+  orderDefinitions,
+} from './derived-instrument.service';
+import { DERIVED_INSTRUMENTS, TROY_OUNCE_GRAMS, type DerivedInstrumentDefinition } from '../config/instruments';
+import type { NormalizedQuote } from './data-sources/truncgil.service';
+
+function quote(instrumentId: string, price: number, source: string, spread = 0, ts = 1770000000): NormalizedQuote {
+  return { instrumentId, ts, price, buy: price - spread, sell: price + spread, source };
+}
+
+function definition(instrumentId: string): DerivedInstrumentDefinition {
+  return DERIVED_INSTRUMENTS.find((d) => d.instrumentId === instrumentId)!;
+}
+
+function chain(quotes: NormalizedQuote[]) {
+  return { quotes, servedBy: Object.fromEntries(quotes.map((q) => [q.instrumentId, q.source])), failedProviders: [], missingInstruments: [] };
+}
+
+describe('evaluateDefinition', () => {
+  it('should calculate EURUSD from EUR and USD rates', () => {
+    const quotes = new Map([
+      ['EURTRY', { ...quote('EURTRY', 38.5, 'tcmb'), buy: 38.5, sell: 38.5 }],
+      ['USDTRY', { ...quote('USDTRY', 35.1, 'tcmb'), buy: 35.0, sell: 35.2 }],
+    ]);
+
+    const eurUsd = evaluateDefinition(definition('EURUSD'), (id) => quotes.get(id))!;
+
+    expect(eurUsd.price).toBeCloseTo(38.5 / 35.1, 10);
+    // Buy side divides by the USD sell rate
+    expect(eurUsd.buy).toBeCloseTo(38.5 / 35.2, 10);
+    expect(eurUsd.sell).toBeCloseTo(38.5 / 35.0, 10);
+    expect(eurUsd.source).toBe(DERIVED_SOURCE);
+  });
+
+  it('should calculate gram gold from ons and USDTRY', () => {
+    const quotes = new Map([
+      ['ons', quote('ons', 2700, 'truncgil', 0, 1770000100)],
+      ['USDTRY', quote('USDTRY', 35, 'tcmb')],
+    ]);
+
+    const gram = evaluateDefinition(definition('gram'), (id) => quotes.get(id))!;
+
+    expect(gram.price).toBeCloseTo((2700 * 35) / TROY_OUNCE_GRAMS, 6);
+    expect(gram.ts).toBe(1770000100);
+    expect(gram.rawData).toMatchObject({ inputs: { ons: { source: 'truncgil' }, USDTRY: { source: 'tcmb' } } });
+  });
+
+  it('should return null when an input is missing or not positive', () => {
+    expect(evaluateDefinition(definition('gram'), () => undefined)).toBeNull();
+    expect(evaluateDefinition(definition('xauxag'), (id) => quote(id, id === 'gumus_ons' ? 0 : 2700, 'x'))).toBeNull();
+  });
+
+  it('should drop a spread side when an input lacks it', () => {
+    const quotes = new Map([
+      ['ons', { ...quote('ons', 2700, 'x'), buy: null }],
+      ['gumus_ons', quote('gumus_ons', 30, 'x')],
+    ]);
+
+    const ratio = evaluateDefinition(definition('xauxag'), (id) => quotes.get(id))!;
+
+    expect(ratio.price).toBe(90);
+    expect(ratio.buy).toBeNull();
+    expect(ratio.sell).toBe(90);
+  });
+});
+
+describe('orderDefinitions', () => {
+  it('should evaluate inputs before the instruments using them', () => {
+    const ordered = orderDefinitions([definition('ceyrek'), definition('gram')]).map((d) => d.instrumentId);
+    expect(ordered).toEqual(['gram', 'ceyrek']);
+  });
+
+  it('should reject circular definitions', () => {
+    const a = { instrumentId: 'a', category: 'metals' as const, inputs: [{ instrumentId: 'b', exponent: 1 as const }], factor: 1, tolerancePercent: 1 };
+    const b = { instrumentId: 'b', category: 'metals' as const, inputs: [{ instrumentId: 'a', exponent: 1 as const }], factor: 1, tolerancePercent: 1 };
+
+    expect(() => orderDefinitions([a, b])).toThrow('Circular derived instrument definition: a → b → a');
+    expect(() => new DerivedInstrumentService([a, b])).toThrow();
+  });
+});
+
+describe('describeFormula', () => {
+  it('should render inputs and factor', () => {
+    expect(describeFormula(definition('EURUSD'))).toBe('EURTRY ÷ USDTRY');
+    expect(describeFormula(definition('gram'))).toBe('ons × USDTRY × 0.0321507');
+  });
+});
+
+describe('applyDerivedInstruments', () => {
+  const metals = DERIVED_INSTRUMENTS.filter((d) => d.category === 'metals');
+  const external = new Map([['USDTRY', quote('USDTRY', 35, 'tcmb')]]);
+
+  it('should fill instruments no provider returned, chaining derived inputs', () => {
+    const { result } = applyDerivedInstruments(
+      metals,
+      { ...chain([quote('ons', 2700, 'haremaltin')]), failedProviders: ['truncgil'] },
+      external
+    );
+
+    const gram = (2700 * 35) / TROY_OUNCE_GRAMS;
+    expect(result.quotes.find((q) => q.instrumentId === 'gram')!.price).toBeCloseTo(gram, 6);
+    expect(result.servedBy).toMatchObject({ ons: 'haremaltin', gram: 'derived', has: 'derived', usdkg: 'derived' });
+    // Çeyrek formülü işçilik primini içermez: sadece referans, fiyat olarak yayınlanmaz
+    expect(result.quotes.find((q) => q.instrumentId === 'ceyrek')).toBeUndefined();
+    expect(result.servedBy).not.toHaveProperty('ceyrek');
+    // Gümüş ons ve EURTRY yok: oran ve EUR/kg hesaplanamaz
+    expect(result.servedBy).not.toHaveProperty('xauxag');
+    expect(result.servedBy).not.toHaveProperty('eurkg');
+    expect(result.failedProviders).toEqual(['truncgil']);
+  });
+
+  it('should keep provider prices and use them as inputs', () => {
+    const { result } = applyDerivedInstruments(
+      metals,
+      chain([quote('ons', 2700, 'truncgil'), quote('gram', 3100, 'truncgil'), quote('ceyrek', 5500, 'truncgil')]),
+      external
+    );
+
+    expect(result.quotes.find((q) => q.instrumentId === 'gram')!.price).toBe(3100);
+    expect(result.quotes.find((q) => q.instrumentId === 'ceyrek')!.rawData).toMatchObject({
+      derivedReference: { price: expect.closeTo(3100 * 1.75 * 0.916, 6) },
+    });
+    expect(result.servedBy.gram).toBe('truncgil');
+  });
+
+  it('should flag provider prices outside the tolerance of their formula', () => {
+    const gram = (2700 * 35) / TROY_OUNCE_GRAMS;
+    const { result, deviations } = applyDerivedInstruments(
+      metals,
+      chain([quote('ons', 2700, 'truncgil'), quote('gram', gram * 1.01, 'truncgil'), quote('has', gram * 1.2, 'altinkaynak')]),
+      external
+    );
+
+    expect(deviations).toHaveLength(1);
+    expect(deviations[0]).toMatchObject({ instrumentId: 'has', source: 'altinkaynak', tolerancePercent: 3 });
+    expect(deviations[0].deviationPercent).toBeCloseTo(20, 6);
+    expect(result.quotes.find((q) => q.instrumentId === 'gram')!.rawData).toMatchObject({
+      derivedReference: { deviationPercent: expect.closeTo(1, 6) },
+    });
+  });
+});
+
+describe('DerivedInstrumentService.deriveHistory', () => {
+  it('should derive per timestamp from quotes of the same day', () => {
+    const service = new DerivedInstrumentService();
+    const derived = service.deriveHistory('fx', [
+      quote('USDTRY', 32, 'tcmb', 0, 100),
+      quote('EURTRY', 35.2, 'tcmb', 0, 100),
+      quote('USDTRY', 33, 'tcmb', 0, 200),
+    ]);
+
+    expect(derived).toHaveLength(1);
+    expect(derived[0]).toMatchObject({ instrumentId: 'EURUSD', ts: 100, source: 'derived' });
+    expect(derived[0].price).toBeCloseTo(1.1, 10);
+  });
+});
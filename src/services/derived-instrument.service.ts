@@ -0,0 +1,255 @@
+import { db } from '../config/database';
+import { latestQuotes } from '../db/schema';
+import {
+  DERIVED_INSTRUMENTS,
+  INSTRUMENTS,
+  type DerivedInstrumentDefinition,
+} from '../config/instruments';
+import type { ProviderChainResult } from './data-sources/provider-registry';
+import type { NormalizedQuote } from './data-sources/truncgil.service';
+import type { RateCategory } from '../types/api.types';
+import { logger } from '../utils/logger';
+import { inArray } from 'drizzle-orm';
+
+export const DERIVED_SOURCE = 'derived';
+
+export type DerivedDeviation = {
+  instrumentId: string;
+  source: string;
+  price: number;
+  derivedPrice: number;
+  deviationPercent: number;
+  tolerancePercent: number;
+};
+
+/**
+ * Sort definitions so every derived input is evaluated before the instruments using it
+ */
+export function orderDefinitions(definitions: DerivedInstrumentDefinition[]): DerivedInstrumentDefinition[] {
+  const byId = new Map(definitions.map((d) => [d.instrumentId, d]));
+  const ordered: DerivedInstrumentDefinition[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+
+  const visit = (definition: DerivedInstrumentDefinition, path: string[]) => {
+    const current = state.get(definition.instrumentId);
+    if (current === 'done') return;
+    if (current === 'visiting') {
+      throw new Error(`Circular derived instrument definition: ${[...path, definition.instrumentId].join(' → ')}`);
+    }
+
+    state.set(definition.instrumentId, 'visiting');
+    for (const input of definition.inputs) {
+      const dependency = byId.get(input.instrumentId);
+      if (dependency) visit(dependency, [...path, definition.instrumentId]);
+    }
+    state.set(definition.instrumentId, 'done');
+    ordered.push(definition);
+  };
+
+  for (const definition of definitions) visit(definition, []);
+  return ordered;
+}
+
+/**
+ * Human readable formula, e.g. "ons × USDTRY × 0.03215"
+ */
+export function describeFormula(definition: DerivedInstrumentDefinition): string {
+  const terms = definition.inputs.map((input, i) =>
+    i === 0 ? input.instrumentId : `${input.exponent === 1 ? '×' : '÷'} ${input.instrumentId}`
+  );
+  const formula = definition.inputs[0]?.exponent === -1 ? `1 ÷ ${terms.join(' ')}` : terms.join(' ');
+  return definition.factor === 1 ? formula : `${formula} × ${Number(definition.factor.toPrecision(6))}`;
+}
+
+/**
+ * Evaluate one definition. Returns null when an input is missing or not positive.
+ * Spreads follow the inputs: buy = factor × Π (× input.buy, ÷ input.sell), sell the other way round.
+ */
+export function evaluateDefinition(
+  definition: DerivedInstrumentDefinition,
+  lookup: (instrumentId: string) => NormalizedQuote | undefined
+): NormalizedQuote | null {
+  const inputs = definition.inputs.map((input) => ({ input, quote: lookup(input.instrumentId) }));
+  if (inputs.some(({ quote }) => !quote || !(quote.price > 0))) return null;
+
+  const side = (pick: (quote: NormalizedQuote, exponent: 1 | -1) => number | null): number | null => {
+    let value = definition.factor;
+    for (const { input, quote } of inputs) {
+      const price = pick(quote!, input.exponent);
+      if (price === null || !(price > 0)) return null;
+      value = input.exponent === 1 ? value * price : value / price;
+    }
+    return value;
+  };
+
+  return {
+    instrumentId: definition.instrumentId,
+    ts: Math.max(...inputs.map(({ quote }) => quote!.ts)),
+    price: side((quote) => quote.price)!,
+    buy: side((quote, exponent) => (exponent === 1 ? quote.buy : quote.sell)),
+    sell: side((quote, exponent) => (exponent === 1 ? quote.sell : quote.buy)),
+    source: DERIVED_SOURCE,
+    rawData: {
+      formula: describeFormula(definition),
+      inputs: Object.fromEntries(
+        inputs.map(({ input, quote }) => [input.instrumentId, { price: quote!.price, source: quote!.source, ts: quote!.ts }])
+      ),
+    },
+  };
+}
+
+/**
+ * Run the definitions over a refresh result. Instruments no provider returned are filled
+ * with derived quotes (servedBy 'derived') unless the definition is reference-only; provided
+ * ones are compared against their derived value and reported when off by more than the
+ * definition's tolerance. `external` supplies inputs from other categories (e.g. USDTRY for metals).
+ */
+export function applyDerivedInstruments(
+  definitions: DerivedInstrumentDefinition[],
+  result: ProviderChainResult,
+  external: Map<string, NormalizedQuote> = new Map()
+): { result: ProviderChainResult; deviations: DerivedDeviation[] } {
+  const available = new Map(external);
+  for (const quote of result.quotes) available.set(quote.instrumentId, quote);
+
+  const quotes = [...result.quotes];
+  const servedBy = { ...result.servedBy };
+  const deviations: DerivedDeviation[] = [];
+
+  for (const definition of orderDefinitions(definitions)) {
+    const derived = evaluateDefinition(definition, (id) => available.get(id));
+    if (!derived) continue;
+
+    const index = quotes.findIndex((q) => q.instrumentId === definition.instrumentId);
+    if (index < 0) {
+      if (definition.referenceOnly) continue;
+      quotes.push(derived);
+      servedBy[definition.instrumentId] = DERIVED_SOURCE;
+      available.set(definition.instrumentId, derived);
+      continue;
+    }
+
+    // Sağlayıcı fiyatı korunur; türetilmiş değer sadece referans olarak eklenir
+    const provided = quotes[index];
+    const deviationPercent = ((provided.price - derived.price) / derived.price) * 100;
+    quotes[index] = {
+      ...provided,
+      rawData: {
+        ...(provided.rawData && typeof provided.rawData === 'object' ? provided.rawData : { raw: provided.rawData }),
+        derivedReference: { price: derived.price, deviationPercent },
+      },
+    };
+
+    if (Math.abs(deviationPercent) > definition.tolerancePercent) {
+      deviations.push({
+        instrumentId: definition.instrumentId,
+        source: provided.source,
+        price: provided.price,
+        derivedPrice: derived.price,
+        deviationPercent,
+        tolerancePercent: definition.tolerancePercent,
+      });
+    }
+  }
+
+  return {
+    result: {
+      quotes,
+      servedBy,
+      failedProviders: result.failedProviders,
+      missingInstruments: result.missingInstruments.filter((id) => !(id in servedBy)),
+    },
+    deviations,
+  };
+}
+
+/**
+ * Evaluates DERIVED_INSTRUMENTS after each refresh and for historical backfills
+ */
+export class DerivedInstrumentService {
+  constructor(
+    private definitions: DerivedInstrumentDefinition[] = DERIVED_INSTRUMENTS,
+    private maxInputAgeSeconds = 24 * 60 * 60 // older cross-category inputs are ignored
+  ) {
+    orderDefinitions(definitions); // fail fast on cycles
+  }
+
+  /**
+   * Fill missing instruments of a refresh and flag scraped prices that disagree with their formula
+   */
+  async apply(category: RateCategory, result: ProviderChainResult): Promise<ProviderChainResult> {
+    const definitions = this.definitions.filter((d) => d.category === category);
+    if (definitions.length === 0) return result;
+
+    const { result: applied, deviations } = applyDerivedInstruments(
+      definitions,
+      result,
+      await this.loadExternalInputs(category, definitions)
+    );
+
+    for (const deviation of deviations) {
+      logger.warn(deviation, 'Provider price deviates from derived reference');
+    }
+
+    const derivedIds = Object.keys(applied.servedBy).filter((id) => applied.servedBy[id] === DERIVED_SOURCE);
+    if (derivedIds.length > 0) {
+      logger.info({ category, instruments: derivedIds }, 'Derived quotes filled missing instruments');
+    }
+
+    return applied;
+  }
+
+  /**
+   * Derived quotes for backfilled history; inputs are matched by identical timestamp
+   */
+  deriveHistory(category: RateCategory, quotesData: NormalizedQuote[]): NormalizedQuote[] {
+    const definitions = this.definitions.filter((d) => d.category === category);
+    const byTs = new Map<number, NormalizedQuote[]>();
+
+    for (const quote of quotesData) {
+      const group = byTs.get(quote.ts) ?? [];
+      group.push(quote);
+      byTs.set(quote.ts, group);
+    }
+
+    const derived: NormalizedQuote[] = [];
+    for (const group of byTs.values()) {
+      const servedBy = Object.fromEntries(group.map((q) => [q.instrumentId, q.source]));
+      const { result } = applyDerivedInstruments(definitions, { quotes: group, servedBy, failedProviders: [], missingInstruments: [] });
+      derived.push(...result.quotes.filter((q) => q.source === DERIVED_SOURCE));
+    }
+
+    return derived;
+  }
+
+  // Diğer kategorilerin girdileri (ör. metaller için USDTRY) latest_quotes'tan okunur
+  private async loadExternalInputs(
+    category: RateCategory,
+    definitions: DerivedInstrumentDefinition[]
+  ): Promise<Map<string, NormalizedQuote>> {
+    const own = new Set(INSTRUMENTS[category].map((i) => i.id));
+    const ids = [...new Set(definitions.flatMap((d) => d.inputs.map((i) => i.instrumentId)))].filter((id) => !own.has(id));
+    if (ids.length === 0) return new Map();
+
+    const rows = await db.query.latestQuotes.findMany({
+      where: inArray(latestQuotes.instrumentId, ids),
+    });
+
+    const now = Math.floor(Date.now() / 1000);
+    return new Map(
+      rows
+        .filter((row) => now - row.ts <= this.maxInputAgeSeconds)
+        .map((row) => [
+          row.instrumentId,
+          {
+            instrumentId: row.instrumentId,
+            ts: row.ts,
+            price: parseFloat(row.price),
+            buy: row.buy !== null ? parseFloat(row.buy) : null,
+            sell: row.sell !== null ? parseFloat(row.sell) : null,
+            source: row.source,
+          },
+        ])
+    );
+  }
+}
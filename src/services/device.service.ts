@@ -0,0 +1,56 @@
+import { db } from '../config/database';
+import { deviceTokens } from '../db/schema';
+import { eq, and, sql } from 'drizzle-orm';
+import { logger } from '../utils/logger';
+
+type RegisterDeviceInput = {
+  token: string;
+  platform: 'ios' | 'android' | 'web';
+  locale?: 'tr' | 'en';
+};
+
+export class DeviceService {
+  async registerDevice(userId: string, input: RegisterDeviceInput) {
+    const locale = input.locale ?? 'tr';
+
+    // Aynı token başka kullanıcıya aitse (cihazda hesap değişimi) yeni kullanıcıya taşınır
+    const [device] = await db.insert(deviceTokens)
+      .values({
+        userId,
+        token: input.token,
+        platform: input.platform,
+        locale,
+      })
+      .onConflictDoUpdate({
+        target: deviceTokens.token,
+        set: {
+          userId,
+          platform: input.platform,
+          locale,
+          updatedAt: sql`NOW()`,
+        },
+      })
+      .returning();
+
+    logger.info({ userId, platform: input.platform }, 'Device token registered');
+
+    return {
+      id: device.id,
+      platform: device.platform,
+      locale: device.locale,
+      createdAt: device.createdAt.toISOString(),
+    };
+  }
+
+  async unregisterDevice(userId: string, token: string): Promise<boolean> {
+    const [deleted] = await db.delete(deviceTokens)
+      .where(and(eq(deviceTokens.userId, userId), eq(deviceTokens.token, token)))
+      .returning({ id: deviceTokens.id });
+
+    if (deleted) {
+      logger.info({ userId }, 'Device token removed');
+    }
+
+    return !!deleted;
+  }
+}
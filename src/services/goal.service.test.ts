@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { projectCompletion, reachedMilestone, requiredMonthlyContribution } from './goal.service';
+
+describe('reachedMilestone', () => {
+  it('should return the highest milestone passed', () => {
+    expect(reachedMilestone(0)).toBe(0);
+    expect(reachedMilestone(24.99)).toBe(0);
+    expect(reachedMilestone(25)).toBe(25);
+    expect(reachedMilestone(74)).toBe(50);
+    expect(reachedMilestone(130)).toBe(100);
+  });
+});
+
+describe('projectCompletion', () => {
+  it('should extrapolate the contribution pace of the last year', () => {
+    // 12 × 1000 over a year → 1000/month, 6000 left ≈ 182.5 days
+    const contributions = Array.from({ length: 12 }, (_, i) => ({
+      date: `2024-${String(i + 1).padStart(2, '0')}-01`,
+      amount: 1000,
+    }));
+
+    const projection = projectCompletion(12000, 18000, contributions, '2024-12-31');
+
+    expect(projection.monthlyContribution).toBeCloseTo(1000, 6);
+    expect(projection.projectedDate).toBe('2025-07-02');
+  });
+
+  it('should ignore contributions older than a year', () => {
+    const projection = projectCompletion(
+      500,
+      1000,
+      [
+        { date: '2020-01-01', amount: 100000 },
+        { date: '2024-07-01', amount: 365 },
+      ],
+      '2025-07-01'
+    );
+
+    expect(projection.monthlyContribution).toBeCloseTo(365 / 12, 6);
+    expect(projection.projectedDate).toBe('2026-11-13');
+  });
+
+  it('should use at least 30 days for new portfolios', () => {
+    const projection = projectCompletion(1000, 2000, [{ date: '2025-01-01', amount: 1000 }], '2025-01-01');
+    expect(projection.projectedDate).toBe('2025-01-31');
+  });
+
+  it('should not project while savings are shrinking', () => {
+    const projection = projectCompletion(
+      100,
+      1000,
+      [
+        { date: '2025-01-01', amount: 500 },
+        { date: '2025-02-01', amount: -600 },
+      ],
+      '2025-03-01'
+    );
+    expect(projection.projectedDate).toBeNull();
+    expect(projection.monthlyContribution).toBeLessThan(0);
+  });
+
+  it('should report reached goals as done today', () => {
+    expect(projectCompletion(100, 100, [], '2025-03-01')).toEqual({ monthlyContribution: null, projectedDate: '2025-03-01' });
+    expect(projectCompletion(50, 100, [], '2025-03-01').projectedDate).toBeNull();
+  });
+});
+
+describe('requiredMonthlyContribution', () => {
+  it('should spread the remaining amount over the months left', () => {
+    expect(requiredMonthlyContribution(40, 100, '2025-01-01', '2026-01-01')).toBeCloseTo(5, 6);
+  });
+
+  it('should ask for everything within the last month', () => {
+    expect(requiredMonthlyContribution(40, 100, '2025-01-01', '2025-01-10')).toBe(60);
+  });
+
+  it('should return null without a future target date', () => {
+    expect(requiredMonthlyContribution(40, 100, '2025-01-01', null)).toBeNull();
+    expect(requiredMonthlyContribution(40, 100, '2025-01-01', '2024-12-01')).toBeNull();
+    expect(requiredMonthlyContribution(100, 100, '2025-01-01', '2026-01-01')).toBeNull();
+  });
+});
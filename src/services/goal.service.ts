@@ -0,0 +1,437 @@
+import { db } from '../config/database';
+import { portfolios, portfolioGoals, portfolioMembers, portfolioTransactions, latestQuotes, instruments } from '../db/schema';
+import type { PortfolioGoal, PortfolioTransaction } from '../db/schema';
+import { eq, and, inArray, asc } from 'drizzle-orm';
+import { computePositions, toLedgerTransaction, type CostMethod } from './ledger.service';
+import { addDays } from './portfolio-history.service';
+import { CurrencyService, RATE_LOOKBACK_DAYS, convertAmount, tryPerUnit, type FxRates } from './currency.service';
+import { istanbulDate } from './rollup.service';
+import { CURRENCY_UNITS, isCurrencyUnit } from './debt.service';
+import { PortfolioAccessService } from './portfolio-access.service';
+import { NotificationDispatcher } from './notifications/notification.service';
+import { logger } from '../utils/logger';
+
+export const GOAL_MILESTONES = [25, 50, 75, 100];
+
+export type GoalMilestoneEvent = {
+  goalId: string;
+  portfolioId: string;
+  goalName: string;
+  milestone: number;
+  userIds: string[]; // portfolio members
+};
+
+export type Contribution = {
+  date: string;
+  amount: number; // net money put in (withdrawals negative)
+};
+
+export type GoalProjection = {
+  monthlyContribution: number | null;
+  projectedDate: string | null;
+};
+
+type CreateGoalInput = {
+  name: string;
+  unit: string;
+  targetAmount: number;
+  targetDate?: string | null;
+  notifyMilestones?: boolean;
+};
+
+type UpdateGoalInput = Partial<CreateGoalInput>;
+
+// Portföyün TL değeri ve net katkı geçmişi (işlem günü kuruyla TL)
+type PortfolioProgress = {
+  valueTry: number;
+  contributionsTry: Contribution[];
+  unconverted: string[];
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Son bir yılın katkı hızı projeksiyona esas alınır; çok yeni portföyler için en az 30 gün
+const PROJECTION_WINDOW_DAYS = 365;
+const MIN_PROJECTION_DAYS = 30;
+
+const DAYS_PER_MONTH = 365 / 12;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const round4 = (value: number) => Math.round(value * 10000) / 10000;
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+/**
+ * Highest milestone (25/50/75/100) at or below the progress percent; 0 before the first
+ */
+export function reachedMilestone(progressPercent: number): number {
+  return GOAL_MILESTONES.filter((m) => progressPercent >= m).pop() ?? 0;
+}
+
+/**
+ * Completion date at the recent contribution pace: net contributions of the last year
+ * (or since the first one) averaged per day, then extrapolated over what is left.
+ * No projected date while the pace is zero or negative.
+ */
+export function projectCompletion(current: number, target: number, contributions: Contribution[], today: string): GoalProjection {
+  if (current >= target) return { monthlyContribution: null, projectedDate: today };
+  if (contributions.length === 0) return { monthlyContribution: null, projectedDate: null };
+
+  const firstDate = contributions.reduce((min, c) => (c.date < min ? c.date : min), contributions[0].date);
+  const windowStart = addDays(today, -PROJECTION_WINDOW_DAYS);
+  const start = firstDate > windowStart ? firstDate : windowStart;
+  const days = Math.max(daysBetween(start, today), MIN_PROJECTION_DAYS);
+
+  const total = contributions
+    .filter((c) => c.date >= start && c.date <= today)
+    .reduce((sum, c) => sum + c.amount, 0);
+  const perDay = total / days;
+
+  return {
+    monthlyContribution: perDay * DAYS_PER_MONTH,
+    projectedDate: perDay > 0 ? addDays(today, Math.ceil((target - current) / perDay)) : null,
+  };
+}
+
+/**
+ * Monthly amount needed to reach the target by its date; null without a (future) date
+ */
+export function requiredMonthlyContribution(current: number, target: number, today: string, targetDate: string | null): number | null {
+  if (!targetDate || current >= target) return null;
+
+  const days = daysBetween(today, targetDate);
+  if (days <= 0) return null;
+  return (target - current) / Math.max(days / DAYS_PER_MONTH, 1);
+}
+
+// Net katkı: alış (masrafla) ve transfer girişi artı, satış ve transfer çıkışı eksi
+function contributionOf(row: PortfolioTransaction): number {
+  const quantity = parseFloat(row.quantity);
+  const price = parseFloat(row.price);
+  const fee = parseFloat(row.fee);
+
+  switch (row.type) {
+    case 'buy':
+      return quantity * price + fee;
+    case 'transfer_in':
+      return quantity * price;
+    case 'sell':
+      return -(quantity * price - fee);
+    case 'transfer_out':
+      return -(quantity * price);
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Savings goals on birikim portfolios: progress from the current valuation, projected
+ * completion from the contribution history, and push notifications at 25/50/75/100%
+ */
+export class GoalService {
+  private currencyService = new CurrencyService();
+  private accessService = new PortfolioAccessService();
+
+  constructor(private notificationDispatcher: NotificationDispatcher = new NotificationDispatcher()) {}
+
+  async getGoals(portfolioId: string, userId: string) {
+    const portfolio = await this.accessService.authorize(portfolioId, userId, 'viewer');
+    if (!portfolio) return null;
+
+    const goals = await db.query.portfolioGoals.findMany({
+      where: eq(portfolioGoals.portfolioId, portfolioId),
+      orderBy: asc(portfolioGoals.createdAt),
+    });
+
+    return this.buildViews(goals);
+  }
+
+  async getGoal(portfolioId: string, goalId: string, userId: string) {
+    const goals = await this.getGoals(portfolioId, userId);
+    return goals?.find((g) => g.id === goalId) ?? null;
+  }
+
+  async createGoal(portfolioId: string, userId: string, input: CreateGoalInput) {
+    const portfolio = await this.findGoalPortfolio(portfolioId, userId);
+    if (!portfolio) return null;
+
+    await this.assertUnit(input.unit);
+
+    const [goal] = await db.insert(portfolioGoals).values({
+      portfolioId,
+      name: input.name.slice(0, 100),
+      unit: input.unit,
+      targetAmount: input.targetAmount.toFixed(6),
+      targetDate: input.targetDate ?? null,
+      notifyMilestones: input.notifyMilestones ?? true,
+    }).returning();
+
+    // Zaten geçilmiş eşikler için geriye dönük bildirim gönderilmez
+    await this.syncMilestone(goal);
+
+    logger.info({ goalId: goal.id, portfolioId, unit: goal.unit }, 'Goal created');
+    return this.getGoal(portfolioId, goal.id, userId);
+  }
+
+  async updateGoal(portfolioId: string, goalId: string, userId: string, input: UpdateGoalInput) {
+    const portfolio = await this.findGoalPortfolio(portfolioId, userId);
+    if (!portfolio) return null;
+
+    const existing = await this.findGoal(portfolioId, goalId);
+    if (!existing) return null;
+
+    if (input.unit !== undefined) await this.assertUnit(input.unit);
+
+    const [goal] = await db.update(portfolioGoals)
+      .set({
+        ...(input.name !== undefined && { name: input.name.slice(0, 100) }),
+        ...(input.unit !== undefined && { unit: input.unit }),
+        ...(input.targetAmount !== undefined && { targetAmount: input.targetAmount.toFixed(6) }),
+        ...(input.targetDate !== undefined && { targetDate: input.targetDate }),
+        ...(input.notifyMilestones !== undefined && { notifyMilestones: input.notifyMilestones }),
+        updatedAt: new Date(),
+      })
+      .where(eq(portfolioGoals.id, goalId))
+      .returning();
+
+    // Hedef değişince eşikler yeni hedefe göre baştan sayılır
+    if (input.unit !== undefined || input.targetAmount !== undefined) await this.syncMilestone(goal);
+
+    return this.getGoal(portfolioId, goalId, userId);
+  }
+
+  async deleteGoal(portfolioId: string, goalId: string, userId: string) {
+    const portfolio = await this.accessService.authorize(portfolioId, userId, 'editor');
+    if (!portfolio) return false;
+
+    const [deleted] = await db.delete(portfolioGoals)
+      .where(and(eq(portfolioGoals.id, goalId), eq(portfolioGoals.portfolioId, portfolioId)))
+      .returning({ id: portfolioGoals.id });
+
+    return !!deleted;
+  }
+
+  /**
+   * Notify portfolio members about newly reached milestones. A milestone is sent once;
+   * falling back below it and rising again does not repeat it.
+   */
+  async checkMilestones(): Promise<GoalMilestoneEvent[]> {
+    const goals = await db.query.portfolioGoals.findMany({
+      where: eq(portfolioGoals.notifyMilestones, true),
+    });
+    const open = goals.filter((g) => g.lastMilestone < 100);
+    if (open.length === 0) return [];
+
+    const views = await this.buildViews(open);
+    const members = await db.query.portfolioMembers.findMany({
+      where: inArray(portfolioMembers.portfolioId, [...new Set(open.map((g) => g.portfolioId))]),
+      columns: { portfolioId: true, userId: true },
+    });
+
+    const events: GoalMilestoneEvent[] = [];
+
+    for (const view of views) {
+      const goal = open.find((g) => g.id === view.id)!;
+      if (view.milestone <= goal.lastMilestone) continue;
+
+      await this.recordMilestone(goal.id, view.milestone);
+      events.push({
+        goalId: goal.id,
+        portfolioId: goal.portfolioId,
+        goalName: goal.name,
+        milestone: view.milestone,
+        userIds: members.filter((m) => m.portfolioId === goal.portfolioId).map((m) => m.userId),
+      });
+    }
+
+    if (events.length > 0) {
+      logger.info({ count: events.length }, 'Goal milestones reached');
+      try {
+        await this.notificationDispatcher.dispatchGoalMilestones(events);
+      } catch (error) {
+        logger.error({ err: error, count: events.length }, 'Failed to dispatch goal notifications');
+      }
+    }
+
+    return events;
+  }
+
+  /**
+   * Goals with progress in their own unit. Instrument goals (100 gram...) count the whole
+   * portfolio at the instrument's current buy price, so "how many grams is it worth".
+   * Contributions are measured in the goal unit at today's price.
+   */
+  private async buildViews(goals: PortfolioGoal[]) {
+    if (goals.length === 0) return [];
+
+    const portfolioIds = [...new Set(goals.map((g) => g.portfolioId))];
+    const instrumentUnits = [...new Set(goals.map((g) => g.unit).filter((unit) => !isCurrencyUnit(unit)))];
+
+    const [rates, unitInstruments, unitQuotes] = await Promise.all([
+      this.currencyService.getLatestRates(),
+      instrumentUnits.length > 0 ? db.query.instruments.findMany({ where: inArray(instruments.id, instrumentUnits) }) : [],
+      instrumentUnits.length > 0 ? db.query.latestQuotes.findMany({ where: inArray(latestQuotes.instrumentId, instrumentUnits) }) : [],
+    ]);
+    const progress = await this.loadProgress(portfolioIds, rates);
+    const today = istanbulDate(Math.floor(Date.now() / 1000));
+
+    return goals.map((goal) => {
+      const instrument = unitInstruments.find((i) => i.id === goal.unit);
+      const quote = unitQuotes.find((q) => q.instrumentId === goal.unit);
+      const fx = tryPerUnit(instrument?.quoteCurrency ?? goal.unit, rates);
+      const unitPriceTry = isCurrencyUnit(goal.unit)
+        ? fx
+        : quote && fx !== null ? parseFloat(quote.buy ?? quote.price) * fx : null;
+
+      const target = parseFloat(goal.targetAmount);
+      const portfolio = progress.get(goal.portfolioId)!;
+      const round = isCurrencyUnit(goal.unit) ? round2 : round4;
+
+      const base = {
+        id: goal.id,
+        portfolioId: goal.portfolioId,
+        name: goal.name,
+        unit: goal.unit,
+        unitName: instrument?.name ?? goal.unit,
+        targetAmount: target,
+        targetDate: goal.targetDate,
+        notifyMilestones: goal.notifyMilestones,
+        achievedAt: goal.achievedAt,
+        unconvertedInstruments: portfolio.unconverted,
+      };
+
+      if (!unitPriceTry) {
+        return {
+          ...base,
+          currentAmount: null,
+          remaining: null,
+          progressPercent: null,
+          milestone: 0,
+          achieved: false,
+          monthlyContribution: null,
+          requiredMonthlyContribution: null,
+          projectedDate: null,
+          onTrack: null,
+        };
+      }
+
+      const current = portfolio.valueTry / unitPriceTry;
+      const contributions = portfolio.contributionsTry.map((c) => ({ date: c.date, amount: c.amount / unitPriceTry }));
+      const progressPercent = target > 0 ? (current / target) * 100 : 0;
+      const projection = projectCompletion(current, target, contributions, today);
+      const required = requiredMonthlyContribution(current, target, today, goal.targetDate);
+
+      return {
+        ...base,
+        currentAmount: round(current),
+        remaining: round(Math.max(target - current, 0)),
+        progressPercent: round2(progressPercent),
+        milestone: reachedMilestone(progressPercent),
+        achieved: current >= target,
+        monthlyContribution: projection.monthlyContribution !== null ? round(projection.monthlyContribution) : null,
+        requiredMonthlyContribution: required !== null ? round(required) : null,
+        projectedDate: projection.projectedDate,
+        onTrack: goal.targetDate && current < target
+          ? projection.projectedDate !== null && projection.projectedDate <= goal.targetDate
+          : null,
+      };
+    });
+  }
+
+  /**
+   * Current TRY value (dealer buy prices) and dated net contributions per portfolio
+   */
+  private async loadProgress(portfolioIds: string[], latestRates: FxRates): Promise<Map<string, PortfolioProgress>> {
+    const [portfolioRows, rows] = await Promise.all([
+      db.query.portfolios.findMany({ where: inArray(portfolios.id, portfolioIds) }),
+      db.query.portfolioTransactions.findMany({ where: inArray(portfolioTransactions.portfolioId, portfolioIds) }),
+    ]);
+
+    const instrumentIds = [...new Set(rows.map((r) => r.instrumentId))];
+    const [instrumentData, quotes] = await Promise.all([
+      instrumentIds.length > 0 ? db.query.instruments.findMany({ where: inArray(instruments.id, instrumentIds) }) : [],
+      instrumentIds.length > 0 ? db.query.latestQuotes.findMany({ where: inArray(latestQuotes.instrumentId, instrumentIds) }) : [],
+    ]);
+
+    const today = istanbulDate(Math.floor(Date.now() / 1000));
+    const firstTradeDate = rows.reduce((min, row) => (row.tradeDate < min ? row.tradeDate : min), today);
+    const historicalRates = await this.currencyService.getHistoricalRates(
+      addDays(firstTradeDate, -RATE_LOOKBACK_DAYS),
+      today,
+      latestRates
+    );
+
+    const instrumentMap = new Map(instrumentData.map((i) => [i.id, i]));
+    const quoteMap = new Map(quotes.map((q) => [q.instrumentId, q]));
+    const progress = new Map<string, PortfolioProgress>();
+
+    for (const portfolio of portfolioRows) {
+      const portfolioTxs = rows.filter((r) => r.portfolioId === portfolio.id);
+      const result: PortfolioProgress = { valueTry: 0, contributionsTry: [], unconverted: [] };
+
+      for (const position of computePositions(portfolioTxs.map(toLedgerTransaction), portfolio.costMethod as CostMethod, false)) {
+        const quote = quoteMap.get(position.instrumentId);
+        const quoteCurrency = instrumentMap.get(position.instrumentId)?.quoteCurrency ?? 'TRY';
+        const value = quote
+          ? convertAmount(position.quantity * parseFloat(quote.buy ?? quote.price), quoteCurrency, 'TRY', latestRates)
+          : null;
+
+        if (value === null) {
+          if (position.quantity > 0) result.unconverted.push(position.instrumentId);
+          continue;
+        }
+        result.valueTry += value;
+      }
+
+      for (const row of portfolioTxs) {
+        const quoteCurrency = instrumentMap.get(row.instrumentId)?.quoteCurrency ?? 'TRY';
+        const amount = convertAmount(contributionOf(row), quoteCurrency, 'TRY', historicalRates.on(row.tradeDate));
+        if (amount !== null && amount !== 0) result.contributionsTry.push({ date: row.tradeDate, amount });
+      }
+
+      progress.set(portfolio.id, result);
+    }
+
+    return progress;
+  }
+
+  // Hedef kaydı sırasında mevcut ilerlemeyi bildirilmiş say
+  private async syncMilestone(goal: PortfolioGoal): Promise<void> {
+    const [view] = await this.buildViews([goal]);
+    await db.update(portfolioGoals)
+      .set({ lastMilestone: view.milestone, achievedAt: view.achieved ? new Date() : null })
+      .where(eq(portfolioGoals.id, goal.id));
+  }
+
+  private async recordMilestone(goalId: string, milestone: number): Promise<void> {
+    await db.update(portfolioGoals)
+      .set({ lastMilestone: milestone, ...(milestone >= 100 && { achievedAt: new Date() }) })
+      .where(eq(portfolioGoals.id, goalId));
+  }
+
+  // Hedef yazma işlemleri editor yetkisi ve birikim türünde portföy ister
+  private async findGoalPortfolio(portfolioId: string, userId: string) {
+    const portfolio = await this.accessService.authorize(portfolioId, userId, 'editor');
+    if (portfolio && portfolio.type !== 'birikim') {
+      throw new Error('VALIDATION_ERROR: Goals can only be set on birikim portfolios');
+    }
+    return portfolio;
+  }
+
+  private async findGoal(portfolioId: string, goalId: string): Promise<PortfolioGoal | undefined> {
+    return db.query.portfolioGoals.findFirst({
+      where: and(eq(portfolioGoals.id, goalId), eq(portfolioGoals.portfolioId, portfolioId)),
+    });
+  }
+
+  private async assertUnit(unit: string) {
+    if (isCurrencyUnit(unit)) return;
+
+    const instrument = await db.query.instruments.findFirst({ where: eq(instruments.id, unit) });
+    if (!instrument) {
+      throw new Error(`VALIDATION_ERROR: Unknown unit: ${unit} (use ${CURRENCY_UNITS.join(', ')} or an instrument id)`);
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { computePosition, computePositions, type LedgerTransaction } from './ledger.service';
+
+let seq = 0;
+function tx(type: LedgerTransaction['type'], quantity: number, price: number, tradeDate: string, fee = 0): LedgerTransaction {
+  seq += 1;
+  return { id: `tx-${seq}`, instrumentId: 'gram', type, quantity, price, fee, tradeDate, createdAt: new Date(seq * 1000) };
+}
+
+describe('computePosition', () => {
+  const ledger = () => [
+    tx('buy', 10, 2000, '2025-01-10'),
+    tx('buy', 10, 3000, '2025-03-10'),
+    tx('sell', 15, 3500, '2025-06-10'),
+  ];
+
+  it('should realize FIFO cost on partial disposals', () => {
+    const position = computePosition('gram', ledger(), 'fifo');
+
+    // 10 @ 2000 + 5 @ 3000 sold at 3500
+    expect(position.realizedProfitLoss).toBeCloseTo(15 * 3500 - (20000 + 15000));
+    expect(position.quantity).toBeCloseTo(5);
+    expect(position.costBasis).toBeCloseTo(15000);
+    expect(position.openLots).toHaveLength(1);
+    expect(position.openLots[0].quantity).toBeCloseTo(5);
+    expect(position.openLots[0].originalQuantity).toBe(10);
+  });
+
+  it('should realize average cost on partial disposals', () => {
+    const position = computePosition('gram', ledger(), 'average');
+
+    expect(position.realizedProfitLoss).toBeCloseTo(15 * 3500 - 15 * 2500);
+    expect(position.costBasis).toBeCloseTo(5 * 2500);
+    expect(position.averageCost).toBeCloseTo(2500);
+  });
+
+  it('should capitalize buy fees and deduct sell fees', () => {
+    const position = computePosition('gram', [
+      tx('buy', 2, 1000, '2025-01-01', 20),
+      tx('sell', 1, 1200, '2025-02-01', 10),
+    ], 'fifo');
+
+    expect(position.openLots[0].unitCost).toBeCloseTo(1010);
+    expect(position.realizedProfitLoss).toBeCloseTo(1200 - 10 - 1010);
+    expect(position.fees).toBeCloseTo(30);
+  });
+
+  it('should move cost out on transfers without realizing a gain', () => {
+    const position = computePosition('gram', [
+      tx('transfer_in', 4, 1500, '2025-01-01'),
+      tx('transfer_out', 1, 0, '2025-02-01'),
+      tx('fee', 0, 0, '2025-03-01', 25),
+    ], 'average');
+
+    expect(position.quantity).toBeCloseTo(3);
+    expect(position.costBasis).toBeCloseTo(4500);
+    expect(position.realizedProfitLoss).toBeCloseTo(-25);
+  });
+
+  it('should order by trade date regardless of entry order', () => {
+    const sell = tx('sell', 1, 2000, '2025-05-01');
+    const buy = tx('buy', 1, 1000, '2025-04-01');
+
+    expect(computePosition('gram', [sell, buy], 'fifo').realizedProfitLoss).toBeCloseTo(1000);
+  });
+
+  it('should reject selling more than is held', () => {
+    expect(() => computePosition('gram', [
+      tx('buy', 1, 1000, '2025-01-01'),
+      tx('sell', 2, 1000, '2025-02-01'),
+    ], 'fifo')).toThrow(/^VALIDATION_ERROR:/);
+  });
+
+  it('should cap an oversell instead of throwing when not strict', () => {
+    const sell = tx('sell', 2, 1500, '2025-02-01');
+    const position = computePosition('gram', [tx('buy', 1, 1000, '2025-01-01'), sell], 'fifo', false);
+
+    expect(position.quantity).toBe(0);
+    expect(position.realizedProfitLoss).toBeCloseTo(500);
+    expect(position.oversoldTransactionIds).toEqual([sell.id]);
+  });
+
+  it('should close the position when everything is sold', () => {
+    const position = computePosition('gram', [
+      tx('buy', 0.1, 1000, '2025-01-01'),
+      tx('buy', 0.2, 1000, '2025-01-02'),
+      tx('sell', 0.3, 1100, '2025-01-03'),
+    ], 'average');
+
+    expect(position.quantity).toBe(0);
+    expect(position.costBasis).toBe(0);
+    expect(position.openLots).toHaveLength(0);
+  });
+});
+
+describe('computePositions', () => {
+  it('should group the ledger by instrument', () => {
+    const positions = computePositions([
+      tx('buy', 1, 1000, '2025-01-01'),
+      { ...tx('buy', 100, 38, '2025-01-01'), instrumentId: 'USDTRY' },
+    ], 'fifo');
+
+    expect(positions.map((p) => p.instrumentId).sort()).toEqual(['USDTRY', 'gram']);
+  });
+});
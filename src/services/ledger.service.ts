@@ -0,0 +1,189 @@
+// Portfolio ledger: derives positions from buy/sell/transfer/fee transactions
+import type { PortfolioTransaction } from '../db/schema';
+
+export type TransactionType = 'buy' | 'sell' | 'transfer_in' | 'transfer_out' | 'fee';
+export type CostMethod = 'fifo' | 'average';
+
+export const TRANSACTION_TYPES: TransactionType[] = ['buy', 'sell', 'transfer_in', 'transfer_out', 'fee'];
+export const COST_METHODS: CostMethod[] = ['fifo', 'average'];
+
+export type LedgerTransaction = {
+  id: string;
+  instrumentId: string;
+  type: TransactionType;
+  quantity: number;
+  price: number; // unit price in the instrument's quote currency
+  fee: number;
+  tradeDate: string; // YYYY-MM-DD
+  createdAt?: Date;
+  description?: string | null;
+};
+
+export type OpenLot = {
+  transactionId: string;
+  tradeDate: string;
+  description: string | null;
+  originalQuantity: number;
+  quantity: number; // remaining
+  price: number;
+  unitCost: number; // price + buy fee per unit
+};
+
+export type Position = {
+  instrumentId: string;
+  quantity: number;
+  costBasis: number; // cost of the remaining quantity under the chosen method
+  averageCost: number;
+  realizedProfitLoss: number; // sells only, net of fees
+  fees: number;
+  openLots: OpenLot[];
+  oversoldTransactionIds: string[]; // non-strict replays only: sells/transfers capped at the held quantity
+};
+
+// Float tolerance for "sold everything" comparisons
+const EPSILON = 1e-9;
+
+export function toLedgerTransaction(row: PortfolioTransaction): LedgerTransaction {
+  return {
+    id: row.id,
+    instrumentId: row.instrumentId,
+    type: row.type as TransactionType,
+    quantity: parseFloat(row.quantity),
+    price: parseFloat(row.price),
+    fee: parseFloat(row.fee),
+    tradeDate: row.tradeDate,
+    createdAt: row.createdAt,
+    description: row.description,
+  };
+}
+
+/**
+ * Stable ledger order: trade date, then entry time
+ */
+export function sortTransactions<T extends Pick<LedgerTransaction, 'tradeDate' | 'createdAt'>>(transactions: T[]): T[] {
+  return [...transactions].sort((a, b) => {
+    if (a.tradeDate !== b.tradeDate) return a.tradeDate < b.tradeDate ? -1 : 1;
+    return (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0);
+  });
+}
+
+/**
+ * Replay one instrument's transactions into a position.
+ *
+ * Lots are always consumed first-in-first-out (so the app can show which purchases are
+ * still held); the cost method only decides the cost of what leaves the position.
+ * Throws VALIDATION_ERROR when a sell/transfer-out exceeds the quantity held at that date;
+ * with `strict = false` (read paths) the excess is ignored and the transaction is reported
+ * in `oversoldTransactionIds` instead.
+ */
+export function computePosition(
+  instrumentId: string,
+  transactions: LedgerTransaction[],
+  method: CostMethod,
+  strict = true
+): Position {
+  const lots: OpenLot[] = [];
+  const oversoldTransactionIds: string[] = [];
+  let quantity = 0;
+  let averagePoolCost = 0; // total cost of held units, average method
+  let realizedProfitLoss = 0;
+  let fees = 0;
+
+  for (const tx of sortTransactions(transactions)) {
+    switch (tx.type) {
+      case 'buy':
+      case 'transfer_in': {
+        const cost = tx.quantity * tx.price + tx.fee;
+        lots.push({
+          transactionId: tx.id,
+          tradeDate: tx.tradeDate,
+          description: tx.description ?? null,
+          originalQuantity: tx.quantity,
+          quantity: tx.quantity,
+          price: tx.price,
+          unitCost: tx.quantity > 0 ? cost / tx.quantity : 0,
+        });
+        quantity += tx.quantity;
+        averagePoolCost += cost;
+        fees += tx.fee;
+        break;
+      }
+
+      case 'sell':
+      case 'transfer_out': {
+        let outQuantity = tx.quantity;
+        if (outQuantity > quantity + EPSILON) {
+          if (strict) {
+            throw new Error(
+              `VALIDATION_ERROR: ${tx.type} of ${tx.quantity} ${instrumentId} on ${tx.tradeDate} exceeds held quantity ${+quantity.toFixed(6)}`
+            );
+          }
+          oversoldTransactionIds.push(tx.id);
+          outQuantity = quantity;
+        }
+
+        let fifoCost = 0;
+        let remaining = outQuantity;
+        for (const lot of lots) {
+          if (remaining <= EPSILON) break;
+          const used = Math.min(lot.quantity, remaining);
+          lot.quantity -= used;
+          fifoCost += used * lot.unitCost;
+          remaining -= used;
+        }
+
+        const averageCost = quantity > 0 ? (averagePoolCost / quantity) * outQuantity : 0;
+        const costOut = method === 'fifo' ? fifoCost : averageCost;
+
+        quantity -= outQuantity;
+        averagePoolCost = quantity > EPSILON ? averagePoolCost - averageCost : 0;
+        fees += tx.fee;
+
+        // Transfers move cost basis out without realizing a gain
+        if (tx.type === 'sell') {
+          realizedProfitLoss += outQuantity * tx.price - tx.fee - costOut;
+        } else {
+          realizedProfitLoss -= tx.fee;
+        }
+        break;
+      }
+
+      case 'fee':
+        fees += tx.fee;
+        realizedProfitLoss -= tx.fee;
+        break;
+    }
+  }
+
+  const openLots = lots.filter((lot) => lot.quantity > EPSILON);
+  if (quantity <= EPSILON) quantity = 0;
+
+  const costBasis = method === 'fifo'
+    ? openLots.reduce((sum, lot) => sum + lot.quantity * lot.unitCost, 0)
+    : averagePoolCost;
+
+  return {
+    instrumentId,
+    quantity,
+    costBasis,
+    averageCost: quantity > 0 ? costBasis / quantity : 0,
+    realizedProfitLoss,
+    fees,
+    openLots,
+    oversoldTransactionIds,
+  };
+}
+
+/**
+ * Positions for every instrument in a portfolio's ledger
+ */
+export function computePositions(transactions: LedgerTransaction[], method: CostMethod, strict = true): Position[] {
+  const byInstrument = new Map<string, LedgerTransaction[]>();
+  for (const tx of transactions) {
+    const list = byInstrument.get(tx.instrumentId) ?? [];
+    list.push(tx);
+    byInstrument.set(tx.instrumentId, list);
+  }
+
+  return [...byInstrument.entries()].map(([instrumentId, list]) => computePosition(instrumentId, list, method, strict));
+}
@@ -0,0 +1,31 @@
+import type { PushMessage, PushSendResult, PushTransport } from './push-transport';
+
+/**
+ * Firebase Cloud Messaging transport.
+ * firebase-admin is loaded lazily so modules depending on the dispatcher
+ * can be imported without Firebase credentials (e.g. in tests).
+ */
+export class FcmTransport implements PushTransport {
+  async send(messages: PushMessage[]): Promise<PushSendResult[]> {
+    if (messages.length === 0) return [];
+
+    const { admin } = await import('../../config/firebaseAdmin');
+
+    const response = await admin.messaging().sendEach(
+      messages.map((m) => ({
+        token: m.token,
+        notification: { title: m.title, body: m.body },
+        data: m.data,
+        apns: { payload: { aps: { sound: 'default' } } },
+        android: { priority: 'high' as const },
+      }))
+    );
+
+    return response.responses.map((r, i) => ({
+      token: messages[i].token,
+      success: r.success,
+      messageId: r.messageId,
+      errorCode: r.error?.code,
+    }));
+  }
+}
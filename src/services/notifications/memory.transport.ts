@@ -0,0 +1,32 @@
+import type { PushMessage, PushSendResult, PushTransport } from './push-transport';
+
+/**
+ * In-memory transport for tests and local development.
+ * Failures can be scripted per token: each send consumes one scripted error code.
+ */
+export class InMemoryPushTransport implements PushTransport {
+  sent: PushMessage[] = [];
+  attempts = 0;
+  private failures = new Map<string, string[]>();
+
+  failWith(token: string, errorCode: string, times: number = 1): this {
+    const queue = this.failures.get(token) ?? [];
+    for (let i = 0; i < times; i++) queue.push(errorCode);
+    this.failures.set(token, queue);
+    return this;
+  }
+
+  async send(messages: PushMessage[]): Promise<PushSendResult[]> {
+    this.attempts++;
+
+    return messages.map((message) => {
+      const errorCode = this.failures.get(message.token)?.shift();
+      if (errorCode) {
+        return { token: message.token, success: false, errorCode };
+      }
+
+      this.sent.push(message);
+      return { token: message.token, success: true, messageId: `memory-${this.sent.length}` };
+    });
+  }
+}
@@ -0,0 +1,91 @@
+// Localised push notification texts (tr/en)
+
+export type NotificationLocale = 'tr' | 'en';
+
+export type AlertMessageInput = {
+  instrumentName: string;
+  quoteCurrency: string;
+  alertType: string;
+  price: number;
+  changePercent: number | null;
+};
+
+const NUMBER_LOCALES: Record<NotificationLocale, string> = {
+  tr: 'tr-TR',
+  en: 'en-US',
+};
+
+function formatPrice(value: number, currency: string, locale: NotificationLocale): string {
+  try {
+    return new Intl.NumberFormat(NUMBER_LOCALES[locale], {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 2,
+      maximumFractionDigits: value < 10 ? 4 : 2,
+    }).format(value);
+  } catch {
+    // Unknown currency code — fall back to plain number + code
+    return `${formatNumber(value, locale)} ${currency}`;
+  }
+}
+
+function formatNumber(value: number, locale: NotificationLocale): string {
+  return new Intl.NumberFormat(NUMBER_LOCALES[locale], {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value);
+}
+
+/**
+ * Build title/body for a triggered price alert
+ */
+export function buildAlertNotification(
+  input: AlertMessageInput,
+  locale: NotificationLocale
+): { title: string; body: string } {
+  const price = formatPrice(input.price, input.quoteCurrency, locale);
+  const pct = input.changePercent != null ? formatNumber(Math.abs(input.changePercent), locale) : null;
+  const rising = (input.changePercent ?? 0) >= 0;
+
+  if (locale === 'en') {
+    const title = `${input.instrumentName} price alert`;
+    if (input.alertType === 'scheduled' || pct == null) {
+      const change = pct != null ? ` (${rising ? '+' : '-'}${pct}%)` : '';
+      return { title, body: `${input.instrumentName} is now ${price}${change}` };
+    }
+    return { title, body: `${input.instrumentName} ${rising ? 'rose' : 'fell'} ${pct}% to ${price}` };
+  }
+
+  const title = `${input.instrumentName} fiyat alarmı`;
+  if (input.alertType === 'scheduled' || pct == null) {
+    const change = pct != null ? ` (${rising ? '+' : '-'}%${pct})` : '';
+    return { title, body: `${input.instrumentName} şu an ${price}${change}` };
+  }
+  return { title, body: `${input.instrumentName} %${pct} ${rising ? 'yükseldi' : 'düştü'}: ${price}` };
+}
+
+// Yüzdeye gelen yönelme eki sayının okunuşuna göre değişir (%25'ine, %50'sine)
+const MILESTONE_SUFFIXES: Record<number, string> = { 25: "'ine", 50: "'sine", 75: "'ine" };
+
+export type GoalMilestoneMessageInput = {
+  goalName: string;
+  milestone: number; // 25 | 50 | 75 | 100
+};
+
+/**
+ * Build title/body for a savings goal milestone
+ */
+export function buildGoalMilestoneNotification(
+  input: GoalMilestoneMessageInput,
+  locale: NotificationLocale
+): { title: string; body: string } {
+  if (locale === 'en') {
+    const title = `${input.goalName} goal`;
+    if (input.milestone >= 100) return { title, body: `Congratulations! You reached your ${input.goalName} goal` };
+    return { title, body: `You are ${input.milestone}% of the way to ${input.goalName}` };
+  }
+
+  const title = `${input.goalName} hedefi`;
+  if (input.milestone >= 100) return { title, body: `Tebrikler! ${input.goalName} hedefine ulaştın` };
+  return { title, body: `${input.goalName} hedefinin %${input.milestone}${MILESTONE_SUFFIXES[input.milestone] ?? "'ine"} ulaştın` };
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { NotificationDispatcher } from './notification.service';
+import { InMemoryPushTransport } from './memory.transport';
+import { buildAlertNotification, buildGoalMilestoneNotification } from './messages';
+
+describe('NotificationDispatcher', () => {
+  let transport: InMemoryPushTransport;
+  let dispatcher: NotificationDispatcher;
+
+  const message = (token: string) => ({ token, title: 'Gram Altın fiyat alarmı', body: 'test' });
+
+  beforeEach(() => {
+    transport = new InMemoryPushTransport();
+    dispatcher = new NotificationDispatcher(transport, { maxRetries: 2, retryBaseDelayMs: 0 });
+  });
+
+  describe('deliver', () => {
+    it('should send to every token', async () => {
+      const report = await dispatcher.deliver([message('a'), message('b')]);
+
+      expect(report).toEqual({ sent: 2, failed: 0, invalidTokens: [] });
+      expect(transport.sent.map((m) => m.token)).toEqual(['a', 'b']);
+    });
+
+    it('should report unregistered tokens for pruning without retrying', async () => {
+      transport.failWith('dead', 'messaging/registration-token-not-registered');
+
+      const report = await dispatcher.deliver([message('dead'), message('ok')]);
+
+      expect(report.invalidTokens).toEqual(['dead']);
+      expect(report.sent).toBe(1);
+      expect(transport.attempts).toBe(1);
+    });
+
+    it('should retry transient failures', async () => {
+      transport.failWith('flaky', 'messaging/server-unavailable', 2);
+
+      const report = await dispatcher.deliver([message('flaky')]);
+
+      expect(report.sent).toBe(1);
+      expect(transport.attempts).toBe(3);
+    });
+
+    it('should give up after maxRetries', async () => {
+      transport.failWith('down', 'messaging/internal-error', 5);
+
+      const report = await dispatcher.deliver([message('down')]);
+
+      expect(report).toEqual({ sent: 0, failed: 1, invalidTokens: [] });
+      expect(transport.attempts).toBe(3);
+    });
+
+    it('should not retry permanent errors', async () => {
+      transport.failWith('bad', 'messaging/invalid-argument');
+
+      const report = await dispatcher.deliver([message('bad')]);
+
+      expect(report.failed).toBe(1);
+      expect(transport.attempts).toBe(1);
+    });
+  });
+
+  describe('buildAlertNotification', () => {
+    const input = {
+      instrumentName: 'Gram Altın',
+      quoteCurrency: 'TRY',
+      alertType: 'percentage',
+      price: 3412,
+      changePercent: 2.15,
+    };
+
+    it('should build Turkish messages', () => {
+      const { title, body } = buildAlertNotification(input, 'tr');
+      expect(title).toBe('Gram Altın fiyat alarmı');
+      expect(body).toContain('%2,15 yükseldi');
+      expect(body).toContain('3.412,00');
+    });
+
+    it('should build English messages', () => {
+      const { body } = buildAlertNotification({ ...input, changePercent: -1.5 }, 'en');
+      expect(body).toContain('fell 1.50%');
+      expect(body).toContain('3,412.00');
+    });
+
+    it('should describe scheduled alerts as current price', () => {
+      const { body } = buildAlertNotification({ ...input, alertType: 'scheduled', changePercent: null }, 'en');
+      expect(body).toMatch(/^Gram Altın is now/);
+    });
+  });
+
+  describe('buildGoalMilestoneNotification', () => {
+    it('should build Turkish messages with the right suffix', () => {
+      expect(buildGoalMilestoneNotification({ goalName: 'Ev', milestone: 50 }, 'tr')).toEqual({
+        title: 'Ev hedefi',
+        body: "Ev hedefinin %50'sine ulaştın",
+      });
+      expect(buildGoalMilestoneNotification({ goalName: 'Ev', milestone: 25 }, 'tr').body).toContain("%25'ine");
+    });
+
+    it('should congratulate on reaching the goal', () => {
+      const { body } = buildGoalMilestoneNotification({ goalName: 'Car', milestone: 100 }, 'en');
+      expect(body).toBe('Congratulations! You reached your Car goal');
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import { db } from '../../config/database';
+import { config } from '../../config';
+import { alertTriggers, deviceTokens, instruments } from '../../db/schema';
+import { eq, inArray } from 'drizzle-orm';
+import { logger } from '../../utils/logger';
+import type { AlertTriggerEvent } from '../alert-evaluation.service';
+import type { GoalMilestoneEvent } from '../goal.service';
+import type { PushMessage, PushTransport } from './push-transport';
+import { FcmTransport } from './fcm.transport';
+import { buildAlertNotification, buildGoalMilestoneNotification, type NotificationLocale } from './messages';
+
+// Token is permanently unusable — remove it from device_tokens
+const INVALID_TOKEN_CODES = new Set([
+  'messaging/registration-token-not-registered',
+  'messaging/invalid-registration-token',
+]);
+
+// Worth retrying with backoff
+const TRANSIENT_ERROR_CODES = new Set([
+  'messaging/internal-error',
+  'messaging/server-unavailable',
+  'messaging/unavailable',
+  'messaging/message-rate-exceeded',
+  'app/network-error',
+]);
+
+type DispatcherOptions = {
+  maxRetries: number;
+  retryBaseDelayMs: number;
+};
+
+export type DeliveryReport = {
+  sent: number;
+  failed: number;
+  invalidTokens: string[];
+};
+
+/**
+ * Sends push notifications for triggered alerts and goal milestones through a pluggable transport
+ */
+export class NotificationDispatcher {
+  constructor(
+    private transport: PushTransport = new FcmTransport(),
+    private options: DispatcherOptions = config.notifications
+  ) {}
+
+  /**
+   * Deliver one notification per trigger to all of the user's devices,
+   * prune dead tokens and record delivery status on alert_triggers
+   */
+  async dispatchAlertTriggers(events: AlertTriggerEvent[]): Promise<void> {
+    if (events.length === 0) return;
+
+    const userIds = [...new Set(events.map((e) => e.userId))];
+    const instrumentIds = [...new Set(events.map((e) => e.instrumentId))];
+
+    const [devices, instrumentData] = await Promise.all([
+      db.query.deviceTokens.findMany({ where: inArray(deviceTokens.userId, userIds) }),
+      db.query.instruments.findMany({ where: inArray(instruments.id, instrumentIds) }),
+    ]);
+
+    const instrumentMap = new Map(instrumentData.map((i) => [i.id, i]));
+
+    for (const event of events) {
+      const userDevices = devices.filter((d) => d.userId === event.userId);
+
+      if (userDevices.length === 0) {
+        await this.setDeliveryStatus(event.triggerId, 'skipped');
+        continue;
+      }
+
+      const instrument = instrumentMap.get(event.instrumentId);
+      const messages: PushMessage[] = userDevices.map((device) => ({
+        token: device.token,
+        ...buildAlertNotification(
+          {
+            instrumentName: instrument?.name ?? event.instrumentId,
+            quoteCurrency: instrument?.quoteCurrency ?? 'TRY',
+            alertType: event.alertType,
+            price: event.price,
+            changePercent: event.changePercent,
+          },
+          device.locale as NotificationLocale
+        ),
+        data: {
+          type: 'price_alert',
+          alertId: event.alertId,
+          triggerId: event.triggerId,
+          instrumentId: event.instrumentId,
+        },
+      }));
+
+      try {
+        const report = await this.deliver(messages);
+        await this.pruneInvalidTokens(report);
+        await this.setDeliveryStatus(event.triggerId, report.sent > 0 ? 'sent' : 'failed');
+      } catch (error) {
+        logger.error({ err: error, triggerId: event.triggerId }, 'Push delivery failed');
+        await this.setDeliveryStatus(event.triggerId, 'failed');
+      }
+    }
+  }
+
+  /**
+   * Tell every member of the goal's portfolio that a milestone was reached
+   */
+  async dispatchGoalMilestones(events: GoalMilestoneEvent[]): Promise<void> {
+    if (events.length === 0) return;
+
+    const userIds = [...new Set(events.flatMap((e) => e.userIds))];
+    const devices = await db.query.deviceTokens.findMany({ where: inArray(deviceTokens.userId, userIds) });
+
+    for (const event of events) {
+      const messages: PushMessage[] = devices
+        .filter((d) => event.userIds.includes(d.userId))
+        .map((device) => ({
+          token: device.token,
+          ...buildGoalMilestoneNotification(
+            { goalName: event.goalName, milestone: event.milestone },
+            device.locale as NotificationLocale
+          ),
+          data: {
+            type: 'goal_milestone',
+            goalId: event.goalId,
+            portfolioId: event.portfolioId,
+            milestone: String(event.milestone),
+          },
+        }));
+      if (messages.length === 0) continue;
+
+      try {
+        await this.pruneInvalidTokens(await this.deliver(messages));
+      } catch (error) {
+        logger.error({ err: error, goalId: event.goalId }, 'Push delivery failed');
+      }
+    }
+  }
+
+  /**
+   * Send messages, retrying transient failures with exponential backoff
+   */
+  async deliver(messages: PushMessage[]): Promise<DeliveryReport> {
+    const report: DeliveryReport = { sent: 0, failed: 0, invalidTokens: [] };
+    let pending = messages;
+
+    for (let attempt = 0; pending.length > 0; attempt++) {
+      if (attempt > 0) {
+        await this.sleep(this.options.retryBaseDelayMs * 2 ** (attempt - 1));
+      }
+
+      let results;
+      try {
+        results = await this.transport.send(pending);
+      } catch (error) {
+        // Whole batch failed (network etc.) — retry everything
+        logger.warn({ err: error, attempt }, 'Push transport error');
+        results = pending.map((m) => ({ token: m.token, success: false, errorCode: 'app/network-error' }));
+      }
+
+      const retry: PushMessage[] = [];
+      results.forEach((result, i) => {
+        if (result.success) {
+          report.sent++;
+        } else if (result.errorCode && INVALID_TOKEN_CODES.has(result.errorCode)) {
+          report.invalidTokens.push(result.token);
+          report.failed++;
+        } else if (result.errorCode && TRANSIENT_ERROR_CODES.has(result.errorCode) && attempt < this.options.maxRetries) {
+          retry.push(pending[i]);
+        } else {
+          logger.warn({ errorCode: result.errorCode }, 'Push notification not delivered');
+          report.failed++;
+        }
+      });
+
+      pending = retry;
+    }
+
+    return report;
+  }
+
+  private async pruneInvalidTokens(report: DeliveryReport): Promise<void> {
+    if (report.invalidTokens.length === 0) return;
+
+    await db.delete(deviceTokens).where(inArray(deviceTokens.token, report.invalidTokens));
+    logger.info({ count: report.invalidTokens.length }, 'Pruned unregistered device tokens');
+  }
+
+  private async setDeliveryStatus(triggerId: string, status: 'sent' | 'failed' | 'skipped'): Promise<void> {
+    await db.update(alertTriggers)
+      .set({ deliveryStatus: status })
+      .where(eq(alertTriggers.id, triggerId));
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return ms > 0 ? new Promise((resolve) => setTimeout(resolve, ms)) : Promise.resolve();
+  }
+}
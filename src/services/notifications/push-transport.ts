@@ -0,0 +1,22 @@
+// Transport abstraction for push delivery — FCM in production, in-memory in tests
+
+export type PushMessage = {
+  token: string;
+  title: string;
+  body: string;
+  data?: Record<string, string>;
+};
+
+export type PushSendResult = {
+  token: string;
+  success: boolean;
+  messageId?: string;
+  errorCode?: string; // e.g. 'messaging/registration-token-not-registered'
+};
+
+export interface PushTransport {
+  /**
+   * Send messages and return one result per message (same order)
+   */
+  send(messages: PushMessage[]): Promise<PushSendResult[]>;
+}
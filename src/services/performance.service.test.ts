@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { annualize, benchmarkOutcome, timeWeightedReturn, xirr } from './performance.service';
+
+describe('xirr', () => {
+  it('should find the yearly rate of a single deposit', () => {
+    const rate = xirr([
+      { date: '2024-01-01', amount: -1000 },
+      { date: '2025-01-01', amount: 1100 },
+    ]);
+    // 2024 is a leap year: 366 days / 365
+    expect(rate).toBeCloseTo(Math.pow(1.1, 365 / 366) - 1, 6);
+  });
+
+  it('should weight later deposits by the time they were invested', () => {
+    const rate = xirr([
+      { date: '2024-01-01', amount: -1000 },
+      { date: '2024-07-01', amount: -1000 },
+      { date: '2025-01-01', amount: 2150 },
+    ]);
+    expect(rate).toBeGreaterThan(0.09);
+    expect(rate).toBeLessThan(0.11);
+  });
+
+  it('should handle losses', () => {
+    const rate = xirr([
+      { date: '2024-01-01', amount: -1000 },
+      { date: '2024-12-31', amount: 500 },
+    ]);
+    expect(rate).toBeCloseTo(-0.5, 2);
+  });
+
+  it('should return null without both deposits and withdrawals', () => {
+    expect(xirr([{ date: '2024-01-01', amount: -1000 }])).toBeNull();
+    expect(xirr([])).toBeNull();
+  });
+});
+
+describe('timeWeightedReturn', () => {
+  it('should ignore the size of deposits', () => {
+    // 1000 → 1100 (+10%), then 1000 is added, 2100 → 2310 (+10%)
+    const values = [
+      { date: '2024-01-01', value: 1000 },
+      { date: '2024-01-02', value: 1100 },
+      { date: '2024-01-03', value: 2100 },
+      { date: '2024-01-04', value: 2310 },
+    ];
+    const flows = [
+      { date: '2024-01-01', amount: -1000 },
+      { date: '2024-01-03', amount: -1000 },
+    ];
+    expect(timeWeightedReturn(values, flows)).toBeCloseTo(0.21, 10);
+  });
+
+  it('should count withdrawals as cash leaving, not as a loss', () => {
+    const values = [
+      { date: '2024-01-01', value: 1000 },
+      { date: '2024-01-02', value: 500 },
+    ];
+    const flows = [
+      { date: '2024-01-01', amount: -1000 },
+      { date: '2024-01-02', amount: 500 },
+    ];
+    expect(timeWeightedReturn(values, flows)).toBeCloseTo(0, 10);
+  });
+
+  it('should skip days without a starting value', () => {
+    const values = [
+      { date: '2024-01-01', value: 0 },
+      { date: '2024-01-02', value: 1000 },
+      { date: '2024-01-03', value: 900 },
+    ];
+    expect(timeWeightedReturn(values, [{ date: '2024-01-02', amount: -1000 }])).toBeCloseTo(-0.1, 10);
+    expect(timeWeightedReturn([{ date: '2024-01-01', value: 1000 }], [])).toBeNull();
+  });
+});
+
+describe('annualize', () => {
+  it('should only annualize periods of a year or longer', () => {
+    expect(annualize(0.21, '2023-01-01', '2025-01-01')).toBeCloseTo(Math.pow(1.21, 365 / 731) - 1, 6);
+    expect(annualize(0.05, '2024-01-01', '2024-06-01')).toBeNull();
+    expect(annualize(null, '2020-01-01', '2025-01-01')).toBeNull();
+  });
+});
+
+describe('benchmarkOutcome', () => {
+  const prices: Record<string, number> = { '2024-01-01': 30, '2024-07-01': 32, '2025-01-01': 35 };
+
+  it('should buy benchmark units with deposits and sell them with withdrawals', () => {
+    const outcome = benchmarkOutcome(
+      [
+        { date: '2024-01-01', amount: -3000 }, // 100 units
+        { date: '2024-07-01', amount: 640 }, // -20 units
+      ],
+      (date) => prices[date] ?? null,
+      35,
+      '2025-01-01'
+    );
+
+    expect(outcome!.endValue).toBeCloseTo(80 * 35, 6);
+    expect(outcome!.twr).toBeCloseTo(35 / 30 - 1, 10);
+    expect(outcome!.xirr).toBeGreaterThan(0);
+  });
+
+  it('should give up when a price is missing', () => {
+    expect(benchmarkOutcome([{ date: '2024-03-01', amount: -100 }], (date) => prices[date] ?? null, 35, '2025-01-01')).toBeNull();
+    expect(benchmarkOutcome([], () => 1, 1, '2025-01-01')).toBeNull();
+  });
+});
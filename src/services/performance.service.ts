@@ -0,0 +1,371 @@
+import { db } from '../config/database';
+import { portfolioTransactions, latestQuotes, instruments } from '../db/schema';
+import { eq, inArray } from 'drizzle-orm';
+import { sortTransactions, toLedgerTransaction, type LedgerTransaction } from './ledger.service';
+import { HISTORY_RANGES, addDays, dateRange, type HistoryRange } from './portfolio-history.service';
+import { CurrencyService, RATE_LOOKBACK_DAYS, convertAmount, type FxRates, type HistoricalRates, type ReportingCurrency } from './currency.service';
+import { RollupService, istanbulDate, type DailyPrice } from './rollup.service';
+import { PortfolioAccessService } from './portfolio-access.service';
+
+/**
+ * Investor-side cash flow: money put into the portfolio is negative, money taken out
+ * (and the closing value) is positive
+ */
+export type CashFlow = {
+  date: string;
+  amount: number;
+};
+
+export type ValuePoint = {
+  date: string;
+  value: number; // end of day
+};
+
+export type BenchmarkOutcome = {
+  endValue: number;
+  twr: number | null;
+  xirr: number | null;
+};
+
+// Benchmark = aynı nakit akışlarıyla dolar, euro ya da gram altın tutmak
+export const BENCHMARKS = [
+  { id: 'USDTRY', name: 'Dolar', currency: 'USD' },
+  { id: 'EURTRY', name: 'Euro', currency: 'EUR' },
+  { id: 'gram', name: 'Gram Altın', currency: 'GRAM' },
+] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function yearsBetween(from: string, to: string): number {
+  return (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS / 365;
+}
+
+/**
+ * Annualized money-weighted return (XIRR). Newton's method, falling back to bisection;
+ * null when the flows have no sign change or no root is found.
+ */
+export function xirr(flows: CashFlow[]): number | null {
+  const active = flows.filter((f) => f.amount !== 0);
+  if (!active.some((f) => f.amount < 0) || !active.some((f) => f.amount > 0)) return null;
+
+  const start = active.reduce((min, f) => (f.date < min ? f.date : min), active[0].date);
+  const points = active.map((f) => ({ t: yearsBetween(start, f.date), amount: f.amount }));
+  const npv = (rate: number) => points.reduce((sum, p) => sum + p.amount / Math.pow(1 + rate, p.t), 0);
+  const derivative = (rate: number) => points.reduce((sum, p) => sum - (p.t * p.amount) / Math.pow(1 + rate, p.t + 1), 0);
+
+  let rate = 0.1;
+  for (let i = 0; i < 50; i++) {
+    const value = npv(rate);
+    const slope = derivative(rate);
+    if (!Number.isFinite(value) || !Number.isFinite(slope) || slope === 0) break;
+
+    const next = rate - value / slope;
+    if (!Number.isFinite(next) || next <= -1) break;
+    if (Math.abs(next - rate) < 1e-10) return next;
+    rate = next;
+  }
+
+  let low = -0.9999;
+  let high = 100;
+  let lowValue = npv(low);
+  if (lowValue * npv(high) > 0) return null;
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const midValue = npv(mid);
+    if (Math.abs(midValue) < 1e-9) return mid;
+    if (lowValue * midValue < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      lowValue = midValue;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Time-weighted return: daily returns chained so that deposits and withdrawals don't
+ * count as performance. Flows are assumed to happen at the end of their day; days that
+ * start from zero value (first purchase, re-entry after selling out) only open a period.
+ */
+export function timeWeightedReturn(values: ValuePoint[], flows: CashFlow[]): number | null {
+  const contributions = new Map<string, number>();
+  for (const flow of flows) contributions.set(flow.date, (contributions.get(flow.date) ?? 0) - flow.amount);
+
+  let growth = 1;
+  let periods = 0;
+  let previous = 0;
+
+  for (const { date, value } of values) {
+    if (previous > 0) {
+      growth *= (value - (contributions.get(date) ?? 0)) / previous;
+      periods++;
+    }
+    previous = value;
+  }
+
+  return periods > 0 ? growth - 1 : null;
+}
+
+/**
+ * Compound a period return to a yearly rate; null for periods shorter than a year
+ */
+export function annualize(periodReturn: number | null, from: string, to: string): number | null {
+  const years = yearsBetween(from, to);
+  if (periodReturn === null || years < 1 || periodReturn <= -1) return null;
+  return Math.pow(1 + periodReturn, 1 / years) - 1;
+}
+
+/**
+ * Put the same cash flows into a benchmark instead: contributions buy units at the day's
+ * price, withdrawals sell them
+ */
+export function benchmarkOutcome(flows: CashFlow[], priceOn: (date: string) => number | null, finalPrice: number, endDate: string): BenchmarkOutcome | null {
+  const sorted = [...flows].sort((a, b) => a.date.localeCompare(b.date));
+  if (sorted.length === 0) return null;
+
+  let units = 0;
+  for (const flow of sorted) {
+    const price = priceOn(flow.date);
+    if (!price) return null;
+    units -= flow.amount / price;
+  }
+
+  const endValue = units * finalPrice;
+  const firstPrice = priceOn(sorted[0].date)!;
+
+  return {
+    endValue,
+    twr: finalPrice / firstPrice - 1,
+    xirr: xirr([...sorted, { date: endDate, amount: endValue }]),
+  };
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const toPercent = (value: number | null) => (value === null ? null : round2(value * 100));
+
+type InstrumentSeries = {
+  instrumentId: string;
+  name: string;
+  values: ValuePoint[];
+  flows: CashFlow[];
+};
+
+/**
+ * Time- and money-weighted returns for a portfolio and its holdings in the reporting
+ * currency, compared with holding the same cash in USD, EUR or gram gold
+ */
+export class PerformanceService {
+  private rollupService = new RollupService();
+  private currencyService = new CurrencyService();
+  private accessService = new PortfolioAccessService();
+
+  async getPerformance(
+    portfolioId: string,
+    userId: string,
+    range: HistoryRange = 'ALL',
+    currencyOverride?: ReportingCurrency,
+    now: Date = new Date()
+  ) {
+    const portfolio = await this.accessService.authorize(portfolioId, userId, 'viewer');
+    if (!portfolio) return null;
+
+    const currency = currencyOverride ?? await this.currencyService.getUserCurrency(userId);
+    const rows = await db.query.portfolioTransactions.findMany({
+      where: eq(portfolioTransactions.portfolioId, portfolioId),
+    });
+
+    const today = istanbulDate(Math.floor(now.getTime() / 1000));
+    const ledger = sortTransactions(rows.map(toLedgerTransaction));
+
+    if (ledger.length === 0) {
+      return { currency, range, from: null, to: today, portfolio: null, holdings: [], benchmarks: [], unconvertedInstruments: [] };
+    }
+
+    const firstTradeDate = ledger[0].tradeDate;
+    const days = HISTORY_RANGES[range];
+    const rangeStart = days === null ? firstTradeDate : addDays(today, -days);
+    // Pencere ilk işlemden sonra başlıyorsa, önceki günün değeri başlangıç yatırımı sayılır
+    const openingDate = rangeStart > firstTradeDate ? addDays(rangeStart, -1) : null;
+    const from = openingDate ?? firstTradeDate;
+    const dates = dateRange(from, today);
+
+    const instrumentIds = [...new Set(ledger.map((t) => t.instrumentId))];
+    const [closes, latestRates, instrumentData, quotes] = await Promise.all([
+      this.rollupService.getDailyCloses(instrumentIds, addDays(firstTradeDate, -RATE_LOOKBACK_DAYS), today),
+      this.currencyService.getLatestRates(),
+      db.query.instruments.findMany({ where: inArray(instruments.id, instrumentIds) }),
+      db.query.latestQuotes.findMany({ where: inArray(latestQuotes.instrumentId, instrumentIds) }),
+    ]);
+    const rates = await this.currencyService.getHistoricalRates(addDays(firstTradeDate, -RATE_LOOKBACK_DAYS), today, latestRates);
+
+    const instrumentMap = new Map(instrumentData.map((i) => [i.id, i]));
+    const quoteMap = new Map(quotes.map((q) => [q.instrumentId, q]));
+    const series: InstrumentSeries[] = [];
+    const unconverted: string[] = [];
+
+    for (const instrumentId of instrumentIds) {
+      const quoteCurrency = instrumentMap.get(instrumentId)?.quoteCurrency ?? 'TRY';
+      const quote = quoteMap.get(instrumentId);
+      const latestPrice = quote ? parseFloat(quote.buy ?? quote.price) : null;
+
+      const built = this.buildInstrumentSeries(
+        ledger.filter((t) => t.instrumentId === instrumentId),
+        closes.get(instrumentId) ?? [],
+        latestPrice,
+        quoteCurrency,
+        currency,
+        rates,
+        latestRates,
+        dates,
+        openingDate
+      );
+
+      if (built) {
+        series.push({ instrumentId, name: instrumentMap.get(instrumentId)?.name ?? instrumentId, ...built });
+      } else {
+        unconverted.push(instrumentId);
+      }
+    }
+
+    // Portföy serisi = enstrüman serilerinin toplamı
+    const values = dates.map((date, i) => ({ date, value: series.reduce((sum, s) => sum + s.values[i].value, 0) }));
+    const flows = series.flatMap((s) => s.flows);
+    const summary = this.summarize(values, flows, from, today);
+
+    const benchmarks = BENCHMARKS.flatMap((benchmark) => {
+      const finalPrice = convertAmount(1, benchmark.currency, currency, latestRates);
+      if (finalPrice === null) return [];
+
+      const outcome = benchmarkOutcome(
+        flows,
+        (date) => convertAmount(1, benchmark.currency, currency, rates.on(date)),
+        finalPrice,
+        today
+      );
+      if (!outcome) return [];
+
+      return [{
+        id: benchmark.id,
+        name: benchmark.name,
+        endValue: round2(outcome.endValue),
+        profitLoss: round2(outcome.endValue - summary.netContributions),
+        twr: toPercent(outcome.twr),
+        xirr: toPercent(outcome.xirr),
+        excessXirr: summary.xirr !== null && outcome.xirr !== null ? round2(summary.xirr - outcome.xirr * 100) : null,
+      }];
+    });
+
+    return {
+      currency,
+      range,
+      from,
+      to: today,
+      portfolio: summary,
+      holdings: series.map((s) => ({
+        instrumentId: s.instrumentId,
+        instrumentName: s.name,
+        ...this.summarize(s.values, s.flows, from, today),
+      })),
+      benchmarks,
+      unconvertedInstruments: unconverted,
+    };
+  }
+
+  private summarize(values: ValuePoint[], flows: CashFlow[], from: string, to: string) {
+    const endValue = values[values.length - 1]?.value ?? 0;
+    const netContributions = -flows.reduce((sum, f) => sum + f.amount, 0);
+    const twr = timeWeightedReturn(values, flows);
+
+    return {
+      endValue: round2(endValue),
+      netContributions: round2(netContributions),
+      profitLoss: round2(endValue - netContributions),
+      twr: toPercent(twr),
+      twrAnnualized: toPercent(annualize(twr, from, to)),
+      xirr: toPercent(xirr([...flows, { date: to, amount: endValue }])),
+    };
+  }
+
+  /**
+   * Daily values and investor cash flows of one instrument in the reporting currency.
+   * Prices carry forward over holidays (falling back to the last trade price); today
+   * uses the live quote. Null when a needed FX rate is missing.
+   */
+  private buildInstrumentSeries(
+    transactions: LedgerTransaction[],
+    closes: DailyPrice[],
+    latestPrice: number | null,
+    quoteCurrency: string,
+    currency: ReportingCurrency,
+    rates: HistoricalRates,
+    latestRates: FxRates,
+    dates: string[],
+    openingDate: string | null
+  ): { values: ValuePoint[]; flows: CashFlow[] } | null {
+    const today = dates[dates.length - 1];
+    const values: ValuePoint[] = [];
+    const flows: CashFlow[] = [];
+
+    let quantity = 0;
+    let txCursor = 0;
+    let closeCursor = 0;
+    let lastPrice: number | null = null;
+
+    for (const date of dates) {
+      while (closeCursor < closes.length && closes[closeCursor].date <= date) {
+        lastPrice = closes[closeCursor].price;
+        closeCursor++;
+      }
+
+      const dayRates = date === today ? latestRates : rates.on(date);
+      const convert = (amount: number) => convertAmount(amount, quoteCurrency, currency, dayRates);
+
+      while (txCursor < transactions.length && transactions[txCursor].tradeDate <= date) {
+        const tx = transactions[txCursor++];
+        const price = tx.type === 'transfer_out' ? (lastPrice ?? tx.price) : tx.price;
+        if (tx.type !== 'fee' && tx.price > 0) lastPrice ??= tx.price;
+
+        let cash = 0;
+        switch (tx.type) {
+          case 'buy':
+            quantity += tx.quantity;
+            cash = -(tx.quantity * tx.price + tx.fee);
+            break;
+          case 'transfer_in':
+            quantity += tx.quantity;
+            cash = -(tx.quantity * tx.price);
+            break;
+          case 'sell':
+            quantity -= tx.quantity;
+            cash = tx.quantity * tx.price - tx.fee;
+            break;
+          case 'transfer_out':
+            quantity -= tx.quantity;
+            cash = tx.quantity * price;
+            break;
+          case 'fee':
+            cash = -tx.fee;
+            break;
+        }
+
+        // Pencere öncesindeki işlemler açılış değerine dahil
+        if (openingDate === null || tx.tradeDate > openingDate) {
+          const converted = convert(cash);
+          if (converted === null) return null;
+          flows.push({ date: tx.tradeDate, amount: converted });
+        }
+      }
+
+      const price = date === today && latestPrice !== null ? latestPrice : lastPrice;
+      const value = convert(quantity * (price ?? 0));
+      if (value === null) return null;
+      values.push({ date, value });
+
+      if (date === openingDate && value !== 0) flows.push({ date, amount: -value });
+    }
+
+    return { values, flows };
+  }
+}
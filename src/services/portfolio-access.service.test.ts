@@ -0,0 +1,53 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// authorize() tek bir select zinciri çalıştırır; zincir, sıradaki satırları döndüren sahte bir db ile karşılanır
+const { db, setRows } = vi.hoisted(() => {
+  let rows: unknown[] = [];
+  const chain: Record<string, unknown> = {};
+  for (const method of ['from', 'innerJoin', 'where', 'orderBy', 'limit']) chain[method] = () => chain;
+  chain.then = (resolve: (value: unknown[]) => unknown) => resolve(rows);
+
+  return {
+    db: { select: () => chain },
+    setRows: (next: unknown[]) => { rows = next; },
+  };
+});
+
+vi.mock('../config/database', () => ({ db }));
+
+import { PortfolioAccessService, hasRole } from './portfolio-access.service';
+
+describe('portfolio roles', () => {
+  it('should rank viewer < editor < owner', () => {
+    expect(hasRole('owner', 'editor')).toBe(true);
+    expect(hasRole('editor', 'editor')).toBe(true);
+    expect(hasRole('viewer', 'editor')).toBe(false);
+    expect(hasRole('editor', 'owner')).toBe(false);
+  });
+});
+
+describe('PortfolioAccessService.authorize', () => {
+  const service = new PortfolioAccessService();
+  const portfolio = { id: 'p1', userId: 'owner-1', name: 'Birikim', type: 'birikim' };
+
+  beforeEach(() => setRows([]));
+
+  it('should return null for non-members so ids cannot be probed', async () => {
+    await expect(service.authorize('p1', 'stranger', 'viewer')).resolves.toBeNull();
+  });
+
+  it('should return the portfolio with the caller role when it is high enough', async () => {
+    setRows([{ portfolio, role: 'editor' }]);
+
+    await expect(service.authorize('p1', 'u2', 'viewer')).resolves.toMatchObject({ id: 'p1', role: 'editor' });
+    await expect(service.authorize('p1', 'u2', 'editor')).resolves.toMatchObject({ id: 'p1', role: 'editor' });
+  });
+
+  it('should reject members below the required role', async () => {
+    setRows([{ portfolio, role: 'viewer' }]);
+    await expect(service.authorize('p1', 'u3', 'editor')).rejects.toThrow(/^FORBIDDEN:/);
+
+    setRows([{ portfolio, role: 'editor' }]);
+    await expect(service.authorize('p1', 'u2', 'owner')).rejects.toThrow(/^FORBIDDEN:/);
+  });
+});
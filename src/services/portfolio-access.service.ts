@@ -0,0 +1,57 @@
+import { db } from '../config/database';
+import { portfolios, portfolioMembers } from '../db/schema';
+import type { Portfolio } from '../db/schema';
+import { eq, and, asc } from 'drizzle-orm';
+
+export type PortfolioRole = 'owner' | 'editor' | 'viewer';
+
+export type AuthorizedPortfolio = Portfolio & { role: PortfolioRole };
+
+// viewer < editor < owner
+const ROLE_RANK: Record<PortfolioRole, number> = { viewer: 1, editor: 2, owner: 3 };
+
+export function hasRole(role: PortfolioRole, required: PortfolioRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * Membership-based authorization for portfolio routes. Every portfolio service goes
+ * through `authorize` instead of comparing portfolios.user_id.
+ */
+export class PortfolioAccessService {
+  /**
+   * The portfolio with the caller's role. Non-members get null (routes answer 404 so
+   * portfolio ids cannot be probed); members below `required` get a FORBIDDEN error.
+   */
+  async authorize(portfolioId: string, userId: string, required: PortfolioRole = 'viewer'): Promise<AuthorizedPortfolio | null> {
+    const [row] = await db
+      .select({ portfolio: portfolios, role: portfolioMembers.role })
+      .from(portfolioMembers)
+      .innerJoin(portfolios, eq(portfolios.id, portfolioMembers.portfolioId))
+      .where(and(eq(portfolioMembers.portfolioId, portfolioId), eq(portfolioMembers.userId, userId)))
+      .limit(1);
+
+    if (!row) return null;
+
+    const role = row.role as PortfolioRole;
+    if (!hasRole(role, required)) {
+      throw new Error(`FORBIDDEN: This action requires the ${required} role on this portfolio`);
+    }
+
+    return { ...row.portfolio, role };
+  }
+
+  /**
+   * Every portfolio the user is a member of, in the portfolios' sort order
+   */
+  async getPortfolios(userId: string): Promise<AuthorizedPortfolio[]> {
+    const rows = await db
+      .select({ portfolio: portfolios, role: portfolioMembers.role })
+      .from(portfolioMembers)
+      .innerJoin(portfolios, eq(portfolios.id, portfolioMembers.portfolioId))
+      .where(eq(portfolioMembers.userId, userId))
+      .orderBy(asc(portfolios.sortOrder), asc(portfolios.createdAt));
+
+    return rows.map((row) => ({ ...row.portfolio, role: row.role as PortfolioRole }));
+  }
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { buildValuationSeries, convertValuationInputs, dateRange } from './portfolio-history.service';
+import { istanbulDate, type DailyPrice } from './rollup.service';
+import { HistoricalRates } from './currency.service';
+import type { LedgerTransaction } from './ledger.service';
+
+function buy(id: string, quantity: number, price: number, tradeDate: string): LedgerTransaction {
+  return { id, instrumentId: 'gram', type: 'buy', quantity, price, fee: 0, tradeDate };
+}
+
+describe('date helpers', () => {
+  it('should use the Istanbul calendar day', () => {
+    // 2025-03-01 22:30 UTC = 2025-03-02 01:30 Istanbul
+    expect(istanbulDate(Date.UTC(2025, 2, 1, 22, 30) / 1000)).toBe('2025-03-02');
+  });
+
+  it('should list dates inclusively across month ends', () => {
+    expect(dateRange('2025-02-27', '2025-03-02')).toEqual(['2025-02-27', '2025-02-28', '2025-03-01', '2025-03-02']);
+  });
+});
+
+describe('buildValuationSeries', () => {
+  const prices = new Map<string, DailyPrice[]>([
+    ['gram', [
+      { date: '2025-03-01', price: 3000 },
+      { date: '2025-03-03', price: 3100 },
+    ]],
+  ]);
+
+  it('should respect trade dates and carry prices forward', () => {
+    const series = buildValuationSeries(
+      [buy('a', 1, 2900, '2025-03-01'), buy('b', 1, 3050, '2025-03-03')],
+      'fifo',
+      prices,
+      dateRange('2025-02-28', '2025-03-03')
+    );
+
+    expect(series.map((p) => p.value)).toEqual([0, 3000, 3000, 6200]);
+    expect(series.map((p) => p.costBasis)).toEqual([0, 2900, 2900, 5950]);
+    expect(series[3].profitLoss).toBe(250);
+  });
+
+  it('should value instruments without price history at cost', () => {
+    const series = buildValuationSeries(
+      [{ ...buy('a', 10, 40, '2025-03-01'), instrumentId: 'USDTRY' }],
+      'fifo',
+      prices,
+      ['2025-03-01']
+    );
+
+    expect(series[0].value).toBe(400);
+    expect(series[0].profitLoss).toBe(0);
+  });
+
+  it('should track realized P/L after a sale', () => {
+    const series = buildValuationSeries(
+      [
+        buy('a', 2, 2500, '2025-03-01'),
+        { id: 's', instrumentId: 'gram', type: 'sell', quantity: 1, price: 3100, fee: 0, tradeDate: '2025-03-03' },
+      ],
+      'average',
+      prices,
+      ['2025-03-02', '2025-03-03']
+    );
+
+    expect(series[0].realizedProfitLoss).toBe(0);
+    expect(series[1].realizedProfitLoss).toBe(600);
+    expect(series[1].value).toBe(3100);
+  });
+});
+
+describe('convertValuationInputs', () => {
+  const rates = new HistoricalRates(
+    new Map([['USDTRY', [{ date: '2025-03-01', price: 30 }, { date: '2025-03-03', price: 31 }]]]),
+    {}
+  );
+
+  it('should convert trades at trade-date rates and closes at each day\'s rate', () => {
+    const { transactions, prices, unconverted } = convertValuationInputs(
+      [buy('a', 1, 3000, '2025-03-01')],
+      new Map([['gram', [{ date: '2025-03-01', price: 3000 }, { date: '2025-03-03', price: 3100 }]]]),
+      new Map([['gram', 'TRY']]),
+      'USD',
+      rates
+    );
+
+    expect(transactions[0].price).toBe(100);
+    expect(prices.get('gram')).toEqual([{ date: '2025-03-01', price: 100 }, { date: '2025-03-03', price: 100 }]);
+    expect(unconverted).toEqual([]);
+  });
+
+  it('should leave out instruments without a rate', () => {
+    const { transactions, prices, unconverted } = convertValuationInputs(
+      [buy('a', 1, 3000, '2025-03-01')],
+      new Map([['gram', [{ date: '2025-03-01', price: 3000 }]]]),
+      new Map([['gram', 'TRY']]),
+      'EUR',
+      rates
+    );
+
+    expect(transactions).toEqual([]);
+    expect(prices.size).toBe(0);
+    expect(unconverted).toEqual(['gram']);
+  });
+});
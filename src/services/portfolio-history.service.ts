@@ -0,0 +1,360 @@
+import { db } from '../config/database';
+import { instruments, portfolios, portfolioTransactions, portfolioSnapshots } from '../db/schema';
+import type { Portfolio, PortfolioTransaction } from '../db/schema';
+import { and, eq, gte, inArray, lte, sql } from 'drizzle-orm';
+import { computePositions, sortTransactions, toLedgerTransaction, type CostMethod, type LedgerTransaction } from './ledger.service';
+import { RollupService, istanbulDate, type DailyPrice } from './rollup.service';
+import { CurrencyService, RATE_LOOKBACK_DAYS, convertAmount, type HistoricalRates, type ReportingCurrency } from './currency.service';
+import { PortfolioAccessService } from './portfolio-access.service';
+import { logger } from '../utils/logger';
+
+export type HistoryRange = '1M' | '3M' | '1Y' | 'ALL';
+
+// Days covered by each range (ALL = since the first transaction)
+export const HISTORY_RANGES: Record<HistoryRange, number | null> = {
+  '1M': 30,
+  '3M': 90,
+  '1Y': 365,
+  ALL: null,
+};
+
+export type ValuationPoint = {
+  date: string; // Istanbul calendar day, YYYY-MM-DD
+  value: number;
+  costBasis: number;
+  profitLoss: number; // unrealized
+  realizedProfitLoss: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How far before the first missing day to look for a carry-forward price (long holidays)
+const PRICE_LOOKBACK_DAYS = 14;
+
+const SNAPSHOT_BATCH_SIZE = 500;
+
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Inclusive list of calendar dates between from and to
+ */
+export function dateRange(from: string, to: string): string[] {
+  const dates: string[] = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) dates.push(date);
+  return dates;
+}
+
+export function isHistoryRange(value: string): value is HistoryRange {
+  return value in HISTORY_RANGES;
+}
+
+/**
+ * Rebuild end-of-day portfolio value for each date from the ledger and daily prices.
+ *
+ * Positions include every transaction traded on or before the date. Prices are carried
+ * forward over weekends/holidays; an instrument with no price yet is valued at cost.
+ * `prices` must be sorted by date ascending.
+ */
+export function buildValuationSeries(
+  transactions: LedgerTransaction[],
+  method: CostMethod,
+  prices: Map<string, DailyPrice[]>,
+  dates: string[]
+): ValuationPoint[] {
+  const ledger = sortTransactions(transactions);
+  const priceCursor = new Map<string, number>();
+  const lastPrice = new Map<string, number>();
+
+  let included = 0;
+  let positions = computePositions([], method);
+  const points: ValuationPoint[] = [];
+
+  for (const date of dates) {
+    let next = included;
+    while (next < ledger.length && ledger[next].tradeDate <= date) next++;
+    if (next !== included) {
+      included = next;
+      positions = computePositions(ledger.slice(0, included), method, false);
+    }
+
+    // Advance each instrument's price to the latest close on or before date
+    for (const [instrumentId, series] of prices) {
+      let cursor = priceCursor.get(instrumentId) ?? 0;
+      while (cursor < series.length && series[cursor].date <= date) {
+        lastPrice.set(instrumentId, series[cursor].price);
+        cursor++;
+      }
+      priceCursor.set(instrumentId, cursor);
+    }
+
+    let value = 0;
+    let costBasis = 0;
+    let realizedProfitLoss = 0;
+
+    for (const position of positions) {
+      const price = lastPrice.get(position.instrumentId);
+      value += price !== undefined ? position.quantity * price : position.costBasis;
+      costBasis += position.costBasis;
+      realizedProfitLoss += position.realizedProfitLoss;
+    }
+
+    points.push({ date, value, costBasis, profitLoss: value - costBasis, realizedProfitLoss });
+  }
+
+  return points;
+}
+
+/**
+ * Ledger and daily closes in the reporting currency: trade prices and fees at trade-date
+ * rates (cost basis carries the currency effect, as in portfolio detail), closes at each
+ * day's rate. Instruments without a usable rate are dropped and listed in `unconverted`.
+ */
+export function convertValuationInputs(
+  transactions: LedgerTransaction[],
+  prices: Map<string, DailyPrice[]>,
+  quoteCurrencies: Map<string, string>,
+  currency: ReportingCurrency,
+  rates: HistoricalRates
+): { transactions: LedgerTransaction[]; prices: Map<string, DailyPrice[]>; unconverted: string[] } {
+  const unconverted = new Set<string>();
+  const rateOn = (instrumentId: string, date: string) =>
+    convertAmount(1, quoteCurrencies.get(instrumentId) ?? 'TRY', currency, rates.on(date));
+
+  const converted: LedgerTransaction[] = [];
+  for (const tx of transactions) {
+    const rate = rateOn(tx.instrumentId, tx.tradeDate);
+    if (rate === null) {
+      unconverted.add(tx.instrumentId);
+      continue;
+    }
+    converted.push({ ...tx, price: tx.price * rate, fee: tx.fee * rate });
+  }
+
+  const convertedPrices = new Map<string, DailyPrice[]>();
+  for (const [instrumentId, series] of prices) {
+    const points: DailyPrice[] = [];
+    for (const point of series) {
+      const rate = rateOn(instrumentId, point.date);
+      if (rate === null) {
+        unconverted.add(instrumentId);
+        break;
+      }
+      points.push({ date: point.date, price: point.price * rate });
+    }
+    convertedPrices.set(instrumentId, points);
+  }
+
+  return {
+    transactions: converted.filter((tx) => !unconverted.has(tx.instrumentId)),
+    prices: new Map([...convertedPrices].filter(([instrumentId]) => !unconverted.has(instrumentId))),
+    unconverted: [...unconverted],
+  };
+}
+
+function roundPoint(point: ValuationPoint, currency: ReportingCurrency) {
+  const factor = currency === 'GRAM' ? 10000 : 100;
+  const round = (value: number) => Math.round(value * factor) / factor;
+
+  return {
+    date: point.date,
+    value: round(point.value),
+    costBasis: round(point.costBasis),
+    profitLoss: round(point.profitLoss),
+    profitLossPercent: point.costBasis > 0 ? Math.round((point.profitLoss / point.costBasis) * 10000) / 100 : 0,
+    realizedProfitLoss: round(point.realizedProfitLoss),
+  };
+}
+
+/**
+ * Portfolio valuation history: nightly snapshots (TRY) for past days, recomputed from the
+ * ledger + daily rollups for days without a snapshot (including today) and for other
+ * reporting currencies
+ */
+export class PortfolioHistoryService {
+  private rollupService = new RollupService();
+  private currencyService = new CurrencyService();
+  private accessService = new PortfolioAccessService();
+
+  async getHistory(
+    portfolioId: string,
+    userId: string,
+    range: HistoryRange,
+    currencyOverride?: ReportingCurrency,
+    now: Date = new Date()
+  ) {
+    const portfolio = await this.accessService.authorize(portfolioId, userId, 'viewer');
+    if (!portfolio) return null;
+
+    const currency = currencyOverride ?? await this.currencyService.getUserCurrency(userId);
+    const rows = await db.query.portfolioTransactions.findMany({
+      where: eq(portfolioTransactions.portfolioId, portfolioId),
+    });
+
+    if (rows.length === 0) return { portfolioId, range, currency, points: [] };
+
+    const today = istanbulDate(Math.floor(now.getTime() / 1000));
+    const firstTradeDate = rows.reduce((min, row) => (row.tradeDate < min ? row.tradeDate : min), rows[0].tradeDate);
+    const days = HISTORY_RANGES[range];
+    const rangeStart = days === null ? firstTradeDate : addDays(today, -days);
+    const from = rangeStart > firstTradeDate ? rangeStart : firstTradeDate;
+
+    if (from > today) return { portfolioId, range, currency, points: [] };
+
+    // Anlık görüntüler TRY; diğer para birimleri defterden hesaplanır
+    const snapshots = currency === 'TRY'
+      ? await db.query.portfolioSnapshots.findMany({
+          where: and(
+            eq(portfolioSnapshots.portfolioId, portfolioId),
+            gte(portfolioSnapshots.date, from),
+            lte(portfolioSnapshots.date, today)
+          ),
+        })
+      : [];
+
+    const byDate = new Map<string, ValuationPoint>(snapshots.map((s) => {
+      const value = parseFloat(s.value);
+      const costBasis = parseFloat(s.costBasis);
+      return [s.date, {
+        date: s.date,
+        value,
+        costBasis,
+        profitLoss: value - costBasis,
+        realizedProfitLoss: parseFloat(s.realizedProfitLoss),
+      }];
+    }));
+
+    const dates = dateRange(from, today);
+    const missing = dates.filter((date) => !byDate.has(date));
+
+    if (missing.length > 0) {
+      const computed = await this.computeSeries(portfolio, rows, missing[0], today, currency);
+      for (const point of computed) {
+        if (!byDate.has(point.date)) byDate.set(point.date, point);
+      }
+    }
+
+    return {
+      portfolioId,
+      range,
+      currency,
+      points: dates.map((date) => roundPoint(byDate.get(date)!, currency)),
+    };
+  }
+
+  /**
+   * Persist end-of-day values for every portfolio up to yesterday (Istanbul),
+   * continuing from each portfolio's last snapshot
+   */
+  async snapshotAll(now: Date = new Date()): Promise<{ portfolios: number; snapshots: number }> {
+    const until = addDays(istanbulDate(Math.floor(now.getTime() / 1000)), -1);
+
+    const ledgerStarts = await db
+      .select({ portfolioId: portfolioTransactions.portfolioId, firstDate: sql<string>`MIN(${portfolioTransactions.tradeDate})` })
+      .from(portfolioTransactions)
+      .groupBy(portfolioTransactions.portfolioId);
+
+    const lastSnapshots = await db
+      .select({ portfolioId: portfolioSnapshots.portfolioId, lastDate: sql<string>`MAX(${portfolioSnapshots.date})` })
+      .from(portfolioSnapshots)
+      .groupBy(portfolioSnapshots.portfolioId);
+    const lastByPortfolio = new Map(lastSnapshots.map((s) => [s.portfolioId, s.lastDate]));
+
+    let portfolioCount = 0;
+    let snapshotCount = 0;
+
+    for (const { portfolioId, firstDate } of ledgerStarts) {
+      const last = lastByPortfolio.get(portfolioId);
+      const from = last ? addDays(last, 1) : firstDate;
+      if (from > until) continue;
+
+      try {
+        // Defter yazımlarıyla aynı satır kilidi: okunan defter ile yazılan anlık görüntüler arasında
+        // bir düzenleme commit edilip geçersiz kılma boşa gidemez
+        const written = await db.transaction(async (tx) => {
+          const [portfolio] = await tx.select().from(portfolios).where(eq(portfolios.id, portfolioId)).for('update');
+          if (!portfolio) return null;
+
+          const rows = await tx.query.portfolioTransactions.findMany({
+            where: eq(portfolioTransactions.portfolioId, portfolioId),
+          });
+
+          const points = await this.computeSeries(portfolio, rows, from, until);
+          for (let i = 0; i < points.length; i += SNAPSHOT_BATCH_SIZE) {
+            const batch = points.slice(i, i + SNAPSHOT_BATCH_SIZE).map((point) => ({
+              portfolioId,
+              date: point.date,
+              value: point.value.toFixed(6),
+              costBasis: point.costBasis.toFixed(6),
+              realizedProfitLoss: point.realizedProfitLoss.toFixed(6),
+            }));
+            await tx.insert(portfolioSnapshots).values(batch).onConflictDoNothing();
+          }
+          return points.length;
+        });
+        if (written === null) continue;
+
+        portfolioCount++;
+        snapshotCount += written;
+      } catch (error) {
+        logger.error({ err: error, portfolioId }, 'Portfolio snapshot failed');
+      }
+    }
+
+    logger.info({ portfolios: portfolioCount, snapshots: snapshotCount, until }, 'Portfolio snapshots written');
+    return { portfolios: portfolioCount, snapshots: snapshotCount };
+  }
+
+  /**
+   * Drop snapshots from `fromDate` on (all when omitted) after a back-dated ledger edit
+   * or a cost method change; the next request/nightly run recomputes them. Pass the
+   * ledger write's transaction so both commit or roll back together.
+   */
+  async invalidate(portfolioId: string, fromDate?: string, executor: DbExecutor = db): Promise<void> {
+    const conditions = [eq(portfolioSnapshots.portfolioId, portfolioId)];
+    if (fromDate) conditions.push(gte(portfolioSnapshots.date, fromDate));
+
+    await executor.delete(portfolioSnapshots).where(and(...conditions));
+  }
+
+  private async computeSeries(
+    portfolio: Portfolio,
+    rows: PortfolioTransaction[],
+    from: string,
+    to: string,
+    currency: ReportingCurrency = 'TRY'
+  ) {
+    const instrumentIds = [...new Set(rows.map((r) => r.instrumentId))];
+    const [prices, instrumentData] = await Promise.all([
+      this.rollupService.getDailyCloses(instrumentIds, addDays(from, -PRICE_LOOKBACK_DAYS), to),
+      db.query.instruments.findMany({
+        where: inArray(instruments.id, instrumentIds),
+        columns: { id: true, quoteCurrency: true },
+      }),
+    ]);
+    const quoteCurrencies = new Map(instrumentData.map((i) => [i.id, i.quoteCurrency]));
+    let ledger = rows.map(toLedgerTransaction);
+    let series = prices;
+
+    // Tüm enstrümanlar raporlama para biriminde fiyatlanıyorsa kur gerekmez
+    if (instrumentIds.some((id) => (quoteCurrencies.get(id) ?? 'TRY') !== currency)) {
+      const firstTradeDate = rows.reduce((min, row) => (row.tradeDate < min ? row.tradeDate : min), to);
+      const rates = await this.currencyService.getHistoricalRates(
+        addDays(firstTradeDate, -RATE_LOOKBACK_DAYS),
+        to,
+        await this.currencyService.getLatestRates()
+      );
+      const converted = convertValuationInputs(ledger, prices, quoteCurrencies, currency, rates);
+      if (converted.unconverted.length > 0) {
+        logger.warn({ portfolioId: portfolio.id, currency, instruments: converted.unconverted }, 'No FX rate for history, instruments left out');
+      }
+      ledger = converted.transactions;
+      series = converted.prices;
+    }
+
+    return buildValuationSeries(ledger, portfolio.costMethod as CostMethod, series, dateRange(from, to));
+  }
+}
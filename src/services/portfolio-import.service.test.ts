@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildPreviewRows,
+  checkImportedLedger,
+  detectColumns,
+  parseCsv,
+  parseDecimal,
+  parseTradeDate,
+  resolveInstrument,
+  toCsv,
+} from './portfolio-import.service';
+
+const instrumentList = [
+  { id: 'gram', name: 'Gram Altın' },
+  { id: 'ceyrek', name: 'Çeyrek Altın' },
+  { id: 'yarim', name: 'Yarım Altın' },
+  { id: 'USDTRY', name: 'Amerikan Doları' },
+];
+
+describe('CSV parsing', () => {
+  it('should detect semicolons and handle quoted fields', () => {
+    expect(parseCsv('\uFEFFÜrün;Miktar;Not\r\nÇeyrek Altın;2;"düğün; anneannem"\r\n')).toEqual([
+      ['Ürün', 'Miktar', 'Not'],
+      ['Çeyrek Altın', '2', 'düğün; anneannem'],
+    ]);
+  });
+
+  it('should round-trip values that need quoting', () => {
+    const csv = toCsv(['a', 'b'], [['say "hi"', '1,5']]);
+    expect(parseCsv(csv)).toEqual([['a', 'b'], ['say "hi"', '1,5']]);
+  });
+
+  it('should neutralize cells that a spreadsheet would run as formulas', () => {
+    const csv = toCsv(['a', 'b', 'c'], [['=HYPERLINK("x")', '@SUM(A1)', '-5']]);
+    expect(parseCsv(csv)).toEqual([['a', 'b', 'c'], ['\'=HYPERLINK("x")', '\'@SUM(A1)', '-5']]);
+  });
+
+  it('should parse Turkish and English numbers', () => {
+    expect(parseDecimal('1.234,56')).toBe(1234.56);
+    expect(parseDecimal('1,234.56')).toBe(1234.56);
+    expect(parseDecimal('0,5')).toBe(0.5);
+    expect(parseDecimal('2450.75 TL')).toBe(2450.75);
+    expect(parseDecimal('1.234.567')).toBe(1234567);
+    expect(parseDecimal('abc')).toBeNull();
+  });
+
+  it('should parse day-first dates and reject impossible ones', () => {
+    expect(parseTradeDate('05.03.2024')).toBe('2024-03-05');
+    expect(parseTradeDate('5/3/2024 14:30')).toBe('2024-03-05');
+    expect(parseTradeDate('2024-03-05')).toBe('2024-03-05');
+    expect(parseTradeDate('31.02.2024')).toBeNull();
+  });
+});
+
+describe('column mapping', () => {
+  it('should match Turkish and English headers', () => {
+    expect(detectColumns(['Ürün Adı', 'Adet', 'Alış Fiyatı', 'Tarih'])).toEqual({
+      instrument: 0,
+      quantity: 1,
+      price: 2,
+      date: 3,
+    });
+  });
+
+  it('should prefer an explicit mapping', () => {
+    expect(detectColumns(['Varlık', 'Kaç tane', 'Tarih'], { quantity: 'Kaç tane' }).quantity).toBe(1);
+  });
+
+  it('should resolve instrument names to ids', () => {
+    expect(resolveInstrument('Çeyrek Altın', instrumentList)).toEqual({ id: 'ceyrek' });
+    expect(resolveInstrument('ceyrek altin', instrumentList)).toEqual({ id: 'ceyrek' });
+    expect(resolveInstrument('USDTRY', instrumentList)).toEqual({ id: 'USDTRY' });
+    expect(resolveInstrument('Yarım', instrumentList)).toEqual({ id: 'yarim' });
+    expect(resolveInstrument('Cumhuriyet', instrumentList)).toEqual({ error: 'unknown instrument "Cumhuriyet"' });
+  });
+});
+
+describe('import preview', () => {
+  it('should validate every row and keep line numbers', () => {
+    const { rows } = buildPreviewRows(
+      [
+        ['Ürün', 'İşlem', 'Miktar', 'Fiyat', 'Tarih'],
+        ['Çeyrek Altın', 'Alış', '2', '4.150,00', '01.03.2024'],
+        ['Platin', 'Alış', '1', '100', '01.03.2024'],
+        [''],
+        ['Gram Altın', 'Satış', '0', '', '2024-13-01'],
+      ],
+      {},
+      instrumentList
+    );
+
+    expect(rows.map((r) => [r.line, r.valid])).toEqual([[2, true], [3, false], [5, false]]);
+    expect(rows[0].transaction).toMatchObject({ instrumentId: 'ceyrek', type: 'buy', quantity: '2', price: '4150', tradeDate: '2024-03-01' });
+    expect(rows[2].errors).toHaveLength(3);
+  });
+
+  it('should strip the formula escape written by the export', () => {
+    const table = parseCsv(toCsv(['instrumentId', 'quantity', 'price', 'tradeDate', 'description'], [['gram', '1', '2000', '2024-03-01', '+90 hediye']]));
+    expect(buildPreviewRows(table, {}, instrumentList).rows[0].transaction?.description).toBe('+90 hediye');
+  });
+
+  it('should reject exports of several portfolios unless one is picked', () => {
+    const table = [
+      ['portfolio', 'instrumentId', 'quantity', 'price', 'tradeDate'],
+      ['Birikim', 'gram', '1', '2000', '2024-03-01'],
+      ['Düğün', 'ceyrek', '2', '4000', '2024-03-02'],
+    ];
+
+    expect(() => buildPreviewRows(table, {}, instrumentList)).toThrow(/^VALIDATION_ERROR: File contains 2 portfolios/);
+
+    const { rows } = buildPreviewRows(table, {}, instrumentList, 'dugun');
+    expect(rows.map((r) => [r.line, r.transaction?.instrumentId])).toEqual([[3, 'ceyrek']]);
+  });
+
+  it('should require the core columns', () => {
+    expect(() => buildPreviewRows([['Ürün', 'Fiyat']], {}, instrumentList)).toThrow(/^VALIDATION_ERROR:/);
+  });
+
+  it('should report oversells against the existing ledger', () => {
+    const existing = [{ id: 'b1', instrumentId: 'gram', type: 'buy' as const, quantity: 5, price: 2000, fee: 0, tradeDate: '2024-01-01' }];
+    const sell = { instrumentId: 'gram', type: 'sell' as const, quantity: '6', price: '2500', fee: '0', tradeDate: '2024-02-01' };
+
+    expect(checkImportedLedger(existing, [sell], 'fifo')).toHaveLength(1);
+    expect(checkImportedLedger(existing, [{ ...sell, quantity: '5' }], 'fifo')).toEqual([]);
+  });
+});
@@ -0,0 +1,441 @@
+import { db } from '../config/database';
+import { portfolioTransactions } from '../db/schema';
+import type { Instrument } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { computePosition, toLedgerTransaction, type CostMethod, type LedgerTransaction, type TransactionType } from './ledger.service';
+import { PortfolioService } from './portfolio.service';
+import { PortfolioAccessService } from './portfolio-access.service';
+
+export type ImportField = 'instrument' | 'type' | 'quantity' | 'price' | 'fee' | 'date' | 'description' | 'portfolio';
+
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export type ImportRow = {
+  instrumentId: string;
+  type: TransactionType;
+  quantity: string;
+  price: string;
+  fee: string;
+  tradeDate: string;
+  description?: string;
+};
+
+export type PreviewRow = {
+  line: number; // 1-based line in the source (header = 1)
+  valid: boolean;
+  errors: string[];
+  transaction: ImportRow | null;
+};
+
+export type ImportPreview = {
+  columns: ColumnMapping;
+  rows: PreviewRow[];
+  ledgerErrors: string[]; // oversells across existing + imported transactions
+  summary: { total: number; valid: number; invalid: number };
+};
+
+export const MAX_IMPORT_ROWS = 5000;
+
+// Başlık eşlemesi: normalize edilmiş başlık adları, öncelik sırasıyla
+const COLUMN_ALIASES: Record<ImportField, string[]> = {
+  instrument: ['instrumentid', 'instrument', 'instrumentname', 'enstruman', 'urun', 'urunadi', 'varlik', 'cins', 'name', 'ad'],
+  type: ['type', 'transactiontype', 'islem', 'islemtipi', 'islemturu'],
+  quantity: ['quantity', 'qty', 'amount', 'miktar', 'adet', 'gram'],
+  price: ['price', 'purchaseprice', 'unitprice', 'fiyat', 'alisfiyati', 'birimfiyat', 'maliyet'],
+  fee: ['fee', 'commission', 'komisyon', 'masraf', 'ucret'],
+  date: ['tradedate', 'purchasedate', 'date', 'tarih', 'islemtarihi', 'alistarihi'],
+  description: ['description', 'note', 'notes', 'aciklama', 'not'],
+  portfolio: ['portfolio', 'portfolioname', 'portfoy', 'portfoyadi'],
+};
+
+const TYPE_ALIASES: Record<string, TransactionType> = {
+  buy: 'buy', alis: 'buy', alim: 'buy', al: 'buy',
+  sell: 'sell', satis: 'sell', sat: 'sell',
+  transferin: 'transfer_in', giris: 'transfer_in', transfergiris: 'transfer_in',
+  transferout: 'transfer_out', cikis: 'transfer_out', transfercikis: 'transfer_out',
+  fee: 'fee', komisyon: 'fee', masraf: 'fee',
+};
+
+/**
+ * Lowercase (Turkish rules), fold ç/ğ/ı/ö/ş/ü and drop everything but letters and digits:
+ * "Çeyrek Altın" → "ceyrekaltin", "Alış Fiyatı" → "alisfiyati"
+ */
+export function normalizeKey(value: string): string {
+  return value
+    .toLocaleLowerCase('tr')
+    .replace(/ç/g, 'c').replace(/ğ/g, 'g').replace(/ı/g, 'i')
+    .replace(/ö/g, 'o').replace(/ş/g, 's').replace(/ü/g, 'u')
+    .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Minimal RFC 4180 reader: quoted fields, "" escapes, CRLF. The delimiter (`,` `;` or tab)
+ * is detected from the header line.
+ */
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '');
+  const firstLine = source.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = [';', '\t', ','].reduce((best, d) => (countOutsideQuotes(firstLine, d) > countOutsideQuotes(firstLine, best) ? d : best), ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field.trim());
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function countOutsideQuotes(line: string, char: string): number {
+  let count = 0;
+  let quoted = false;
+  for (const c of line) {
+    if (c === '"') quoted = !quoted;
+    else if (c === char && !quoted) count++;
+  }
+  return count;
+}
+
+// Tablolarda formül olarak çalışan hücre başlangıçları (CSV/formula injection)
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Serialize rows; text cells that a spreadsheet would evaluate as a formula are
+ * prefixed with `'` (numbers such as "-5" are left alone)
+ */
+export function toCsv(header: string[], rows: Array<Array<string | number | null | undefined>>): string {
+  const escape = (value: string | number | null | undefined) => {
+    let text = value === null || value === undefined ? '' : String(value);
+    if (FORMULA_PREFIX.test(text) && !/^-?\d+(\.\d+)?$/.test(text)) text = `'${text}`;
+    return /[",;\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  return [header, ...rows].map((row) => row.map(escape).join(',')).join('\n') + '\n';
+}
+
+/**
+ * Numbers as typed in Turkish or English spreadsheets: "1.234,56", "1,234.56", "0,5", "2450.75 TL".
+ * With a single separator, a comma is decimal; dots are decimal unless repeated (1.234.567).
+ */
+export function parseDecimal(raw: string): number | null {
+  let value = raw.replace(/[\s₺$€]|TL|TRY/gi, '');
+  if (value === '') return null;
+
+  const lastComma = value.lastIndexOf(',');
+  const lastDot = value.lastIndexOf('.');
+
+  if (lastComma >= 0 && lastDot >= 0) {
+    value = lastComma > lastDot
+      ? value.replace(/\./g, '').replace(',', '.')
+      : value.replace(/,/g, '');
+  } else if (lastComma >= 0) {
+    if (value.indexOf(',') !== lastComma) return null;
+    value = value.replace(',', '.');
+  } else if (lastDot >= 0 && value.indexOf('.') !== lastDot) {
+    value = value.replace(/\./g, '');
+  }
+
+  if (!/^-?\d+(\.\d+)?$/.test(value)) return null;
+  return Number(value);
+}
+
+/**
+ * YYYY-MM-DD, or day-first DD.MM.YYYY / DD/MM/YYYY / DD-MM-YYYY; a trailing time is ignored
+ */
+export function parseTradeDate(raw: string): string | null {
+  const value = raw.trim().split(/[ T]/)[0];
+
+  let year: string, month: string, day: string;
+  let match = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (match) {
+    [, year, month, day] = match;
+  } else {
+    match = value.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{4})$/);
+    if (!match) return null;
+    [, day, month, year] = match;
+  }
+
+  const date = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === date ? date : null;
+}
+
+export function parseTransactionType(raw: string): TransactionType | null {
+  if (raw.trim() === '') return 'buy';
+  return TYPE_ALIASES[normalizeKey(raw)] ?? null;
+}
+
+/**
+ * Column index per field: explicit `mapping` (header names) first, then known aliases
+ */
+export function detectColumns(header: string[], mapping: ColumnMapping = {}): Partial<Record<ImportField, number>> {
+  const normalized = header.map(normalizeKey);
+  const columns: Partial<Record<ImportField, number>> = {};
+  const used = new Set<number>();
+
+  for (const field of Object.keys(COLUMN_ALIASES) as ImportField[]) {
+    const explicit = mapping[field];
+    if (explicit !== undefined) {
+      const index = normalized.indexOf(normalizeKey(explicit));
+      if (index >= 0) {
+        columns[field] = index;
+        used.add(index);
+      }
+    }
+  }
+
+  for (const field of Object.keys(COLUMN_ALIASES) as ImportField[]) {
+    if (columns[field] !== undefined || mapping[field] !== undefined) continue;
+
+    for (const alias of COLUMN_ALIASES[field]) {
+      const index = normalized.findIndex((h, i) => h === alias && !used.has(i));
+      if (index >= 0) {
+        columns[field] = index;
+        used.add(index);
+        break;
+      }
+    }
+  }
+
+  return columns;
+}
+
+/**
+ * Match an instrument by id or name ("Çeyrek Altın", "ceyrek altin", "ceyrek"); a prefix
+ * of a name is accepted when it is unambiguous
+ */
+export function resolveInstrument(raw: string, instrumentList: Pick<Instrument, 'id' | 'name'>[]): { id: string } | { error: string } {
+  const key = normalizeKey(raw);
+  if (key === '') return { error: 'instrument is required' };
+
+  const exact = instrumentList.find((i) => normalizeKey(i.id) === key || normalizeKey(i.name) === key);
+  if (exact) return { id: exact.id };
+
+  const candidates = instrumentList.filter((i) => normalizeKey(i.name).startsWith(key));
+  if (candidates.length === 1) return { id: candidates[0].id };
+  if (candidates.length > 1) {
+    return { error: `instrument "${raw}" is ambiguous: ${candidates.map((c) => c.name).join(', ')}` };
+  }
+  return { error: `unknown instrument "${raw}"` };
+}
+
+/**
+ * Validate and convert parsed rows (header first) into transactions. Files with a
+ * portfolio column (full exports) must name a single portfolio, or `portfolio` picks
+ * which one's rows are imported.
+ */
+export function buildPreviewRows(
+  table: string[][],
+  mapping: ColumnMapping,
+  instrumentList: Pick<Instrument, 'id' | 'name'>[],
+  portfolio?: string
+): { columns: ColumnMapping; rows: PreviewRow[] } {
+  const [header = [], ...body] = table;
+  const columnIndexes = detectColumns(header, mapping);
+  const columns: ColumnMapping = Object.fromEntries(
+    Object.entries(columnIndexes).map(([field, index]) => [field, header[index]])
+  );
+
+  const missing = (['instrument', 'quantity', 'date'] as ImportField[]).filter((f) => columnIndexes[f] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`VALIDATION_ERROR: Could not find column(s) for ${missing.join(', ')}; pass a mapping`);
+  }
+
+  // toCsv'nin formül kaçışı geri alınır
+  const cell = (cells: string[], field: ImportField) => {
+    const index = columnIndexes[field];
+    const value = index === undefined ? '' : (cells[index] ?? '').trim();
+    return value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value;
+  };
+
+  const portfolioKey = portfolio !== undefined ? normalizeKey(portfolio) : undefined;
+  if (portfolioKey === undefined && columnIndexes.portfolio !== undefined) {
+    const names = [...new Set(body.map((cells) => cell(cells, 'portfolio')).filter((name) => name !== ''))];
+    if (names.length > 1) {
+      throw new Error(`VALIDATION_ERROR: File contains ${names.length} portfolios (${names.join(', ')}); pass portfolio to pick one`);
+    }
+  }
+
+  const rows: PreviewRow[] = [];
+  body.forEach((cells, i) => {
+    if (cells.every((c) => c.trim() === '')) return;
+    if (portfolioKey !== undefined && normalizeKey(cell(cells, 'portfolio')) !== portfolioKey) return;
+
+    const errors: string[] = [];
+    const line = i + 2;
+
+    const instrument = resolveInstrument(cell(cells, 'instrument'), instrumentList);
+    if ('error' in instrument) errors.push(instrument.error);
+
+    const type = parseTransactionType(cell(cells, 'type'));
+    if (!type) errors.push(`unknown transaction type "${cell(cells, 'type')}"`);
+
+    const tradeDate = parseTradeDate(cell(cells, 'date'));
+    if (!tradeDate) errors.push(`invalid date "${cell(cells, 'date')}"`);
+
+    const numberField = (field: ImportField, required: boolean, positive = false) => {
+      const raw = cell(cells, field);
+      if (raw === '') {
+        if (required) errors.push(`${field} is required`);
+        return 0;
+      }
+      const value = parseDecimal(raw);
+      if (value === null || value < 0 || (positive && value === 0)) {
+        errors.push(`invalid ${field} "${raw}"`);
+        return 0;
+      }
+      return value;
+    };
+
+    const quantity = numberField('quantity', type !== 'fee', type !== 'fee');
+    const price = numberField('price', type === 'buy' || type === 'sell' || type === 'transfer_in');
+    const fee = numberField('fee', type === 'fee');
+
+    const description = cell(cells, 'description');
+    const valid = errors.length === 0;
+
+    rows.push({
+      line,
+      valid,
+      errors,
+      transaction: valid && 'id' in instrument
+        ? {
+            instrumentId: instrument.id,
+            type: type!,
+            quantity: String(quantity),
+            price: String(price),
+            fee: String(fee),
+            tradeDate: tradeDate!,
+            description: description ? description.slice(0, 30) : undefined,
+          }
+        : null,
+    });
+  });
+
+  return { columns, rows };
+}
+
+/**
+ * Check that existing + imported transactions replay without oversells
+ */
+export function checkImportedLedger(existing: LedgerTransaction[], imported: ImportRow[], method: CostMethod): string[] {
+  const base = Date.now();
+  const incoming: LedgerTransaction[] = imported.map((row, i) => ({
+    id: `import-${i}`,
+    instrumentId: row.instrumentId,
+    type: row.type,
+    quantity: Number(row.quantity),
+    price: Number(row.price),
+    fee: Number(row.fee),
+    tradeDate: row.tradeDate,
+    createdAt: new Date(base + i),
+  }));
+
+  const errors: string[] = [];
+  for (const instrumentId of new Set(incoming.map((t) => t.instrumentId))) {
+    try {
+      computePosition(instrumentId, [...existing, ...incoming].filter((t) => t.instrumentId === instrumentId), method);
+    } catch (error: any) {
+      errors.push(String(error?.message ?? error).replace('VALIDATION_ERROR: ', ''));
+    }
+  }
+  return errors;
+}
+
+/**
+ * Spreadsheet import into a portfolio's ledger: every row is validated and previewed,
+ * and nothing is written unless all rows are valid
+ */
+export class PortfolioImportService {
+  private portfolioService = new PortfolioService();
+  private accessService = new PortfolioAccessService();
+
+  async preview(
+    portfolioId: string,
+    userId: string,
+    table: string[][],
+    mapping: ColumnMapping = {},
+    sourcePortfolio?: string
+  ): Promise<ImportPreview | null> {
+    const portfolio = await this.accessService.authorize(portfolioId, userId, 'editor');
+    if (!portfolio) return null;
+
+    const existing = await db.query.portfolioTransactions.findMany({
+      where: eq(portfolioTransactions.portfolioId, portfolioId),
+    });
+
+    if (table.length - 1 > MAX_IMPORT_ROWS) {
+      throw new Error(`VALIDATION_ERROR: Import is limited to ${MAX_IMPORT_ROWS} rows`);
+    }
+
+    const instrumentList = await db.query.instruments.findMany({ columns: { id: true, name: true } });
+    const { columns, rows } = buildPreviewRows(table, mapping, instrumentList, sourcePortfolio);
+
+    const imported = rows.filter((r) => r.transaction).map((r) => r.transaction!);
+    const ledgerErrors = checkImportedLedger(existing.map(toLedgerTransaction), imported, portfolio.costMethod as CostMethod);
+    const valid = rows.filter((r) => r.valid).length;
+
+    return {
+      columns,
+      rows,
+      ledgerErrors,
+      summary: { total: rows.length, valid, invalid: rows.length - valid },
+    };
+  }
+
+  /**
+   * Preview, then insert all rows in one database transaction when the preview is clean
+   */
+  async import(portfolioId: string, userId: string, table: string[][], mapping: ColumnMapping = {}, sourcePortfolio?: string) {
+    const preview = await this.preview(portfolioId, userId, table, mapping, sourcePortfolio);
+    if (!preview) return null;
+
+    if (preview.summary.total === 0) {
+      throw new Error('VALIDATION_ERROR: No rows to import');
+    }
+    if (preview.summary.invalid > 0 || preview.ledgerErrors.length > 0) {
+      return { committed: false, imported: 0, preview };
+    }
+
+    const transactions = await this.portfolioService.importTransactions(
+      portfolioId,
+      userId,
+      preview.rows.map((r) => r.transaction!)
+    );
+
+    return { committed: true, imported: transactions?.length ?? 0, preview };
+  }
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Davet yanıtı: findFirst + tek transaction; yazılanlar kaydedilir
+const { db, state } = vi.hoisted(() => {
+  const state = {
+    invitation: undefined as Record<string, unknown> | undefined,
+    updates: [] as unknown[],
+    inserts: [] as unknown[],
+    transactions: 0,
+  };
+
+  const tx = {
+    update: () => ({ set: (values: unknown) => ({ where: async () => { state.updates.push(values); } }) }),
+    insert: () => ({ values: (values: unknown) => ({ onConflictDoNothing: async () => { state.inserts.push(values); } }) }),
+  };
+
+  const db = {
+    query: { portfolioInvitations: { findFirst: async () => state.invitation } },
+    transaction: async (callback: (t: typeof tx) => Promise<unknown>) => {
+      state.transactions++;
+      return callback(tx);
+    },
+  };
+
+  return { db, state };
+});
+
+vi.mock('../config/database', () => ({ db }));
+
+import { PortfolioMemberService } from './portfolio-member.service';
+
+describe('PortfolioMemberService.respond', () => {
+  const service = new PortfolioMemberService();
+  const invitee = { id: 'u2', email: 'Ayse@Example.com', emailVerified: true };
+
+  beforeEach(() => {
+    state.invitation = { id: 'inv1', portfolioId: 'p1', email: 'ayse@example.com', role: 'viewer', status: 'pending' };
+    state.updates = [];
+    state.inserts = [];
+    state.transactions = 0;
+  });
+
+  it('should add the invitee as a member with the invited role', async () => {
+    await expect(service.respond('inv1', invitee, true)).resolves.toEqual({ portfolioId: 'p1', status: 'accepted' });
+
+    expect(state.updates).toEqual([expect.objectContaining({ status: 'accepted' })]);
+    expect(state.inserts).toEqual([{ portfolioId: 'p1', userId: 'u2', role: 'viewer' }]);
+  });
+
+  it('should not add a member when declining', async () => {
+    await expect(service.respond('inv1', invitee, false)).resolves.toEqual({ portfolioId: 'p1', status: 'declined' });
+    expect(state.inserts).toEqual([]);
+  });
+
+  it('should refuse accounts whose email is not verified', async () => {
+    await expect(service.respond('inv1', { ...invitee, emailVerified: false }, true)).rejects.toThrow(/^FORBIDDEN:/);
+    expect(state.transactions).toBe(0);
+  });
+
+  it('should return null when no pending invitation matches', async () => {
+    state.invitation = undefined;
+    await expect(service.respond('inv1', invitee, true)).resolves.toBeNull();
+    expect(state.transactions).toBe(0);
+  });
+
+  it('should hide invitations from unverified accounts', async () => {
+    await expect(service.getMyInvitations({ ...invitee, emailVerified: false })).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,220 @@
+import { db } from '../config/database';
+import { portfolios, portfolioMembers, portfolioInvitations, users } from '../db/schema';
+import { eq, and, asc } from 'drizzle-orm';
+import { PortfolioAccessService, type PortfolioRole } from './portfolio-access.service';
+import type { AuthUser } from '../middleware/auth';
+import { logger } from '../utils/logger';
+
+// Davetle verilebilecek roller; owner yalnızca devirle değişir
+export type InvitableRole = Exclude<PortfolioRole, 'owner'>;
+
+export const INVITABLE_ROLES: InvitableRole[] = ['editor', 'viewer'];
+
+/**
+ * Portfolio sharing: members, email invitations and ownership transfer
+ */
+export class PortfolioMemberService {
+  private accessService = new PortfolioAccessService();
+
+  async getMembers(portfolioId: string, userId: string) {
+    const portfolio = await this.accessService.authorize(portfolioId, userId, 'viewer');
+    if (!portfolio) return null;
+
+    return db
+      .select({
+        userId: portfolioMembers.userId,
+        email: users.email,
+        displayName: users.displayName,
+        role: portfolioMembers.role,
+        joinedAt: portfolioMembers.createdAt,
+      })
+      .from(portfolioMembers)
+      .innerJoin(users, eq(users.id, portfolioMembers.userId))
+      .where(eq(portfolioMembers.portfolioId, portfolioId))
+      .orderBy(asc(portfolioMembers.createdAt));
+  }
+
+  async invite(portfolioId: string, userId: string, email: string, role: InvitableRole) {
+    const portfolio = await this.accessService.authorize(portfolioId, userId, 'owner');
+    if (!portfolio) return null;
+
+    const normalizedEmail = email.trim().toLowerCase();
+
+    const invitee = await db.query.users.findFirst({ where: eq(users.email, normalizedEmail) });
+    if (invitee) {
+      const existing = await db.query.portfolioMembers.findFirst({
+        where: and(eq(portfolioMembers.portfolioId, portfolioId), eq(portfolioMembers.userId, invitee.id)),
+      });
+      if (existing) throw new Error('VALIDATION_ERROR: This user is already a member of the portfolio');
+    }
+
+    const pending = await db.query.portfolioInvitations.findFirst({
+      where: and(
+        eq(portfolioInvitations.portfolioId, portfolioId),
+        eq(portfolioInvitations.email, normalizedEmail),
+        eq(portfolioInvitations.status, 'pending')
+      ),
+    });
+    if (pending) throw new Error('VALIDATION_ERROR: An invitation for this email is already pending');
+
+    const [invitation] = await db.insert(portfolioInvitations).values({
+      portfolioId,
+      email: normalizedEmail,
+      role,
+      invitedBy: userId,
+    }).returning();
+
+    logger.info({ portfolioId, invitationId: invitation.id, role }, 'Portfolio invitation created');
+    return invitation;
+  }
+
+  async getInvitations(portfolioId: string, userId: string) {
+    const portfolio = await this.accessService.authorize(portfolioId, userId, 'owner');
+    if (!portfolio) return null;
+
+    return db.query.portfolioInvitations.findMany({
+      where: and(eq(portfolioInvitations.portfolioId, portfolioId), eq(portfolioInvitations.status, 'pending')),
+      orderBy: asc(portfolioInvitations.createdAt),
+    });
+  }
+
+  async revokeInvitation(portfolioId: string, invitationId: string, userId: string) {
+    const portfolio = await this.accessService.authorize(portfolioId, userId, 'owner');
+    if (!portfolio) return false;
+
+    const [revoked] = await db.update(portfolioInvitations)
+      .set({ status: 'revoked', respondedAt: new Date() })
+      .where(and(
+        eq(portfolioInvitations.id, invitationId),
+        eq(portfolioInvitations.portfolioId, portfolioId),
+        eq(portfolioInvitations.status, 'pending')
+      ))
+      .returning({ id: portfolioInvitations.id });
+
+    return !!revoked;
+  }
+
+  /**
+   * Pending invitations addressed to the signed-in user's email; none until that email is
+   * verified, since anyone can register an unverified account for an invitee's address
+   */
+  async getMyInvitations(user: AuthUser) {
+    if (!user.emailVerified) return [];
+
+    return db
+      .select({
+        id: portfolioInvitations.id,
+        portfolioId: portfolioInvitations.portfolioId,
+        portfolioName: portfolios.name,
+        portfolioType: portfolios.type,
+        role: portfolioInvitations.role,
+        invitedBy: users.email,
+        createdAt: portfolioInvitations.createdAt,
+      })
+      .from(portfolioInvitations)
+      .innerJoin(portfolios, eq(portfolios.id, portfolioInvitations.portfolioId))
+      .innerJoin(users, eq(users.id, portfolioInvitations.invitedBy))
+      .where(and(eq(portfolioInvitations.email, user.email.toLowerCase()), eq(portfolioInvitations.status, 'pending')))
+      .orderBy(asc(portfolioInvitations.createdAt));
+  }
+
+  /**
+   * Accept or decline an invitation; null when it is not pending for this user's email.
+   * Throws FORBIDDEN while the email is unverified.
+   */
+  async respond(invitationId: string, user: AuthUser, accept: boolean) {
+    if (!user.emailVerified) {
+      throw new Error('FORBIDDEN: Verify your email address to answer portfolio invitations');
+    }
+
+    const invitation = await db.query.portfolioInvitations.findFirst({
+      where: and(
+        eq(portfolioInvitations.id, invitationId),
+        eq(portfolioInvitations.email, user.email.toLowerCase()),
+        eq(portfolioInvitations.status, 'pending')
+      ),
+    });
+    if (!invitation) return null;
+
+    await db.transaction(async (tx) => {
+      await tx.update(portfolioInvitations)
+        .set({ status: accept ? 'accepted' : 'declined', respondedAt: new Date() })
+        .where(eq(portfolioInvitations.id, invitationId));
+
+      if (accept) {
+        await tx.insert(portfolioMembers)
+          .values({ portfolioId: invitation.portfolioId, userId: user.id, role: invitation.role })
+          .onConflictDoNothing();
+      }
+    });
+
+    logger.info({ invitationId, portfolioId: invitation.portfolioId, accept }, 'Portfolio invitation answered');
+    return { portfolioId: invitation.portfolioId, status: accept ? 'accepted' : 'declined' };
+  }
+
+  async updateMemberRole(portfolioId: string, memberUserId: string, userId: string, role: InvitableRole) {
+    const portfolio = await this.accessService.authorize(portfolioId, userId, 'owner');
+    if (!portfolio) return null;
+
+    if (memberUserId === portfolio.userId) {
+      throw new Error('VALIDATION_ERROR: The owner role can only change through an ownership transfer');
+    }
+
+    const [updated] = await db.update(portfolioMembers)
+      .set({ role, updatedAt: new Date() })
+      .where(and(eq(portfolioMembers.portfolioId, portfolioId), eq(portfolioMembers.userId, memberUserId)))
+      .returning();
+
+    return updated ?? null;
+  }
+
+  /**
+   * Owners remove members; any other member may remove themselves (leave)
+   */
+  async removeMember(portfolioId: string, memberUserId: string, userId: string) {
+    const leaving = memberUserId === userId;
+    const portfolio = await this.accessService.authorize(portfolioId, userId, leaving ? 'viewer' : 'owner');
+    if (!portfolio) return false;
+
+    if (memberUserId === portfolio.userId) {
+      throw new Error('VALIDATION_ERROR: The owner cannot leave; transfer ownership or delete the portfolio');
+    }
+
+    const [deleted] = await db.delete(portfolioMembers)
+      .where(and(eq(portfolioMembers.portfolioId, portfolioId), eq(portfolioMembers.userId, memberUserId)))
+      .returning({ userId: portfolioMembers.userId });
+
+    return !!deleted;
+  }
+
+  /**
+   * Hand the portfolio to another member; the previous owner stays on as editor
+   */
+  async transferOwnership(portfolioId: string, newOwnerId: string, userId: string) {
+    const portfolio = await this.accessService.authorize(portfolioId, userId, 'owner');
+    if (!portfolio) return null;
+
+    if (newOwnerId === userId) throw new Error('VALIDATION_ERROR: You already own this portfolio');
+
+    const target = await db.query.portfolioMembers.findFirst({
+      where: and(eq(portfolioMembers.portfolioId, portfolioId), eq(portfolioMembers.userId, newOwnerId)),
+    });
+    if (!target) throw new Error('VALIDATION_ERROR: The new owner must already be a member');
+
+    await db.transaction(async (tx) => {
+      const now = new Date();
+      await tx.update(portfolioMembers)
+        .set({ role: 'owner', updatedAt: now })
+        .where(and(eq(portfolioMembers.portfolioId, portfolioId), eq(portfolioMembers.userId, newOwnerId)));
+      await tx.update(portfolioMembers)
+        .set({ role: 'editor', updatedAt: now })
+        .where(and(eq(portfolioMembers.portfolioId, portfolioId), eq(portfolioMembers.userId, userId)));
+      await tx.update(portfolios)
+        .set({ userId: newOwnerId, updatedAt: now })
+        .where(eq(portfolios.id, portfolioId));
+    });
+
+    logger.info({ portfolioId, from: userId, to: newOwnerId }, 'Portfolio ownership transferred');
+    return { portfolioId, ownerId: newOwnerId };
+  }
+}
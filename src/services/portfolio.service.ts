@@ -1,6 +1,22 @@
 import { db } from '../config/database';
-import { portfolios, portfolioHoldings, latestQuotes, instruments } from '../db/schema';
-import { eq, and, inArray } from 'drizzle-orm';
+import { portfolios, portfolioMembers, portfolioTransactions, latestQuotes, instruments } from '../db/schema';
+import type { PortfolioTransaction, Instrument, LatestQuote } from '../db/schema';
+import { eq, and, inArray, desc } from 'drizzle-orm';
+import {
+  computePosition,
+  computePositions,
+  toLedgerTransaction,
+  type CostMethod,
+  type LedgerTransaction,
+  type Position,
+  type TransactionType,
+} from './ledger.service';
+import { PortfolioHistoryService, addDays } from './portfolio-history.service';
+import { CurrencyService, RATE_LOOKBACK_DAYS, convertAmount, type FxRates, type HistoricalRates, type ReportingCurrency } from './currency.service';
+import { istanbulDate } from './rollup.service';
+import { CpiService, type CpiIndex } from './cpi.service';
+import { DebtService, type DebtView } from './debt.service';
+import { PortfolioAccessService } from './portfolio-access.service';
 import { logger } from '../utils/logger';
 
 type CreatePortfolioInput = {
@@ -10,7 +26,10 @@ type CreatePortfolioInput = {
   color?: string;
 };
 
-type UpdatePortfolioInput = Partial<Pick<CreatePortfolioInput, 'name' | 'icon' | 'color'>> & { sortOrder?: number };
+type UpdatePortfolioInput = Partial<Pick<CreatePortfolioInput, 'name' | 'icon' | 'color'>> & {
+  sortOrder?: number;
+  costMethod?: CostMethod;
+};
 
 type CreateHoldingInput = {
   instrumentId: string;
@@ -22,64 +41,183 @@ type CreateHoldingInput = {
 
 type UpdateHoldingInput = Partial<CreateHoldingInput>;
 
+type CreateTransactionInput = {
+  instrumentId: string;
+  type: TransactionType;
+  quantity: string;
+  price: string;
+  fee?: string;
+  tradeDate: string;
+  description?: string;
+};
+
+type UpdateTransactionInput = Partial<CreateTransactionInput>;
+
+// Holding = açık alış lotu (buy / transfer_in işlemi)
+const LOT_TYPES: TransactionType[] = ['buy', 'transfer_in'];
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+type MarketData = {
+  quoteMap: Map<string, LatestQuote>;
+  instrumentMap: Map<string, Instrument>;
+  latestRates: FxRates;
+  historicalRates: HistoricalRates;
+};
+
+type ValuedPosition = {
+  position: Position; // instrument's quote currency
+  quoteCurrency: string;
+  currentPrice: number;
+  currentValue: number;
+  converted: Position | null; // reporting currency, trade-date rates
+  convertedValue: number | null;
+};
+
+type PortfolioValuation = {
+  positions: ValuedPosition[];
+  totalValue: number; // reporting currency
+  totalCostBasis: number;
+  realizedProfitLoss: number;
+  nativeValues: Record<string, number>; // current value per quote currency
+  unconverted: string[];
+  oversoldTransactionIds: string[]; // ledger rows that sell more than was held (see assertLedgerValid)
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Gram altın cinsinden tutarlar 4 hane
+function roundAmount(value: number, currency: ReportingCurrency): number {
+  const factor = currency === 'GRAM' ? 10000 : 100;
+  return Math.round(value * factor) / factor;
+}
+
+function roundNativeValues(values: Record<string, number>): Record<string, number> {
+  return Object.fromEntries(Object.entries(values).map(([code, value]) => [code, round2(value)]));
+}
+
+// Eski holdings API'si ile aynı şekil
+function toHolding(row: PortfolioTransaction) {
+  return {
+    id: row.id,
+    portfolioId: row.portfolioId,
+    instrumentId: row.instrumentId,
+    quantity: row.quantity,
+    purchasePrice: row.price,
+    purchaseDate: row.tradeDate,
+    description: row.description,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * Remaining debt records of a borc portfolio in the reporting currency
+ */
+function valueDebts(views: DebtView[], currency: ReportingCurrency, rates: FxRates) {
+  const summary = {
+    count: views.length,
+    openCount: 0,
+    overdueCount: 0,
+    remainingValue: 0,
+    overdueValue: 0,
+    nextDueDate: null as string | null,
+    nativeValues: {} as Record<string, number>,
+    unconverted: [] as string[],
+  };
+
+  for (const view of views) {
+    if (view.settled) continue;
+    summary.openCount++;
+    if (view.overdue) summary.overdueCount++;
+    if (view.nextDueDate && (!summary.nextDueDate || view.nextDueDate < summary.nextDueDate)) {
+      summary.nextDueDate = view.nextDueDate;
+    }
+
+    const remaining = view.remainingTry !== null ? convertAmount(view.remainingTry, 'TRY', currency, rates) : null;
+    const overdue = view.overdueTry !== null ? convertAmount(view.overdueTry, 'TRY', currency, rates) : null;
+    if (remaining === null || view.remainingNative === null) {
+      summary.unconverted.push(view.unit);
+      continue;
+    }
+
+    summary.remainingValue += remaining;
+    summary.overdueValue += overdue ?? 0;
+    summary.nativeValues[view.quoteCurrency] = (summary.nativeValues[view.quoteCurrency] ?? 0) + view.remainingNative;
+  }
+
+  return summary;
+}
+
+function currentPriceOf(quote: LatestQuote | undefined): number {
+  return quote?.buy ? parseFloat(quote.buy) : parseFloat(quote?.price ?? '0');
+}
+
 export class PortfolioService {
-  async getPortfolios(userId: string) {
-    const userPortfolios = await db.query.portfolios.findMany({
-      where: eq(portfolios.userId, userId),
-      orderBy: portfolios.sortOrder,
-    });
+  private historyService = new PortfolioHistoryService();
+  private currencyService = new CurrencyService();
+  private cpiService = new CpiService();
+  private debtService = new DebtService();
+  private accessService = new PortfolioAccessService();
+
+  async getPortfolios(userId: string, currencyOverride?: ReportingCurrency) {
+    const currency = currencyOverride ?? await this.currencyService.getUserCurrency(userId);
+
+    const userPortfolios = await this.accessService.getPortfolios(userId);
 
     if (userPortfolios.length === 0) {
-      return { portfolios: [], summary: { totalValue: 0, totalSavings: 0, totalDebts: 0 } };
+      return { portfolios: [], summary: { currency, totalValue: 0, totalSavings: 0, totalDebts: 0, overdueDebtCount: 0, nativeValues: {} } };
     }
 
-    // Get all holdings for all portfolios
+    // Get all transactions for all portfolios
     const portfolioIds = userPortfolios.map((p) => p.id);
-    const allHoldings = await db.query.portfolioHoldings.findMany({
-      where: inArray(portfolioHoldings.portfolioId, portfolioIds),
+    const allTransactions = await db.query.portfolioTransactions.findMany({
+      where: inArray(portfolioTransactions.portfolioId, portfolioIds),
     });
 
-    // Get current prices for all instruments in holdings
-    const instrumentIds = [...new Set(allHoldings.map((h) => h.instrumentId))];
-    const currentQuotes = instrumentIds.length > 0
-      ? await db.query.latestQuotes.findMany({
-          where: inArray(latestQuotes.instrumentId, instrumentIds),
-        })
-      : [];
-
-    const instrumentData = instrumentIds.length > 0
-      ? await db.query.instruments.findMany({
-          where: inArray(instruments.id, instrumentIds),
-        })
-      : [];
+    const members = await db.query.portfolioMembers.findMany({
+      where: inArray(portfolioMembers.portfolioId, portfolioIds),
+      columns: { portfolioId: true },
+    });
 
-    const quoteMap = new Map(currentQuotes.map((q) => [q.instrumentId, q]));
-    const instrumentMap = new Map(instrumentData.map((i) => [i.id, i]));
+    const market = await this.loadMarketData(allTransactions);
+    const debtViews = await this.debtService.getDebtViews(
+      userPortfolios.filter((p) => p.type === 'borc').map((p) => p.id),
+      market.latestRates
+    );
 
     let totalSavings = 0;
     let totalDebts = 0;
+    let overdueDebtCount = 0;
+    const netNativeValues: Record<string, number> = {};
 
     const enrichedPortfolios = userPortfolios.map((portfolio) => {
-      const holdings = allHoldings.filter((h) => h.portfolioId === portfolio.id);
-      let totalValue = 0;
-      let totalProfitLoss = 0;
-
-      for (const holding of holdings) {
-        const quote = quoteMap.get(holding.instrumentId);
-        const currentPrice = quote?.buy ? parseFloat(quote.buy) : parseFloat(quote?.price ?? '0');
-        const qty = parseFloat(holding.quantity);
-        const purchPrice = parseFloat(holding.purchasePrice);
-
-        const currentValue = currentPrice * qty;
-        const costBasis = purchPrice * qty;
-        totalValue += currentValue;
-        totalProfitLoss += currentValue - costBasis;
+      const rows = allTransactions.filter((t) => t.portfolioId === portfolio.id);
+      const valuation = this.valuePortfolio(rows, portfolio.costMethod as CostMethod, currency, market);
+      const totalProfitLoss = valuation.totalValue - valuation.totalCostBasis;
+      const sign = portfolio.type === 'birikim' ? 1 : -1;
+
+      // Borç kayıtlarının kalan tutarı, defterdeki varlıklara eklenir
+      const debts = portfolio.type === 'borc'
+        ? valueDebts(debtViews.get(portfolio.id) ?? [], currency, market.latestRates)
+        : null;
+      if (debts) {
+        valuation.totalValue += debts.remainingValue;
+        valuation.unconverted.push(...debts.unconverted);
+        for (const [code, value] of Object.entries(debts.nativeValues)) {
+          valuation.nativeValues[code] = (valuation.nativeValues[code] ?? 0) + value;
+        }
+        overdueDebtCount += debts.overdueCount;
       }
 
       if (portfolio.type === 'birikim') {
-        totalSavings += totalValue;
+        totalSavings += valuation.totalValue;
       } else {
-        totalDebts += totalValue;
+        totalDebts += valuation.totalValue;
+      }
+
+      for (const [code, value] of Object.entries(valuation.nativeValues)) {
+        netNativeValues[code] = (netNativeValues[code] ?? 0) + sign * value;
       }
 
       return {
@@ -89,182 +227,619 @@ export class PortfolioService {
         icon: portfolio.icon,
         color: portfolio.color,
         sortOrder: portfolio.sortOrder,
-        holdingCount: holdings.length,
-        totalValue: Math.round(totalValue * 100) / 100,
-        totalProfitLoss: Math.round(totalProfitLoss * 100) / 100,
-        totalProfitLossPercent: totalValue > 0 ? Math.round(((totalProfitLoss / (totalValue - totalProfitLoss)) * 100) * 100) / 100 : 0,
+        costMethod: portfolio.costMethod,
+        role: portfolio.role,
+        memberCount: members.filter((m) => m.portfolioId === portfolio.id).length,
+        currency,
+        holdingCount: valuation.positions.reduce((sum, p) => sum + p.position.openLots.length, 0),
+        totalValue: roundAmount(valuation.totalValue, currency),
+        totalProfitLoss: roundAmount(totalProfitLoss, currency),
+        totalProfitLossPercent: valuation.totalCostBasis > 0 ? round2((totalProfitLoss / valuation.totalCostBasis) * 100) : 0,
+        realizedProfitLoss: roundAmount(valuation.realizedProfitLoss, currency),
+        nativeValues: roundNativeValues(valuation.nativeValues),
+        unconvertedInstruments: valuation.unconverted,
+        debts: debts
+          ? {
+              count: debts.count,
+              openCount: debts.openCount,
+              overdue: debts.overdueCount > 0,
+              overdueCount: debts.overdueCount,
+              overdueValue: roundAmount(debts.overdueValue, currency),
+              remainingValue: roundAmount(debts.remainingValue, currency),
+              nextDueDate: debts.nextDueDate,
+            }
+          : null,
       };
     });
 
     return {
       portfolios: enrichedPortfolios,
       summary: {
-        totalValue: Math.round((totalSavings - totalDebts) * 100) / 100,
-        totalSavings: Math.round(totalSavings * 100) / 100,
-        totalDebts: Math.round(totalDebts * 100) / 100,
+        currency,
+        totalValue: roundAmount(totalSavings - totalDebts, currency),
+        totalSavings: roundAmount(totalSavings, currency),
+        totalDebts: roundAmount(totalDebts, currency),
+        overdueDebtCount,
+        nativeValues: roundNativeValues(netNativeValues),
       },
     };
   }
 
-  async getPortfolioDetail(portfolioId: string, userId: string) {
-    const portfolio = await db.query.portfolios.findFirst({
-      where: and(eq(portfolios.id, portfolioId), eq(portfolios.userId, userId)),
-    });
-
+  /**
+   * Portfolio detail: per-instrument positions (realized + unrealized P/L under the portfolio's
+   * cost method) and the open purchase lots that make them up. Position fields are in the
+   * instrument's quote currency; totals and `converted` are in the reporting currency.
+   * `real` (TÜFE-adjusted P/L) is only reported for TRY. Borc portfolios also list their
+   * debt records, whose remaining amounts are included in `totalValue`.
+   */
+  async getPortfolioDetail(portfolioId: string, userId: string, currencyOverride?: ReportingCurrency) {
+    const portfolio = await this.accessService.authorize(portfolioId, userId, 'viewer');
     if (!portfolio) return null;
 
-    const holdings = await db.query.portfolioHoldings.findMany({
-      where: eq(portfolioHoldings.portfolioId, portfolioId),
-    });
-
-    const instrumentIds = [...new Set(holdings.map((h) => h.instrumentId))];
-    const currentQuotes = instrumentIds.length > 0
-      ? await db.query.latestQuotes.findMany({
-          where: inArray(latestQuotes.instrumentId, instrumentIds),
-        })
-      : [];
-
-    const instrumentData = instrumentIds.length > 0
-      ? await db.query.instruments.findMany({
-          where: inArray(instruments.id, instrumentIds),
-        })
-      : [];
-
-    const quoteMap = new Map(currentQuotes.map((q) => [q.instrumentId, q]));
-    const instrumentMap = new Map(instrumentData.map((i) => [i.id, i]));
+    const currency = currencyOverride ?? await this.currencyService.getUserCurrency(userId);
 
-    let totalValue = 0;
-    let totalProfitLoss = 0;
+    const rows = await db.query.portfolioTransactions.findMany({
+      where: eq(portfolioTransactions.portfolioId, portfolioId),
+    });
 
-    const enrichedHoldings = holdings.map((holding) => {
-      const quote = quoteMap.get(holding.instrumentId);
-      const instrument = instrumentMap.get(holding.instrumentId);
-      const currentPrice = quote?.buy ? parseFloat(quote.buy) : parseFloat(quote?.price ?? '0');
-      const qty = parseFloat(holding.quantity);
-      const purchPrice = parseFloat(holding.purchasePrice);
+    const costMethod = portfolio.costMethod as CostMethod;
+    const market = await this.loadMarketData(rows);
+    const valuation = this.valuePortfolio(rows, costMethod, currency, market);
 
-      const currentValue = currentPrice * qty;
-      const costBasis = purchPrice * qty;
-      const profitLoss = currentValue - costBasis;
+    let totalFees = 0;
 
-      totalValue += currentValue;
-      totalProfitLoss += profitLoss;
+    const enrichedPositions = valuation.positions.map(({ position, quoteCurrency, currentPrice, currentValue, converted, convertedValue }) => {
+      const unrealizedProfitLoss = currentValue - position.costBasis;
+      if (converted) totalFees += converted.fees;
 
       return {
-        id: holding.id,
-        instrumentId: holding.instrumentId,
-        instrumentName: instrument?.name ?? holding.instrumentId,
-        quantity: holding.quantity,
-        purchasePrice: holding.purchasePrice,
-        currentPrice: String(Math.round(currentPrice * 100) / 100),
-        currentValue: Math.round(currentValue * 100) / 100,
-        profitLoss: Math.round(profitLoss * 100) / 100,
-        profitLossPercent: costBasis > 0 ? Math.round((profitLoss / costBasis) * 10000) / 100 : 0,
-        purchaseDate: holding.purchaseDate,
-        description: holding.description,
+        instrumentId: position.instrumentId,
+        instrumentName: market.instrumentMap.get(position.instrumentId)?.name ?? position.instrumentId,
+        quoteCurrency,
+        quantity: position.quantity.toFixed(6),
+        averageCost: position.averageCost.toFixed(6),
+        currentPrice: String(round2(currentPrice)),
+        costBasis: round2(position.costBasis),
+        currentValue: round2(currentValue),
+        unrealizedProfitLoss: round2(unrealizedProfitLoss),
+        unrealizedProfitLossPercent: position.costBasis > 0 ? round2((unrealizedProfitLoss / position.costBasis) * 100) : 0,
+        realizedProfitLoss: round2(position.realizedProfitLoss),
+        fees: round2(position.fees),
+        converted: converted && convertedValue !== null
+          ? {
+              currentValue: roundAmount(convertedValue, currency),
+              costBasis: roundAmount(converted.costBasis, currency),
+              unrealizedProfitLoss: roundAmount(convertedValue - converted.costBasis, currency),
+              realizedProfitLoss: roundAmount(converted.realizedProfitLoss, currency),
+            }
+          : null,
       };
     });
 
+    const holdings = valuation.positions.flatMap((valued) => this.enrichLots(valued, currency, market));
+    const unrealizedProfitLoss = valuation.totalValue - valuation.totalCostBasis;
+    const real = currency === 'TRY' ? this.realReturns(valuation, await this.cpiService.loadIndex()) : null;
+
+    const debtViews = portfolio.type === 'borc'
+      ? (await this.debtService.getDebtViews([portfolioId], market.latestRates)).get(portfolioId) ?? []
+      : [];
+    const debts = valueDebts(debtViews, currency, market.latestRates);
+    valuation.totalValue += debts.remainingValue;
+    valuation.unconverted.push(...debts.unconverted);
+    for (const [code, value] of Object.entries(debts.nativeValues)) {
+      valuation.nativeValues[code] = (valuation.nativeValues[code] ?? 0) + value;
+    }
+
     return {
       id: portfolio.id,
       name: portfolio.name,
       type: portfolio.type,
       icon: portfolio.icon,
       color: portfolio.color,
+      costMethod,
+      role: portfolio.role,
+      currency,
       holdingCount: holdings.length,
-      totalValue: Math.round(totalValue * 100) / 100,
-      totalProfitLoss: Math.round(totalProfitLoss * 100) / 100,
-      totalProfitLossPercent: totalValue > 0 ? Math.round(((totalProfitLoss / (totalValue - totalProfitLoss)) * 100) * 100) / 100 : 0,
-      holdings: enrichedHoldings,
+      totalValue: roundAmount(valuation.totalValue, currency),
+      totalCostBasis: roundAmount(valuation.totalCostBasis, currency),
+      totalProfitLoss: roundAmount(unrealizedProfitLoss, currency),
+      totalProfitLossPercent: valuation.totalCostBasis > 0 ? round2((unrealizedProfitLoss / valuation.totalCostBasis) * 100) : 0,
+      unrealizedProfitLoss: roundAmount(unrealizedProfitLoss, currency),
+      realizedProfitLoss: roundAmount(valuation.realizedProfitLoss, currency),
+      totalFees: roundAmount(totalFees, currency),
+      nativeValues: roundNativeValues(valuation.nativeValues),
+      unconvertedInstruments: valuation.unconverted,
+      oversoldTransactionIds: valuation.oversoldTransactionIds,
+      real,
+      positions: enrichedPositions.filter((p) => parseFloat(p.quantity) > 0 || p.realizedProfitLoss !== 0 || p.fees !== 0),
+      holdings,
+      debts: portfolio.type === 'borc'
+        ? debtViews.map((view) => {
+            const convertedRemaining = view.remainingTry !== null
+              ? convertAmount(view.remainingTry, 'TRY', currency, market.latestRates)
+              : null;
+            return { ...view, convertedRemaining: convertedRemaining !== null ? roundAmount(convertedRemaining, currency) : null };
+          })
+        : null,
     };
   }
 
   async createPortfolio(userId: string, input: CreatePortfolioInput) {
-    const [portfolio] = await db.insert(portfolios).values({
-      userId,
-      name: input.name,
-      type: input.type,
-      icon: input.icon || '💰',
-      color: input.color || '#C6A15B',
-    }).returning();
+    const portfolio = await db.transaction(async (tx) => {
+      const [inserted] = await tx.insert(portfolios).values({
+        userId,
+        name: input.name,
+        type: input.type,
+        icon: input.icon || '💰',
+        color: input.color || '#C6A15B',
+      }).returning();
+
+      await tx.insert(portfolioMembers).values({ portfolioId: inserted.id, userId, role: 'owner' });
+      return inserted;
+    });
 
     logger.info({ portfolioId: portfolio.id, userId }, 'Portfolio created');
     return portfolio;
   }
 
   async updatePortfolio(portfolioId: string, userId: string, input: UpdatePortfolioInput) {
-    const [updated] = await db.update(portfolios)
-      .set({ ...input, updatedAt: new Date() })
-      .where(and(eq(portfolios.id, portfolioId), eq(portfolios.userId, userId)))
-      .returning();
+    const portfolio = await this.accessService.authorize(portfolioId, userId, 'editor');
+    if (!portfolio) return null;
+
+    const updated = await db.transaction(async (tx) => {
+      const [row] = await tx.update(portfolios)
+        .set({ ...input, updatedAt: new Date() })
+        .where(eq(portfolios.id, portfolioId))
+        .returning();
+
+      // Maliyet yöntemi değişince tüm geçmiş değerler yeniden hesaplanmalı
+      if (row && input.costMethod !== undefined) {
+        await this.historyService.invalidate(portfolioId, undefined, tx);
+      }
+      return row;
+    });
 
     return updated ?? null;
   }
 
   async deletePortfolio(portfolioId: string, userId: string) {
+    const portfolio = await this.accessService.authorize(portfolioId, userId, 'owner');
+    if (!portfolio) return false;
+
     const [deleted] = await db.delete(portfolios)
-      .where(and(eq(portfolios.id, portfolioId), eq(portfolios.userId, userId)))
+      .where(eq(portfolios.id, portfolioId))
       .returning({ id: portfolios.id });
 
     return !!deleted;
   }
 
+  // Holdings API: alış işlemlerinin eski şekliyle gösterimi
+
   async addHolding(portfolioId: string, userId: string, input: CreateHoldingInput) {
-    // Verify portfolio belongs to user
-    const portfolio = await db.query.portfolios.findFirst({
-      where: and(eq(portfolios.id, portfolioId), eq(portfolios.userId, userId)),
+    const transaction = await this.addTransaction(portfolioId, userId, {
+      instrumentId: input.instrumentId,
+      type: 'buy',
+      quantity: input.quantity,
+      price: input.purchasePrice,
+      tradeDate: input.purchaseDate,
+      description: input.description,
     });
 
-    if (!portfolio) return null;
+    return transaction ? toHolding(transaction) : null;
+  }
 
-    const [holding] = await db.insert(portfolioHoldings).values({
-      portfolioId,
+  async updateHolding(portfolioId: string, holdingId: string, userId: string, input: UpdateHoldingInput) {
+    const transaction = await this.updateTransaction(portfolioId, holdingId, userId, {
       instrumentId: input.instrumentId,
       quantity: input.quantity,
-      purchasePrice: input.purchasePrice,
-      purchaseDate: input.purchaseDate,
-      description: input.description?.slice(0, 30) || null,
-    }).returning();
+      price: input.purchasePrice,
+      tradeDate: input.purchaseDate,
+      description: input.description,
+    }, LOT_TYPES);
 
-    logger.info({ holdingId: holding.id, portfolioId }, 'Holding added');
-    return holding;
+    return transaction ? toHolding(transaction) : null;
   }
 
-  async updateHolding(portfolioId: string, holdingId: string, userId: string, input: UpdateHoldingInput) {
-    // Verify portfolio belongs to user
-    const portfolio = await db.query.portfolios.findFirst({
-      where: and(eq(portfolios.id, portfolioId), eq(portfolios.userId, userId)),
+  async deleteHolding(portfolioId: string, holdingId: string, userId: string) {
+    return this.deleteTransaction(portfolioId, holdingId, userId, LOT_TYPES);
+  }
+
+  // Transactions API
+
+  async getTransactions(portfolioId: string, userId: string, instrumentId?: string) {
+    const portfolio = await this.accessService.authorize(portfolioId, userId, 'viewer');
+    if (!portfolio) return null;
+
+    const conditions = [eq(portfolioTransactions.portfolioId, portfolioId)];
+    if (instrumentId) conditions.push(eq(portfolioTransactions.instrumentId, instrumentId));
+
+    return db.query.portfolioTransactions.findMany({
+      where: and(...conditions),
+      orderBy: [desc(portfolioTransactions.tradeDate), desc(portfolioTransactions.createdAt)],
     });
+  }
 
+  /**
+   * Record a transaction. Sells/transfers that exceed the held quantity are rejected
+   * with a VALIDATION_ERROR.
+   */
+  async addTransaction(portfolioId: string, userId: string, input: CreateTransactionInput) {
+    const portfolio = await this.accessService.authorize(portfolioId, userId, 'editor');
     if (!portfolio) return null;
 
+    const transaction = await db.transaction(async (tx) => {
+      await this.lockPortfolio(tx, portfolioId);
+      const [inserted] = await tx.insert(portfolioTransactions).values({
+        portfolioId,
+        instrumentId: input.instrumentId,
+        type: input.type,
+        quantity: input.quantity,
+        price: input.price,
+        fee: input.fee ?? '0',
+        tradeDate: input.tradeDate,
+        description: input.description?.slice(0, 30) || null,
+      }).returning();
+
+      await this.assertLedgerValid(tx, portfolioId, [input.instrumentId], portfolio.costMethod as CostMethod);
+      await this.historyService.invalidate(portfolioId, inserted.tradeDate, tx);
+      return inserted;
+    });
+
+    logger.info({ transactionId: transaction.id, portfolioId, type: transaction.type }, 'Transaction added');
+    return transaction;
+  }
+
+  async updateTransaction(
+    portfolioId: string,
+    transactionId: string,
+    userId: string,
+    input: UpdateTransactionInput,
+    allowedTypes?: TransactionType[]
+  ) {
+    const portfolio = await this.accessService.authorize(portfolioId, userId, 'editor');
+    if (!portfolio) return null;
+
+    const existing = await this.findTransaction(portfolioId, transactionId, allowedTypes);
+    if (!existing) return null;
+
     const updateData: Record<string, unknown> = { updatedAt: new Date() };
+    if (input.instrumentId !== undefined) updateData.instrumentId = input.instrumentId;
+    if (input.type !== undefined) updateData.type = input.type;
     if (input.quantity !== undefined) updateData.quantity = input.quantity;
-    if (input.purchasePrice !== undefined) updateData.purchasePrice = input.purchasePrice;
-    if (input.purchaseDate !== undefined) updateData.purchaseDate = input.purchaseDate;
+    if (input.price !== undefined) updateData.price = input.price;
+    if (input.fee !== undefined) updateData.fee = input.fee;
+    if (input.tradeDate !== undefined) updateData.tradeDate = input.tradeDate;
     if (input.description !== undefined) updateData.description = input.description?.slice(0, 30) || null;
-    if (input.instrumentId !== undefined) updateData.instrumentId = input.instrumentId;
 
-    const [updated] = await db.update(portfolioHoldings)
-      .set(updateData)
-      .where(and(eq(portfolioHoldings.id, holdingId), eq(portfolioHoldings.portfolioId, portfolioId)))
-      .returning();
+    const updated = await db.transaction(async (tx) => {
+      await this.lockPortfolio(tx, portfolioId);
+      const [row] = await tx.update(portfolioTransactions)
+        .set(updateData)
+        .where(and(eq(portfolioTransactions.id, transactionId), eq(portfolioTransactions.portfolioId, portfolioId)))
+        .returning();
+
+      // Hem eski hem yeni enstrüman defteri tutarlı kalmalı
+      await this.assertLedgerValid(
+        tx,
+        portfolioId,
+        [...new Set([existing.instrumentId, row.instrumentId])],
+        portfolio.costMethod as CostMethod
+      );
+      await this.historyService.invalidate(
+        portfolioId,
+        existing.tradeDate < row.tradeDate ? existing.tradeDate : row.tradeDate,
+        tx
+      );
+      return row;
+    });
 
-    return updated ?? null;
+    return updated;
   }
 
-  async deleteHolding(portfolioId: string, holdingId: string, userId: string) {
-    // Verify portfolio belongs to user
-    const portfolio = await db.query.portfolios.findFirst({
-      where: and(eq(portfolios.id, portfolioId), eq(portfolios.userId, userId)),
+  async deleteTransaction(portfolioId: string, transactionId: string, userId: string, allowedTypes?: TransactionType[]) {
+    const portfolio = await this.accessService.authorize(portfolioId, userId, 'editor');
+    if (!portfolio) return false;
+
+    const existing = await this.findTransaction(portfolioId, transactionId, allowedTypes);
+    if (!existing) return false;
+
+    await db.transaction(async (tx) => {
+      await this.lockPortfolio(tx, portfolioId);
+      await tx.delete(portfolioTransactions)
+        .where(and(eq(portfolioTransactions.id, transactionId), eq(portfolioTransactions.portfolioId, portfolioId)));
+
+      // Bir alışı silmek sonraki satışları açıkta bırakmamalı
+      await this.assertLedgerValid(tx, portfolioId, [existing.instrumentId], portfolio.costMethod as CostMethod);
+      await this.historyService.invalidate(portfolioId, existing.tradeDate, tx);
     });
 
-    if (!portfolio) return false;
+    return true;
+  }
 
-    const [deleted] = await db.delete(portfolioHoldings)
-      .where(and(eq(portfolioHoldings.id, holdingId), eq(portfolioHoldings.portfolioId, portfolioId)))
-      .returning({ id: portfolioHoldings.id });
+  /**
+   * Insert a batch of transactions atomically (spreadsheet import). Rows keep their order
+   * within a trade date; any oversell rolls the whole batch back.
+   */
+  async importTransactions(portfolioId: string, userId: string, inputs: CreateTransactionInput[]) {
+    const portfolio = await this.accessService.authorize(portfolioId, userId, 'editor');
+    if (!portfolio) return null;
+    if (inputs.length === 0) return [];
+
+    const base = Date.now();
+    const inserted = await db.transaction(async (tx) => {
+      await this.lockPortfolio(tx, portfolioId);
+      const rows = await tx.insert(portfolioTransactions).values(inputs.map((input, i) => ({
+        portfolioId,
+        instrumentId: input.instrumentId,
+        type: input.type,
+        quantity: input.quantity,
+        price: input.price,
+        fee: input.fee ?? '0',
+        tradeDate: input.tradeDate,
+        description: input.description?.slice(0, 30) || null,
+        createdAt: new Date(base + i),
+      }))).returning();
+
+      await this.assertLedgerValid(
+        tx,
+        portfolioId,
+        [...new Set(inputs.map((i) => i.instrumentId))],
+        portfolio.costMethod as CostMethod
+      );
+
+      const firstDate = inputs.reduce((min, input) => (input.tradeDate < min ? input.tradeDate : min), inputs[0].tradeDate);
+      await this.historyService.invalidate(portfolioId, firstDate, tx);
+      return rows;
+    });
 
-    return !!deleted;
+    logger.info({ portfolioId, count: inserted.length }, 'Transactions imported');
+    return inserted;
+  }
+
+  /**
+   * All of a user's portfolios with their ledgers, open holdings and debt records, for CSV/JSON export
+   */
+  async exportPortfolios(userId: string) {
+    const userPortfolios = await this.accessService.getPortfolios(userId);
+
+    const [rows, debtViews] = await Promise.all([
+      userPortfolios.length > 0
+        ? db.query.portfolioTransactions.findMany({
+            where: inArray(portfolioTransactions.portfolioId, userPortfolios.map((p) => p.id)),
+            orderBy: [portfolioTransactions.tradeDate, portfolioTransactions.createdAt],
+          })
+        : [],
+      this.debtService.getDebtViews(userPortfolios.filter((p) => p.type === 'borc').map((p) => p.id)),
+    ]);
+
+    const instrumentIds = [...new Set(rows.map((r) => r.instrumentId))];
+    const instrumentData = instrumentIds.length > 0
+      ? await db.query.instruments.findMany({ where: inArray(instruments.id, instrumentIds) })
+      : [];
+    const names = new Map(instrumentData.map((i) => [i.id, i.name]));
+
+    return userPortfolios.map((portfolio) => {
+      const portfolioRows = rows.filter((r) => r.portfolioId === portfolio.id);
+      const positions = computePositions(portfolioRows.map(toLedgerTransaction), portfolio.costMethod as CostMethod, false);
+
+      return {
+        id: portfolio.id,
+        name: portfolio.name,
+        type: portfolio.type,
+        icon: portfolio.icon,
+        color: portfolio.color,
+        costMethod: portfolio.costMethod,
+        role: portfolio.role,
+        transactions: portfolioRows.map((row) => ({
+          id: row.id,
+          instrumentId: row.instrumentId,
+          instrumentName: names.get(row.instrumentId) ?? row.instrumentId,
+          type: row.type,
+          quantity: row.quantity,
+          price: row.price,
+          fee: row.fee,
+          tradeDate: row.tradeDate,
+          description: row.description,
+        })),
+        holdings: positions.flatMap((position) => position.openLots.map((lot) => ({
+          id: lot.transactionId,
+          instrumentId: position.instrumentId,
+          instrumentName: names.get(position.instrumentId) ?? position.instrumentId,
+          quantity: lot.quantity.toFixed(6),
+          purchasePrice: lot.price.toFixed(6),
+          purchaseDate: lot.tradeDate,
+          description: lot.description,
+        }))),
+        debts: debtViews.get(portfolio.id) ?? [],
+      };
+    });
+  }
+
+  private async findTransaction(portfolioId: string, transactionId: string, allowedTypes?: TransactionType[]) {
+    const conditions = [eq(portfolioTransactions.id, transactionId), eq(portfolioTransactions.portfolioId, portfolioId)];
+    if (allowedTypes) conditions.push(inArray(portfolioTransactions.type, allowedTypes));
+
+    return db.query.portfolioTransactions.findFirst({ where: and(...conditions) });
+  }
+
+  /**
+   * Serialize ledger writes of a portfolio: concurrent sells would otherwise both pass
+   * assertLedgerValid at READ COMMITTED. Must be the first statement of the transaction.
+   */
+  private async lockPortfolio(tx: DbTransaction, portfolioId: string) {
+    await tx.select({ id: portfolios.id }).from(portfolios).where(eq(portfolios.id, portfolioId)).for('update');
+  }
+
+  /**
+   * Replay the ledger after a write; throws VALIDATION_ERROR (rolling back the write)
+   * if any sell/transfer-out would exceed the held quantity
+   */
+  private async assertLedgerValid(tx: DbTransaction, portfolioId: string, instrumentIds: string[], costMethod: CostMethod) {
+    for (const instrumentId of instrumentIds) {
+      const rows = await tx.query.portfolioTransactions.findMany({
+        where: and(eq(portfolioTransactions.portfolioId, portfolioId), eq(portfolioTransactions.instrumentId, instrumentId)),
+      });
+      computePosition(instrumentId, rows.map(toLedgerTransaction), costMethod);
+    }
+  }
+
+  private async loadMarketData(rows: PortfolioTransaction[]): Promise<MarketData> {
+    const instrumentIds = [...new Set(rows.map((r) => r.instrumentId))];
+    const currentQuotes = instrumentIds.length > 0
+      ? await db.query.latestQuotes.findMany({
+          where: inArray(latestQuotes.instrumentId, instrumentIds),
+        })
+      : [];
+
+    const instrumentData = instrumentIds.length > 0
+      ? await db.query.instruments.findMany({
+          where: inArray(instruments.id, instrumentIds),
+        })
+      : [];
+
+    // İşlem tarihindeki kurlar maliyetin çevrimi için
+    const latestRates = await this.currencyService.getLatestRates();
+    const today = istanbulDate(Math.floor(Date.now() / 1000));
+    const firstTradeDate = rows.reduce((min, row) => (row.tradeDate < min ? row.tradeDate : min), today);
+    const historicalRates = await this.currencyService.getHistoricalRates(
+      addDays(firstTradeDate, -RATE_LOOKBACK_DAYS),
+      today,
+      latestRates
+    );
+
+    return {
+      quoteMap: new Map(currentQuotes.map((q) => [q.instrumentId, q])),
+      instrumentMap: new Map(instrumentData.map((i) => [i.id, i])),
+      latestRates,
+      historicalRates,
+    };
+  }
+
+  /**
+   * Value a portfolio's ledger in the reporting currency. Each instrument's ledger is replayed
+   * twice: in its quote currency, and with prices/fees converted at trade-date FX rates so
+   * cost basis and realized P/L include the currency effect. Instruments without a usable
+   * rate are left out of the totals and listed in `unconverted`.
+   */
+  private valuePortfolio(rows: PortfolioTransaction[], method: CostMethod, currency: ReportingCurrency, market: MarketData): PortfolioValuation {
+    const ledger = rows.map(toLedgerTransaction);
+    const valuation: PortfolioValuation = {
+      positions: [],
+      totalValue: 0,
+      totalCostBasis: 0,
+      realizedProfitLoss: 0,
+      nativeValues: {},
+      unconverted: [],
+      oversoldTransactionIds: [],
+    };
+
+    // Okuma yolu bozuk bir defterde 500 dönmemeli; fazla satışlar elde tutulan miktarla sınırlanır
+    for (const position of computePositions(ledger, method, false)) {
+      valuation.oversoldTransactionIds.push(...position.oversoldTransactionIds);
+      const quoteCurrency = market.instrumentMap.get(position.instrumentId)?.quoteCurrency ?? 'TRY';
+      const currentPrice = currentPriceOf(market.quoteMap.get(position.instrumentId));
+      const currentValue = position.quantity * currentPrice;
+
+      valuation.nativeValues[quoteCurrency] = (valuation.nativeValues[quoteCurrency] ?? 0) + currentValue;
+
+      const instrumentLedger = ledger.filter((t) => t.instrumentId === position.instrumentId);
+      const convertedLedger: LedgerTransaction[] = [];
+      for (const tx of instrumentLedger) {
+        const rate = convertAmount(1, quoteCurrency, currency, market.historicalRates.on(tx.tradeDate));
+        if (rate === null) break;
+        convertedLedger.push({ ...tx, price: tx.price * rate, fee: tx.fee * rate });
+      }
+
+      const converted = convertedLedger.length === instrumentLedger.length
+        ? computePosition(position.instrumentId, convertedLedger, method, false)
+        : null;
+
+      const convertedValue = convertAmount(currentValue, quoteCurrency, currency, market.latestRates);
+
+      if (converted && convertedValue !== null) {
+        valuation.totalValue += convertedValue;
+        valuation.totalCostBasis += converted.costBasis;
+        valuation.realizedProfitLoss += converted.realizedProfitLoss;
+      } else {
+        valuation.unconverted.push(position.instrumentId);
+      }
+
+      valuation.positions.push({ position, quoteCurrency, currentPrice, currentValue, converted, convertedValue });
+    }
+
+    if (valuation.oversoldTransactionIds.length > 0) {
+      logger.warn({ transactionIds: valuation.oversoldTransactionIds }, 'Portfolio ledger sells more than it holds');
+    }
+
+    return valuation;
+  }
+
+  /**
+   * Inflation-adjusted P/L: each open lot's TRY cost is restated in today's purchasing power
+   * with TÜFE. For average cost the position's cost basis is scaled by the same lot mix.
+   */
+  private realReturns(valuation: PortfolioValuation, cpi: CpiIndex) {
+    if (cpi.isEmpty) return null;
+
+    const today = istanbulDate(Math.floor(Date.now() / 1000));
+    let costBasis = 0;
+    let realCostBasis = 0;
+
+    for (const { converted } of valuation.positions) {
+      if (!converted) continue;
+
+      let lotCost = 0;
+      let adjustedLotCost = 0;
+      for (const lot of converted.openLots) {
+        const cost = lot.quantity * lot.unitCost;
+        lotCost += cost;
+        adjustedLotCost += cost * (cpi.factor(lot.tradeDate, today) ?? 1);
+      }
+
+      costBasis += converted.costBasis;
+      realCostBasis += lotCost > 0 ? converted.costBasis * (adjustedLotCost / lotCost) : 0;
+    }
+
+    const profitLoss = valuation.totalValue - realCostBasis;
+
+    return {
+      basePeriod: cpi.latestPeriod,
+      costBasis: round2(realCostBasis),
+      profitLoss: round2(profitLoss),
+      profitLossPercent: realCostBasis > 0 ? round2((profitLoss / realCostBasis) * 100) : 0,
+      inflationPercent: costBasis > 0 ? round2((realCostBasis / costBasis - 1) * 100) : 0,
+    };
+  }
+
+  private enrichLots(valued: ValuedPosition, currency: ReportingCurrency, market: MarketData) {
+    const { position, quoteCurrency, currentPrice } = valued;
+    const instrumentName = market.instrumentMap.get(position.instrumentId)?.name ?? position.instrumentId;
+
+    return position.openLots.map((lot) => {
+      const currentValue = currentPrice * lot.quantity;
+      const costBasis = lot.unitCost * lot.quantity;
+      const profitLoss = currentValue - costBasis;
+
+      const convertedValue = convertAmount(currentValue, quoteCurrency, currency, market.latestRates);
+      const convertedCost = convertAmount(costBasis, quoteCurrency, currency, market.historicalRates.on(lot.tradeDate));
+
+      return {
+        id: lot.transactionId,
+        instrumentId: position.instrumentId,
+        instrumentName,
+        quoteCurrency,
+        quantity: lot.quantity.toFixed(6),
+        originalQuantity: lot.originalQuantity.toFixed(6),
+        purchasePrice: lot.price.toFixed(6),
+        currentPrice: String(round2(currentPrice)),
+        currentValue: round2(currentValue),
+        profitLoss: round2(profitLoss),
+        profitLossPercent: costBasis > 0 ? round2((profitLoss / costBasis) * 100) : 0,
+        convertedValue: convertedValue !== null ? roundAmount(convertedValue, currency) : null,
+        convertedProfitLoss: convertedValue !== null && convertedCost !== null ? roundAmount(convertedValue - convertedCost, currency) : null,
+        purchaseDate: lot.tradeDate,
+        description: lot.description,
+      };
+    });
   }
 }
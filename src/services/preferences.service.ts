@@ -1,11 +1,12 @@
 import { db } from '../config/database';
-import { userFavorites, userPins } from '../db/schema';
+import { userFavorites, userPins, users } from '../db/schema';
 import { eq, and } from 'drizzle-orm';
 import { logger } from '../utils/logger';
+import type { ReportingCurrency } from './currency.service';
 
 export class PreferencesService {
   async getPreferences(userId: string) {
-    const [favorites, pins] = await Promise.all([
+    const [favorites, pins, user] = await Promise.all([
       db.query.userFavorites.findMany({
         where: eq(userFavorites.userId, userId),
       }),
@@ -13,14 +14,25 @@ export class PreferencesService {
         where: eq(userPins.userId, userId),
         orderBy: userPins.sortOrder,
       }),
+      db.query.users.findFirst({
+        where: eq(users.id, userId),
+        columns: { reportingCurrency: true },
+      }),
     ]);
 
     return {
       favorites: favorites.map((f) => f.instrumentId),
       pins: pins.map((p) => p.instrumentId),
+      reportingCurrency: user?.reportingCurrency ?? 'TRY',
     };
   }
 
+  // Portföy değerlerinin gösterileceği para birimi
+  async setReportingCurrency(userId: string, currency: ReportingCurrency): Promise<void> {
+    await db.update(users).set({ reportingCurrency: currency }).where(eq(users.id, userId));
+    logger.info({ userId, currency }, 'Reporting currency updated');
+  }
+
   async toggleFavorite(userId: string, instrumentId: string): Promise<{ added: boolean }> {
     const existing = await db.query.userFavorites.findFirst({
       where: and(eq(userFavorites.userId, userId), eq(userFavorites.instrumentId, instrumentId)),
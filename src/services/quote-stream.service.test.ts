@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { QuoteStreamService, type QuoteDelta, type StreamClient, type StreamMessage } from './quote-stream.service';
+
+class FakeClient implements StreamClient {
+  messages: StreamMessage[] = [];
+  closed = false;
+
+  send(message: StreamMessage): void {
+    this.messages.push(message);
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+
+  ofType<T extends StreamMessage['type']>(type: T) {
+    return this.messages.filter((m): m is Extract<StreamMessage, { type: T }> => m.type === type);
+  }
+}
+
+function delta(instrumentId: string, category: 'metals' | 'fx', price: number): QuoteDelta {
+  return { instrumentId, category, price, buy: null, sell: null, change24hPercent: null, ts: 1770000000, source: 'test' };
+}
+
+describe('QuoteStreamService', () => {
+  const options = { heartbeatMs: 60000, maxSubscriptions: 3, maxConnections: 2, bufferSize: 3 };
+  let snapshot: QuoteDelta[];
+  let stream: QuoteStreamService;
+
+  beforeEach(() => {
+    snapshot = [delta('gram', 'metals', 3000), delta('USDTRY', 'fx', 38)];
+    stream = new QuoteStreamService(options, async () => snapshot);
+  });
+
+  it('should deliver deltas only to matching subscriptions', () => {
+    const metals = new FakeClient();
+    const gram = new FakeClient();
+    stream.connect(metals)!.subscribe({ categories: ['metals'] });
+    stream.connect(gram)!.subscribe({ instruments: ['gram'] });
+
+    stream.publish([delta('gram', 'metals', 3001), delta('ceyrek', 'metals', 5000), delta('USDTRY', 'fx', 38.1)]);
+
+    expect(metals.ofType('quote').map((m) => m.data.instrumentId)).toEqual(['gram', 'ceyrek']);
+    expect(gram.ofType('quote').map((m) => m.data.instrumentId)).toEqual(['gram']);
+  });
+
+  it('should enforce the per-connection subscription limit', () => {
+    const client = new FakeClient();
+    const connection = stream.connect(client)!;
+
+    expect(connection.subscribe({ instruments: ['gram', 'ceyrek'], categories: ['fx'] })).toBe(true);
+    expect(connection.subscribe({ instruments: ['ata'] })).toBe(false);
+    expect(client.ofType('error')[0].error).toBe('SUBSCRIPTION_LIMIT');
+    // Re-subscribing to existing entries does not count twice
+    expect(connection.subscribe({ instruments: ['gram'] })).toBe(true);
+  });
+
+  it('should refuse connections above capacity', () => {
+    stream.connect(new FakeClient());
+    stream.connect(new FakeClient());
+    const third = new FakeClient();
+
+    expect(stream.connect(third)).toBeNull();
+    expect(third.closed).toBe(true);
+  });
+
+  it('should replay buffered deltas on resume by event id', async () => {
+    stream.publish([delta('gram', 'metals', 3001), delta('gram', 'metals', 3002)]);
+
+    const client = new FakeClient();
+    const connection = stream.connect(client)!;
+    connection.subscribe({ instruments: ['gram'] });
+    await stream.resume(connection, 1, 'id');
+
+    expect(client.ofType('quote').map((m) => m.data.price)).toEqual([3002]);
+    expect(client.ofType('snapshot')).toHaveLength(0);
+  });
+
+  it('should send a snapshot when the buffer no longer covers the gap', async () => {
+    stream.publish([1, 2, 3, 4, 5].map((i) => delta('gram', 'metals', 3000 + i)));
+
+    const client = new FakeClient();
+    const connection = stream.connect(client)!;
+    connection.subscribe({ categories: ['fx'] });
+    await stream.resume(connection, 1, 'id');
+
+    const [message] = client.ofType('snapshot');
+    expect(message.quotes.map((q) => q.instrumentId)).toEqual(['USDTRY']);
+  });
+
+  it('should send a snapshot for event ids from a previous boot', async () => {
+    stream.publish([delta('gram', 'metals', 3001), delta('gram', 'metals', 3002)]);
+
+    const client = new FakeClient();
+    const connection = stream.connect(client)!;
+    connection.subscribe({ instruments: ['gram'] });
+
+    // Önceki süreçten kalan id: yeni süreçteki sayaçla karışmamalı
+    await stream.resumeFromEventId(connection, 'oldboot-1');
+    // Bu süreçte henüz verilmemiş bir id
+    await stream.resume(connection, 40, 'id');
+
+    expect(client.ofType('snapshot')).toHaveLength(2);
+    expect(client.ofType('quote')).toHaveLength(0);
+
+    await stream.resumeFromEventId(connection, stream.eventId(1));
+    expect(client.ofType('quote').map((m) => m.data.price)).toEqual([3002]);
+  });
+
+  it('should handle WebSocket control messages', async () => {
+    const client = new FakeClient();
+    const connection = stream.connect(client)!;
+
+    await connection.handleMessage(JSON.stringify({ action: 'subscribe', instruments: ['gram'] }));
+    await connection.handleMessage(JSON.stringify({ action: 'unsubscribe', instruments: ['gram'] }));
+    await connection.handleMessage('not-json');
+
+    expect(client.ofType('subscribed').map((m) => m.instruments)).toEqual([['gram'], []]);
+    expect(client.ofType('error')[0].error).toBe('VALIDATION_ERROR');
+
+    connection.close();
+    expect(stream.connectionCount).toBe(0);
+  });
+});
@@ -0,0 +1,315 @@
+import { db } from '../config/database';
+import { config } from '../config';
+import type { RateCategory } from '../types/api.types';
+import { logger } from '../utils/logger';
+
+export type QuoteDelta = {
+  instrumentId: string;
+  category: RateCategory;
+  price: number;
+  buy: number | null;
+  sell: number | null;
+  change24hPercent: number | null;
+  ts: number; // quote timestamp (Unix seconds)
+  source: string;
+};
+
+export type StreamMessage =
+  | { type: 'subscribed'; instruments: string[]; categories: RateCategory[] }
+  | { type: 'quote'; id: number; publishedAt: number; data: QuoteDelta }
+  | { type: 'snapshot'; id: number; quotes: QuoteDelta[] }
+  | { type: 'heartbeat'; ts: number }
+  | { type: 'error'; error: string; message: string };
+
+/**
+ * Transport-agnostic client (WebSocket or SSE)
+ */
+export interface StreamClient {
+  send(message: StreamMessage): void;
+  close(): void;
+}
+
+export type SubscriptionRequest = {
+  instruments?: string[];
+  categories?: string[];
+};
+
+export type StreamOptions = {
+  heartbeatMs: number;
+  maxSubscriptions: number;
+  maxConnections: number;
+  bufferSize: number;
+};
+
+type BufferedDelta = { id: number; publishedAt: number; data: QuoteDelta };
+
+const CATEGORIES: RateCategory[] = ['metals', 'fx'];
+
+async function loadLatestSnapshot(): Promise<QuoteDelta[]> {
+  const rows = await db.query.latestQuotes.findMany();
+  const instrumentList = await db.query.instruments.findMany({ columns: { id: true, category: true } });
+  const categoryById = new Map(instrumentList.map((i) => [i.id, i.category as RateCategory]));
+
+  return rows
+    .filter((row) => categoryById.has(row.instrumentId))
+    .map((row) => {
+      const price = parseFloat(row.price);
+      const price24h = row.price24hAgo ? parseFloat(row.price24hAgo) : null;
+      return {
+        instrumentId: row.instrumentId,
+        category: categoryById.get(row.instrumentId)!,
+        price,
+        buy: row.buy ? parseFloat(row.buy) : null,
+        sell: row.sell ? parseFloat(row.sell) : null,
+        change24hPercent: price24h ? ((price - price24h) / price24h) * 100 : null,
+        ts: row.ts,
+        source: row.source,
+      };
+    });
+}
+
+/**
+ * One streaming client and its subscriptions
+ */
+export class StreamConnection {
+  private instruments = new Set<string>();
+  private categories = new Set<RateCategory>();
+
+  constructor(
+    private hub: QuoteStreamService,
+    readonly client: StreamClient,
+    private maxSubscriptions: number
+  ) {}
+
+  get subscriptionCount(): number {
+    return this.instruments.size + this.categories.size;
+  }
+
+  matches(delta: QuoteDelta): boolean {
+    return this.instruments.has(delta.instrumentId) || this.categories.has(delta.category);
+  }
+
+  /**
+   * Add subscriptions; rejected entirely if the per-connection limit would be exceeded
+   */
+  subscribe(request: SubscriptionRequest): boolean {
+    const instruments = (request.instruments ?? []).filter((id) => typeof id === 'string' && id.length > 0 && id.length <= 50);
+    const categories = (request.categories ?? []).filter((c): c is RateCategory => CATEGORIES.includes(c as RateCategory));
+
+    const added =
+      instruments.filter((id) => !this.instruments.has(id)).length +
+      categories.filter((c) => !this.categories.has(c)).length;
+
+    if (this.subscriptionCount + added > this.maxSubscriptions) {
+      this.client.send({
+        type: 'error',
+        error: 'SUBSCRIPTION_LIMIT',
+        message: `Maximum ${this.maxSubscriptions} subscriptions per connection`,
+      });
+      return false;
+    }
+
+    instruments.forEach((id) => this.instruments.add(id));
+    categories.forEach((c) => this.categories.add(c));
+    this.sendSubscribed();
+    return true;
+  }
+
+  unsubscribe(request: SubscriptionRequest): void {
+    (request.instruments ?? []).forEach((id) => this.instruments.delete(id));
+    (request.categories ?? []).forEach((c) => this.categories.delete(c as RateCategory));
+    this.sendSubscribed();
+  }
+
+  /**
+   * Handle a JSON control message from a WebSocket client
+   */
+  async handleMessage(raw: string): Promise<void> {
+    let message: { action?: string; since?: number } & SubscriptionRequest;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      this.client.send({ type: 'error', error: 'VALIDATION_ERROR', message: 'Message must be JSON' });
+      return;
+    }
+
+    switch (message.action) {
+      case 'subscribe':
+        if (this.subscribe(message) && message.since !== undefined) {
+          await this.hub.resume(this, Number(message.since));
+        }
+        break;
+      case 'unsubscribe':
+        this.unsubscribe(message);
+        break;
+      case 'resume':
+        await this.hub.resume(this, Number(message.since));
+        break;
+      default:
+        this.client.send({
+          type: 'error',
+          error: 'VALIDATION_ERROR',
+          message: 'action must be subscribe, unsubscribe, or resume',
+        });
+    }
+  }
+
+  close(): void {
+    this.hub.disconnect(this);
+  }
+
+  private sendSubscribed(): void {
+    this.client.send({ type: 'subscribed', instruments: [...this.instruments], categories: [...this.categories] });
+  }
+}
+
+/**
+ * Fan-out hub for live quote changes (published by RefreshService.updateLatestQuotes).
+ * Keeps a ring buffer of recent deltas so reconnecting clients can resume.
+ */
+export class QuoteStreamService {
+  private connections = new Set<StreamConnection>();
+  private buffer: BufferedDelta[] = [];
+  private nextId = 1;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+
+  // Event ids restart at 1 with every process; SSE ids carry this prefix so a
+  // Last-Event-ID from a previous boot is never mistaken for a current one
+  readonly epoch = Date.now().toString(36);
+
+  constructor(
+    private options: StreamOptions = config.stream,
+    private loadSnapshot: () => Promise<QuoteDelta[]> = loadLatestSnapshot
+  ) {}
+
+  get connectionCount(): number {
+    return this.connections.size;
+  }
+
+  /**
+   * Register a client; returns null when the server is at capacity
+   */
+  connect(client: StreamClient): StreamConnection | null {
+    if (this.connections.size >= this.options.maxConnections) {
+      client.send({ type: 'error', error: 'TOO_MANY_CONNECTIONS', message: 'Stream capacity reached, retry later' });
+      client.close();
+      return null;
+    }
+
+    const connection = new StreamConnection(this, client, this.options.maxSubscriptions);
+    this.connections.add(connection);
+    this.startHeartbeat();
+    return connection;
+  }
+
+  disconnect(connection: StreamConnection): void {
+    this.connections.delete(connection);
+    if (this.connections.size === 0) this.stopHeartbeat();
+  }
+
+  /**
+   * Broadcast changed quotes to matching subscribers
+   */
+  publish(deltas: QuoteDelta[]): void {
+    if (deltas.length === 0) return;
+
+    const publishedAt = Math.floor(Date.now() / 1000);
+
+    for (const data of deltas) {
+      const entry: BufferedDelta = { id: this.nextId++, publishedAt, data };
+      this.buffer.push(entry);
+
+      for (const connection of this.connections) {
+        if (connection.matches(data)) this.safeSend(connection, { type: 'quote', ...entry });
+      }
+    }
+
+    if (this.buffer.length > this.options.bufferSize) {
+      this.buffer.splice(0, this.buffer.length - this.options.bufferSize);
+    }
+  }
+
+  /**
+   * SSE event id for a message id: `<epoch>-<id>`
+   */
+  eventId(id: number): string {
+    return `${this.epoch}-${id}`;
+  }
+
+  /**
+   * Resume an SSE client from its Last-Event-ID; ids from another boot get a snapshot
+   */
+  async resumeFromEventId(connection: StreamConnection, lastEventId: string): Promise<void> {
+    const [epoch, id] = lastEventId.split('-');
+    if (epoch !== this.epoch || !/^\d+$/.test(id ?? '')) {
+      await this.sendSnapshot(connection);
+      return;
+    }
+
+    await this.resume(connection, Number(id), 'id');
+  }
+
+  /**
+   * Replay deltas published at or after `since` (Unix seconds, or the last event id for SSE).
+   * Falls back to a full snapshot when the buffer no longer covers the gap.
+   */
+  async resume(connection: StreamConnection, since: number, by: 'time' | 'id' = 'time'): Promise<void> {
+    if (!Number.isFinite(since)) {
+      this.safeSend(connection, { type: 'error', error: 'VALIDATION_ERROR', message: 'since must be a number' });
+      return;
+    }
+
+    // An id this process has not issued yet cannot be resumed from
+    const oldest = this.buffer[0];
+    const covered = oldest !== undefined && (by === 'id'
+      ? oldest.id <= since + 1 && since < this.nextId
+      : oldest.publishedAt <= since);
+
+    if (covered) {
+      const missed = this.buffer.filter((entry) => (by === 'id' ? entry.id > since : entry.publishedAt >= since));
+      for (const entry of missed) {
+        if (connection.matches(entry.data)) this.safeSend(connection, { type: 'quote', ...entry });
+      }
+      return;
+    }
+
+    await this.sendSnapshot(connection);
+  }
+
+  private async sendSnapshot(connection: StreamConnection): Promise<void> {
+    try {
+      const quotes = (await this.loadSnapshot()).filter((q) => connection.matches(q));
+      this.safeSend(connection, { type: 'snapshot', id: this.nextId - 1, quotes });
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to load stream snapshot');
+      this.safeSend(connection, { type: 'error', error: 'INTERNAL_ERROR', message: 'Failed to load snapshot' });
+    }
+  }
+
+  private safeSend(connection: StreamConnection, message: StreamMessage): void {
+    try {
+      connection.client.send(message);
+    } catch (error) {
+      logger.warn({ err: error }, 'Stream send failed, dropping connection');
+      this.disconnect(connection);
+    }
+  }
+
+  private startHeartbeat(): void {
+    if (this.heartbeatTimer) return;
+
+    this.heartbeatTimer = setInterval(() => {
+      const message: StreamMessage = { type: 'heartbeat', ts: Math.floor(Date.now() / 1000) };
+      for (const connection of this.connections) this.safeSend(connection, message);
+    }, this.options.heartbeatMs);
+    this.heartbeatTimer.unref();
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    this.heartbeatTimer = null;
+  }
+}
+
+// Singleton instance
+export const quoteStream = new QuoteStreamService();
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { validateQuote, getQuoteRule } from './quote-validation.service';
+import type { NormalizedQuote } from './data-sources/truncgil.service';
+
+const now = 1770000000;
+const options = { maxFutureSkewSeconds: 300, maxAgeSeconds: 864000, tickWindowSeconds: 21600 };
+const metalsRule = getQuoteRule('gram', 'metals');
+
+function quote(overrides: Partial<NormalizedQuote> = {}): NormalizedQuote {
+  return { instrumentId: 'gram', ts: now - 60, price: 3000, buy: 2995, sell: 3005, source: 'truncgil', ...overrides };
+}
+
+describe('QuoteValidationService', () => {
+  describe('validateQuote', () => {
+    it('should accept a normal quote', () => {
+      expect(validateQuote(quote(), { price: 2990, ts: now - 900 }, metalsRule, now, options)).toBeNull();
+      expect(validateQuote(quote(), null, metalsRule, now, options)).toBeNull();
+    });
+
+    it('should reject zero, negative or NaN prices', () => {
+      expect(validateQuote(quote({ price: 0 }), null, metalsRule, now, options)?.reason).toBe('NON_POSITIVE_PRICE');
+      expect(validateQuote(quote({ price: NaN }), null, metalsRule, now, options)?.reason).toBe('NON_POSITIVE_PRICE');
+      expect(validateQuote(quote({ buy: -1 }), null, metalsRule, now, options)?.reason).toBe('NON_POSITIVE_PRICE');
+    });
+
+    it('should reject buy above sell but allow missing sides', () => {
+      expect(validateQuote(quote({ buy: 3010, sell: 3000 }), null, metalsRule, now, options)?.reason).toBe('BUY_ABOVE_SELL');
+      expect(validateQuote(quote({ buy: null }), null, metalsRule, now, options)).toBeNull();
+    });
+
+    it('should keep ons within its USD range', () => {
+      const onsRule = getQuoteRule('ons', 'metals');
+      const ons = quote({ instrumentId: 'ons', price: 2650, buy: 2649, sell: 2651 });
+
+      expect(validateQuote(ons, null, onsRule, now, options)).toBeNull();
+      // TRY-denominated value leaking into the USD instrument
+      expect(validateQuote({ ...ons, price: 95000, buy: 94990, sell: 95010 }, null, onsRule, now, options)?.reason).toBe('OUT_OF_RANGE');
+    });
+
+    it('should reject future and stale timestamps', () => {
+      expect(validateQuote(quote({ ts: now + 3600 }), null, metalsRule, now, options)?.reason).toBe('FUTURE_TS');
+      expect(validateQuote(quote({ ts: now - 900000 }), null, metalsRule, now, options)?.reason).toBe('STALE_TS');
+      expect(validateQuote(quote({ ts: now - 600 }), { price: 3000, ts: now - 300 }, metalsRule, now, options)?.reason).toBe('STALE_TS');
+    });
+
+    it('should reject spikes against a recent previous price', () => {
+      // e.g. "3.000,50" parsed as 3.0005 or 30005
+      const spike = quote({ price: 4200, buy: 4195, sell: 4205 });
+      expect(validateQuote(spike, { price: 3000, ts: now - 900 }, metalsRule, now, options)?.reason).toBe('TICK_MOVE');
+    });
+
+    it('should skip the tick check when the previous price is old', () => {
+      const jump = quote({ price: 4200, buy: 4195, sell: 4205 });
+      expect(validateQuote(jump, { price: 3000, ts: now - 86400 }, metalsRule, now, options)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { db } from '../config/database';
+import { config } from '../config';
+import { latestQuotes, rejectedQuotes } from '../db/schema';
+import { DEFAULT_QUOTE_RULES, QUOTE_RULES, type QuoteRule } from '../config/instruments';
+import type { NormalizedQuote } from './data-sources/truncgil.service';
+import type { RateCategory } from '../types/api.types';
+import { inArray } from 'drizzle-orm';
+import { logger } from '../utils/logger';
+
+export type QuoteRejectReason =
+  | 'NON_POSITIVE_PRICE'
+  | 'BUY_ABOVE_SELL'
+  | 'OUT_OF_RANGE'
+  | 'FUTURE_TS'
+  | 'STALE_TS'
+  | 'TICK_MOVE';
+
+export type QuoteRejection = {
+  reason: QuoteRejectReason;
+  detail: string;
+};
+
+export type ValidationOptions = {
+  maxFutureSkewSeconds: number;
+  maxAgeSeconds: number;
+  tickWindowSeconds: number;
+};
+
+type PreviousQuote = { price: number; ts: number };
+
+function isPositive(value: number): boolean {
+  return Number.isFinite(value) && value > 0;
+}
+
+/**
+ * Resolve the effective rule for an instrument (category default + overrides)
+ */
+export function getQuoteRule(instrumentId: string, category: RateCategory): QuoteRule {
+  return { ...DEFAULT_QUOTE_RULES[category], ...QUOTE_RULES[instrumentId] };
+}
+
+/**
+ * Check a single quote. Returns null when it is safe to store.
+ *
+ * @param previous Current latest_quotes row for the instrument, if any
+ * @param now      Unix timestamp (seconds)
+ */
+export function validateQuote(
+  quote: NormalizedQuote,
+  previous: PreviousQuote | null,
+  rule: QuoteRule,
+  now: number,
+  options: ValidationOptions
+): QuoteRejection | null {
+  if (
+    !isPositive(quote.price) ||
+    (quote.buy != null && !isPositive(quote.buy)) ||
+    (quote.sell != null && !isPositive(quote.sell))
+  ) {
+    return { reason: 'NON_POSITIVE_PRICE', detail: `price=${quote.price} buy=${quote.buy} sell=${quote.sell}` };
+  }
+
+  if (quote.buy != null && quote.sell != null && quote.buy > quote.sell) {
+    return { reason: 'BUY_ABOVE_SELL', detail: `buy ${quote.buy} > sell ${quote.sell}` };
+  }
+
+  if ((rule.minPrice != null && quote.price < rule.minPrice) || (rule.maxPrice != null && quote.price > rule.maxPrice)) {
+    return {
+      reason: 'OUT_OF_RANGE',
+      detail: `price ${quote.price} outside [${rule.minPrice ?? '-'}, ${rule.maxPrice ?? '-'}]`,
+    };
+  }
+
+  if (quote.ts > now + options.maxFutureSkewSeconds) {
+    return { reason: 'FUTURE_TS', detail: `ts ${quote.ts} is ${quote.ts - now}s ahead` };
+  }
+
+  if (now - quote.ts > options.maxAgeSeconds) {
+    return { reason: 'STALE_TS', detail: `ts ${quote.ts} is ${now - quote.ts}s old` };
+  }
+
+  if (previous && quote.ts < previous.ts) {
+    return { reason: 'STALE_TS', detail: `ts ${quote.ts} older than stored ${previous.ts}` };
+  }
+
+  if (previous && previous.price > 0 && quote.ts - previous.ts <= options.tickWindowSeconds) {
+    const movePercent = ((quote.price - previous.price) / previous.price) * 100;
+
+    if (Math.abs(movePercent) > rule.maxTickMovePercent) {
+      return {
+        reason: 'TICK_MOVE',
+        detail: `moved ${movePercent.toFixed(2)}% from ${previous.price} (max ${rule.maxTickMovePercent}%)`,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validation pipeline run before quotes are stored.
+ * Rejected quotes are quarantined in rejected_quotes with the reason.
+ */
+export class QuoteValidationService {
+  constructor(private options: ValidationOptions = config.validation) {}
+
+  async filter(
+    category: RateCategory,
+    quotesData: NormalizedQuote[]
+  ): Promise<{ accepted: NormalizedQuote[]; rejectedCount: number }> {
+    if (quotesData.length === 0) return { accepted: [], rejectedCount: 0 };
+
+    const previousRows = await db.query.latestQuotes.findMany({
+      where: inArray(latestQuotes.instrumentId, [...new Set(quotesData.map((q) => q.instrumentId))]),
+    });
+    const previousMap = new Map(
+      previousRows.map((row) => [row.instrumentId, { price: parseFloat(row.price), ts: row.ts }])
+    );
+
+    const now = Math.floor(Date.now() / 1000);
+    const accepted: NormalizedQuote[] = [];
+    const rejected: Array<{ quote: NormalizedQuote; rejection: QuoteRejection; previous: PreviousQuote | null }> = [];
+
+    for (const quote of quotesData) {
+      const previous = previousMap.get(quote.instrumentId) ?? null;
+      const rejection = validateQuote(quote, previous, getQuoteRule(quote.instrumentId, category), now, this.options);
+
+      if (rejection) {
+        rejected.push({ quote, rejection, previous });
+      } else {
+        accepted.push(quote);
+      }
+    }
+
+    if (rejected.length > 0) {
+      logger.warn(
+        {
+          category,
+          rejected: rejected.map(({ quote, rejection }) => ({
+            instrumentId: quote.instrumentId,
+            source: quote.source,
+            reason: rejection.reason,
+          })),
+        },
+        'Quotes rejected by sanity guard'
+      );
+      await this.quarantine(rejected);
+    }
+
+    return { accepted, rejectedCount: rejected.length };
+  }
+
+  /**
+   * Store rejects for inspection; failures here never block the refresh
+   */
+  private async quarantine(
+    rejected: Array<{ quote: NormalizedQuote; rejection: QuoteRejection; previous: PreviousQuote | null }>
+  ): Promise<void> {
+    const toDecimal = (value: number | null) => (value != null && Number.isFinite(value) ? value.toFixed(6) : null);
+
+    try {
+      await db.insert(rejectedQuotes).values(
+        rejected.map(({ quote, rejection, previous }) => ({
+          instrumentId: quote.instrumentId,
+          ts: quote.ts,
+          price: toDecimal(quote.price),
+          buy: toDecimal(quote.buy),
+          sell: toDecimal(quote.sell),
+          source: quote.source,
+          reason: rejection.reason,
+          detail: rejection.detail,
+          previousPrice: previous ? toDecimal(previous.price) : null,
+          rawData: quote.rawData ? JSON.stringify(quote.rawData) : null,
+        }))
+      );
+    } catch (error) {
+      logger.error({ err: error, count: rejected.length }, 'Failed to store rejected quotes');
+    }
+  }
+}
@@ -1,15 +1,21 @@
 import { db } from '../config/database';
 import { quotes, latestQuotes, fetchState } from '../db/schema';
-import { TruncgilService } from './data-sources/truncgil.service';
 import { TcmbService } from './data-sources/tcmb.service';
-import { ExchangeRateService } from './data-sources/exchangerate.service';
 import { HaremalAltinService } from './data-sources/haremaltin.service';
 import { AltinInService } from './data-sources/altinin.service';
-import { HAREMALTIN_ONLY_INSTRUMENTS, HAREMALTIN_MAPPINGS } from '../config/instruments';
+import { createDefaultRegistry } from './data-sources/providers';
+import type { ProviderChainResult } from './data-sources/provider-registry';
+import { ConsensusService } from './consensus.service';
+import { QuoteValidationService } from './quote-validation.service';
+import { RollupService } from './rollup.service';
+import { quoteStream, type QuoteDelta } from './quote-stream.service';
+import { AlertEvaluationService } from './alert-evaluation.service';
+import { DerivedInstrumentService } from './derived-instrument.service';
 import type { NormalizedQuote } from './data-sources/truncgil.service';
+import type { RateCategory } from '../types/api.types';
 import { logger } from '../utils/logger';
 import { config } from '../config';
-import { eq, and, gte, lte, desc, asc, sql } from 'drizzle-orm';
+import { eq, and, gte, lte, desc, asc, sql, inArray } from 'drizzle-orm';
 
 // Instruments to backfill from altin.in (no cf_clearance required)
 const ALTININ_BACKFILL_INSTRUMENTS: Array<{ kur: string; instrumentId: string; banka?: string }> = [
@@ -41,141 +47,129 @@ const BACKFILL_INSTRUMENTS: Array<{ kod: string; instrumentId: string }> = [
 ];
 
 export class RefreshService {
-  private truncgilService = new TruncgilService();
+  private providerRegistry = createDefaultRegistry();
+  private consensusService = new ConsensusService();
+  private quoteValidationService = new QuoteValidationService();
+  private rollupService = new RollupService();
   private tcmbService = new TcmbService();
-  private exchangeRateService = new ExchangeRateService();
   private haremalAltinService = new HaremalAltinService();
   private altinInService = new AltinInService();
+  private alertEvaluationService = new AlertEvaluationService();
+  private derivedInstrumentService = new DerivedInstrumentService();
   private cooldownMs = 10000; // 10 seconds cooldown between refresh attempts
 
   /**
-   * Refresh metals data from Truncgil API + Haremaltin (for instruments not in Truncgil)
+   * Refresh metals data from the configured provider chain (config.providers.metals)
    */
   async refreshMetals(): Promise<{ success: boolean; quotesCount: number }> {
-    const category = 'metals';
-    logger.info('Starting metals refresh...');
-
-    try {
-      // Check cooldown
-      if (!(await this.canRefresh(category))) {
-        logger.warn('Metals refresh attempted too soon, skipping');
-        return { success: false, quotesCount: 0 };
-      }
-
-      // Update attempt timestamp
-      await this.updateFetchState(category, 'in_progress', null);
-
-      // Fetch current data from Truncgil (primary source)
-      const quotesData = await this.truncgilService.fetchMetals();
-
-      if (quotesData.length === 0) {
-        throw new Error('No metals data received from Truncgil');
-      }
-
-      // Fetch Haremaltin-only instruments (eski variants, USD-based, etc.)
-      const cfClearance = config.haremaltin.cfClearance;
-      if (cfClearance) {
-        try {
-          const haremQuotes = await this.haremalAltinService.fetchLatest(
-            HAREMALTIN_ONLY_INSTRUMENTS,
-            cfClearance
-          );
-          if (haremQuotes.length > 0) {
-            quotesData.push(...haremQuotes);
-            logger.info({ count: haremQuotes.length }, 'Haremaltin live quotes fetched');
-          }
-        } catch (error) {
-          logger.warn({ err: error }, 'Haremaltin live fetch failed, continuing with Truncgil data only');
-        }
-      }
-
-      // Store in database
-      await this.storeQuotes(quotesData);
-      await this.updateLatestQuotes(quotesData);
-
-      // Update success state
-      await this.updateFetchState(category, 'success', null);
-
-      logger.info({ count: quotesData.length }, 'Metals refresh completed successfully');
-      return { success: true, quotesCount: quotesData.length };
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-      logger.error({ err: error }, 'Metals refresh failed');
-
-      await this.updateFetchState(category, 'error', errorMsg);
-      return { success: false, quotesCount: 0 };
-    }
+    return this.refreshCategory('metals');
   }
 
   /**
-   * Refresh forex data from TCMB API with fallback to ExchangeRate.host
+   * Refresh forex data from the configured provider chain (config.providers.fx)
    */
   async refreshForex(): Promise<{ success: boolean; quotesCount: number }> {
-    const category = 'fx';
-    logger.info('Starting forex refresh...');
+    return this.refreshCategory('fx');
+  }
+
+  /**
+   * Fetch a category through the provider registry and persist the merged quotes.
+   * The first provider in the chain is primary; later ones fill missing instruments
+   * or take over when earlier providers fail. Derived instruments (DERIVED_INSTRUMENTS)
+   * then fill what no provider returned and cross-check what they did.
+   */
+  private async refreshCategory(category: RateCategory): Promise<{ success: boolean; quotesCount: number }> {
+    const label = category === 'metals' ? 'Metals' : 'Forex';
+    logger.info(`Starting ${label.toLowerCase()} refresh...`);
 
     try {
       // Check cooldown
       if (!(await this.canRefresh(category))) {
-        logger.warn('Forex refresh attempted too soon, skipping');
+        logger.warn(`${label} refresh attempted too soon, skipping`);
         return { success: false, quotesCount: 0 };
       }
 
       // Update attempt timestamp
       await this.updateFetchState(category, 'in_progress', null);
 
-      let quotesData: NormalizedQuote[] = [];
-      let primaryFailed = false;
+      const chainResult = this.usesConsensus(category)
+        ? await this.fetchWithConsensus(category)
+        : await this.providerRegistry.fetchLatest(category);
 
-      // Try primary source: TCMB
-      try {
-        quotesData = await this.tcmbService.fetchFx();
-
-        if (quotesData.length === 0) {
-          throw new Error('No forex data received from TCMB');
-        }
-
-        logger.info({ source: 'tcmb', count: quotesData.length }, 'Forex fetched from primary source');
-      } catch (tcmbError) {
-        primaryFailed = true;
-        logger.warn({ err: tcmbError }, 'TCMB (primary) failed, trying fallback...');
+      const { quotes: fetchedQuotes, servedBy, failedProviders, missingInstruments } = await this.derivedInstrumentService.apply(
+        category,
+        chainResult
+      );
 
-        // Fallback to ExchangeRate.host
-        try {
-          quotesData = await this.exchangeRateService.fetchFx();
+      if (fetchedQuotes.length === 0) {
+        logger.error({ failedProviders }, `All ${label.toLowerCase()} sources failed`);
+        throw new Error(`All ${label.toLowerCase()} sources failed`);
+      }
 
-          if (quotesData.length === 0) {
-            throw new Error('No forex data received from ExchangeRate.host');
-          }
+      // Sanity guard: drop spikes, inversions and bad timestamps before they reach latest_quotes
+      const { accepted: quotesData, rejectedCount } = config.validation.enabled
+        ? await this.quoteValidationService.filter(category, fetchedQuotes)
+        : { accepted: fetchedQuotes, rejectedCount: 0 };
 
-          logger.info({ source: 'exchangerate_host', count: quotesData.length }, 'Forex fetched from fallback source');
-        } catch (fallbackError) {
-          logger.error({ err: fallbackError }, 'All forex sources failed');
-          throw new Error('All forex sources failed');
-        }
+      if (quotesData.length === 0) {
+        logger.error({ rejectedCount }, `All ${label.toLowerCase()} quotes rejected by validation`);
+        await this.updateFetchState(category, 'error', `All ${fetchedQuotes.length} quotes rejected by validation`, rejectedCount);
+        return { success: false, quotesCount: 0 };
       }
 
       // Store in database
       await this.storeQuotes(quotesData);
-      await this.updateLatestQuotes(quotesData);
+      await this.updateRollups(quotesData);
+      await this.updateLatestQuotes(quotesData, category);
+      await this.evaluateAlerts(quotesData);
+
+      // Yedek sağlayıcılar düşen sağlayıcının listesini tamamlayamadıysa çalışma kısmi sayılır
+      if (missingInstruments.length > 0) {
+        const message = `Missing after ${failedProviders.join(', ')} failed: ${missingInstruments.join(', ')}`;
+        await this.updateFetchState(category, 'partial', message, rejectedCount, servedBy);
+        logger.warn(
+          { count: quotesData.length, rejectedCount, failedProviders, missingInstruments },
+          `${label} refresh degraded: fallback sources did not cover all instruments`
+        );
+        return { success: true, quotesCount: quotesData.length };
+      }
 
       // Update success state
-      await this.updateFetchState(category, 'success', null);
+      await this.updateFetchState(category, 'success', null, rejectedCount, servedBy);
 
       logger.info(
-        { count: quotesData.length, usedFallback: primaryFailed },
-        'Forex refresh completed successfully'
+        {
+          count: quotesData.length,
+          rejectedCount,
+          sources: [...new Set(Object.values(servedBy))],
+          usedFallback: failedProviders.length > 0,
+          failedProviders,
+        },
+        `${label} refresh completed successfully`
       );
       return { success: true, quotesCount: quotesData.length };
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-      logger.error({ err: error }, 'Forex refresh failed');
+      logger.error({ err: error }, `${label} refresh failed`);
 
       await this.updateFetchState(category, 'error', errorMsg);
       return { success: false, quotesCount: 0 };
     }
   }
 
+  private usesConsensus(category: RateCategory): boolean {
+    return config.consensus.enabled && config.consensus.categories.includes(category);
+  }
+
+  /**
+   * Query all providers in the chain and merge overlapping instruments by consensus
+   */
+  private async fetchWithConsensus(category: RateCategory): Promise<ProviderChainResult> {
+    const { results, failedProviders } = await this.providerRegistry.fetchAll(category);
+    const { quotes, servedBy } = this.consensusService.merge(results);
+    return { quotes, servedBy, failedProviders, missingInstruments: this.providerRegistry.unservedInstruments(failedProviders, servedBy) };
+  }
+
   /**
    * Backfill 10 years of historical forex data
    * Should only be run once on initial setup
@@ -191,8 +185,9 @@ export class RefreshService {
         return { success: true, quotesCount: 0 };
       }
 
-      // Fetch historical data
-      const historicalQuotes = await this.tcmbService.backfillHistoricalData(years);
+      // Fetch historical data (plus EURUSD etc. derived per day)
+      const tcmbQuotes = await this.tcmbService.backfillHistoricalData(years);
+      const historicalQuotes = [...tcmbQuotes, ...this.derivedInstrumentService.deriveHistory('fx', tcmbQuotes)];
 
       if (historicalQuotes.length === 0) {
         logger.warn('No historical forex data received');
@@ -454,9 +449,15 @@ export class RefreshService {
   }
 
   /**
-   * Update latest_quotes table with current data
+   * Update latest_quotes table with current data and stream changed prices
    */
-  private async updateLatestQuotes(quotesData: NormalizedQuote[]): Promise<void> {
+  private async updateLatestQuotes(quotesData: NormalizedQuote[], category: RateCategory): Promise<void> {
+    const previousRows = await db.query.latestQuotes.findMany({
+      where: inArray(latestQuotes.instrumentId, quotesData.map((q) => q.instrumentId)),
+    });
+    const previousMap = new Map(previousRows.map((row) => [row.instrumentId, row]));
+    const deltas: QuoteDelta[] = [];
+
     for (const quote of quotesData) {
       // Get 24h ago price for comparison
       const ts24hAgo = quote.ts - 24 * 60 * 60; // 24 hours ago
@@ -501,16 +502,65 @@ export class RefreshService {
             updatedAt: sql`NOW()`,
           },
         });
+
+      // Only push real changes to stream subscribers
+      const previous = previousMap.get(quote.instrumentId);
+      const price = quote.price.toFixed(6);
+      const buy = quote.buy ? quote.buy.toFixed(6) : null;
+      const sell = quote.sell ? quote.sell.toFixed(6) : null;
+
+      if (!previous || previous.price !== price || previous.buy !== buy || previous.sell !== sell) {
+        const price24h = quote24h ? parseFloat(quote24h.price) : null;
+        deltas.push({
+          instrumentId: quote.instrumentId,
+          category,
+          price: quote.price,
+          buy: quote.buy,
+          sell: quote.sell,
+          change24hPercent: price24h ? ((quote.price - price24h) / price24h) * 100 : null,
+          ts: quote.ts,
+          source: quote.source,
+        });
+      }
     }
+
+    quoteStream.publish(deltas);
   }
 
   /**
-   * Update fetch state tracking
+   * Keep hourly/daily rollups in step with the quotes table.
+   * Failures are logged; `npm run db:rollups` rebuilds from scratch.
+   */
+  private async updateRollups(quotesData: NormalizedQuote[]): Promise<void> {
+    try {
+      await this.rollupService.updateForQuotes(quotesData);
+    } catch (error) {
+      logger.error({ err: error }, 'Rollup update failed');
+    }
+  }
+
+  /**
+   * Evaluate price alerts against freshly written quotes.
+   * Alert failures are logged but never fail the refresh itself.
+   */
+  private async evaluateAlerts(quotesData: NormalizedQuote[]): Promise<void> {
+    try {
+      await this.alertEvaluationService.evaluateQuotes(quotesData);
+    } catch (error) {
+      logger.error({ err: error }, 'Alert evaluation failed');
+    }
+  }
+
+  /**
+   * Update fetch state tracking. 'partial' stores quotes like 'success' but still counts
+   * as a failure, so a primary that stays down escalates.
    */
   private async updateFetchState(
     category: string,
-    status: 'success' | 'error' | 'in_progress',
-    errorMsg: string | null
+    status: 'success' | 'partial' | 'error' | 'in_progress',
+    errorMsg: string | null,
+    rejectedCount?: number,
+    servedBy?: Record<string, string>
   ): Promise<void> {
     const now = Math.floor(Date.now() / 1000);
 
@@ -519,28 +569,40 @@ export class RefreshService {
     });
 
     const consecutiveFailures =
-      status === 'error'
+      status === 'error' || status === 'partial'
         ? (existingState?.consecutiveFailures ?? 0) + 1
         : 0;
+    const succeeded = status === 'success' || status === 'partial';
+
+    // Rejection counters only change when a run reports them (not on 'in_progress')
+    const rejected = rejectedCount !== undefined
+      ? { rejectedCount, rejectedTotal: (existingState?.rejectedTotal ?? 0) + rejectedCount }
+      : {};
+    // Enstrüman → sağlayıcı eşlemesi sadece başarılı çalışmalarda güncellenir
+    const served = servedBy ? { servedBy: JSON.stringify(servedBy) } : {};
 
     await db
       .insert(fetchState)
       .values({
         key: category,
-        lastSuccessTs: status === 'success' ? now : existingState?.lastSuccessTs ?? null,
+        lastSuccessTs: succeeded ? now : existingState?.lastSuccessTs ?? null,
         lastAttemptTs: now,
         lastStatus: status,
         lastError: errorMsg,
         consecutiveFailures,
+        ...rejected,
+        ...served,
       })
       .onConflictDoUpdate({
         target: fetchState.key,
         set: {
-          lastSuccessTs: status === 'success' ? now : existingState?.lastSuccessTs ?? null,
+          lastSuccessTs: succeeded ? now : existingState?.lastSuccessTs ?? null,
           lastAttemptTs: now,
           lastStatus: status,
           lastError: errorMsg,
           consecutiveFailures,
+          ...rejected,
+          ...served,
           updatedAt: sql`NOW()`,
         },
       });
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// run(): watermark okuma/yazma, enstrüman listesi ve DELETE/UPDATE çağrıları sırayla kaydedilir
+const { db, state } = vi.hoisted(() => {
+  const state = {
+    watermark: undefined as number | undefined,
+    log: [] as string[],
+  };
+
+  const db = {
+    query: {
+      fetchState: { findFirst: async () => (state.watermark !== undefined ? { lastSuccessTs: state.watermark } : undefined) },
+      instruments: { findMany: async () => [{ id: 'gram' }] },
+    },
+    insert: () => ({
+      values: (values: { lastSuccessTs: number }) => ({
+        onConflictDoUpdate: async () => {
+          state.watermark = values.lastSuccessTs;
+          state.log.push(`watermark ${values.lastSuccessTs}`);
+        },
+      }),
+    }),
+    execute: async () => {
+      state.log.push('execute');
+      return { count: 0 };
+    },
+  };
+
+  return { db, state };
+});
+
+vi.mock('../config/database', () => ({ db }));
+
+import { RetentionService, getRetentionCutoffs, rollupEnsureFrom } from './retention.service';
+import type { RollupService } from './rollup.service';
+
+describe('RetentionService', () => {
+  describe('getRetentionCutoffs', () => {
+    // 2026-02-10 11:05:20 UTC
+    const now = Date.parse('2026-02-10T11:05:20Z') / 1000;
+    const day = 86400;
+
+    it('should align cutoffs to hour and Istanbul day boundaries', () => {
+      const cutoffs = getRetentionCutoffs({ rawDays: 90, hourlyDays: 730, rawDataDays: 7 }, now);
+
+      expect(cutoffs.rawBefore).toBe(Date.parse('2025-11-12T11:00:00Z') / 1000);
+      expect(cutoffs.rawBefore % 3600).toBe(0);
+      // Istanbul midnight = 21:00 UTC
+      expect(new Date(cutoffs.hourlyBefore * 1000).toISOString()).toMatch(/T21:00:00/);
+      expect(cutoffs.rawDataBefore).toBe(now - 7 * day);
+    });
+
+    it('should only ensure rollups for the week before the raw cutoff', () => {
+      const cutoffs = getRetentionCutoffs({ rawDays: 90, hourlyDays: 730, rawDataDays: 7 }, now);
+
+      expect(cutoffs.rollupsFrom).toBeGreaterThan(cutoffs.rawBefore - 8 * day);
+      expect(cutoffs.rollupsFrom).toBeLessThanOrEqual(cutoffs.rawBefore - 7 * day);
+      expect(new Date(cutoffs.rollupsFrom * 1000).toISOString()).toMatch(/T21:00:00/);
+    });
+
+    it('should keep at least two days of raw ticks for the 24h lookup', () => {
+      const cutoffs = getRetentionCutoffs({ rawDays: 0, hourlyDays: 0, rawDataDays: 0 }, now);
+
+      expect(now - cutoffs.rawBefore).toBeGreaterThanOrEqual(2 * day);
+      expect(cutoffs.hourlyBefore).toBeLessThanOrEqual(cutoffs.rawBefore);
+    });
+  });
+
+  describe('run', () => {
+    const now = Date.parse('2026-02-10T11:05:20Z') / 1000;
+    const policy = { rawDays: 90, hourlyDays: 730, rawDataDays: 7 };
+    const cutoffs = getRetentionCutoffs(policy, now);
+
+    const rollups = (ensureRange: (from: number, to: number) => Promise<number>) => {
+      return {
+        ensureRange: async (from: number, to: number) => {
+          state.log.push(`ensure ${from}-${to}`);
+          return ensureRange(from, to);
+        },
+      } as unknown as RollupService;
+    };
+
+    beforeEach(() => {
+      state.watermark = undefined;
+      state.log = [];
+    });
+
+    it('should roll up all history before the first compaction', async () => {
+      await new RetentionService(policy, rollups(async () => 0)).run(now);
+
+      expect(state.log.slice(0, 2)).toEqual([`ensure 0-${cutoffs.rawBefore}`, `watermark ${cutoffs.rawBefore}`]);
+      expect(state.log.slice(2).every((entry) => entry === 'execute')).toBe(true);
+    });
+
+    it('should reach back to the watermark when runs were skipped', () => {
+      const stale = cutoffs.rollupsFrom - 30 * 86400;
+      expect(rollupEnsureFrom(cutoffs, stale)).toBe(stale);
+      expect(rollupEnsureFrom(cutoffs, cutoffs.rawBefore - 86400)).toBe(cutoffs.rollupsFrom);
+    });
+
+    it('should not delete ticks older than the catch-up window until their rollups exist', async () => {
+      const failing = rollups(async () => {
+        throw new Error('statement timeout');
+      });
+
+      await expect(new RetentionService(policy, failing).run(now)).rejects.toThrow('statement timeout');
+      expect(state.log).toEqual([`ensure 0-${cutoffs.rawBefore}`]);
+      expect(state.watermark).toBeUndefined();
+
+      await new RetentionService(policy, rollups(async () => 0)).run(now);
+      expect(state.log[1]).toBe(`ensure 0-${cutoffs.rawBefore}`);
+      expect(state.log).toContain('execute');
+    });
+  });
+});
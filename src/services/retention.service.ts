@@ -0,0 +1,166 @@
+import { db } from '../config/database';
+import { config } from '../config';
+import { fetchState } from '../db/schema';
+import { bucketExpression, type CandleInterval } from './candle.service';
+import { RollupService, istanbulDayStart } from './rollup.service';
+import { eq, sql } from 'drizzle-orm';
+import { logger } from '../utils/logger';
+
+const HOUR_SECONDS = 60 * 60;
+const DAY_SECONDS = 24 * HOUR_SECONDS;
+
+// updateLatestQuotes looks up the 24h-ago price in a ±12h window, so at least
+// 36h of raw ticks must survive compaction; two days keeps a safe margin.
+const MIN_RAW_DAYS = 2;
+
+// Each run only newly compacts about one day of ticks; rollups are ensured for a week
+// before the raw cutoff so skipped runs are caught up. Older backfills need `npm run db:rollups`.
+const ROLLUP_CATCHUP_DAYS = 7;
+
+// fetch_state satırı: last_success_ts = bu andan önceki tüm tikler rollup'lara yansıtıldı
+const ROLLUP_WATERMARK_KEY = 'rollup_watermark';
+
+export type RetentionPolicy = {
+  rawDays: number;
+  hourlyDays: number;
+  rawDataDays: number;
+};
+
+export type RetentionCutoffs = {
+  rollupsFrom: number; // catch-up window start; see rollupEnsureFrom
+  rawBefore: number; // ticks older than this are compacted to one row per hour
+  hourlyBefore: number; // rows older than this are compacted to one row per day
+  rawDataBefore: number; // raw_data is stripped from rows older than this
+};
+
+export type RetentionReport = {
+  rollupsCreated: number;
+  compactedHourly: number;
+  compactedDaily: number;
+  rawDataStripped: number;
+};
+
+/**
+ * Compute bucket-aligned cutoffs (Unix seconds) for a retention policy
+ */
+export function getRetentionCutoffs(policy: RetentionPolicy, now: number): RetentionCutoffs {
+  const rawDays = Math.max(policy.rawDays, MIN_RAW_DAYS);
+  const hourlyDays = Math.max(policy.hourlyDays, rawDays);
+
+  // Hour boundary so no hourly bucket is split between raw and compacted data
+  const rawBefore = Math.floor((now - rawDays * DAY_SECONDS) / HOUR_SECONDS) * HOUR_SECONDS;
+
+  return {
+    // Istanbul midnight so the window starts on a daily bucket boundary
+    rollupsFrom: istanbulDayStart(rawBefore - ROLLUP_CATCHUP_DAYS * DAY_SECONDS),
+    rawBefore,
+    // Istanbul midnight, matching daily rollup buckets
+    hourlyBefore: istanbulDayStart(now - hourlyDays * DAY_SECONDS),
+    rawDataBefore: now - Math.max(policy.rawDataDays, 0) * DAY_SECONDS,
+  };
+}
+
+/**
+ * Start of the range whose rollups must be ensured before compacting up to rawBefore.
+ * Without a watermark (first run, or a database from before retention) that is all
+ * history; otherwise the catch-up window, reaching back further when runs were skipped.
+ */
+export function rollupEnsureFrom(cutoffs: RetentionCutoffs, watermark: number | null): number {
+  if (watermark === null) return 0;
+  return Math.min(watermark, cutoffs.rollupsFrom);
+}
+
+/**
+ * Nightly retention for the quotes table.
+ *
+ * Raw ticks are kept for `rawDays`; older data is reduced to the last row per hour
+ * (and per Istanbul day after `hourlyDays`), preferring full-price rows over
+ * altin.in sell-only rows. Full OHLC stays available in the rollup tables, which
+ * are filled for the compacted range first.
+ */
+export class RetentionService {
+  constructor(
+    private policy: RetentionPolicy = config.retention,
+    private rollupService = new RollupService()
+  ) {}
+
+  async run(now: number = Math.floor(Date.now() / 1000)): Promise<RetentionReport> {
+    const cutoffs = getRetentionCutoffs(this.policy, now);
+    logger.info({ cutoffs }, 'Starting quote retention...');
+
+    // Never compact ticks that are not yet reflected in the rollups; a failure here
+    // aborts the run before anything is deleted
+    const watermark = await this.getRollupWatermark();
+    const rollupsCreated = await this.rollupService.ensureRange(rollupEnsureFrom(cutoffs, watermark), cutoffs.rawBefore);
+    await this.setRollupWatermark(Math.max(watermark ?? 0, cutoffs.rawBefore));
+
+    const instrumentIds = (await db.query.instruments.findMany({ columns: { id: true } })).map((i) => i.id);
+
+    const report: RetentionReport = { rollupsCreated, compactedHourly: 0, compactedDaily: 0, rawDataStripped: 0 };
+
+    // One instrument at a time keeps each DELETE small
+    for (const instrumentId of instrumentIds) {
+      report.compactedDaily += await this.compact(instrumentId, '1d', 0, cutoffs.hourlyBefore);
+      report.compactedHourly += await this.compact(instrumentId, '1h', cutoffs.hourlyBefore, cutoffs.rawBefore);
+      report.rawDataStripped += await this.stripRawData(instrumentId, cutoffs.rawDataBefore);
+    }
+
+    logger.info(report, 'Quote retention completed');
+    return report;
+  }
+
+  private async getRollupWatermark(): Promise<number | null> {
+    const state = await db.query.fetchState.findFirst({ where: eq(fetchState.key, ROLLUP_WATERMARK_KEY) });
+    return state?.lastSuccessTs ?? null;
+  }
+
+  private async setRollupWatermark(ts: number): Promise<void> {
+    const now = Math.floor(Date.now() / 1000);
+    await db
+      .insert(fetchState)
+      .values({ key: ROLLUP_WATERMARK_KEY, lastSuccessTs: ts, lastAttemptTs: now, lastStatus: 'success' })
+      .onConflictDoUpdate({
+        target: fetchState.key,
+        set: { lastSuccessTs: ts, lastAttemptTs: now, lastStatus: 'success', updatedAt: sql`NOW()` },
+      });
+  }
+
+  /**
+   * Keep one row per bucket in [from, to): the latest, preferring buy IS NOT NULL
+   */
+  private async compact(instrumentId: string, interval: CandleInterval, from: number, to: number): Promise<number> {
+    if (to <= from) return 0;
+
+    const result = await db.execute(sql`
+      DELETE FROM quotes
+      WHERE id IN (
+        SELECT id FROM (
+          SELECT
+            id,
+            ROW_NUMBER() OVER (
+              PARTITION BY bucket
+              ORDER BY (buy IS NOT NULL) DESC, ts DESC, id DESC
+            ) AS rn
+          FROM (
+            SELECT id, ts, buy, ${bucketExpression(interval)} AS bucket
+            FROM quotes
+            WHERE instrument_id = ${instrumentId} AND ts >= ${from} AND ts < ${to}
+          ) raw
+        ) ranked
+        WHERE rn > 1
+      )
+    `);
+
+    return result.count ?? 0;
+  }
+
+  private async stripRawData(instrumentId: string, before: number): Promise<number> {
+    const result = await db.execute(sql`
+      UPDATE quotes
+      SET raw_data = NULL
+      WHERE instrument_id = ${instrumentId} AND ts < ${before} AND raw_data IS NOT NULL
+    `);
+
+    return result.count ?? 0;
+  }
+}
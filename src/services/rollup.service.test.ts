@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { selectHistoryTier, istanbulDayStart } from './rollup.service';
+
+describe('RollupService', () => {
+  describe('selectHistoryTier', () => {
+    const day = 86400;
+
+    it('should use raw quotes up to 7 days', () => {
+      expect(selectHistoryTier(day)).toBe('raw');
+      expect(selectHistoryTier(7 * day)).toBe('raw');
+    });
+
+    it('should use hourly rollups up to 90 days', () => {
+      expect(selectHistoryTier(7 * day + 1)).toBe('hourly');
+      expect(selectHistoryTier(90 * day)).toBe('hourly');
+    });
+
+    it('should use daily rollups for longer ranges', () => {
+      expect(selectHistoryTier(90 * day + 1)).toBe('daily');
+      expect(selectHistoryTier(5 * 365 * day)).toBe('daily');
+    });
+  });
+
+  describe('istanbulDayStart', () => {
+    it('should return Istanbul midnight (21:00 UTC the previous day)', () => {
+      // 2026-02-10 11:05 UTC → 2026-02-10 00:00 Istanbul = 2026-02-09 21:00 UTC
+      const ts = Date.parse('2026-02-10T11:05:00Z') / 1000;
+      expect(istanbulDayStart(ts)).toBe(Date.parse('2026-02-09T21:00:00Z') / 1000);
+    });
+
+    it('should roll over at Istanbul midnight, not UTC midnight', () => {
+      // 22:30 UTC is already the next day in Istanbul
+      const ts = Date.parse('2026-02-10T22:30:00Z') / 1000;
+      expect(istanbulDayStart(ts)).toBe(Date.parse('2026-02-10T21:00:00Z') / 1000);
+    });
+  });
+});
@@ -0,0 +1,242 @@
+import { db } from '../config/database';
+import { quotes, quoteRollupsHourly, quoteRollupsDaily } from '../db/schema';
+import { bucketExpression } from './candle.service';
+import type { NormalizedQuote } from './data-sources/truncgil.service';
+import { and, eq, gte, lt, lte, asc, desc, inArray, sql, type SQL } from 'drizzle-orm';
+import { logger } from '../utils/logger';
+
+export type RollupTier = 'hourly' | 'daily';
+export type HistoryTier = 'raw' | RollupTier;
+
+const ISTANBUL_OFFSET_SECONDS = 3 * 60 * 60;
+const DAY_SECONDS = 24 * 60 * 60;
+
+// Range thresholds for /v1/history tier selection
+const RAW_MAX_RANGE_SECONDS = 7 * DAY_SECONDS;
+const HOURLY_MAX_RANGE_SECONDS = 90 * DAY_SECONDS;
+
+// Lookback when /v1/history or a rollup series is requested without `from` (otherwise all data ever stored)
+export const DEFAULT_SERIES_LOOKBACK_SECONDS = 5 * 365 * DAY_SECONDS;
+
+const TIERS = {
+  hourly: { table: quoteRollupsHourly, interval: '1h' },
+  daily: { table: quoteRollupsDaily, interval: '1d' },
+} as const;
+
+export type RollupPoint = {
+  ts: number;
+  price: number; // bucket close
+  open: number;
+  high: number;
+  low: number;
+  buy: number | null;
+  sell: number | null;
+  fullPrice: boolean;
+};
+
+/**
+ * Pick the storage tier for a requested range: raw ≤ 7d, hourly ≤ 90d, daily beyond
+ */
+export function selectHistoryTier(rangeSeconds: number): HistoryTier {
+  if (rangeSeconds <= RAW_MAX_RANGE_SECONDS) return 'raw';
+  if (rangeSeconds <= HOURLY_MAX_RANGE_SECONDS) return 'hourly';
+  return 'daily';
+}
+
+export type DailyPrice = { date: string; price: number };
+
+/**
+ * Istanbul calendar date (YYYY-MM-DD) for a Unix timestamp in seconds
+ */
+export function istanbulDate(ts: number): string {
+  return new Date((ts + ISTANBUL_OFFSET_SECONDS) * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * Start of the Istanbul calendar day containing ts (Unix seconds)
+ */
+export function istanbulDayStart(ts: number): number {
+  return Math.floor((ts + ISTANBUL_OFFSET_SECONDS) / DAY_SECONDS) * DAY_SECONDS - ISTANBUL_OFFSET_SECONDS;
+}
+
+/**
+ * Maintains quote_rollups_hourly / quote_rollups_daily from the quotes table
+ */
+export class RollupService {
+  /**
+   * Recompute the buckets touched by freshly stored quotes (called after each refresh).
+   * The whole Istanbul day is recomputed so the daily bucket stays complete.
+   */
+  async updateForQuotes(quotesData: NormalizedQuote[]): Promise<void> {
+    if (quotesData.length === 0) return;
+
+    const instrumentIds = [...new Set(quotesData.map((q) => q.instrumentId))];
+    const from = istanbulDayStart(Math.min(...quotesData.map((q) => q.ts)));
+
+    for (const tier of ['hourly', 'daily'] as const) {
+      await this.upsertTier(tier, and(inArray(quotes.instrumentId, instrumentIds), gte(quotes.ts, from))!);
+    }
+
+    logger.debug({ instruments: instrumentIds.length, from }, 'Quote rollups updated');
+  }
+
+  /**
+   * Rebuild rollups from scratch (after backfills or data fixes), one instrument at a time.
+   * Note: ranges already compacted by RetentionService only have hourly/daily rows left,
+   * so rebuilt OHLC there is coarser than the original.
+   */
+  async rebuild(instrumentIds?: string[]): Promise<{ instruments: number; hourly: number; daily: number }> {
+    const ids = instrumentIds?.length
+      ? instrumentIds
+      : (await db.query.instruments.findMany({ columns: { id: true } })).map((i) => i.id);
+
+    let hourly = 0;
+    let daily = 0;
+
+    for (const instrumentId of ids) {
+      await db.transaction(async (tx) => {
+        await tx.delete(quoteRollupsHourly).where(eq(quoteRollupsHourly.instrumentId, instrumentId));
+        await tx.delete(quoteRollupsDaily).where(eq(quoteRollupsDaily.instrumentId, instrumentId));
+      });
+
+      const where = eq(quotes.instrumentId, instrumentId);
+      const hourlyCount = await this.upsertTier('hourly', where);
+      const dailyCount = await this.upsertTier('daily', where);
+      hourly += hourlyCount;
+      daily += dailyCount;
+
+      logger.info({ instrumentId, hourly: hourlyCount, daily: dailyCount }, 'Rollups rebuilt for instrument');
+    }
+
+    return { instruments: ids.length, hourly, daily };
+  }
+
+  /**
+   * Create rollups for buckets in [from, to) that do not exist yet, leaving existing ones untouched.
+   * Used before compaction so OHLC computed from full tick data is never overwritten.
+   */
+  async ensureRange(from: number, to: number): Promise<number> {
+    const where = and(gte(quotes.ts, from), lt(quotes.ts, to))!;
+    const hourly = await this.upsertTier('hourly', where, 'ignore');
+    const daily = await this.upsertTier('daily', where, 'ignore');
+    return hourly + daily;
+  }
+
+  /**
+   * Read a rollup series, newest first (same order as raw /v1/history). Without `from`
+   * the series starts DEFAULT_SERIES_LOOKBACK_SECONDS before `to` (or now).
+   */
+  async getSeries(tier: RollupTier, instrumentId: string, from?: number, to?: number): Promise<RollupPoint[]> {
+    const table = TIERS[tier].table;
+    const start = from || (to || Math.floor(Date.now() / 1000)) - DEFAULT_SERIES_LOOKBACK_SECONDS;
+    const conditions = [eq(table.instrumentId, instrumentId), gte(table.bucketTs, start)];
+    if (to) conditions.push(lte(table.bucketTs, to));
+
+    const rows = await db.select().from(table).where(and(...conditions)).orderBy(desc(table.bucketTs));
+
+    return rows.map((row) => ({
+      ts: row.bucketTs,
+      price: parseFloat(row.close),
+      open: parseFloat(row.open),
+      high: parseFloat(row.high),
+      low: parseFloat(row.low),
+      buy: row.buyClose ? parseFloat(row.buyClose) : null,
+      sell: row.sellClose ? parseFloat(row.sellClose) : null,
+      fullPrice: row.fullPrice,
+    }));
+  }
+
+  /**
+   * Daily closes per instrument between two Istanbul dates (inclusive), oldest first.
+   * The buy close is preferred, matching how latest quotes value portfolios; `mid`
+   * returns the mid-price close instead.
+   */
+  async getDailyCloses(
+    instrumentIds: string[],
+    from: string,
+    to: string,
+    side: 'buy' | 'mid' = 'buy'
+  ): Promise<Map<string, DailyPrice[]>> {
+    const closes = new Map<string, DailyPrice[]>();
+    if (instrumentIds.length === 0) return closes;
+
+    const fromTs = Date.parse(`${from}T00:00:00Z`) / 1000 - ISTANBUL_OFFSET_SECONDS;
+    const toTs = Date.parse(`${to}T00:00:00Z`) / 1000 - ISTANBUL_OFFSET_SECONDS;
+
+    const rows = await db
+      .select({
+        instrumentId: quoteRollupsDaily.instrumentId,
+        bucketTs: quoteRollupsDaily.bucketTs,
+        close: quoteRollupsDaily.close,
+        buyClose: quoteRollupsDaily.buyClose,
+      })
+      .from(quoteRollupsDaily)
+      .where(and(
+        inArray(quoteRollupsDaily.instrumentId, instrumentIds),
+        gte(quoteRollupsDaily.bucketTs, fromTs),
+        lte(quoteRollupsDaily.bucketTs, toTs)
+      ))
+      .orderBy(asc(quoteRollupsDaily.bucketTs));
+
+    for (const row of rows) {
+      const series = closes.get(row.instrumentId) ?? [];
+      series.push({ date: istanbulDate(row.bucketTs), price: parseFloat(side === 'buy' ? row.buyClose ?? row.close : row.close) });
+      closes.set(row.instrumentId, series);
+    }
+
+    return closes;
+  }
+
+  /**
+   * Aggregate quotes matching `where` into one tier and upsert the buckets.
+   *
+   * Within a bucket, full-price rows (buy IS NOT NULL) are preferred over altin.in
+   * sell-only rows so one bucket never mixes mid and sell prices.
+   */
+  private async upsertTier(tier: RollupTier, where: SQL, onConflict: 'update' | 'ignore' = 'update'): Promise<number> {
+    const { table, interval } = TIERS[tier];
+
+    const conflictAction = onConflict === 'ignore'
+      ? sql`DO NOTHING`
+      : sql`DO UPDATE SET
+        open = EXCLUDED.open,
+        high = EXCLUDED.high,
+        low = EXCLUDED.low,
+        close = EXCLUDED.close,
+        buy_close = EXCLUDED.buy_close,
+        sell_close = EXCLUDED.sell_close,
+        sample_count = EXCLUDED.sample_count,
+        full_price = EXCLUDED.full_price,
+        updated_at = NOW()`;
+
+    const result = await db.execute(sql`
+      INSERT INTO ${table} (instrument_id, bucket_ts, open, high, low, close, buy_close, sell_close, sample_count, full_price, updated_at)
+      SELECT
+        instrument_id,
+        bucket,
+        (array_agg(price ORDER BY ts ASC) FILTER (WHERE preferred))[1],
+        MAX(price) FILTER (WHERE preferred),
+        MIN(price) FILTER (WHERE preferred),
+        (array_agg(price ORDER BY ts DESC) FILTER (WHERE preferred))[1],
+        (array_agg(buy ORDER BY ts DESC) FILTER (WHERE preferred AND buy IS NOT NULL))[1],
+        (array_agg(sell ORDER BY ts DESC) FILTER (WHERE preferred AND sell IS NOT NULL))[1],
+        COUNT(*) FILTER (WHERE preferred),
+        bool_or(buy IS NOT NULL),
+        NOW()
+      FROM (
+        SELECT
+          instrument_id, ts, price, buy, sell, bucket,
+          buy IS NOT NULL OR NOT bool_or(buy IS NOT NULL) OVER (PARTITION BY instrument_id, bucket) AS preferred
+        FROM (
+          SELECT instrument_id, ts, price, buy, sell, ${bucketExpression(interval)} AS bucket
+          FROM ${quotes}
+          WHERE ${where}
+        ) raw
+      ) q
+      GROUP BY instrument_id, bucket
+      ON CONFLICT (instrument_id, bucket_ts) ${conflictAction}
+    `);
+
+    return result.count ?? 0;
+  }
+}
@@ -31,6 +31,10 @@ export type ApiInstrument = {
   code: string;
   quoteCurrency: string;
   unit?: string;
+  fineWeightGrams: number | null; // pure metal per unit
+  fineness: number | null; // millesimal (916 = 22 ayar)
+  troyOunces: number | null;
+  displayPrecision: number;
   sortOrder: number;
 };
 
@@ -1,9 +1,22 @@
 import cron from 'node-cron';
 import { RefreshService } from '../services/refresh.service';
+import { AlertEvaluationService } from '../services/alert-evaluation.service';
+import { RetentionService } from '../services/retention.service';
+import { PortfolioHistoryService } from '../services/portfolio-history.service';
+import { CpiService } from '../services/cpi.service';
+import { GoalService } from '../services/goal.service';
+import { EvdsService } from '../services/data-sources/evds.service';
 import { cacheService } from '../services/cache.service';
 import { logger } from './logger';
+import { config } from '../config';
 
 const refreshService = new RefreshService();
+const alertEvaluationService = new AlertEvaluationService();
+const retentionService = new RetentionService();
+const portfolioHistoryService = new PortfolioHistoryService();
+const cpiService = new CpiService();
+const goalService = new GoalService();
+const evdsService = new EvdsService();
 
 /**
  * Initialize background cron jobs for data refresh
@@ -33,6 +46,62 @@ export function initScheduler() {
     }
   });
 
+  // Scheduled price alerts: every minute, matched against Istanbul "HH:mm"
+  cron.schedule('* * * * *', async () => {
+    try {
+      await alertEvaluationService.evaluateScheduled(new Date());
+    } catch (error) {
+      logger.error({ err: error }, 'Scheduled alert evaluation failed');
+    }
+  });
+
+  // Quote retention: nightly compaction of old raw ticks
+  if (config.retention.enabled) {
+    cron.schedule(config.retention.cron, async () => {
+      logger.info('Running quote retention...');
+      try {
+        await retentionService.run();
+      } catch (error) {
+        logger.error({ err: error }, 'Quote retention failed');
+      }
+    }, { timezone: 'Europe/Istanbul' });
+  }
+
+  // Portfolio snapshots: persist yesterday's end-of-day values
+  if (config.portfolioSnapshots.enabled) {
+    cron.schedule(config.portfolioSnapshots.cron, async () => {
+      logger.info('Running portfolio snapshots...');
+      try {
+        await portfolioHistoryService.snapshotAll();
+      } catch (error) {
+        logger.error({ err: error }, 'Portfolio snapshots failed');
+      }
+    }, { timezone: 'Europe/Istanbul' });
+  }
+
+  // Savings goals: push newly reached 25/50/75/100% milestones
+  if (config.goals.milestonesEnabled) {
+    cron.schedule(config.goals.milestonesCron, async () => {
+      try {
+        await goalService.checkMilestones();
+      } catch (error) {
+        logger.error({ err: error }, 'Goal milestone check failed');
+      }
+    }, { timezone: 'Europe/Istanbul' });
+  }
+
+  // TÜFE index: monthly sync from EVDS (only when a key or fixture is configured)
+  if (evdsService.isConfigured) {
+    cron.schedule(config.cpi.cron, async () => {
+      logger.info('Running CPI sync...');
+      try {
+        await cpiService.upsert(await evdsService.fetchCpi(), 'evds');
+      } catch (error) {
+        logger.error({ err: error }, 'CPI sync failed');
+      }
+    }, { timezone: 'Europe/Istanbul' });
+  }
+
   // Cache cleanup: Every hour
   cron.schedule('0 * * * *', () => {
     logger.info('Running cache cleanup...');